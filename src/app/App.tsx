@@ -2,6 +2,11 @@ import { useState, useMemo, useEffect, useRef, useCallback } from "react";
 import type {
   ArchitectureData,
   ComponentNode,
+  ComponentStatus,
+  Connection,
+  CustomFieldDef,
+  NodeGroup,
+  StatusWorkflow,
   Tag,
 } from "./types/architecture";
 import { initialArchitectureData } from "./data/initialArchitecture";
@@ -12,12 +17,102 @@ import { DiagramViewer } from "./components/DiagramViewer";
 import { RoadmapViewer } from "./components/RoadmapViewer";
 import { ExecutiveTimeline } from "./components/ExecutiveTimeline";
 import { Button } from "./components/ui/button";
-import { Link, Plus, Download, Upload, PlusCircle, RefreshCw, LogOut, Users } from "lucide-react";
+import { Link, Plus, Download, Upload, ClipboardPaste, FileJson, FileCode, FileSpreadsheet, ListPlus, ListChecks, PlusCircle, RefreshCw, LogOut, Users, Network, ArrowDown, ArrowRight, Command, Keyboard, Waypoints, Workflow, History, X } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./components/ui/dropdown-menu";
 import { AddArrowDialog } from "./components/AddArrowDialog";
 import { AddNodeDialog } from "./components/AddNodeDialog";
 import { UnlockScreen } from "./components/UnlockScreen";
 import { UserManagementPanel } from "./components/UserManagementPanel";
-import { supabase } from "./supabaseClient";
+import { Minimap } from "./components/Minimap";
+import { ViewportControls } from "./components/ViewportControls";
+import { SelectionToolbar } from "./components/SelectionToolbar";
+import { GroupContainer } from "./components/GroupContainer";
+import { GroupSummaryNode } from "./components/GroupSummaryNode";
+import { GroupDialog } from "./components/GroupDialog";
+import { HistoryControls } from "./components/HistoryControls";
+import { CommandPalette, type PaletteCommand } from "./components/CommandPalette";
+import { ShortcutsOverlay } from "./components/ShortcutsOverlay";
+import { GlobalSearch } from "./components/GlobalSearch";
+import { VersionHistoryPanel } from "./components/VersionHistoryPanel";
+import { ImpactPanel } from "./components/ImpactPanel";
+import { ImportReportDialog, type ImportReport } from "./components/ImportReportDialog";
+import { ImportWizard, type PendingImport } from "./components/ImportWizard";
+import { PasteDiagramDialog } from "./components/PasteDiagramDialog";
+import { CustomFieldsDialog } from "./components/CustomFieldsDialog";
+import { StatusWorkflowDialog } from "./components/StatusWorkflowDialog";
+import { MyTasksDialog } from "./components/MyTasksDialog";
+import { useViewport } from "./hooks/useViewport";
+import { useAnimatedPositions } from "./hooks/useAnimatedPositions";
+import { useNodeSizes } from "./hooks/useNodeSizes";
+import { useHistory } from "./hooks/useHistory";
+import { useActivityRecorder } from "./hooks/useNodeActivity";
+import { peersByField, peersByNode, uniquePeers, usePresence } from "./hooks/usePresence";
+import { formatShortcut, useKeyboardShortcuts, type Shortcut } from "./hooks/useKeyboardShortcuts";
+import { ESTIMATED_NODE_SIZE, nodeRect, unionRects, type Point, type Rect } from "./utils/viewport";
+import {
+  assignMembers,
+  collapsedMembership,
+  generateGroupId,
+  groupBounds,
+  patchGroups,
+  remapConnections,
+} from "./utils/groups";
+import { alignRects, distributeRects, type AlignCommand, type DistributeAxis } from "./utils/alignment";
+import { parallelEdgeOffsets, routeEdge, type RoutedEdge, type RoutingStyle } from "./utils/edgeRouting";
+import { computeLayeredLayout, type LayoutDirection } from "./utils/autoLayout";
+import { CONNECTION_TYPES, CONNECTION_TYPE_STYLES, generateConnectionId, normalizeConnections } from "./utils/connections";
+import type { NodeSearchHit, SearchFocus } from "./utils/search";
+import { computeBlockedBy, computeImpact, isImpactEdge } from "./utils/impact";
+import type { DocumentSnapshot } from "./utils/versionDiff";
+import {
+  CLIENT_ID,
+  applyRowChange,
+  deleteComponent,
+  deleteOwnComponent,
+  deleteRows,
+  fetchComponentRevisions,
+  fetchDocument,
+  insertActivity,
+  replaceDocument,
+  saveComponents,
+  subscribeToDocument,
+  upsertRows,
+  type DocumentSubscription,
+  type PresenceState,
+  type RowChange,
+  type WriteOutcome,
+} from "./utils/architectureStore";
+import { SCHEMA_VERSION, loadDocument, toExportFile } from "./utils/documentSchema";
+import { invertImportPlan, type ImportPlan } from "./utils/importPlan";
+import { DIAGRAM_FORMATS, exportDiagram, type DiagramFormat } from "./utils/diagramExport";
+import { cycleTimeSummary, initialTransition, statusWorkflowOf, transitionUpdates } from "./utils/statusWorkflow";
+import { fieldValue, matchesFieldFilter, type CustomFieldFilter } from "./utils/customFields";
+import { toComponentsCsv } from "./utils/csvExport";
+import { tasksAssignedTo, toggleTaskUpdates } from "./utils/tasks";
+import {
+  countChanges,
+  describeMutation,
+  enqueueMutation,
+  queuedNodeIds,
+  readQueue,
+  recordFailedReplay,
+  removeEntry,
+  setReplaying,
+  type QueuedBase,
+  type QueuedMutation,
+} from "./utils/offlineQueue";
+import {
+  applyRemoteFields,
+  mergeNode,
+  withNodeConflicts,
+  type FieldConflict,
+  type NodeConflicts,
+} from "./utils/nodeMerge";
 import { useAuth } from "./auth/useAuth";
 
 // DEBUG flag: append ?debug=1 to URL for verbose save/sync logs
@@ -28,56 +123,49 @@ const dbg = (...args: unknown[]) => { if (DEBUG_SAVE) console.log("[SAVE-DEBUG]"
 
 const STORAGE_KEY = "architecture-data";
 const CONNECTIONS_KEY = "architecture-connections";
+const ROUTING_STYLE_KEY = "architecture-routing-style";
+const BATCH_TIMER_KEY = "batch"; // nodeDebounceTimers key for the shared batched save
 
-interface Connection {
-  from: string;
-  to: string;
-}
-
-// Parse dates in loaded data
-function parseDates(data: ArchitectureData): ArchitectureData {
-  if (!data || !data.components) return initialArchitectureData;
-  return {
-    ...data,
-    components: data.components.map((c) => ({
-      ...c,
-      lastUpdated: new Date(c.lastUpdated),
-      comments: c.comments?.map((comment) => ({
-        ...comment,
-        timestamp: new Date(comment.timestamp),
-      })) || [],
-    })),
-    milestones: data.milestones?.map((m) => ({
-      ...m,
-      createdAt: new Date(m.createdAt),
-    })) || [],
-    tags: data.tags || [],
-  };
-}
-
-// Load data from localStorage as fallback
-function loadLocalData(): ArchitectureData {
+// The localStorage copy (offline fallback), through the same versioned loader
+// as file imports. Caches written before schema versioning hold the bare
+// ArchitectureData under STORAGE_KEY.
+function loadLocalSnapshot(): DocumentSnapshot | null {
   try {
     const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      return parseDates(JSON.parse(saved));
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    const savedConnections = localStorage.getItem(CONNECTIONS_KEY);
+    const result = loadDocument({
+      ...(parsed && typeof parsed.schemaVersion === "number" ? parsed : { data: parsed }),
+      connections: savedConnections ? JSON.parse(savedConnections) : [],
+    }, { strict: false });
+    if (!result.ok) {
+      console.error("Ignoring saved data:", result.issues);
+      return null;
     }
+    if (result.issues.length > 0) console.warn("Saved data had problems; loaded the rest:", result.issues);
+    return result.snapshot;
   } catch (e) {
     console.error("Failed to load saved data:", e);
+    return null;
   }
-  return initialArchitectureData;
+}
+
+function loadLocalData(): ArchitectureData {
+  return loadLocalSnapshot()?.data ?? initialArchitectureData;
+}
+
+// Current values of the given fields — the "before" side of an undo step
+function pickFields(node: ComponentNode, fields: string[]): Partial<ComponentNode> {
+  return Object.fromEntries(
+    fields.map((f) => [f, node[f as keyof ComponentNode]])
+  ) as Partial<ComponentNode>;
 }
 
 function loadLocalConnections(): Connection[] {
-  try {
-    const saved = localStorage.getItem(CONNECTIONS_KEY);
-    if (saved) {
-      return JSON.parse(saved);
-    }
-  } catch (e) {
-    console.error("Failed to load connections:", e);
-  }
-  return [
+  const snapshot = localStorage.getItem(CONNECTIONS_KEY) ? loadLocalSnapshot() : null;
+  if (snapshot) return snapshot.connections;
+  return normalizeConnections([
     { from: "company-profile", to: "data-loader" },
     { from: "predefined-scenarios", to: "data-loader" },
     { from: "data-loader", to: "scenario-bundles" },
@@ -92,7 +180,7 @@ function loadLocalConnections(): Connection[] {
     { from: "strategy-agent", to: "all-items-combined" },
     { from: "all-items-combined", to: "policy-checker" },
     { from: "policy-checker", to: "json-output" },
-  ];
+  ]);
 }
 
 export default function App() {
@@ -113,31 +201,97 @@ export default function App() {
   const isAuthenticated = fullyAuthed;
 
   const [showUserManagement, setShowUserManagement] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [showPasteDiagram, setShowPasteDiagram] = useState(false);
+  const [showCustomFields, setShowCustomFields] = useState(false);
+  const [showStatusWorkflow, setShowStatusWorkflow] = useState(false);
+  const [showMyTasks, setShowMyTasks] = useState(false);
 
   const [data, setData] = useState<ArchitectureData>(loadLocalData);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [activeFilterTags, setActiveFilterTags] = useState<string[]>([]);
   const [activeMilestone, setActiveMilestone] = useState<string | null>(null);
+  const [fieldFilter, setFieldFilter] = useState<CustomFieldFilter | null>(null);
   const [showDiagram, setShowDiagram] = useState(false);
   const [showRoadmap, setShowRoadmap] = useState(false);
   const [showTimeline, setShowTimeline] = useState(false);
+  // Global search picks: what the detail panel should reveal, and which
+  // timeline item the Executive Timeline should open
+  const [searchFocus, setSearchFocus] = useState<SearchFocus | null>(null);
+  const [timelineFocusId, setTimelineFocusId] = useState<string | null>(null);
   const [connections, setConnections] = useState<Connection[]>(loadLocalConnections);
   const [connectionMode, setConnectionMode] = useState(false);
   const [connectionStart, setConnectionStart] = useState<string | null>(null);
-  const [draggedNode, setDraggedNode] = useState<string | null>(null);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  // Impact mode: trace the selected node's upstream / downstream, dim the rest
+  const [impactMode, setImpactMode] = useState(false);
+  // Canvas multi-selection (shift-click / shift-drag rubber band). The detail
+  // panel still follows selectedNodeId, which a plain click sets alongside it.
+  const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(() => new Set());
+  // Active node drag: pointer start + start position of every node being moved
+  const [dragState, setDragState] = useState<{ pointer: Point; origins: Map<string, Point> } | null>(null);
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point } | null>(null);
+  const marqueeStartRef = useRef<Point | null>(null);
+  const canvasPointerDownRef = useRef<Point | null>(null);
   const [showAddArrow, setShowAddArrow] = useState(false);
+  const [editingConnection, setEditingConnection] = useState<Connection | null>(null);
+  // Group dialog: creating from the current selection, or editing an existing group
+  const [groupDialog, setGroupDialog] = useState<
+    { mode: "create"; memberIds: string[] } | { mode: "edit"; group: NodeGroup } | null
+  >(null);
   const [showAddNode, setShowAddNode] = useState(false);
   const [saveStatus, setSaveStatus] = useState<"saved" | "saving" | "synced" | "offline" | "realtime" | "">("");
   const [isLoading, setIsLoading] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
   const connectionsSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isInitialLoad = useRef(true);
   const dirtyNodeIdsRef = useRef<Set<string>>(new Set()); // Track which nodes are being edited (for selective merge)
-  const lastSaveTimestampRef = useRef<string | null>(null); // Track our last save to dedupe echoes
   const savePendingRef = useRef(false); // True while a debounced save is in-flight
+  const savingNodeIdsRef = useRef<Set<string>>(new Set()); // Nodes whose row upsert is in flight
+  // Last known server copy of each arrow (id → JSON) — saveConnections writes only the difference
+  const savedConnectionsRef = useRef<Map<string, string>>(new Map());
+  // Server copy + revision each node's local edits are based on (three-way merge base)
+  const nodeBasesRef = useRef<Map<string, { node: ComponentNode; revision: number }>>(new Map());
+  // Fields two people changed at once, waiting for a pick in the DetailPanel
+  const [nodeConflicts, setNodeConflicts] = useState<NodeConflicts>(() => new Map());
+  const nodeConflictsRef = useRef(nodeConflicts);
+  nodeConflictsRef.current = nodeConflicts;
+  // Live presence: the realtime channel (for tracking), who else is here, and
+  // which field of the open node this tab is editing
+  const [documentSubscription, setDocumentSubscription] = useState<DocumentSubscription | null>(null);
+  const [peers, setPeers] = useState<PresenceState[]>([]);
+  const [myEditing, setMyEditing] = useState<{ nodeId: string; field: string | null } | null>(null);
+  // Writes waiting in the IndexedDB offline queue (utils/offlineQueue.ts):
+  // pending-change count for the header, entry count (non-zero = new writes
+  // queue up behind it), nodes it holds, and the replay in progress
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const queueLengthRef = useRef(0);
+  const queuedNodeIdsRef = useRef<Set<string>>(new Set());
+  const flushingRef = useRef<Promise<boolean> | null>(null);
+  const flushQueueRef = useRef<() => Promise<boolean>>(async () => true); // set once flushQueue exists
+  const resyncRef = useRef<() => void>(() => {}); // full reload, set by the load effect
+  // Sync problems the user needs to know about (a change discarded or not kept,
+  // a restore held back) — shown until dismissed
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
   // Per-node debounce timers for patch saves (nodeId → timeout handle)
   const nodeDebounceTimers = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  // Nodes waiting for the next batched patch-save (see handleUpdateNodes)
+  const pendingBatchRef = useRef<Map<string, ComponentNode>>(new Map());
+
+  // ===== Undo / redo =====
+  // Handlers record their inverse as they run; the refs give those handlers the
+  // latest values without re-creating every callback on each render.
+  const { past: historyPast, future: historyFuture, record: recordHistory, undo, redo, jumpTo } = useHistory();
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const connectionsRef = useRef(connections);
+  connectionsRef.current = connections;
+  const nodeName = (nodeId: string) =>
+    dataRef.current.components.find((c) => c.id === nodeId)?.name ?? nodeId;
 
   // ===== Resizable Detail Panel state =====
   const PANEL_MIN_WIDTH = 320;
@@ -147,6 +301,35 @@ export default function App() {
   const resizeStartX = useRef(0);
   const resizeStartWidth = useRef(500);
 
+  // ===== Canvas viewport (pan / zoom) — node positions stay in world coordinates =====
+  const {
+    canvasRef,
+    viewport,
+    containerSize,
+    isPanning,
+    startPan,
+    toWorld,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitTo,
+    panTo,
+  } = useViewport();
+  const animateTo = useAnimatedPositions(setData);
+
+  // Measured node boxes (world units) — drive edge routing, fit-to-content and layout spacing
+  const { nodeSizes, measureRef } = useNodeSizes();
+  const getNodeRect = useCallback(
+    (node: ComponentNode) => nodeRect(node, nodeSizes.get(node.id)),
+    [nodeSizes]
+  );
+  const [routingStyle, setRoutingStyle] = useState<RoutingStyle>(
+    () => (localStorage.getItem(ROUTING_STYLE_KEY) === "orthogonal" ? "orthogonal" : "curved")
+  );
+  useEffect(() => {
+    localStorage.setItem(ROUTING_STYLE_KEY, routingStyle);
+  }, [routingStyle]);
+
   const handleResizeStart = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -184,20 +367,28 @@ export default function App() {
     };
   }, [isResizing]);
 
-  // Echo dedup helper: tolerates small timestamp differences from server normalization
-  const isOwnEcho = useCallback((incomingTimestamp: string) => {
-    if (!lastSaveTimestampRef.current) return false;
-    const diff = Math.abs(
-      new Date(incomingTimestamp).getTime() -
-      new Date(lastSaveTimestampRef.current).getTime()
-    );
-    return diff < 100; // 100ms tolerance
+  // A node whose local copy wins over incoming remote rows: being edited,
+  // waiting in a debounce / batch / the offline queue, or mid-save
+  const isNodeHeldLocally = useCallback((nodeId: string) =>
+    dirtyNodeIdsRef.current.has(nodeId) ||
+    nodeDebounceTimers.current.has(nodeId) ||
+    pendingBatchRef.current.has(nodeId) ||
+    queuedNodeIdsRef.current.has(nodeId) ||
+    savingNodeIdsRef.current.has(nodeId),
+  []);
+
+  // Incoming server copy of a held node: take the other side's changes to
+  // fields we haven't touched. Our own changes are merged when they're saved,
+  // so the base stays where it was.
+  const rebaseHeldNode = useCallback((local: ComponentNode, incoming: ComponentNode) => {
+    const base = nodeBasesRef.current.get(local.id);
+    return base ? applyRemoteFields(local, base.node, incoming) : local;
   }, []);
 
   // Write localStorage immediately on every data change (not debounced) — protects against tab close
   useEffect(() => {
     if (isInitialLoad.current) return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ schemaVersion: SCHEMA_VERSION, data }));
     localStorage.setItem(CONNECTIONS_KEY, JSON.stringify(connections));
   }, [data, connections]);
 
@@ -212,7 +403,7 @@ export default function App() {
     return () => window.removeEventListener('beforeunload', handler);
   }, []);
 
-  // Load from Supabase on startup + subscribe to real-time updates
+  // Load from Supabase on startup + subscribe to row-level real-time updates
   useEffect(() => {
     // If auth resolved but user is not authenticated, stop the loading spinner
     if (!isAuthenticated) {
@@ -220,68 +411,52 @@ export default function App() {
       return;
     }
 
-    let lastUpdatedAt: string | null = null;
+    let cancelled = false;
+    let realtimeConnected = false;
+    let lastSignature = "";
 
-    // Fetch initial data
+    // Full load of every table: on startup, and as a catch-up whenever the
+    // realtime channel (re)connects or is down
     const fetchData = async (isPolling = false) => {
       try {
-        const { data: row, error } = await supabase
-          .from("architecture_data")
-          .select("*")
-          .eq("id", "main")
-          .single();
-
-        if (error) {
-          console.error("Supabase fetch error:", error);
-          if (!isPolling) setIsLoading(false);
-          return;
-        }
-
-        if (row && row.data && Object.keys(row.data).length > 0) {
+        // Writes made offline go out first, so the document we fetch has them
+        await flushQueueRef.current();
+        const doc = await fetchDocument();
+        if (cancelled) return;
+
+        if (doc.empty) {
+          // First time - seed the tables with the initial diagram
+          await replaceDocument({ data: initialArchitectureData, connections: loadLocalConnections() });
+        } else {
           // Skip if a local save is pending — don't overwrite optimistic state
-          if (isPolling && savePendingRef.current) {
-            return;
-          }
+          if (isPolling && savePendingRef.current) return;
 
-          // Dedupe: skip if this is our own echo (we just saved this)
-          if (isOwnEcho(row.updated_at)) {
-            console.log("Skipping poll - this is our own echo");
-            dbg("POLL skipped (own echo). row.updated_at=", row.updated_at, "lastSave=", lastSaveTimestampRef.current);
-            return;
-          }
-          dbg("Poll applying remote data. updated_at=", row.updated_at,
-              "| savePending=", savePendingRef.current,
-              "| dirtyNodes=", [...dirtyNodeIdsRef.current]);
-
-          // Only update if data has changed (for polling)
-          if (isPolling && row.updated_at === lastUpdatedAt) {
-            return; // No changes
-          }
-
-          lastUpdatedAt = row.updated_at;
-
-          // Row-level merge: preserve all dirty (being-edited) nodes locally
-          const incomingData = parseDates(row.data as ArchitectureData);
-          const dirtyIds = dirtyNodeIdsRef.current;
+          // Only update if something changed (for polling)
+          const signature = JSON.stringify([doc.data, doc.connections]);
+          if (isPolling && signature === lastSignature) return;
+          lastSignature = signature;
 
-          if (dirtyIds.size > 0) {
-            // Merge: keep our local version of dirty nodes, take remote for everything else
-            setData(prev => ({
-              ...incomingData,
-              components: incomingData.components.map(incoming => {
-                if (dirtyIds.has(incoming.id)) {
-                  const local = prev.components.find(c => c.id === incoming.id);
-                  return local || incoming;
-                }
-                return incoming;
-              }),
-            }));
-          } else {
-            // No active edits - safe to replace everything
-            setData(incomingData);
-          }
+          dbg("Applying full document. components=", doc.data.components.length,
+              "| dirtyNodes=", [...dirtyNodeIdsRef.current]);
 
-          setConnections(row.connections as Connection[] || loadLocalConnections());
+          // Keep our local edits to every node being edited or saved. A node
+          // still in the offline queue keeps the base its queued edit came from.
+          const bases = nodeBasesRef.current;
+          doc.data.components.forEach(incoming => {
+            if (queuedNodeIdsRef.current.has(incoming.id)) return;
+            if (!isNodeHeldLocally(incoming.id) || !bases.has(incoming.id)) {
+              bases.set(incoming.id, { node: incoming, revision: doc.revisions.get(incoming.id) ?? 1 });
+            }
+          });
+          setData(prev => ({
+            ...doc.data,
+            components: doc.data.components.map(incoming => {
+              const local = isNodeHeldLocally(incoming.id) && prev.components.find(c => c.id === incoming.id);
+              return local ? rebaseHeldNode(local, incoming) : incoming;
+            }),
+          }));
+          savedConnectionsRef.current = new Map(doc.connections.map(c => [c.id, JSON.stringify(c)]));
+          setConnections(doc.connections);
 
           if (isPolling) {
             setSaveStatus("realtime");
@@ -289,16 +464,6 @@ export default function App() {
           } else {
             setSaveStatus("synced");
           }
-        } else {
-          // First time - save initial data to Supabase
-          await supabase
-            .from("architecture_data")
-            .upsert({
-              id: "main",
-              data: initialArchitectureData,
-              connections: loadLocalConnections(),
-              updated_at: new Date().toISOString(),
-            });
         }
       } catch (e) {
         console.error("Failed to fetch from Supabase:", e);
@@ -309,231 +474,372 @@ export default function App() {
       }
     };
 
-    fetchData();
-
-    // Subscribe to real-time changes
-    const channel = supabase
-      .channel("architecture_changes")
-      .on(
-        "postgres_changes",
-        {
-          event: "*", // Listen to all events: INSERT, UPDATE, DELETE
-          schema: "public",
-          table: "architecture_data",
-        },
-        (payload) => {
-          console.log("Real-time update received:", payload);
-
-          if (payload.eventType === "UPDATE" || payload.eventType === "INSERT") {
-            const newRow = payload.new as { data: ArchitectureData; connections: Connection[]; updated_at: string };
-
-            dbg("Realtime event received. updated_at=", newRow.updated_at,
-                "| savePending=", savePendingRef.current,
-                "| dirtyNodes=", [...dirtyNodeIdsRef.current]);
-
-            // Skip if a local save is pending — don't overwrite optimistic state
-            if (savePendingRef.current) {
-              console.log("Skipping realtime — save pending");
-              dbg("SKIPPED realtime (save pending)");
-              return;
-            }
-
-            // Dedupe: skip if this is our own echo
-            if (isOwnEcho(newRow.updated_at)) {
-              console.log("Skipping realtime - this is our own echo");
-              dbg("SKIPPED realtime (own echo). lastSave=", lastSaveTimestampRef.current);
-              return;
-            }
-
-            dbg("Applying realtime update from another client. dirty=", [...dirtyNodeIdsRef.current]);
-
-            const incomingData = parseDates(newRow.data);
-            const dirtyIds = dirtyNodeIdsRef.current;
-
-            if (dirtyIds.size > 0) {
-              // Row-level merge: keep our local version of all dirty nodes
-              dbg("Merging — preserving dirty nodes:", [...dirtyIds]);
-              setData(prev => ({
-                ...incomingData,
-                components: incomingData.components.map(incoming => {
-                  if (dirtyIds.has(incoming.id)) {
-                    const local = prev.components.find(c => c.id === incoming.id);
-                    return local || incoming;
-                  }
-                  return incoming;
-                }),
-              }));
-            } else {
-              // No active edits - safe to replace everything
-              setData(incomingData);
-            }
-
-            if (newRow.connections) {
-              setConnections(newRow.connections);
-            }
-            setSaveStatus("realtime");
-            setTimeout(() => setSaveStatus(""), 2000);
+    // One row changed on another client — patch just that item into state
+    const applyChange = (change: RowChange) => {
+      dbg("Realtime row", change.kind, change.type, change.type === "upsert" ? change.entity.id : change.id);
+
+      switch (change.kind) {
+        case "components": {
+          const c = change;
+          if (c.type === "delete") {
+            nodeBasesRef.current.delete(c.id);
+          } else if (isNodeHeldLocally(c.entity.id)) {
+            dbg("Merging realtime into held node", c.entity.id);
+            const incoming = c.entity;
+            setData(prev => ({
+              ...prev,
+              components: prev.components.map(n => (n.id === incoming.id ? rebaseHeldNode(n, incoming) : n)),
+            }));
+            break;
+          } else {
+            nodeBasesRef.current.set(c.entity.id, { node: c.entity, revision: c.meta.revision ?? 1 });
           }
+          setData(prev => ({ ...prev, components: applyRowChange(prev.components, c) }));
+          break;
         }
-      )
-      .subscribe((status) => {
-        console.log("Realtime subscription status:", status);
-        if (status === "SUBSCRIBED") {
-          console.log("✅ Real-time is connected!");
+        case "connections": {
+          const c = change;
+          if (c.type === "upsert") savedConnectionsRef.current.set(c.entity.id, JSON.stringify(c.entity));
+          else savedConnectionsRef.current.delete(c.id);
+          setConnections(prev => applyRowChange(prev, c));
+          break;
         }
-      });
+        case "tags": {
+          const c = change;
+          setData(prev => ({ ...prev, tags: applyRowChange(prev.tags, c) }));
+          break;
+        }
+        case "milestones": {
+          const c = change;
+          setData(prev => ({ ...prev, milestones: applyRowChange(prev.milestones, c) }));
+          break;
+        }
+        case "groups": {
+          const c = change;
+          setData(prev => ({ ...prev, groups: applyRowChange(prev.groups, c) }));
+          break;
+        }
+        case "fieldDefs": {
+          const c = change;
+          setData(prev => ({ ...prev, fieldDefs: applyRowChange(prev.fieldDefs, c) }));
+          break;
+        }
+        case "workflows": {
+          const c = change;
+          setData(prev => ({ ...prev, workflows: applyRowChange(prev.workflows, c) }));
+          break;
+        }
+      }
+      setSaveStatus("realtime");
+      setTimeout(() => setSaveStatus(""), 2000);
+    };
 
-    // Polling fallback - check for updates every 3 seconds
-    // This ensures sync even if realtime websocket has issues
+    fetchData();
+    resyncRef.current = () => { fetchData(); };
+
+    const subscription = subscribeToDocument({
+      onChange: applyChange,
+      onPresence: setPeers,
+      onStatus: (status) => {
+        console.log("Realtime subscription status:", status);
+        const wasConnected = realtimeConnected;
+        realtimeConnected = status === "SUBSCRIBED";
+        // Catch up on anything missed while the channel was down
+        if (realtimeConnected && !wasConnected && !isInitialLoad.current) fetchData(true);
+      },
+    });
+    setDocumentSubscription(subscription);
+
+    // Polling fallback — while the realtime websocket is down, or writes are
+    // still waiting in the offline queue
     const pollInterval = setInterval(() => {
-      fetchData(true);
-    }, 3000);
+      if (!realtimeConnected || queueLengthRef.current > 0) fetchData(true);
+    }, 5000);
+    const handleOnline = () => fetchData(true);
+    window.addEventListener("online", handleOnline);
 
     // Cleanup
     return () => {
-      supabase.removeChannel(channel);
+      cancelled = true;
+      subscription.unsubscribe();
+      setDocumentSubscription(null);
+      setPeers([]);
       clearInterval(pollInterval);
+      window.removeEventListener("online", handleOnline);
     };
-  }, [isAuthenticated]);
-
-  // ─────────────────────────────────────────────────────────────────────────
-  // PATCH-SEMANTICS SAVE — only the changed node is written to Supabase.
-  //
-  // Strategy: fetch the current row → merge at component level (last
-  // lastUpdated wins per node) → write back.  This means two users editing
-  // *different* nodes can never clobber each other.  Two users editing the
-  // *same* node at the same time will still race, but the winner is the one
-  // whose lastUpdated timestamp is later, which is deterministic.
-  // ─────────────────────────────────────────────────────────────────────────
-  const patchSaveNode = useCallback(async (nodeId: string, updatedNode: ComponentNode) => {
-    if (!isAuthenticated || isInitialLoad.current) return;
+  }, [isAuthenticated, isNodeHeldLocally, rebaseHeldNode]);
 
+  // Shared bookkeeping for every save: status badge + the pending flag that
+  // keeps the polling fallback from overwriting optimistic state
+  const trackSave = useCallback(async (label: string, op: () => Promise<WriteOutcome>) => {
+    dbg(`${label} START`);
     setSaveStatus("saving");
     savePendingRef.current = true;
-    dbg("patchSaveNode START", nodeId, updatedNode.lastUpdated);
+    const outcome = await op();
+    savePendingRef.current = false;
+    setSaveStatus(outcome === "ok" ? "synced" : "offline");
+    dbg(`${label} DONE. outcome=`, outcome);
+    setTimeout(() => setSaveStatus(""), 2000);
+    return outcome;
+  }, []);
 
-    let success = false;
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        // 1. Fetch the current canonical document from Supabase
-        const { data: row, error: fetchErr } = await supabase
-          .from("architecture_data")
-          .select("data, connections, updated_at")
-          .eq("id", "main")
-          .single();
-
-        if (fetchErr) {
-          console.error(`patchSaveNode fetch attempt ${attempt + 1} failed:`, fetchErr);
-          dbg("patchSaveNode fetch error", fetchErr);
-          if (attempt < 2) await new Promise(r => setTimeout(r, 1000 * Math.pow(2, attempt)));
-          continue;
-        }
+  // ── Merge conflicts ──
+  const replaceConflicts = useCallback((next: NodeConflicts) => {
+    nodeConflictsRef.current = next; // visible to saves before the next render
+    setNodeConflicts(next);
+  }, []);
 
-        const remote = parseDates(row.data as ArchitectureData);
+  const addConflicts = useCallback((nodeId: string, conflicts: FieldConflict[]) => {
+    const fields = new Set(conflicts.map(c => c.field));
+    const kept = (nodeConflictsRef.current.get(nodeId) ?? []).filter(c => !fields.has(c.field));
+    replaceConflicts(withNodeConflicts(nodeConflictsRef.current, nodeId, [...kept, ...conflicts]));
+  }, [replaceConflicts]);
+
+  // A conflicted field keeps the other side's value on the server until
+  // someone picks a side
+  const pinConflictedFields = (node: ComponentNode): ComponentNode => {
+    const open = nodeConflictsRef.current.get(node.id);
+    if (!open) return node;
+    return { ...node, ...Object.fromEntries(open.map(c => [c.field, c.theirs])) };
+  };
 
-        // 2. Component-level merge: for each component, keep whichever version
-        //    has the later lastUpdated.  Our updated node always wins for itself.
-        const mergedComponents = remote.components.map(remoteComp => {
-          if (remoteComp.id === nodeId) {
-            // Always prefer our local edit for the node we just saved
-            return updatedNode;
-          }
-          return remoteComp;
-        });
+  // ─────────────────────────────────────────────────────────────────────────
+  // ROW-LEVEL SAVES — every node, arrow, tag and group is its own row (see
+  // utils/architectureStore.ts), so a save writes only the rows it changed.
+  // Two users editing *different* nodes never touch the same row.
+  //
+  // Nodes are saved against the revision the edit started from. If someone
+  // else saved the node meanwhile, the server hands back its copy and we
+  // three-way merge field by field (utils/nodeMerge.ts): fields only one side
+  // changed merge silently, fields both changed become conflicts for the
+  // DetailPanel prompt, and the merged node is saved again.
+  //
+  // Several nodes changed by one gesture (group move, align, distribute) go
+  // out as one request.
+  // ─────────────────────────────────────────────────────────────────────────
+  //
+  // Every write goes out through commitMutation as a QueuedMutation: straight
+  // to Supabase while nothing is waiting, otherwise — or when it fails — into
+  // the IndexedDB offline queue (utils/offlineQueue.ts), replayed in order by
+  // flushQueue when the connection returns. A write the server refuses
+  // outright (403, invalid row) is never queued: it's discarded, the user is
+  // told which change, and the map reloads from the server.
+  // ─────────────────────────────────────────────────────────────────────────
 
-        // Handle the case where the node doesn't exist in remote yet (new node)
-        const exists = remote.components.some(c => c.id === nodeId);
-        if (!exists) mergedComponents.push(updatedNode);
-
-        const saveTimestamp = new Date().toISOString();
-        lastSaveTimestampRef.current = saveTimestamp;
-
-        const mergedData: ArchitectureData = {
-          ...remote,
-          components: mergedComponents,
-        };
-
-        dbg("patchSaveNode writing merge. nodeId=", nodeId,
-            "remote components=", remote.components.length,
-            "merged components=", mergedComponents.length,
-            "ts=", saveTimestamp);
-
-        // 3. Write the merged document back
-        const { error: writeErr } = await supabase
-          .from("architecture_data")
-          .upsert({
-            id: "main",
-            data: mergedData,
-            connections: row.connections,  // preserve connections as-is
-            updated_at: saveTimestamp,
-          });
+  // Compare-and-swap rounds for some nodes. `bases` supplies the revision each
+  // node is saved against and receives the new ones. Resolves to "retry" when
+  // nodes are still unsaved (connection lost, or still contended after three
+  // rounds), "rejected" when the server refused them.
+  const casSaveNodes = useCallback(async (nodes: ComponentNode[], bases: Map<string, QueuedBase>): Promise<WriteOutcome> => {
+    let pending = nodes.map(pinConflictedFields);
+    for (let round = 0; round < 3 && pending.length > 0; round++) {
+      const result = await saveComponents(
+        pending.map(node => ({ node, baseRevision: bases.get(node.id)?.revision ?? null }))
+      );
+      if (typeof result === "string") return result;
 
-        if (!writeErr) {
-          success = true;
-          // Keep local state in sync with what we actually persisted
-          setData(prev => ({
-            ...prev,
-            components: prev.components.map(c =>
-              c.id === nodeId ? updatedNode : c
-            ),
-          }));
-          dbg("patchSaveNode succeeded attempt", attempt + 1);
-          break;
+      const sent = new Map(pending.map(n => [n.id, n]));
+      result.saved.forEach(({ id, revision }) => bases.set(id, { node: sent.get(id)!, revision }));
+
+      pending = result.stale.flatMap(stale => {
+        if (!stale.node || stale.revision === null) {
+          dbg("casSaveNodes: node deleted meanwhile", stale.id);
+          bases.delete(stale.id);
+          return [];
+        }
+        const mine = sent.get(stale.id)!;
+        const base = bases.get(stale.id)?.node ?? stale.node;
+        const { merged, conflicts } = mergeNode(base, mine, stale.node, stale.updatedBy);
+        bases.set(stale.id, { node: stale.node, revision: stale.revision });
+        dbg("casSaveNodes merged", stale.id, "conflicts=", conflicts.map(c => c.field));
+        if (conflicts.length > 0) addConflicts(stale.id, conflicts);
+
+        // Show the merge without undoing anything typed since `mine` was sent
+        setData(prev => ({
+          ...prev,
+          components: prev.components.map(n => (n.id === stale.id ? applyRemoteFields(n, mine, merged) : n)),
+        }));
+        return [merged];
+      });
+    }
+    return pending.length === 0 ? "ok" : "retry";
+  }, [addConflicts]);
+
+  // Send one mutation to Supabase. "ok" once every row in it is written.
+  const runMutation = useCallback(async (mutation: QueuedMutation): Promise<WriteOutcome> => {
+    switch (mutation.type) {
+      case "save-nodes": {
+        // The live base is newer than the queued one once an earlier replay
+        // (or save) of the same node went through; queued nodes' bases only
+        // move on our own writes
+        const live = nodeBasesRef.current;
+        const bases = new Map<string, QueuedBase>();
+        mutation.saves.forEach(({ node, base }) => {
+          const b = live.get(node.id) ?? base;
+          if (b) bases.set(node.id, b);
+        });
+        const outcome = await casSaveNodes(mutation.saves.map(s => s.node), bases);
+        mutation.saves.forEach(({ node }) => {
+          const b = bases.get(node.id);
+          if (b) live.set(node.id, b);
+          else live.delete(node.id);
+        });
+        return outcome;
+      }
+      case "upsert":
+        return upsertRows(mutation.kind, mutation.items);
+      case "delete":
+        return deleteRows(mutation.kind, mutation.ids);
+      case "delete-node":
+        return deleteComponent(mutation.nodeId);
+      case "delete-own-node":
+        return deleteOwnComponent(mutation.nodeId, mutation.clientId);
+      case "activity":
+        return insertActivity(mutation.rows);
+      case "replace-document": {
+        const { data: restored } = mutation.snapshot;
+        const outcome = await replaceDocument(mutation.snapshot);
+        // Our own writes don't echo back, so re-base every node on what we just wrote
+        const revisions = outcome === "ok" ? await fetchComponentRevisions() : null;
+        if (revisions) {
+          nodeBasesRef.current = new Map(restored.components
+            .filter(n => revisions.has(n.id))
+            .map(n => [n.id, { node: n, revision: revisions.get(n.id)! }]));
         }
+        return outcome;
+      }
+    }
+  }, [casSaveNodes]);
+
+  const refreshQueueState = useCallback(async () => {
+    const entries = await readQueue();
+    queueLengthRef.current = entries.length;
+    queuedNodeIdsRef.current = queuedNodeIds(entries);
+    setPendingChanges(countChanges(entries));
+    return entries;
+  }, []);
 
-        console.error(`patchSaveNode write attempt ${attempt + 1} failed:`, writeErr);
-        dbg("patchSaveNode write error", writeErr);
-      } catch (e) {
-        console.error(`patchSaveNode attempt ${attempt + 1} threw:`, e);
-        dbg("patchSaveNode threw", e);
+  // The server refused a write for good: say which change is gone and reload
+  // the map so it no longer shows it
+  const discardMutation = useCallback((mutation: QueuedMutation) => {
+    setSyncNotice(`The server refused ${describeMutation(mutation)}, so it was discarded and the map was reloaded.`);
+    resyncRef.current();
+  }, []);
+
+  // Write now, or queue behind whatever is already waiting. Resolves to true
+  // when written, false when queued for later or discarded.
+  const commitMutation = useCallback(async (label: string, mutation: QueuedMutation) => {
+    if (queueLengthRef.current === 0 && navigator.onLine) {
+      const outcome = await trackSave(label, () => runMutation(mutation));
+      if (outcome === "ok") return true;
+      if (outcome === "rejected") {
+        discardMutation(mutation);
+        return false;
       }
-      if (attempt < 2) await new Promise(r => setTimeout(r, 1000 * Math.pow(2, attempt)));
     }
+    dbg(`${label} QUEUED`);
+    const queued = await enqueueMutation(mutation);
+    await refreshQueueState();
+    setSaveStatus("offline");
+    if (!queued) {
+      setSyncNotice(`Couldn't send ${describeMutation(mutation)}, and this browser won't store it for later — it will be lost when the page reloads.`);
+    }
+    return false;
+  }, [trackSave, runMutation, refreshQueueState, discardMutation]);
+
+  // Replay the offline queue oldest-first, stopping at the first write that
+  // still fails. Resolves to true once the queue is empty.
+  const flushQueue = useCallback((): Promise<boolean> => {
+    flushingRef.current ??= (async () => {
+      // Re-read before every entry: edits made during the replay may have
+      // folded into entries further down
+      let entries = await refreshQueueState();
+      while (entries.length > 0) {
+        const entry = entries[0];
+        setReplaying(entry.seq);
+        const outcome = await trackSave(`replay #${entry.seq} ${entry.mutation.type}`, () => runMutation(entry.mutation));
+        setReplaying(null);
+        if (outcome === "ok") await removeEntry(entry.seq);
+        else if (await recordFailedReplay(entry, outcome)) {
+          await refreshQueueState();
+          return false;
+        } else {
+          discardMutation(entry.mutation);
+        }
+        entries = await refreshQueueState();
+      }
+      return true;
+    })().finally(() => { flushingRef.current = null; });
+    return flushingRef.current;
+  }, [trackSave, runMutation, refreshQueueState, discardMutation]);
+  flushQueueRef.current = flushQueue;
+
+  // Field-level audit trail (who changed what) — fed by handleUpdateNode, and
+  // written or queued like every other change
+  const recordActivity = useActivityRecorder((rows) => {
+    if (isAuthenticated) commitMutation(`activity +${rows.length}`, { type: "activity", rows });
+  });
+
+  const patchSaveNodes = useCallback(async (updatedNodes: ComponentNode[]) => {
+    if (!isAuthenticated || isInitialLoad.current || updatedNodes.length === 0) return;
+
+    const nodeIds = updatedNodes.map(n => n.id);
+    nodeIds.forEach(id => savingNodeIdsRef.current.add(id));
+    await commitMutation(`patchSaveNodes ${nodeIds.join(",")}`, {
+      type: "save-nodes",
+      saves: updatedNodes.map(node => ({ node, base: nodeBasesRef.current.get(node.id) ?? null })),
+    });
+    nodeIds.forEach(id => savingNodeIdsRef.current.delete(id));
+  }, [isAuthenticated, commitMutation]);
 
-    savePendingRef.current = false;
-    setSaveStatus(success ? "synced" : "offline");
-    dbg("patchSaveNode DONE. success=", success);
-    setTimeout(() => setSaveStatus(""), 2000);
-  }, [isAuthenticated]);
+  const patchSaveNode = useCallback(
+    (updatedNode: ComponentNode) => patchSaveNodes([updatedNode]),
+    [patchSaveNodes]
+  );
 
-  // Connections-only save (connections change rarely — add/delete arrow).
-  // Still a full-doc write but connections are never edited concurrently with
-  // node fields, so the race window is negligible.
+  // Connections save: diff against the server's last known arrows and write
+  // only the ones added, edited or removed
   const saveConnections = useCallback(async (newConnections: Connection[]) => {
     if (!isAuthenticated || isInitialLoad.current) return;
 
-    dbg("saveConnections START, count=", newConnections.length);
-    setSaveStatus("saving");
+    const saved = savedConnectionsRef.current;
+    const changed = newConnections.filter(c => saved.get(c.id) !== JSON.stringify(c));
+    const currentIds = new Set(newConnections.map(c => c.id));
+    const removedIds = [...saved.keys()].filter(id => !currentIds.has(id));
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    // Written or queued, either way these are no longer a difference to send
+    changed.forEach(c => saved.set(c.id, JSON.stringify(c)));
+    removedIds.forEach(id => saved.delete(id));
+    if (changed.length > 0) {
+      await commitMutation(`saveConnections +${changed.length}`, { type: "upsert", kind: "connections", items: changed });
+    }
+    if (removedIds.length > 0) {
+      await commitMutation(`saveConnections -${removedIds.length}`, { type: "delete", kind: "connections", ids: removedIds });
+    }
+  }, [isAuthenticated, commitMutation]);
 
-    try {
-      const { data: row, error: fetchErr } = await supabase
-        .from("architecture_data")
-        .select("data, updated_at")
-        .eq("id", "main")
-        .single();
-
-      if (fetchErr) { console.error("saveConnections fetch failed:", fetchErr); return; }
-
-      const saveTimestamp = new Date().toISOString();
-      lastSaveTimestampRef.current = saveTimestamp;
-
-      const { error } = await supabase
-        .from("architecture_data")
-        .upsert({
-          id: "main",
-          data: row.data,           // preserve node data as-is
-          connections: newConnections,
-          updated_at: saveTimestamp,
-        });
+  // Groups save: upsert the touched groups, delete the removed ones
+  const patchSaveGroups = useCallback(async (changed: NodeGroup[], removedIds: string[] = []) => {
+    if (!isAuthenticated || isInitialLoad.current) return;
 
-      setSaveStatus(error ? "offline" : "synced");
-      dbg("saveConnections done. error=", error);
-    } catch (e) {
-      console.error("saveConnections threw:", e);
-      setSaveStatus("offline");
+    if (changed.length > 0) {
+      await commitMutation(`patchSaveGroups ${changed.map(g => g.id).join(",")}`, { type: "upsert", kind: "groups", items: changed });
     }
-    setTimeout(() => setSaveStatus(""), 2000);
-  }, [isAuthenticated]);
+    if (removedIds.length > 0) {
+      await commitMutation(`patchSaveGroups removed=${removedIds.join(",")}`, { type: "delete", kind: "groups", ids: removedIds });
+    }
+  }, [isAuthenticated, commitMutation]);
+
+  // Whole-document save — only used to restore a version, where replacing
+  // everything is the point: every row is upserted and rows the snapshot
+  // doesn't have are deleted.
+  const saveDocument = useCallback(async (snapshot: DocumentSnapshot) => {
+    if (!isAuthenticated || isInitialLoad.current) return;
+
+    savedConnectionsRef.current = new Map(snapshot.connections.map(c => [c.id, JSON.stringify(c)]));
+    await commitMutation(`saveDocument components=${snapshot.data.components.length}`, { type: "replace-document", snapshot });
+  }, [isAuthenticated, commitMutation]);
 
   // Debounced connections save — fires 800 ms after the last connection change
   useEffect(() => {
@@ -547,24 +853,33 @@ export default function App() {
     };
   }, [connections, isAuthenticated, saveConnections]);
 
-  // Export data as JSON file
-  const handleExport = () => {
-    const exportData = {
-      data,
-      connections,
-      exportedAt: new Date().toISOString(),
-    };
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-      type: "application/json",
-    });
+  const downloadFile = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `architecture-${new Date().toISOString().split("T")[0]}.json`;
+    a.download = `architecture-${new Date().toISOString().split("T")[0]}.${extension}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  // Export data as JSON file (versioned — see utils/documentSchema.ts)
+  const handleExport = () => {
+    const exportData = toExportFile({ data, connections });
+    downloadFile(JSON.stringify(exportData, null, 2), "application/json", "json");
+  };
+
+  // One row per node for spreadsheets, custom fields included (see utils/csvExport.ts)
+  const handleExportCsv = () => {
+    downloadFile(toComponentsCsv(data), "text/csv", "csv");
+  };
+
+  // Export the map as a diagram for docs (see utils/diagramExport.ts)
+  const handleExportDiagram = (format: DiagramFormat) => {
+    const { mimeType, extension } = DIAGRAM_FORMATS[format];
+    downloadFile(exportDiagram(format, { data, connections }), mimeType, extension);
+  };
+
   // Import data from JSON file
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -572,18 +887,27 @@ export default function App() {
 
     const reader = new FileReader();
     reader.onload = (event) => {
+      let imported: unknown;
       try {
-        const imported = JSON.parse(event.target?.result as string);
-        if (imported.data && imported.connections) {
-          setData(parseDates(imported.data));
-          setConnections(imported.connections);
-          alert("Data imported successfully!");
-        } else {
-          alert("Invalid file format");
-        }
+        imported = JSON.parse(event.target?.result as string);
       } catch (err) {
-        alert("Failed to import file");
+        setImportReport({ fileName: file.name, fromVersion: null, issues: [{ path: file.name, message: `is not valid JSON (${(err as Error).message})` }] });
+        return;
       }
+      // Strict: a file with any problem is rejected whole, with the full list
+      const result = loadDocument(imported, { strict: true });
+      if (!result.ok) {
+        setImportReport({ fileName: file.name, fromVersion: result.fromVersion, issues: result.issues });
+        return;
+      }
+      // Valid — review it against the live map in the import wizard. The only
+      // issues left are dangling references the loader pruned.
+      setPendingImport({
+        fileName: file.name,
+        fromVersion: result.fromVersion,
+        snapshot: result.snapshot,
+        prunedReferences: result.issues.length,
+      });
     };
     reader.readAsText(file);
     e.target.value = "";
@@ -591,16 +915,28 @@ export default function App() {
 
   // Add new node — immediately patch-save it (no debounce needed, only fires once)
   const handleAddNode = useCallback((node: ComponentNode) => {
+    recordHistory({
+      label: `Add node ${node.name}`,
+      undo: () => deleteNode(node.id, { own: true }),
+      redo: () => handleAddNode(node),
+    });
     setData((prev) => {
       const updated = { ...prev, components: [...prev.components, node] };
       // Save only the new node via patch (patchSaveNode handles "not exists in remote" case)
-      patchSaveNode(node.id, node);
+      patchSaveNode(node);
       return updated;
     });
-  }, [patchSaveNode]);
+  }, [patchSaveNode, recordHistory]);
 
   const selectedNode =
     data.components.find((c) => c.id === selectedNodeId) || null;
+  const liveSnapshot = useMemo<DocumentSnapshot>(() => ({ data, connections }), [data, connections]);
+  const cycleTime = useMemo(() => cycleTimeSummary(data.components), [data.components]);
+  const statusWorkflow = statusWorkflowOf(data);
+  const myOpenTasks = useMemo(
+    () => tasksAssignedTo(data.components, googleUser?.email).filter((a) => !a.task.done).length,
+    [data.components, googleUser?.email]
+  );
 
   const filteredComponents = useMemo(() => {
     let components = data.components;
@@ -620,14 +956,104 @@ export default function App() {
       );
     }
 
+    const filterDef = fieldFilter && data.fieldDefs.find((d) => d.id === fieldFilter.defId);
+    if (fieldFilter && filterDef) {
+      components = components.filter((comp) => matchesFieldFilter(comp, filterDef, fieldFilter));
+    }
+
     return components;
-  }, [data.components, activeFilterTags, activeMilestone, data.milestones]);
+  }, [data.components, activeFilterTags, activeMilestone, data.milestones, fieldFilter, data.fieldDefs]);
+
+  // Members of collapsed groups are hidden behind one summary node per group
+  const hiddenBy = useMemo(() => collapsedMembership(data.groups), [data.groups]);
+  const canvasComponents = useMemo(
+    () => filteredComponents.filter((c) => !hiddenBy.has(c.id)),
+    [filteredComponents, hiddenBy]
+  );
+
+  // Container bounds for expanded groups, summary-card rects for collapsed ones.
+  // Both derive from the members' current rects, so they follow every move.
+  const groupViews = useMemo(() => {
+    return data.groups.flatMap((group) => {
+      const members = filteredComponents.filter((c) => group.memberIds.includes(c.id));
+      if (members.length === 0) return [];
+      const memberRects = members.map(getNodeRect);
+      if (group.collapsed) {
+        const anchor = unionRects(memberRects)!;
+        const size = nodeSizes.get(group.id) ?? ESTIMATED_NODE_SIZE;
+        const rect: Rect = { x: anchor.x, y: anchor.y, width: size.width, height: size.height };
+        return [{ group, members, rect }];
+      }
+      return [{ group, members, rect: groupBounds(memberRects)! }];
+    });
+  }, [data.groups, filteredComponents, getNodeRect, nodeSizes]);
+
+  // Arrows as drawn: re-pointed at collapsed groups' summary nodes
+  const canvasConnections = useMemo(
+    () => remapConnections(connections, hiddenBy),
+    [connections, hiddenBy]
+  );
+
+  // Impact mode — transitive up/downstream of the selected node over the real
+  // (un-remapped) arrows, and every node held up by an upstream blocker
+  const impact = useMemo(
+    () => (impactMode && selectedNodeId ? computeImpact(selectedNodeId, connections) : null),
+    [impactMode, selectedNodeId, connections]
+  );
+  const blockedBy = useMemo(
+    () => (impactMode ? computeBlockedBy(data.components, connections) : new Map<string, string[]>()),
+    [impactMode, data.components, connections]
+  );
+  const impactRoleOf = (nodeId: string) => {
+    if (!impact || !selectedNodeId) return undefined;
+    if (nodeId === selectedNodeId) return "focus" as const;
+    if (impact.upstream.has(nodeId)) return "upstream" as const;
+    if (impact.downstream.has(nodeId)) return "downstream" as const;
+    return "unrelated" as const;
+  };
+
+  // Route every visible connection around the other visible nodes
+  const routedEdges = useMemo(() => {
+    const rects = new Map(canvasComponents.map((c) => [c.id, getNodeRect(c)]));
+    groupViews.forEach(({ group, rect }) => { if (group.collapsed) rects.set(group.id, rect); });
+    const visible = canvasConnections.filter((c) => rects.has(c.from) && rects.has(c.to));
+    const offsets = parallelEdgeOffsets(visible);
+    const routes = new Map<string, RoutedEdge>();
+    for (const conn of visible) {
+      const obstacles = [...rects].filter(([id]) => id !== conn.from && id !== conn.to).map(([, r]) => r);
+      routes.set(conn.id, routeEdge(rects.get(conn.from)!, rects.get(conn.to)!, obstacles, {
+        style: routingStyle,
+        offset: offsets.get(conn.id),
+      }));
+    }
+    return routes;
+  }, [canvasComponents, groupViews, canvasConnections, getNodeRect, routingStyle]);
 
   // Optimistically update local state, then debounce a patch-save for just this node.
   // Each node gets its own 800 ms debounce timer so rapid keystrokes collapse into
   // a single network round-trip per node, and two users editing different nodes
   // never touch each other's data.
   const handleUpdateNode = useCallback((nodeId: string, updates: Partial<ComponentNode>): void => {
+    const before = dataRef.current.components.find((c) => c.id === nodeId);
+    if (before) {
+      recordActivity(before, updates);
+      const fields = Object.keys(updates).sort();
+      const previous = pickFields(before, fields);
+      recordHistory({
+        label: `Edit ${before.name} (${fields.join(", ")})`,
+        coalesceKey: `update:${nodeId}:${fields.join(",")}`,
+        undo: () => handleUpdateNode(nodeId, previous),
+        redo: () => handleUpdateNode(nodeId, updates),
+      });
+    }
+
+    // While a field is in conflict, edits to it become "your version" in the prompt
+    const open = nodeConflictsRef.current.get(nodeId);
+    if (open?.some((c) => c.field in updates)) {
+      replaceConflicts(withNodeConflicts(nodeConflictsRef.current, nodeId,
+        open.map((c) => (c.field in updates ? { ...c, mine: updates[c.field] } : c))));
+    }
+
     // Build the merged node immediately so we can capture it in the debounce closure
     setData((prev) => {
       const updatedComponents = prev.components.map((comp) =>
@@ -639,66 +1065,269 @@ export default function App() {
       const updatedNode = updatedComponents.find(c => c.id === nodeId);
       if (!updatedNode) return { ...prev, components: updatedComponents };
 
-      // Cancel any in-flight debounce for this specific node
+      // Cancel any in-flight debounce for this specific node; its newer snapshot
+      // also supersedes any copy still waiting in the batched save
       const existing = nodeDebounceTimers.current.get(nodeId);
       if (existing) clearTimeout(existing);
+      pendingBatchRef.current.delete(nodeId);
 
       // Schedule patch-save for this node only
       const timer = setTimeout(() => {
         nodeDebounceTimers.current.delete(nodeId);
-        patchSaveNode(nodeId, updatedNode);
+        patchSaveNode(updatedNode);
       }, 800);
       nodeDebounceTimers.current.set(nodeId, timer);
 
       return { ...prev, components: updatedComponents };
     });
-  }, [patchSaveNode]);
+  }, [patchSaveNode, recordHistory, recordActivity, replaceConflicts]);
+
+  // Conflict prompt pick: drop the conflict, then save the chosen value like any edit.
+  // A status that differs from the one shown is logged as a transition; it isn't
+  // checked against the workflow — each side already reached it through it.
+  const handleResolveConflict = useCallback((nodeId: string, field: keyof ComponentNode, choice: "mine" | "theirs") => {
+    const open = nodeConflictsRef.current.get(nodeId) ?? [];
+    const conflict = open.find((c) => c.field === field);
+    if (!conflict) return;
+    replaceConflicts(withNodeConflicts(nodeConflictsRef.current, nodeId, open.filter((c) => c !== conflict)));
+    const value = choice === "mine" ? conflict.mine : conflict.theirs;
+    const node = dataRef.current.components.find((c) => c.id === nodeId);
+    if (field === "status" && node && value !== node.status) {
+      const actor = googleUser?.user_metadata?.full_name ?? googleUser?.email ?? "Unknown";
+      handleUpdateNode(nodeId, transitionUpdates(node, value as ComponentStatus, actor, "Picked in an edit conflict"));
+      return;
+    }
+    handleUpdateNode(nodeId, { [field]: value });
+  }, [handleUpdateNode, replaceConflicts, googleUser]);
+
+  // DetailPanel edit tracking: holds the node against remote overwrites and
+  // tells collaborators which field is being edited
+  const handleEditStart = useCallback((nodeId: string, field?: string) => {
+    dirtyNodeIdsRef.current.add(nodeId);
+    const next = field ?? null;
+    setMyEditing((prev) => (prev?.nodeId === nodeId && prev.field === next ? prev : { nodeId, field: next }));
+  }, []);
 
-  const handleDeleteNode = useCallback(async (nodeId: string) => {
-    if (
-      !window.confirm(
-        "Are you sure you want to delete this node? This action cannot be undone."
-      )
-    ) return;
+  const handleEditEnd = useCallback((nodeId?: string) => {
+    if (!nodeId) return;
+    dirtyNodeIdsRef.current.delete(nodeId);
+    setMyEditing((prev) => (prev?.nodeId === nodeId ? null : prev));
+  }, []);
 
+  usePresence(documentSubscription, googleUser, {
+    nodeId: selectedNodeId,
+    field: myEditing?.nodeId === selectedNodeId ? myEditing.field : null,
+  });
+  const onlinePeers = useMemo(() => uniquePeers(peers), [peers]);
+  const viewersByNode = useMemo(() => peersByNode(peers), [peers]);
+  const selectedViewers = selectedNodeId ? viewersByNode.get(selectedNodeId) : undefined;
+  const selectedPeerEditors = useMemo(() => peersByField(selectedViewers ?? []), [selectedViewers]);
+
+  // Add nodes to the shared batched save, written 300 ms after the last call
+  const scheduleBatchSave = useCallback((nodes: ComponentNode[]) => {
+    nodes.forEach((comp) => {
+      pendingBatchRef.current.set(comp.id, comp);
+      // The batch carries the latest snapshot, so drop any per-node save
+      const perNode = nodeDebounceTimers.current.get(comp.id);
+      if (perNode) {
+        clearTimeout(perNode);
+        nodeDebounceTimers.current.delete(comp.id);
+      }
+    });
+
+    const existing = nodeDebounceTimers.current.get(BATCH_TIMER_KEY);
+    if (existing) clearTimeout(existing);
+    const timer = setTimeout(() => {
+      nodeDebounceTimers.current.delete(BATCH_TIMER_KEY);
+      const batch = [...pendingBatchRef.current.values()];
+      pendingBatchRef.current.clear();
+      patchSaveNodes(batch);
+    }, 300);
+    nodeDebounceTimers.current.set(BATCH_TIMER_KEY, timer);
+  }, [patchSaveNodes]);
+
+  // Batched counterpart of handleUpdateNode for gestures that touch many nodes at
+  // once (group drag, align, distribute, auto-layout). Changed nodes are collected
+  // and written with a single patchSaveNodes call 300 ms after the last gesture,
+  // instead of N per-node writes racing each other.
+  //
+  // `previous` is needed when the nodes already show the new values locally (a
+  // drag or tween moved them) so the undo step can't be read from current state.
+  const handleUpdateNodes = useCallback((
+    updates: Map<string, Partial<ComponentNode>>,
+    options: { label?: string; previous?: Map<string, Partial<ComponentNode>> } = {},
+  ): void => {
+    if (updates.size === 0) return;
+
+    const previous = options.previous ?? new Map(
+      dataRef.current.components
+        .filter((c) => updates.has(c.id))
+        .map((c) => [c.id, pickFields(c, Object.keys(updates.get(c.id)!))])
+    );
+    recordHistory({
+      label: options.label ?? `Edit ${updates.size} nodes`,
+      undo: () => handleUpdateNodes(previous),
+      redo: () => handleUpdateNodes(updates),
+    });
+
+    setData((prev) => {
+      const now = new Date();
+      const updatedComponents = prev.components.map((comp) => {
+        const patch = updates.get(comp.id);
+        return patch ? { ...comp, ...patch, lastUpdated: now } : comp;
+      });
+      scheduleBatchSave(updatedComponents.filter((comp) => updates.has(comp.id)));
+      return { ...prev, components: updatedComponents };
+    });
+  }, [scheduleBatchSave, recordHistory]);
+
+  // Remove a node locally and server-side. Shared by the delete button and by
+  // undoing "Add node"; the confirm prompt + history entry live in handleDeleteNode.
+  // `own`: undoing this tab's own add, which members may do too (see
+  // 20261024_own_node_delete.sql); any other delete is admin-only
+  const deleteNode = useCallback(async (nodeId: string, { own = false } = {}) => {
     // Optimistic UI update
+    // The delete-node edge function also prunes the node from any group and
+    // deletes its arrows, so those aren't a difference for saveConnections
     setData((prev) => ({
       ...prev,
       components: prev.components.filter((comp) => comp.id !== nodeId),
+      groups: prev.groups
+        .map((g) => ({ ...g, memberIds: g.memberIds.filter((id) => id !== nodeId) }))
+        .filter((g) => g.memberIds.length > 0),
     }));
+    const touches = (c: Connection) => c.from === nodeId || c.to === nodeId;
+    connectionsRef.current.filter(touches).forEach((c) => savedConnectionsRef.current.delete(c.id));
+    setConnections((prev) => prev.filter((c) => !touches(c)));
+    // A re-add (undo) must insert the node afresh, not save against the deleted row
+    nodeBasesRef.current.delete(nodeId);
     setSelectedNodeId(null);
+    setSelectedNodeIds((prev) => {
+      const next = new Set(prev);
+      next.delete(nodeId);
+      return next;
+    });
+    replaceConflicts(withNodeConflicts(nodeConflictsRef.current, nodeId, []));
 
-    // Server-side deletion via admin-only Edge Function
-    try {
-      setSaveStatus("saving");
-      const { data: { session } } = await supabase.auth.getSession();
-      const token = session?.access_token;
-      if (!token) { setSaveStatus("offline"); return; }
-
-      const SUPABASE_URL = "https://ywnvnwsziqjhauyqgzjt.supabase.co";
-      const res = await fetch(`${SUPABASE_URL}/functions/v1/delete-node`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`,
-        },
-        body: JSON.stringify({ nodeId }),
+    // Server-side deletion via admin-only Edge Function, or the creator's RPC
+    await commitMutation(
+      `deleteNode ${nodeId}`,
+      own ? { type: "delete-own-node", nodeId, clientId: CLIENT_ID } : { type: "delete-node", nodeId }
+    );
+  }, [replaceConflicts, commitMutation]);
+
+  const handleDeleteNode = useCallback(async (nodeId: string) => {
+    if (
+      !window.confirm(
+        "Are you sure you want to delete this node? You can undo this with Ctrl+Z."
+      )
+    ) return;
+
+    const node = dataRef.current.components.find((c) => c.id === nodeId);
+    if (node) {
+      const memberOf = dataRef.current.groups.filter((g) => g.memberIds.includes(nodeId));
+      const arrows = connectionsRef.current.filter((c) => c.from === nodeId || c.to === nodeId);
+      recordHistory({
+        label: `Delete node ${node.name}`,
+        undo: () => restoreNode(node, memberOf, arrows),
+        redo: () => deleteNode(nodeId),
       });
+    }
+    await deleteNode(nodeId);
+  }, [deleteNode, recordHistory]);
+
+  // Undo of a delete: re-add the snapshot via the patch save, bring back its
+  // arrows (to nodes that still exist) through the debounced arrow save, and
+  // put it back into the groups it belonged to (recreating a group the
+  // delete emptied).
+  const restoreNode = (node: ComponentNode, memberOf: NodeGroup[], arrows: Connection[]) => {
+    handleAddNode(node);
+    const present = new Set([node.id, ...dataRef.current.components.map((c) => c.id)]);
+    setConnections((prev) => [
+      ...prev,
+      ...arrows.filter((a) => present.has(a.from) && present.has(a.to) && !prev.some((c) => c.id === a.id)),
+    ]);
+    if (memberOf.length === 0) return;
+    const current = dataRef.current.groups;
+    const restored = memberOf.map((g) => {
+      const existing = current.find((c) => c.id === g.id);
+      return existing
+        ? { ...existing, memberIds: [...new Set([...existing.memberIds, node.id])] }
+        : { ...g, memberIds: [node.id] };
+    });
+    const restoredById = new Map(restored.map((g) => [g.id, g]));
+    applyGroupChange(
+      [
+        ...current.map((g) => restoredById.get(g.id) ?? g),
+        ...restored.filter((g) => !current.some((c) => c.id === g.id)),
+      ],
+      restored,
+    );
+  };
 
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({}));
-        console.error("delete-node edge fn error:", err);
-        setSaveStatus("offline");
-      } else {
-        setSaveStatus("synced");
-        dbg("delete-node edge fn success for", nodeId);
-      }
-    } catch (e) {
-      console.error("delete-node fetch threw:", e);
-      setSaveStatus("offline");
+  // Tags save: upsert the added tags, delete the removed ones
+  const patchSaveTags = useCallback(async (added: Tag[], removedIds: string[] = []) => {
+    if (added.length > 0) {
+      await commitMutation(`saveTags added=${added.map(t => t.id).join(",")}`, { type: "upsert", kind: "tags", items: added });
     }
-    setTimeout(() => setSaveStatus(""), 2000);
-  }, []);
+    if (removedIds.length > 0) {
+      await commitMutation(`saveTags removed=${removedIds.join(",")}`, { type: "delete", kind: "tags", ids: removedIds });
+    }
+  }, [commitMutation]);
+
+  // Custom field definitions (admin only): upsert the touched ones, delete the removed ones
+  const patchSaveFieldDefs = useCallback(async (changed: CustomFieldDef[], removedIds: string[] = []) => {
+    if (changed.length > 0) {
+      await commitMutation(`saveFieldDefs ${changed.map(d => d.id).join(",")}`, { type: "upsert", kind: "fieldDefs", items: changed });
+    }
+    if (removedIds.length > 0) {
+      await commitMutation(`saveFieldDefs removed=${removedIds.join(",")}`, { type: "delete", kind: "fieldDefs", ids: removedIds });
+    }
+  }, [commitMutation]);
+
+  // Replace the definition list, saving only what differs from the current one.
+  // Values on nodes are left alone, so undoing a removal brings them back.
+  const handleSaveFieldDefs = useCallback((next: CustomFieldDef[]) => {
+    const setFieldDefs = (to: CustomFieldDef[]) => {
+      const from = new Map(dataRef.current.fieldDefs.map((d) => [d.id, JSON.stringify(d)]));
+      const changed = to.filter((d) => from.get(d.id) !== JSON.stringify(d));
+      const removedIds = [...from.keys()].filter((id) => !to.some((d) => d.id === id));
+      if (changed.length === 0 && removedIds.length === 0) return;
+      setData((prev) => ({ ...prev, fieldDefs: to }));
+      patchSaveFieldDefs(changed, removedIds);
+    };
+    const previous = dataRef.current.fieldDefs;
+    if (JSON.stringify(previous) === JSON.stringify(next)) return;
+    recordHistory({
+      label: "Edit custom fields",
+      undo: () => setFieldDefs(previous),
+      redo: () => setFieldDefs(next),
+    });
+    setFieldDefs(next);
+  }, [patchSaveFieldDefs, recordHistory]);
+
+  // The workflow is one row; undo puts the previous rules back (or removes the
+  // row again when the default applied before)
+  const handleSaveStatusWorkflow = useCallback((next: StatusWorkflow) => {
+    const setWorkflow = (to: StatusWorkflow | null) => {
+      setData((prev) => ({ ...prev, workflows: to ? applyRowChange(prev.workflows, { type: "upsert", entity: to }) : prev.workflows.filter((w) => w.id !== next.id) }));
+      if (to) commitMutation(`saveWorkflow ${to.id}`, { type: "upsert", kind: "workflows", items: [to] });
+      else commitMutation(`saveWorkflow removed=${next.id}`, { type: "delete", kind: "workflows", ids: [next.id] });
+    };
+    const previous = dataRef.current.workflows.find((w) => w.id === next.id) ?? null;
+    if (JSON.stringify(statusWorkflowOf(dataRef.current)) === JSON.stringify(next)) return;
+    recordHistory({
+      label: "Edit status workflow",
+      undo: () => setWorkflow(previous),
+      redo: () => setWorkflow(next),
+    });
+    setWorkflow(next);
+  }, [commitMutation, recordHistory]);
+
+  const fieldUsage = useMemo(() => new Map(data.fieldDefs.map((def) => [
+    def.id,
+    data.components.filter((n) => fieldValue(n, def) !== undefined).length,
+  ])), [data.fieldDefs, data.components]);
 
   const handleCreateTag = useCallback((label: string, color: string) => {
     const newTag: Tag = {
@@ -706,44 +1335,109 @@ export default function App() {
       label,
       color,
     };
+    if (!dataRef.current.tags.some((t) => t.id === newTag.id)) {
+      recordHistory({
+        label: `Create tag ${label}`,
+        undo: () => {
+          setData((prev) => ({ ...prev, tags: prev.tags.filter((t) => t.id !== newTag.id) }));
+          patchSaveTags([], [newTag.id]);
+        },
+        redo: () => handleCreateTag(label, color),
+      });
+    }
+    setData((prev) => ({ ...prev, tags: [...prev.tags, newTag] }));
+    patchSaveTags([newTag]);
+  }, [patchSaveTags, recordHistory]);
+
+  // ── Version history ──
+  const loadVersionSnapshot = useCallback(
+    (raw: { data: unknown; connections: unknown }): DocumentSnapshot => {
+      const result = loadDocument(raw, { strict: false });
+      if (!result.ok) console.error("Unreadable version snapshot:", result.issues);
+      return result.ok ? result.snapshot : { data: { components: [], tags: [], milestones: [], groups: [], fieldDefs: [], workflows: [] }, connections: [] };
+    },
+    []
+  );
+
+  // Replace the whole document locally and remotely. Pending node saves are
+  // dropped first — they were made against the state being replaced.
+  // A restore overwrites every row, so queued offline writes go out first —
+  // replayed afterwards they'd land on top of the restored version. While
+  // they can't be sent, the restore is held back. Resolves to true once applied.
+  const applyDocument = async (snapshot: DocumentSnapshot) => {
+    if (queueLengthRef.current > 0 && !(await flushQueue())) {
+      setSyncNotice("Changes made offline are still waiting to sync. Restore the version once they have gone through.");
+      return false;
+    }
+    nodeDebounceTimers.current.forEach((timer) => clearTimeout(timer));
+    nodeDebounceTimers.current.clear();
+    pendingBatchRef.current.clear();
+    dirtyNodeIdsRef.current.clear();
+    replaceConflicts(new Map());
+    setData(snapshot.data);
+    setConnections(snapshot.connections);
+    saveDocument(snapshot);
+    return true;
+  };
+
+  const handleRestoreVersion = async (snapshot: DocumentSnapshot, label: string) => {
+    const previous: DocumentSnapshot = { data: dataRef.current, connections: connectionsRef.current };
+    if (!(await applyDocument(snapshot))) return;
+    recordHistory({
+      label,
+      undo: () => applyDocument(previous),
+      redo: () => applyDocument(snapshot),
+    });
+  };
+
+  // Accepted import changes, applied as ordinary edits: one batched node save,
+  // the arrow diff save (via setConnections) and tag saves. Node deletes go
+  // through deleteNode like the delete button — as this tab's own nodes when
+  // undoing an import, whose removals are exactly the nodes it added.
+  const applyImportPlan = (plan: ImportPlan, { ownNodes = false } = {}) => {
+    const { updateNodes } = plan;
+    const removedTags = new Set(plan.removeTagIds);
+    const putTags = new Map(plan.putTags.map((t) => [t.id, t]));
     setData((prev) => {
-      const updated = { ...prev, tags: [...prev.tags, newTag] };
-      // Persist: fetch remote, append tag (dedup by id), write back
-      (async () => {
-        try {
-          setSaveStatus("saving");
-          const { data: row, error: fetchErr } = await supabase
-            .from("architecture_data")
-            .select("data, connections, updated_at")
-            .eq("id", "main")
-            .single();
-          if (fetchErr) { console.error("createTag fetch failed:", fetchErr); return; }
-          const remote = parseDates(row.data as ArchitectureData);
-          const existingIds = new Set(remote.tags.map((t: Tag) => t.id));
-          const mergedTags = existingIds.has(newTag.id)
-            ? remote.tags
-            : [...remote.tags, newTag];
-          const saveTimestamp = new Date().toISOString();
-          lastSaveTimestampRef.current = saveTimestamp;
-          const { error } = await supabase
-            .from("architecture_data")
-            .upsert({
-              id: "main",
-              data: { ...remote, tags: mergedTags },
-              connections: row.connections,
-              updated_at: saveTimestamp,
-            });
-          setSaveStatus(error ? "offline" : "synced");
-          dbg("createTag", newTag.id, "error=", error);
-        } catch (e) {
-          console.error("createTag save threw:", e);
-          setSaveStatus("offline");
-        }
-        setTimeout(() => setSaveStatus(""), 2000);
-      })();
-      return updated;
+      const now = new Date();
+      const added = plan.addNodes.filter((n) => !prev.components.some((c) => c.id === n.id));
+      const updated = prev.components.map((comp) => {
+        const patch = updateNodes.get(comp.id);
+        return patch ? { ...comp, ...patch, lastUpdated: now } : comp;
+      });
+      scheduleBatchSave([...updated.filter((comp) => updateNodes.has(comp.id)), ...added]);
+      return {
+        ...prev,
+        components: [...updated, ...added],
+        tags: [
+          ...prev.tags.filter((t) => !removedTags.has(t.id)).map((t) => putTags.get(t.id) ?? t),
+          ...plan.putTags.filter((t) => !prev.tags.some((x) => x.id === t.id)),
+        ],
+      };
     });
-  }, []);
+    plan.removeNodeIds.forEach((id) => deleteNode(id, { own: ownNodes }));
+
+    if (plan.putConnections.length > 0 || plan.removeConnectionIds.length > 0) {
+      const put = new Map(plan.putConnections.map((c) => [c.id, c]));
+      const removed = new Set(plan.removeConnectionIds);
+      setConnections((prev) => [
+        ...prev.filter((c) => !removed.has(c.id)).map((c) => put.get(c.id) ?? c),
+        ...plan.putConnections.filter((c) => !prev.some((x) => x.id === c.id)),
+      ]);
+    }
+    if (plan.putTags.length > 0 || plan.removeTagIds.length > 0) patchSaveTags(plan.putTags, plan.removeTagIds);
+  };
+
+  const handleApplyImport = (plan: ImportPlan, label: string) => {
+    const inverse = invertImportPlan(plan, { data: dataRef.current, connections: connectionsRef.current });
+    recordHistory({
+      label,
+      undo: () => applyImportPlan(inverse, { ownNodes: true }),
+      redo: () => applyImportPlan(plan),
+    });
+    applyImportPlan(plan);
+    setPendingImport(null);
+  };
 
   const handleSelectMilestone = (milestoneId: string | null) => {
     setActiveMilestone(milestoneId);
@@ -755,63 +1449,403 @@ export default function App() {
     setConnectionMode(true);
   };
 
+  // Arrow edits go through setConnections → the debounced saveConnections effect
+  const handleSaveConnection = (connection: Connection) => {
+    const previous = connectionsRef.current.find((c) => c.id === connection.id);
+    const arrow = `${nodeName(connection.from)} → ${nodeName(connection.to)}`;
+    recordHistory({
+      label: previous ? `Edit arrow ${arrow}` : `Add arrow ${arrow}`,
+      undo: () => (previous ? handleSaveConnection(previous) : handleRemoveConnection(connection.id)),
+      redo: () => handleSaveConnection(connection),
+    });
+    setConnections((prev) =>
+      prev.some((c) => c.id === connection.id)
+        ? prev.map((c) => (c.id === connection.id ? connection : c))
+        : [...prev, connection]
+    );
+  };
+
+  const handleRemoveConnection = (connectionId: string) => {
+    const previous = connectionsRef.current.find((c) => c.id === connectionId);
+    if (!previous) return;
+    recordHistory({
+      label: `Delete arrow ${nodeName(previous.from)} → ${nodeName(previous.to)}`,
+      undo: () => handleSaveConnection(previous),
+      redo: () => handleRemoveConnection(connectionId),
+    });
+    setConnections((prev) => prev.filter((c) => c.id !== connectionId));
+  };
+
   const handleEndConnection = (nodeId: string) => {
     if (connectionStart && connectionStart !== nodeId) {
-      setConnections((prev) => [...prev, { from: connectionStart, to: nodeId }]);
+      handleSaveConnection({ id: generateConnectionId(), from: connectionStart, to: nodeId, type: "data" });
     }
     setConnectionMode(false);
     setConnectionStart(null);
   };
 
+  // Dragging a node that is part of the multi-selection moves the whole selection.
+  // Positions update locally on every mousemove; the save happens once, on drop.
   const handleDragStart = (nodeId: string, e: React.MouseEvent) => {
-    const node = filteredComponents.find((c) => c.id === nodeId);
-    if (node) {
-      setDraggedNode(nodeId);
-      setDragOffset({
-        x: e.clientX - node.position.x,
-        y: e.clientY - node.position.y,
-      });
-    }
+    startDrag(selectedNodeIds.has(nodeId) ? selectedNodeIds : new Set([nodeId]), e);
+  };
+
+  // Moves an explicit set of nodes — a selection, or every member of a group
+  const startDrag = (ids: Set<string>, e: React.MouseEvent) => {
+    const origins = new Map(
+      filteredComponents.filter((c) => ids.has(c.id)).map((c) => [c.id, c.position])
+    );
+    if (origins.size === 0) return;
+    // Keep incoming polls / realtime from snapping the nodes back mid-drag
+    origins.forEach((_, id) => dirtyNodeIdsRef.current.add(id));
+    setDragState({ pointer: toWorld(e.clientX, e.clientY), origins });
+  };
+
+  const dragTargets = (e: React.MouseEvent, drag: NonNullable<typeof dragState>) => {
+    const pointer = toWorld(e.clientX, e.clientY);
+    const dx = pointer.x - drag.pointer.x;
+    const dy = pointer.y - drag.pointer.y;
+    return new Map([...drag.origins].map(([id, origin]) => [id, { x: origin.x + dx, y: origin.y + dy }]));
   };
 
   const handleDrag = (e: React.MouseEvent) => {
     if (isResizing) return; // Don't drag nodes while resizing the panel
-    if (draggedNode) {
-      const nodeId = draggedNode;
-      setData((prev) => {
-        const updatedComponents = prev.components.map((comp) =>
-          comp.id === nodeId
-            ? {
-                ...comp,
-                position: {
-                  x: e.clientX - dragOffset.x,
-                  y: e.clientY - dragOffset.y,
-                },
-              }
-            : comp
-        );
+    if (dragState) {
+      const targets = dragTargets(e, dragState);
+      setData((prev) => ({
+        ...prev,
+        components: prev.components.map((comp) => {
+          const position = targets.get(comp.id);
+          return position ? { ...comp, position } : comp;
+        }),
+      }));
+    }
+  };
+
+  const handleDragEnd = (e: React.MouseEvent) => {
+    if (!dragState) return;
+    const targets = dragTargets(e, dragState);
+    const moved = [...targets].some(([id, p]) => {
+      const origin = dragState.origins.get(id)!;
+      return p.x !== origin.x || p.y !== origin.y;
+    });
+    if (moved) {
+      handleUpdateNodes(new Map([...targets].map(([id, position]) => [id, { position }])), {
+        label: targets.size === 1 ? `Move ${nodeName([...targets.keys()][0])}` : `Move ${targets.size} nodes`,
+        previous: new Map([...dragState.origins].map(([id, position]) => [id, { position }])),
+      });
+    }
+    const ids = [...dragState.origins.keys()];
+    setTimeout(() => ids.forEach((id) => dirtyNodeIdsRef.current.delete(id)), 3000);
+    setDragState(null);
+  };
+
+  // Rubber-band selection: shift-drag on the empty canvas adds every node the
+  // band touches to the selection. Listeners live on window (like the panel
+  // resize) so releasing outside the canvas still finishes the gesture.
+  const isMarqueeActive = marquee !== null;
+  useEffect(() => {
+    if (!isMarqueeActive) return;
+
+    const bandRect = (start: Point, end: Point) => ({
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+    });
+
+    const handleMove = (e: MouseEvent) => {
+      const start = marqueeStartRef.current;
+      if (start) setMarquee({ start, end: toWorld(e.clientX, e.clientY) });
+    };
+
+    const handleUp = (e: MouseEvent) => {
+      const start = marqueeStartRef.current;
+      marqueeStartRef.current = null;
+      setMarquee(null);
+      if (!start) return;
+      const band = bandRect(start, toWorld(e.clientX, e.clientY));
+      const hits = canvasComponents.filter((node) => {
+        const r = getNodeRect(node);
+        return r.x < band.x + band.width && r.x + r.width > band.x &&
+          r.y < band.y + band.height && r.y + r.height > band.y;
+      });
+      if (hits.length > 0) {
+        setSelectedNodeIds((current) => new Set([...current, ...hits.map((n) => n.id)]));
+      }
+    };
+
+    document.body.style.userSelect = "none";
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+    return () => {
+      document.body.style.userSelect = "";
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+  }, [isMarqueeActive, toWorld, canvasComponents, getNodeRect]);
+
+  const toggleNodeSelection = (nodeId: string) => {
+    setSelectedNodeIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+  };
+
+  const selectedComponents = canvasComponents.filter((c) => selectedNodeIds.has(c.id));
+
+  // Tween the selection into place, then persist it as one batched save (ignored
+  // while another tween is still running — its save hasn't happened yet)
+  const moveNodesTo = (targets: Map<string, Point>, label: string) => {
+    const changed = [...targets].filter(([id, p]) => {
+      const node = filteredComponents.find((c) => c.id === id);
+      return node && (node.position.x !== p.x || node.position.y !== p.y);
+    });
+    if (changed.length === 0) return;
+
+    const previous = new Map(changed.map(([id]) => [
+      id,
+      { position: filteredComponents.find((c) => c.id === id)!.position },
+    ]));
+    const started = animateTo(filteredComponents, new Map(changed), () => {
+      handleUpdateNodes(new Map(changed.map(([id, position]) => [id, { position }])), { label, previous });
+      setTimeout(() => changed.forEach(([id]) => dirtyNodeIdsRef.current.delete(id)), 3000);
+    });
+    if (started) changed.forEach(([id]) => dirtyNodeIdsRef.current.add(id));
+  };
 
-        const updatedNode = updatedComponents.find(c => c.id === nodeId);
-        if (!updatedNode) return { ...prev, components: updatedComponents };
+  const selectionRects = () => new Map(selectedComponents.map((c) => [c.id, getNodeRect(c)]));
 
-        // Debounce position patch-save (1 s — drag fires on every mousemove)
-        const existing = nodeDebounceTimers.current.get(`drag-${nodeId}`);
-        if (existing) clearTimeout(existing);
-        const timer = setTimeout(() => {
-          nodeDebounceTimers.current.delete(`drag-${nodeId}`);
-          patchSaveNode(nodeId, updatedNode);
-        }, 1000);
-        nodeDebounceTimers.current.set(`drag-${nodeId}`, timer);
+  const handleAlign = (command: AlignCommand) => {
+    moveNodesTo(alignRects(selectionRects(), command), `Align ${selectedComponents.length} nodes ${command}`);
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    moveNodesTo(distributeRects(selectionRects(), axis), `Distribute ${selectedComponents.length} nodes ${axis}ly`);
+  };
 
-        return { ...prev, components: updatedComponents };
+  // Only the bare canvas (not nodes, arrows or overlays) starts a pan / cancels connection mode
+  const isCanvasBackground = (target: EventTarget) =>
+    (target as HTMLElement).dataset?.canvasBg !== undefined;
+
+  // Auto-layout the visible graph: tween nodes into place, then persist the moved
+  // nodes through one batched patch save. Moved nodes stay dirty while the tween
+  // and the save round-trip run so incoming remote data can't snap them back.
+  // Ignored while a previous layout or align is still animating.
+  const handleAutoLayout = (direction: LayoutDirection) => {
+    const layout = computeLayeredLayout(filteredComponents, connections, {
+      direction,
+      getNodeSize: getNodeRect,
+    });
+    const changed = filteredComponents.filter((node) => {
+      const next = layout.get(node.id);
+      return next && (
+        next.layer !== node.layer ||
+        next.position.x !== node.position.x ||
+        next.position.y !== node.position.y
+      );
+    });
+    if (changed.length === 0) return;
+
+    const targets = new Map(changed.map((node) => [node.id, layout.get(node.id)!.position]));
+    const previous = new Map(changed.map((node) => [node.id, { position: node.position, layer: node.layer }]));
+    const started = animateTo(filteredComponents, targets, () => {
+      handleUpdateNodes(new Map(changed.map((node) => {
+        const { position, layer } = layout.get(node.id)!;
+        return [node.id, { position, layer }];
+      })), {
+        label: direction === "TB" ? "Auto layout (top to bottom)" : "Auto layout (left to right)",
+        previous,
       });
+      setTimeout(() => changed.forEach((node) => dirtyNodeIdsRef.current.delete(node.id)), 3000);
+    });
+    if (started) changed.forEach((node) => dirtyNodeIdsRef.current.add(node.id));
+  };
+
+  // ── Groups ──
+  const applyGroupChange = (
+    groups: NodeGroup[],
+    changed: NodeGroup[],
+    removedIds: string[] = [],
+    label = "Edit groups",
+  ) => {
+    // Inverse: put back the previous version of every touched group, drop new
+    // ones. Both directions patch the groups as they are at that point, the
+    // same rows the save writes.
+    const beforeById = new Map(dataRef.current.groups.map((g) => [g.id, g]));
+    const restore = [...changed.map((g) => g.id), ...removedIds]
+      .map((id) => beforeById.get(id))
+      .filter((g): g is NodeGroup => !!g);
+    const created = changed.filter((g) => !beforeById.has(g.id)).map((g) => g.id);
+    recordHistory({
+      label,
+      undo: () => applyGroupChange(patchGroups(dataRef.current.groups, restore, created), restore, created),
+      redo: () => applyGroupChange(patchGroups(dataRef.current.groups, changed, removedIds), changed, removedIds),
+    });
+
+    setData((prev) => ({ ...prev, groups }));
+    patchSaveGroups(changed, removedIds);
+  };
+
+  const handleSaveGroup = (name: string, color: string) => {
+    if (!groupDialog) return;
+    if (groupDialog.mode === "create") {
+      const group: NodeGroup = { id: generateGroupId(), name, color, memberIds: groupDialog.memberIds };
+      const next = assignMembers(data.groups, group);
+      applyGroupChange(next.groups, next.changed, next.removedIds, `Group ${group.memberIds.length} nodes as ${name}`);
+      setSelectedNodeIds(new Set());
+    } else {
+      const group = { ...groupDialog.group, name, color };
+      applyGroupChange(data.groups.map((g) => (g.id === group.id ? group : g)), [group], [], `Edit group ${name}`);
     }
+    setGroupDialog(null);
   };
 
-  const handleDragEnd = () => {
-    setDraggedNode(null);
+  const handleUngroup = (groupId: string) => {
+    const group = data.groups.find((g) => g.id === groupId);
+    applyGroupChange(data.groups.filter((g) => g.id !== groupId), [], [groupId], `Ungroup ${group?.name ?? groupId}`);
+    setGroupDialog(null);
   };
 
+  const handleToggleGroupCollapsed = (group: NodeGroup) => {
+    const updated = { ...group, collapsed: !group.collapsed };
+    applyGroupChange(
+      data.groups.map((g) => (g.id === group.id ? updated : g)),
+      [updated],
+      [],
+      `${updated.collapsed ? "Collapse" : "Expand"} ${group.name}`,
+    );
+    if (updated.collapsed) {
+      // Hidden members can't stay part of the canvas selection
+      setSelectedNodeIds((prev) => new Set([...prev].filter((id) => !group.memberIds.includes(id))));
+    }
+  };
+
+  const handleFitContent = () => {
+    fitTo(unionRects(filteredComponents.map(getNodeRect)), 1);
+  };
+
+  const handleZoomToSelection = () => {
+    if (selectedComponents.length > 0) fitTo(unionRects(selectedComponents.map(getNodeRect)), 1.5);
+    else if (selectedNode) fitTo(getNodeRect(selectedNode), 1.5);
+  };
+
+  // Centre the canvas on a node and open it in the detail panel. Clears filters
+  // that hide it; a node inside a collapsed group centres on the group's card.
+  const focusNode = (nodeId: string) => {
+    const node = data.components.find((c) => c.id === nodeId);
+    if (!node) return;
+    if (!filteredComponents.some((c) => c.id === nodeId)) {
+      setActiveMilestone(null);
+      setActiveFilterTags([]);
+      setFieldFilter(null);
+    }
+    const groupId = hiddenBy.get(nodeId);
+    const rect = (groupId && groupViews.find((v) => v.group.id === groupId)?.rect) || getNodeRect(node);
+    panTo({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+    setSelectedNodeIds(new Set([nodeId]));
+    setSelectedNodeId(nodeId);
+  };
+
+  const handleSearchPickNode = (nodeId: string, hit: NodeSearchHit, query: string) => {
+    focusNode(nodeId);
+    setSearchFocus({ nodeId, field: hit.field, anchorId: hit.anchorId, query, nonce: Date.now() });
+  };
+
+  const handleSearchPickTimelineItem = (itemId: string) => {
+    setTimelineFocusId(itemId);
+    setShowTimeline(true);
+  };
+
+  // ── Keyboard shortcuts + command palette ──
+  // One list drives the key listener, the palette hints and the "?" overlay.
+  const shortcuts: Shortcut[] = [
+    { id: "palette", keys: "mod+k", label: "Open command palette", group: "General", allowInInputs: true, whileOverlayOpen: true, run: () => setShowCommandPalette((v) => !v) },
+    { id: "shortcuts", keys: "?", label: "Show keyboard shortcuts", group: "General", whileOverlayOpen: true, run: () => setShowShortcuts((v) => !v) },
+    { id: "search", keys: "/", label: "Search nodes and timeline", group: "General", run: () => searchInputRef.current?.focus() },
+    {
+      id: "escape", keys: "escape", label: "Cancel connection / clear selection / close panel", group: "General",
+      run: () => {
+        if (connectionMode) {
+          setConnectionMode(false);
+          setConnectionStart(null);
+        } else if (selectedNodeIds.size > 0) {
+          setSelectedNodeIds(new Set());
+        } else {
+          setSelectedNodeId(null);
+        }
+      },
+    },
+    { id: "undo", keys: "mod+z", label: "Undo", group: "Edit", run: undo },
+    { id: "redo", keys: "mod+shift+z", label: "Redo", group: "Edit", run: redo },
+    { id: "redo-alt", keys: "mod+y", label: "Redo", group: "Edit", run: redo },
+    { id: "select-all", keys: "mod+a", label: "Select all visible nodes", group: "Edit", run: () => setSelectedNodeIds(new Set(canvasComponents.map((c) => c.id))) },
+    {
+      id: "group", keys: "g", label: "Group selected nodes", group: "Edit", disabled: selectedComponents.length < 2,
+      run: () => setGroupDialog({ mode: "create", memberIds: selectedComponents.map((c) => c.id) }),
+    },
+    { id: "add-node", keys: "n", label: "Add node", group: "Actions", run: () => setShowAddNode(true) },
+    { id: "add-arrow", keys: "a", label: "Add arrow", group: "Actions", run: () => setShowAddArrow(true) },
+    {
+      id: "connect", keys: "c", label: "Toggle connection mode", group: "Actions",
+      run: () => {
+        setConnectionMode((v) => !v);
+        setConnectionStart(null);
+      },
+    },
+    { id: "layout-tb", keys: "l", label: "Auto layout (top to bottom)", group: "Actions", run: () => handleAutoLayout("TB") },
+    { id: "layout-lr", keys: "shift+l", label: "Auto layout (left to right)", group: "Actions", run: () => handleAutoLayout("LR") },
+    { id: "export", keys: "e", label: "Export JSON", group: "Actions", run: handleExport },
+    { id: "fit", keys: "f", label: "Fit to content", group: "Canvas", run: handleFitContent },
+    { id: "zoom-selection", keys: "s", label: "Zoom to selection", group: "Canvas", run: handleZoomToSelection },
+    { id: "zoom-in", keys: "=", label: "Zoom in", group: "Canvas", run: zoomIn },
+    { id: "zoom-out", keys: "-", label: "Zoom out", group: "Canvas", run: zoomOut },
+    { id: "zoom-reset", keys: "0", label: "Reset zoom to 100%", group: "Canvas", run: resetZoom },
+    { id: "impact", keys: "i", label: "Toggle impact mode", group: "Canvas", run: () => setImpactMode((v) => !v) },
+    { id: "timeline", keys: "t", label: "Open Executive Timeline", group: "Views", run: () => setShowTimeline(true) },
+    { id: "diagram", keys: "d", label: "Open architecture diagram", group: "Views", run: () => setShowDiagram(true) },
+    { id: "roadmap", keys: "r", label: "Open roadmap", group: "Views", run: () => setShowRoadmap(true) },
+  ];
+  // Paused while a full-screen view or any dialog owns the keyboard (Esc
+  // closes it instead) — the canvas behind it mustn't react to keystrokes.
+  // The palette and shortcut-help toggles keep working.
+  const overlayOpen =
+    showCommandPalette || showShortcuts || showTimeline || showRoadmap || showDiagram ||
+    showAddNode || showAddArrow || !!editingConnection || !!groupDialog ||
+    !!importReport || !!pendingImport || showPasteDiagram ||
+    showCustomFields || showStatusWorkflow || showMyTasks || showUserManagement || showVersionHistory;
+  useKeyboardShortcuts(shortcuts, fullyAuthed, overlayOpen);
+
+  const PALETTE_EXCLUDED = new Set(["palette", "escape", "redo-alt"]);
+  const paletteCommands: PaletteCommand[] = [
+    ...shortcuts
+      .filter((s) => !s.disabled && !PALETTE_EXCLUDED.has(s.id))
+      .map(({ id, label, group, keys, run }) => ({ id, label, group, shortcut: keys, run })),
+    ...(userRole === "admin"
+      ? [{ id: "users", label: "Manage users", group: "Views", run: () => setShowUserManagement(true) }]
+      : []),
+    { id: "import", label: "Import JSON…", group: "Actions", run: () => fileInputRef.current?.click() },
+    { id: "versions", label: "Version history", group: "Views", keywords: ["restore", "diff"], run: () => setShowVersionHistory(true) },
+    {
+      id: "routing-style",
+      label: routingStyle === "curved" ? "Use orthogonal arrows" : "Use curved arrows",
+      group: "Canvas",
+      run: () => setRoutingStyle((st) => (st === "curved" ? "orthogonal" : "curved")),
+    },
+    ...data.milestones.map((m) => ({
+      id: `milestone-${m.id}`,
+      label: `Apply milestone view: ${m.name}`,
+      group: "Milestone views",
+      keywords: [m.description],
+      run: () => handleSelectMilestone(m.id),
+    })),
+    ...(activeMilestone
+      ? [{ id: "milestone-clear", label: "Show all components", group: "Milestone views", run: () => handleSelectMilestone(null) }]
+      : []),
+  ];
+
   // While Supabase resolves the existing OAuth session, show a spinner (not blank)
   if (authLoading) return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -840,7 +1874,7 @@ export default function App() {
 
   return (
     <div
-      className="min-h-screen bg-gray-50 overflow-x-hidden"
+      className="h-screen flex flex-col bg-gray-50 overflow-hidden"
       onMouseMove={handleDrag}
       onMouseUp={handleDragEnd}
     >
@@ -849,9 +1883,16 @@ export default function App() {
         milestones={data.milestones}
         onSelectMilestone={handleSelectMilestone}
         activeMilestone={activeMilestone}
+        fieldDefs={data.fieldDefs}
+        components={data.components}
+        fieldFilter={fieldFilter}
+        onFieldFilterChange={setFieldFilter}
         onShowDiagram={() => setShowDiagram(true)}
         onShowRoadmap={() => setShowRoadmap(true)}
         onShowTimeline={() => setShowTimeline(true)}
+        onlinePeers={onlinePeers}
+        pendingChanges={pendingChanges}
+        cycleTime={cycleTime}
       />
 
       {/* Connection Mode Banner */}
@@ -864,6 +1905,16 @@ export default function App() {
         </div>
       )}
 
+      {/* Sync notice */}
+      {syncNotice && (
+        <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-50 bg-red-600 text-white pl-6 pr-3 py-3 rounded-lg shadow-lg flex items-center gap-3 max-w-xl">
+          <p className="text-sm">{syncNotice}</p>
+          <button onClick={() => setSyncNotice(null)} className="shrink-0 rounded p-1 hover:bg-red-700" title="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* Loading Overlay */}
       {isLoading && (
         <div className="fixed inset-0 bg-white/80 z-[200] flex items-center justify-center">
@@ -907,6 +1958,32 @@ export default function App() {
           <Plus className="h-5 w-5 mr-2" />
           Add Arrow
         </Button>
+        <Button
+          variant={impactMode ? "default" : "outline"}
+          size="lg"
+          onClick={() => setImpactMode(!impactMode)}
+          className="shadow-lg"
+          title="Trace upstream / downstream of the selected node (I)"
+        >
+          <Waypoints className="h-5 w-5 mr-2" />
+          {impactMode ? "Exit Impact" : "Impact Mode"}
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="lg" className="shadow-lg">
+              <Network className="h-5 w-5 mr-2" />
+              Auto Layout
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="end">
+            <DropdownMenuItem onSelect={() => handleAutoLayout("TB")}>
+              <ArrowDown className="h-4 w-4" /> Top to bottom
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleAutoLayout("LR")}>
+              <ArrowRight className="h-4 w-4" /> Left to right
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
 
         {/* ── Manage Users (admin only) + Logout ── */}
         <div className="border-t border-gray-200 pt-2 mt-1 space-y-1">
@@ -915,6 +1992,27 @@ export default function App() {
               {googleUser.user_metadata?.full_name ?? googleUser.email}
             </p>
           )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowMyTasks(true)}
+            className="w-full text-gray-500 hover:text-blue-600 hover:bg-blue-50 gap-2"
+          >
+            <ListChecks className="h-4 w-4" />
+            My Tasks
+            {myOpenTasks > 0 && (
+              <span className="ml-auto rounded-full bg-emerald-100 px-1.5 text-[10px] font-semibold text-emerald-700">{myOpenTasks}</span>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowVersionHistory(true)}
+            className="w-full text-gray-500 hover:text-blue-600 hover:bg-blue-50 gap-2"
+          >
+            <History className="h-4 w-4" />
+            Version History
+          </Button>
           {userRole === "admin" && (
             <Button
               variant="ghost"
@@ -926,6 +2024,28 @@ export default function App() {
               Manage Users
             </Button>
           )}
+          {userRole === "admin" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowCustomFields(true)}
+              className="w-full text-gray-500 hover:text-blue-600 hover:bg-blue-50 gap-2"
+            >
+              <ListPlus className="h-4 w-4" />
+              Custom Fields
+            </Button>
+          )}
+          {userRole === "admin" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowStatusWorkflow(true)}
+              className="w-full text-gray-500 hover:text-blue-600 hover:bg-blue-50 gap-2"
+            >
+              <Workflow className="h-4 w-4" />
+              Status Workflow
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -962,125 +2082,319 @@ export default function App() {
         <Button
           variant="outline"
           size="lg"
-          onClick={handleExport}
+          onClick={() => setShowPasteDiagram(true)}
           className="shadow-lg"
+          title="Add nodes and arrows from Mermaid or Graphviz DOT source"
         >
-          <Download className="h-5 w-5 mr-2" />
-          Export
+          <ClipboardPaste className="h-5 w-5 mr-2" />
+          Paste diagram
         </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="lg" className="shadow-lg">
+              <Download className="h-5 w-5 mr-2" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="top" align="end">
+            <DropdownMenuItem onSelect={handleExport}>
+              <FileJson className="h-4 w-4" /> JSON (re-importable)
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={handleExportCsv}>
+              <FileSpreadsheet className="h-4 w-4" /> CSV (spreadsheet)
+            </DropdownMenuItem>
+            {(Object.keys(DIAGRAM_FORMATS) as DiagramFormat[]).map((format) => (
+              <DropdownMenuItem key={format} onSelect={() => handleExportDiagram(format)}>
+                <FileCode className="h-4 w-4" /> {DIAGRAM_FORMATS[format].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       <div
-        className="relative transition-[margin] duration-100 ease-out"
+        ref={canvasRef}
+        data-canvas-bg
+        className="relative flex-1 min-h-0 overflow-hidden transition-[margin] duration-100 ease-out"
         style={{
-          minHeight: "calc(100vh - 140px)",
-          padding: "40px",
           marginRight: selectedNode ? `${panelWidth}px` : "0px",
-          userSelect: isResizing ? "none" : undefined,
+          userSelect: isResizing || isPanning ? "none" : undefined,
+          cursor: isPanning ? "grabbing" : "grab",
+        }}
+        onMouseDown={(e) => {
+          if (!isCanvasBackground(e.target)) return;
+          canvasPointerDownRef.current = { x: e.clientX, y: e.clientY };
+          if (e.shiftKey && !connectionMode) {
+            const start = toWorld(e.clientX, e.clientY);
+            marqueeStartRef.current = start;
+            setMarquee({ start, end: start });
+          } else {
+            startPan(e);
+          }
+        }}
+        onClick={(e) => {
+          if (!isCanvasBackground(e.target)) return;
+          if (connectionMode) {
+            setConnectionMode(false);
+            setConnectionStart(null);
+            return;
+          }
+          // A plain click on empty canvas (not the end of a pan) clears the selection
+          const down = canvasPointerDownRef.current;
+          if (!e.shiftKey && down && Math.hypot(e.clientX - down.x, e.clientY - down.y) < 4) {
+            setSelectedNodeIds(new Set());
+          }
         }}
       >
-        {/* Flow Layer - Arrows */}
-        <svg
-          className="absolute top-0 left-0 pointer-events-none"
+        {/* World layer — everything inside is positioned in world coordinates */}
+        <div
+          data-canvas-bg
+          className="absolute top-0 left-0"
           style={{
-            width: "100%",
-            height: "1400px",
-            zIndex: 5,
+            transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+            transformOrigin: "0 0",
           }}
         >
-          <defs>
-            <marker
-              id="arrowhead"
-              markerWidth="8"
-              markerHeight="8"
-              refX="7"
-              refY="4"
-              orient="auto"
-            >
-              <polygon points="0 0, 8 4, 0 8" fill="#374151" />
-            </marker>
-          </defs>
-          {connections.map((conn, idx) => {
-            const fromNode = filteredComponents.find((c) => c.id === conn.from);
-            const toNode = filteredComponents.find((c) => c.id === conn.to);
-
-            if (!fromNode || !toNode) return null;
-
-            const isFromAgentNode = [
-              "finance-agent",
-              "legal-agent",
-              "operations-agent",
-              "strategy-agent",
-            ].includes(fromNode.id);
-            const isToAgentNode = [
-              "finance-agent",
-              "legal-agent",
-              "operations-agent",
-              "strategy-agent",
-            ].includes(toNode.id);
-            const fromWidth = isFromAgentNode ? 80 : 110;
-            const toWidth = isToAgentNode ? 80 : 110;
-
-            const x1 = fromNode.position.x + fromWidth;
-            const y1 = fromNode.position.y + 70;
-            const x2 = toNode.position.x + toWidth;
-            const y2 = toNode.position.y;
-
-            return (
-              <g key={idx}>
-                <line
-                  x1={x1}
-                  y1={y1}
-                  x2={x2}
-                  y2={y2}
-                  stroke="#374151"
-                  strokeWidth="2"
-                  markerEnd="url(#arrowhead)"
-                  className="pointer-events-auto cursor-pointer hover:stroke-red-500"
-                  onClick={() => {
-                    if (window.confirm("Delete this connection?")) {
-                      setConnections((prev) => prev.filter((_, i) => i !== idx));
+          {/* Group containers — behind arrows and nodes */}
+          {groupViews.filter(({ group }) => !group.collapsed).map(({ group, members, rect }) => (
+            <GroupContainer
+              key={group.id}
+              group={group}
+              bounds={rect}
+              memberCount={members.length}
+              onDragStart={(e) => startDrag(new Set(members.map((m) => m.id)), e)}
+              onEdit={() => setGroupDialog({ mode: "edit", group })}
+              onCollapse={() => handleToggleGroupCollapsed(group)}
+            />
+          ))}
+
+          {/* Flow Layer - Arrows */}
+          <svg
+            className="absolute top-0 left-0 pointer-events-none"
+            style={{
+              width: "1px",
+              height: "1px",
+              overflow: "visible",
+              zIndex: 5,
+            }}
+          >
+            <defs>
+              {CONNECTION_TYPES.map((type) => (
+                <marker
+                  key={type}
+                  id={`arrowhead-${type}`}
+                  markerWidth="8"
+                  markerHeight="8"
+                  refX="7"
+                  refY="4"
+                  orient="auto"
+                >
+                  <polygon points="0 0, 8 4, 0 8" fill={CONNECTION_TYPE_STYLES[type].stroke} />
+                </marker>
+              ))}
+              {/* Async flows get an open arrowhead */}
+              <marker id="arrowhead-async" markerWidth="10" markerHeight="10" refX="8" refY="5" orient="auto">
+                <polyline points="1 1, 8 5, 1 9" fill="none" stroke="#374151" strokeWidth="1.5" />
+              </marker>
+            </defs>
+            {canvasConnections.map((conn) => {
+              const route = routedEdges.get(conn.id);
+              if (!route) return null;
+
+              const style = CONNECTION_TYPE_STYLES[conn.type];
+              const original = connections.find((c) => c.id === conn.id) ?? conn;
+              const onImpactPath = impact && selectedNodeId ? isImpactEdge(original, selectedNodeId, impact) : null;
+
+              return (
+                <g
+                  key={conn.id}
+                  className="group/edge pointer-events-auto cursor-pointer"
+                  onClick={() => setEditingConnection(original)}
+                >
+                  {conn.description && <title>{conn.description}</title>}
+                  {/* Wide invisible hit area so thin / dotted lines are easy to click */}
+                  <path d={route.path} fill="none" stroke="transparent" strokeWidth="12" />
+                  <path
+                    d={route.path}
+                    fill="none"
+                    stroke={style.stroke}
+                    strokeWidth={onImpactPath ? 3 : 2}
+                    strokeDasharray={style.dasharray}
+                    opacity={onImpactPath === false ? 0.12 : style.opacity}
+                    markerEnd={`url(#arrowhead-${conn.async ? "async" : conn.type})`}
+                    className="group-hover/edge:stroke-blue-500"
+                  />
+                  {(conn.label || conn.async) && (
+                    <text
+                      x={route.labelPoint.x}
+                      y={route.labelPoint.y}
+                      dy="-6"
+                      textAnchor="middle"
+                      fontSize="11"
+                      fill={style.stroke}
+                      stroke="#f9fafb"
+                      strokeWidth="4"
+                      paintOrder="stroke"
+                      className="select-none"
+                    >
+                      {conn.label}{conn.async ? (conn.label ? " (async)" : "async") : ""}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* Node Layer */}
+          <div className="relative" style={{ zIndex: 10, cursor: "default" }}>
+            {canvasComponents.map((node) => (
+              <ArchitectureNode
+                key={node.id}
+                node={node}
+                tags={data.tags}
+                onClick={(e) => {
+                  if (connectionMode) {
+                    if (connectionStart) {
+                      handleEndConnection(node.id);
+                    } else {
+                      handleStartConnection(node.id);
                     }
-                  }}
-                />
-              </g>
-            );
-          })}
-        </svg>
-
-        {/* Node Layer */}
-        <div
-          className="relative"
-          style={{ zIndex: 10, minHeight: "1200px" }}
-          onClick={(e) => {
-            if (connectionMode && e.target === e.currentTarget) {
-              setConnectionMode(false);
-              setConnectionStart(null);
-            }
-          }}
-        >
-          {filteredComponents.map((node) => (
-            <ArchitectureNode
-              key={node.id}
-              node={node}
-              tags={data.tags}
-              onClick={() => {
-                if (connectionMode) {
-                  if (connectionStart) {
-                    handleEndConnection(node.id);
+                  } else if (e.shiftKey) {
+                    toggleNodeSelection(node.id);
                   } else {
-                    handleStartConnection(node.id);
+                    setSelectedNodeIds(new Set([node.id]));
+                    setSelectedNodeId(node.id);
                   }
-                } else {
-                  setSelectedNodeId(node.id);
-                }
+                }}
+                showStatusOverlay={true}
+                onDragStart={(e) => handleDragStart(node.id, e)}
+                onTogglePin={() => handleUpdateNode(node.id, { pinned: !node.pinned })}
+                nodeRef={measureRef(node.id)}
+                connectionMode={connectionMode}
+                isConnectionStart={connectionStart === node.id}
+                isSelected={selectedNodeIds.has(node.id)}
+                impactRole={impactRoleOf(node.id)}
+                blockedBy={blockedBy.get(node.id)?.map(nodeName)}
+                viewers={viewersByNode.get(node.id)}
+                fieldDefs={data.fieldDefs}
+              />
+            ))}
+            {groupViews.filter(({ group }) => group.collapsed).map(({ group, members, rect }) => (
+              <GroupSummaryNode
+                key={group.id}
+                group={group}
+                members={members}
+                position={{ x: rect.x, y: rect.y }}
+                onDragStart={(e) => startDrag(new Set(members.map((m) => m.id)), e)}
+                onEdit={() => setGroupDialog({ mode: "edit", group })}
+                onExpand={() => handleToggleGroupCollapsed(group)}
+                nodeRef={measureRef(group.id)}
+                dimmed={!!impact && members.every((m) => impactRoleOf(m.id) === "unrelated")}
+              />
+            ))}
+          </div>
+
+          {/* Rubber-band selection */}
+          {marquee && (
+            <div
+              className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none"
+              style={{
+                left: Math.min(marquee.start.x, marquee.end.x),
+                top: Math.min(marquee.start.y, marquee.end.y),
+                width: Math.abs(marquee.end.x - marquee.start.x),
+                height: Math.abs(marquee.end.y - marquee.start.y),
+                zIndex: 15,
               }}
-              showStatusOverlay={true}
-              onDragStart={(e) => handleDragStart(node.id, e)}
-              connectionMode={connectionMode}
-              isConnectionStart={connectionStart === node.id}
             />
-          ))}
+          )}
+        </div>
+
+        {/* Undo / redo + history list, command palette, search */}
+        <div className="absolute top-4 left-4 z-20 flex items-center gap-2">
+          <HistoryControls
+            past={historyPast}
+            future={historyFuture}
+            onUndo={undo}
+            onRedo={redo}
+            onJumpTo={jumpTo}
+          />
+          <div className="flex items-center gap-1 bg-white/90 border rounded-lg shadow-lg p-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowCommandPalette(true)}
+              className="h-7 gap-2 text-gray-500"
+              title="Command palette"
+            >
+              <Command className="h-4 w-4" />
+              <span className="text-xs">{formatShortcut("mod+k").join(" ")}</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowShortcuts(true)}
+              className="h-7 w-7"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard className="h-4 w-4" />
+            </Button>
+          </div>
+          <GlobalSearch
+            nodes={data.components}
+            onPickNode={handleSearchPickNode}
+            onPickTimelineItem={handleSearchPickTimelineItem}
+            inputRef={searchInputRef}
+          />
+        </div>
+
+        {/* Align / distribute for multi-selection */}
+        {selectedComponents.length >= 2 && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20">
+            <SelectionToolbar
+              count={selectedComponents.length}
+              onAlign={handleAlign}
+              onDistribute={handleDistribute}
+              onGroup={() => setGroupDialog({ mode: "create", memberIds: selectedComponents.map((c) => c.id) })}
+              onClear={() => setSelectedNodeIds(new Set())}
+            />
+          </div>
+        )}
+
+        {/* Impact trace for the selected node */}
+        {impactMode && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20">
+            <ImpactPanel
+              focus={selectedNode}
+              upstream={data.components.filter((c) => impact?.upstream.has(c.id))}
+              downstream={data.components.filter((c) => impact?.downstream.has(c.id))}
+              blockedIds={new Set(blockedBy.keys())}
+              onFocusNode={focusNode}
+              onExit={() => setImpactMode(false)}
+            />
+          </div>
+        )}
+
+        {/* Minimap + zoom controls */}
+        <div className="absolute top-4 right-4 z-20 flex flex-col items-end gap-2">
+          <Minimap
+            nodes={filteredComponents}
+            getNodeRect={getNodeRect}
+            viewport={viewport}
+            containerSize={containerSize}
+            selectedNodeId={selectedNodeId}
+            onNavigate={panTo}
+          />
+          <ViewportControls
+            zoom={viewport.zoom}
+            onZoomIn={zoomIn}
+            onZoomOut={zoomOut}
+            onResetZoom={resetZoom}
+            onFitContent={handleFitContent}
+            onZoomToSelection={handleZoomToSelection}
+            hasSelection={!!selectedNode || selectedComponents.length > 0}
+            routingStyle={routingStyle}
+            onToggleRoutingStyle={() => setRoutingStyle((s) => (s === "curved" ? "orthogonal" : "curved"))}
+          />
         </div>
       </div>
 
@@ -1093,13 +2407,20 @@ export default function App() {
         onUpdateNode={handleUpdateNode}
         onDeleteNode={handleDeleteNode}
         onCreateTag={handleCreateTag}
-        onEditStart={(nodeId) => { dirtyNodeIdsRef.current.add(nodeId); }}
-        onEditEnd={(nodeId) => { if (nodeId) dirtyNodeIdsRef.current.delete(nodeId); }}
+        fieldDefs={data.fieldDefs}
+        statusWorkflow={statusWorkflow}
+        onEditStart={handleEditStart}
+        onEditEnd={handleEditEnd}
         width={panelWidth}
         onResizeStart={handleResizeStart}
         isResizing={isResizing}
         googleUser={googleUser}
         userRole={userRole}
+        searchFocus={searchFocus}
+        conflicts={selectedNodeId ? nodeConflicts.get(selectedNodeId) : undefined}
+        onResolveConflict={handleResolveConflict}
+        viewers={selectedViewers}
+        peerEditors={selectedPeerEditors}
       />
 
       <DiagramViewer
@@ -1114,15 +2435,76 @@ export default function App() {
 
       <ExecutiveTimeline
         isOpen={showTimeline}
-        onClose={() => setShowTimeline(false)}
+        onClose={() => {
+          setShowTimeline(false);
+          setTimelineFocusId(null);
+        }}
+        focusItemId={timelineFocusId}
+      />
+
+      <CommandPalette
+        open={showCommandPalette}
+        onOpenChange={setShowCommandPalette}
+        nodes={data.components}
+        onJumpToNode={focusNode}
+        commands={paletteCommands}
+      />
+
+      <ShortcutsOverlay
+        open={showShortcuts}
+        onOpenChange={setShowShortcuts}
+        shortcuts={shortcuts}
+      />
+
+      <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+      {pendingImport && (
+        <ImportWizard
+          pending={pendingImport}
+          current={liveSnapshot}
+          canDeleteNodes={userRole === "admin"}
+          statusWorkflow={statusWorkflow}
+          actor={googleUser?.user_metadata?.full_name ?? googleUser?.email ?? "Unknown"}
+          onApply={handleApplyImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+      {showPasteDiagram && (
+        <PasteDiagramDialog
+          current={liveSnapshot}
+          onApply={(plan, label) => {
+            handleApplyImport(plan, label);
+            setShowPasteDiagram(false);
+          }}
+          onClose={() => setShowPasteDiagram(false)}
+        />
+      )}
+
+      <GroupDialog
+        isOpen={!!groupDialog}
+        group={groupDialog?.mode === "edit" ? groupDialog.group : null}
+        memberCount={
+          groupDialog?.mode === "edit" ? groupDialog.group.memberIds.length : groupDialog?.memberIds.length ?? 0
+        }
+        onClose={() => setGroupDialog(null)}
+        onSave={handleSaveGroup}
+        onUngroup={groupDialog?.mode === "edit" ? () => handleUngroup(groupDialog.group.id) : undefined}
       />
 
       <AddArrowDialog
-        isOpen={showAddArrow}
-        onClose={() => setShowAddArrow(false)}
-        onAddArrow={(from, to) => {
-          setConnections((prev) => [...prev, { from, to }]);
+        isOpen={showAddArrow || !!editingConnection}
+        connection={editingConnection}
+        onClose={() => {
+          setShowAddArrow(false);
+          setEditingConnection(null);
+        }}
+        onSave={(connection) => {
+          handleSaveConnection(connection);
           setShowAddArrow(false);
+          setEditingConnection(null);
+        }}
+        onDelete={(connectionId) => {
+          handleRemoveConnection(connectionId);
+          setEditingConnection(null);
         }}
         nodes={filteredComponents.map((node) => node.id)}
       />
@@ -1131,7 +2513,9 @@ export default function App() {
         isOpen={showAddNode}
         onClose={() => setShowAddNode(false)}
         onAddNode={(node) => {
-          handleAddNode(node);
+          // Start the status log so time in the first status is measured too
+          const actor = googleUser?.user_metadata?.full_name ?? googleUser?.email ?? "Unknown";
+          handleAddNode({ ...node, statusHistory: [initialTransition(node.status, actor)] });
           setShowAddNode(false);
         }}
         existingTags={data.tags}
@@ -1141,6 +2525,55 @@ export default function App() {
       {showUserManagement && userRole === "admin" && (
         <UserManagementPanel onClose={() => setShowUserManagement(false)} />
       )}
+
+      {showMyTasks && (
+        <MyTasksDialog
+          components={data.components}
+          email={googleUser?.email ?? null}
+          onToggleTask={(nodeId, taskId) => {
+            const node = dataRef.current.components.find((c) => c.id === nodeId);
+            if (node) handleUpdateNode(nodeId, toggleTaskUpdates(node, taskId));
+          }}
+          onOpenNode={(nodeId) => {
+            setShowMyTasks(false);
+            focusNode(nodeId);
+          }}
+          onClose={() => setShowMyTasks(false)}
+        />
+      )}
+
+      {showCustomFields && userRole === "admin" && (
+        <CustomFieldsDialog
+          fieldDefs={data.fieldDefs}
+          usage={fieldUsage}
+          onSave={(next) => {
+            handleSaveFieldDefs(next);
+            setShowCustomFields(false);
+          }}
+          onClose={() => setShowCustomFields(false)}
+        />
+      )}
+
+      {showStatusWorkflow && userRole === "admin" && (
+        <StatusWorkflowDialog
+          workflow={statusWorkflow}
+          onSave={(next) => {
+            handleSaveStatusWorkflow(next);
+            setShowStatusWorkflow(false);
+          }}
+          onClose={() => setShowStatusWorkflow(false)}
+        />
+      )}
+
+      {showVersionHistory && (
+        <VersionHistoryPanel
+          onClose={() => setShowVersionHistory(false)}
+          current={liveSnapshot}
+          loadSnapshot={loadVersionSnapshot}
+          canRestore={userRole === "admin"}
+          onRestore={handleRestoreVersion}
+        />
+      )}
     </div>
   );
 }
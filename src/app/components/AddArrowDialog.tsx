@@ -1,33 +1,69 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from './ui/button';
-import { X, ArrowRight } from 'lucide-react';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { X, ArrowRight, Trash2 } from 'lucide-react';
+import type { Connection, ConnectionType } from '../types/architecture';
+import { CONNECTION_TYPES, CONNECTION_TYPE_STYLES, generateConnectionId } from '../utils/connections';
 
 interface AddArrowDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddArrow: (from: string, to: string) => void;
+  onSave: (connection: Connection) => void;
+  /** Shown in edit mode only. */
+  onDelete?: (connectionId: string) => void;
+  /** When set, the dialog edits this connection instead of creating a new one. */
+  connection?: Connection | null;
   nodes: string[];
 }
 
-export function AddArrowDialog({ isOpen, onClose, onAddArrow, nodes }: AddArrowDialogProps) {
+function nodeLabel(nodeId: string) {
+  return nodeId.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+export function AddArrowDialog({ isOpen, onClose, onSave, onDelete, connection, nodes }: AddArrowDialogProps) {
   const [fromNode, setFromNode] = useState('');
   const [toNode, setToNode] = useState('');
+  const [type, setType] = useState<ConnectionType>('data');
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [isAsync, setIsAsync] = useState(false);
+
+  // Seed the form whenever the dialog opens (blank for add, current values for edit)
+  useEffect(() => {
+    if (!isOpen) return;
+    setFromNode(connection?.from ?? '');
+    setToNode(connection?.to ?? '');
+    setType(connection?.type ?? 'data');
+    setLabel(connection?.label ?? '');
+    setDescription(connection?.description ?? '');
+    setIsAsync(connection?.async ?? false);
+  }, [isOpen, connection]);
 
   if (!isOpen) return null;
 
-  const handleAdd = () => {
+  const isEdit = !!connection;
+
+  const handleSave = () => {
     if (fromNode && toNode && fromNode !== toNode) {
-      onAddArrow(fromNode, toNode);
-      setFromNode('');
-      setToNode('');
+      onSave({
+        id: connection?.id ?? generateConnectionId(),
+        from: fromNode,
+        to: toNode,
+        type,
+        ...(label.trim() ? { label: label.trim() } : {}),
+        ...(description.trim() ? { description: description.trim() } : {}),
+        ...(isAsync ? { async: true } : {}),
+      });
     }
   };
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50">
-      <div className="w-full max-w-md bg-white rounded-lg shadow-xl p-6">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold">Add Arrow</h2>
+          <h2 className="text-xl font-semibold">{isEdit ? 'Edit Arrow' : 'Add Arrow'}</h2>
           <button
             onClick={onClose}
             className="p-1 hover:bg-gray-100 rounded-full transition-colors"
@@ -47,7 +83,7 @@ export function AddArrowDialog({ isOpen, onClose, onAddArrow, nodes }: AddArrowD
               <option value="">Select source node...</option>
               {nodes.map((nodeId) => (
                 <option key={nodeId} value={nodeId}>
-                  {nodeId.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')}
+                  {nodeLabel(nodeId)}
                 </option>
               ))}
             </select>
@@ -67,7 +103,7 @@ export function AddArrowDialog({ isOpen, onClose, onAddArrow, nodes }: AddArrowD
               <option value="">Select target node...</option>
               {nodes.map((nodeId) => (
                 <option key={nodeId} value={nodeId}>
-                  {nodeId.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')}
+                  {nodeLabel(nodeId)}
                 </option>
               ))}
             </select>
@@ -76,9 +112,77 @@ export function AddArrowDialog({ isOpen, onClose, onAddArrow, nodes }: AddArrowD
           {fromNode && toNode && fromNode === toNode && (
             <p className="text-sm text-red-500">Source and target nodes must be different</p>
           )}
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Type</label>
+            <Select value={type} onValueChange={(value) => setType(value as ConnectionType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONNECTION_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    <div className="flex items-center gap-2">
+                      <svg width="28" height="8" className="flex-shrink-0">
+                        <line
+                          x1="0" y1="4" x2="28" y2="4"
+                          stroke={CONNECTION_TYPE_STYLES[t].stroke}
+                          strokeWidth="2"
+                          strokeDasharray={CONNECTION_TYPE_STYLES[t].dasharray}
+                          opacity={CONNECTION_TYPE_STYLES[t].opacity}
+                        />
+                      </svg>
+                      {CONNECTION_TYPE_STYLES[t].label}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">{CONNECTION_TYPE_STYLES[type].description}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Label</label>
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g., Scenario bundle JSON"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Description</label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What flows along this arrow, and when?"
+              className="min-h-[70px]"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={isAsync}
+              onChange={(e) => setIsAsync(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Asynchronous (queued / fire-and-forget)
+          </label>
         </div>
 
         <div className="flex gap-2 mt-6">
+          {isEdit && onDelete && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (window.confirm('Delete this connection?')) onDelete(connection.id);
+              }}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant="outline"
             onClick={onClose}
@@ -87,11 +191,11 @@ export function AddArrowDialog({ isOpen, onClose, onAddArrow, nodes }: AddArrowD
             Cancel
           </Button>
           <Button
-            onClick={handleAdd}
+            onClick={handleSave}
             disabled={!fromNode || !toNode || fromNode === toNode}
             className="flex-1"
           >
-            Add Arrow
+            {isEdit ? 'Save Arrow' : 'Add Arrow'}
           </Button>
         </div>
       </div>
@@ -1,8 +1,14 @@
-import { Tag, MilestoneView } from '../types/architecture';
+import { Tag, MilestoneView, ComponentNode, CustomFieldDef } from '../types/architecture';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Milestone, X, FileImage, Map, ExternalLink, BarChart2 } from 'lucide-react';
+import { Input } from './ui/input';
+import { Milestone, X, FileImage, Map, ExternalLink, BarChart2, CloudOff, Timer, ListFilter } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { PresenceState } from '../utils/architectureStore';
+import { PresenceAvatars } from './PresenceAvatars';
+import { formatDuration, type CycleTimeSummary } from '../utils/statusWorkflow';
+import { filterChoices, hasFilterChoices, type CustomFieldFilter } from '../utils/customFields';
+import { useUsers } from '../hooks/useUsers';
 
 interface ArchitectureControlsProps {
   allTags: Tag[];
@@ -12,6 +18,87 @@ interface ArchitectureControlsProps {
   onShowDiagram: () => void;
   onShowRoadmap: () => void;
   onShowTimeline: () => void;
+  /** Other people currently in the app (one entry per person). */
+  onlinePeers?: PresenceState[];
+  /** Changes saved on this device but not yet on the server (offline queue). */
+  pendingChanges?: number;
+  /** In progress → built across the map (from node status logs). */
+  cycleTime?: CycleTimeSummary;
+  /** Custom field filter: definitions to pick from, nodes for the value list. */
+  fieldDefs?: CustomFieldDef[];
+  components?: ComponentNode[];
+  fieldFilter?: CustomFieldFilter | null;
+  onFieldFilterChange?: (filter: CustomFieldFilter | null) => void;
+}
+
+const ANY_VALUE = '__any';
+
+// ─── Custom field filter: pick a field, then a value (or any filled-in value) ───
+function FieldFilterControl({
+  fieldDefs,
+  components,
+  filter,
+  onChange,
+}: {
+  fieldDefs: CustomFieldDef[];
+  components: ComponentNode[];
+  filter: CustomFieldFilter | null;
+  onChange: (filter: CustomFieldFilter | null) => void;
+}) {
+  const { nameOf } = useUsers();
+  const def = filter ? fieldDefs.find((d) => d.id === filter.defId) : undefined;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Select
+        value={def?.id ?? 'none'}
+        onValueChange={(value) => onChange(value === 'none' ? null : { defId: value, value: '' })}
+      >
+        <SelectTrigger className="w-[180px]">
+          <ListFilter className="h-4 w-4 mr-2" />
+          <SelectValue placeholder="Filter by field..." />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No field filter</SelectItem>
+          {fieldDefs.map((d) => (
+            <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {def && filter && (hasFilterChoices(def.type) ? (
+        <Select
+          value={filter.value || ANY_VALUE}
+          onValueChange={(value) => onChange({ ...filter, value: value === ANY_VALUE ? '' : value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_VALUE}>Any value</SelectItem>
+            {filterChoices(def, components).map((choice) => (
+              <SelectItem key={choice} value={choice}>
+                {def.type === 'user' ? nameOf(choice) ?? choice : choice}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          value={filter.value}
+          onChange={(e) => onChange({ ...filter, value: e.target.value })}
+          placeholder="Any value"
+          className="w-[160px] h-9"
+        />
+      ))}
+
+      {def && (
+        <Button variant="ghost" size="icon" onClick={() => onChange(null)} className="h-7 w-7" title="Clear field filter">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
 }
 
 export function ArchitectureControls({
@@ -22,6 +109,13 @@ export function ArchitectureControls({
   onShowDiagram,
   onShowRoadmap,
   onShowTimeline,
+  onlinePeers = [],
+  pendingChanges = 0,
+  cycleTime,
+  fieldDefs = [],
+  components = [],
+  fieldFilter = null,
+  onFieldFilterChange,
 }: ArchitectureControlsProps) {
   const activeMilestoneObj = milestones.find((m) => m.id === activeMilestone);
 
@@ -35,6 +129,34 @@ export function ArchitectureControls({
           </div>
 
           <div className="flex items-center gap-3">
+            {pendingChanges > 0 && (
+              <Badge
+                variant="outline"
+                className="gap-1.5 border-amber-300 bg-amber-50 text-amber-800"
+                title="Saved on this device. They'll sync, in order, when the connection returns."
+              >
+                <CloudOff className="h-3.5 w-3.5" />
+                {pendingChanges} pending {pendingChanges === 1 ? 'change' : 'changes'}
+              </Badge>
+            )}
+
+            {cycleTime && cycleTime.average !== null && (
+              <Badge
+                variant="outline"
+                className="gap-1.5 text-gray-700"
+                title={`Average time from In Progress to Built: ${cycleTime.cycles} ${cycleTime.cycles === 1 ? 'cycle' : 'cycles'} across ${cycleTime.nodes} ${cycleTime.nodes === 1 ? 'node' : 'nodes'}`}
+              >
+                <Timer className="h-3.5 w-3.5" />
+                Avg cycle {formatDuration(cycleTime.average)}
+              </Badge>
+            )}
+
+            {onlinePeers.length > 0 && (
+              <div className="pr-1" title={`Also here: ${onlinePeers.map((p) => p.name).join(', ')}`}>
+                <PresenceAvatars peers={onlinePeers} max={5} />
+              </div>
+            )}
+
             <Button
               variant="outline"
               size="sm"
@@ -104,6 +226,15 @@ export function ArchitectureControls({
               <BarChart2 className="h-4 w-4 mr-2" /> Executive Timeline
             </Button>
 
+            {fieldDefs.length > 0 && onFieldFilterChange && (
+              <FieldFilterControl
+                fieldDefs={fieldDefs}
+                components={components}
+                filter={fieldFilter}
+                onChange={onFieldFilterChange}
+              />
+            )}
+
             <Select
               value={activeMilestone || 'none'}
               onValueChange={(value) => onSelectMilestone(value === 'none' ? null : value)}
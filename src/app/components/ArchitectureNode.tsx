@@ -1,15 +1,60 @@
-import { ComponentNode, Tag } from '../types/architecture';
+import { ComponentNode, CustomFieldDef, Tag } from '../types/architecture';
 import { Badge } from './ui/badge';
-import { Move } from 'lucide-react';
+import { Move, Pin, OctagonAlert, ListChecks } from 'lucide-react';
+import type { PresenceState } from '../utils/architectureStore';
+import { PresenceAvatars } from './PresenceAvatars';
+import { fieldValue, formatFieldValue } from '../utils/customFields';
+import { useUsers } from '../hooks/useUsers';
+import { overdueTasks, taskProgress } from '../utils/tasks';
+import { unresolvedThreadCount } from '../utils/commentThreads';
+
+/** How a node relates to the focused node while impact mode is on. */
+export type ImpactRole = 'focus' | 'upstream' | 'downstream' | 'unrelated';
 
 interface ArchitectureNodeProps {
   node: ComponentNode;
   tags: Tag[];
-  onClick: () => void;
+  onClick: (e: React.MouseEvent) => void;
   showStatusOverlay: boolean;
   onDragStart?: (e: React.MouseEvent) => void;
+  /** Toggle whether auto-layout may move this node. */
+  onTogglePin?: () => void;
+  /** Receives the root element so the canvas can measure the node. */
+  nodeRef?: (el: HTMLDivElement | null) => void;
   connectionMode?: boolean;
   isConnectionStart?: boolean;
+  /** Part of the canvas multi-selection. */
+  isSelected?: boolean;
+  /** Impact mode: highlight up/downstream, dim unrelated nodes. */
+  impactRole?: ImpactRole;
+  /** Impact mode: names of upstream blocker sources holding this node up. */
+  blockedBy?: string[];
+  /** Collaborators who have this node open in their detail panel. */
+  viewers?: PresenceState[];
+  /** Custom field definitions; those marked showOnNode become badges. */
+  fieldDefs?: CustomFieldDef[];
+}
+
+// ─── "Runtime: Go" badges for custom fields shown on the node ───
+function CustomFieldBadges({ node, fields }: { node: ComponentNode; fields: CustomFieldDef[] }) {
+  const { nameOf } = useUsers();
+  return (
+    <div className="flex flex-wrap gap-1">
+      {fields.map((def) => {
+        const text = formatFieldValue(def, fieldValue(node, def)!, nameOf);
+        return (
+          <Badge
+            key={def.id}
+            variant="outline"
+            className="text-[9px] px-1.5 py-0 h-4 max-w-full bg-white/70 text-gray-700 font-normal"
+            title={`${def.label}: ${text}`}
+          >
+            <span className="truncate"><span className="text-gray-400">{def.label}:</span> {text}</span>
+          </Badge>
+        );
+      })}
+    </div>
+  );
 }
 
 export function ArchitectureNode({ 
@@ -18,10 +63,18 @@ export function ArchitectureNode({
   onClick, 
   showStatusOverlay,
   onDragStart,
+  onTogglePin,
+  nodeRef,
   connectionMode,
   isConnectionStart,
+  isSelected,
+  impactRole,
+  blockedBy,
+  viewers,
+  fieldDefs = [],
 }: ArchitectureNodeProps) {
   const nodeTags = tags.filter((t) => node.tags.includes(t.id));
+  const badgeFields = fieldDefs.filter((def) => def.showOnNode && fieldValue(node, def) !== undefined);
   
   const getStatusColor = () => {
     switch (node.status) {
@@ -38,7 +91,9 @@ export function ArchitectureNode({
     }
   };
 
-  const hasOpenComments = node.comments.some((c) => c.status === 'open');
+  const openThreads = unresolvedThreadCount(node.comments);
+  const progress = taskProgress(node);
+  const overdue = overdueTasks(node).length;
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Only start dragging if clicking on the drag handle
@@ -62,17 +117,32 @@ export function ArchitectureNode({
   };
 
   // Check if this is one of the 4 agent nodes
+  const getImpactStyle = () => {
+    switch (impactRole) {
+      case 'upstream':
+        return 'ring-2 ring-violet-500 ring-offset-2';
+      case 'downstream':
+        return 'ring-2 ring-orange-500 ring-offset-2';
+      case 'unrelated':
+        return 'opacity-25';
+      default:
+        return '';
+    }
+  };
+
   const isAgentNode = ['finance-agent', 'legal-agent', 'operations-agent', 'strategy-agent'].includes(node.id);
   const nodeWidth = isAgentNode ? '160px' : '220px';
   const nodeSize = isAgentNode ? 'text-xs' : 'text-sm';
 
   return (
     <div
+      ref={nodeRef}
       onClick={onClick}
       onMouseDown={handleMouseDown}
       className={`
-        absolute cursor-pointer rounded-lg border-2 p-4 transition-all hover:shadow-lg
+        group absolute cursor-pointer rounded-lg border-2 p-4 transition-[box-shadow,border-color,background-color,opacity] hover:shadow-lg
         ${getBorderStyle()}
+        ${isSelected && !connectionMode ? 'ring-2 ring-blue-500 ring-offset-2' : getImpactStyle()}
       `}
       style={{
         left: `${node.position.x}px`,
@@ -80,6 +150,15 @@ export function ArchitectureNode({
         width: nodeWidth,
       }}
     >
+      {viewers && viewers.length > 0 && (
+        <div
+          className="absolute -top-2.5 -right-2.5"
+          title={`Open for ${viewers.map((p) => p.name).join(', ')}`}
+        >
+          <PresenceAvatars peers={viewers} size="sm" max={3} />
+        </div>
+      )}
+
       <div className="space-y-2">
         <div className="flex items-start justify-between gap-2">
           <div className="flex items-start gap-2 flex-1">
@@ -93,13 +172,46 @@ export function ArchitectureNode({
             )}
             <h3 className={`${nodeSize} leading-tight flex-1`}>{node.name}</h3>
           </div>
-          {hasOpenComments && (
-            <span className="flex h-5 w-5 items-center justify-center rounded-full bg-blue-500 text-[10px] text-white">
-              {node.comments.filter((c) => c.status === 'open').length}
+          {onTogglePin && !connectionMode && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onTogglePin(); }}
+              className={`rounded p-0.5 hover:bg-gray-200 ${node.pinned ? 'text-blue-600' : 'text-gray-400 opacity-0 group-hover:opacity-100'}`}
+              title={node.pinned ? 'Pinned — auto-layout keeps this position. Click to unpin.' : 'Pin position for auto-layout'}
+            >
+              <Pin className={`h-3 w-3 ${node.pinned ? 'fill-current' : ''}`} />
+            </button>
+          )}
+          {progress.total > 0 && (
+            <span
+              className={`flex h-5 items-center gap-0.5 rounded-full px-1.5 text-[10px] font-medium ${
+                overdue > 0 ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-600'
+              }`}
+              title={`${progress.done} of ${progress.total} tasks done${overdue > 0 ? ` · ${overdue} overdue` : ''}`}
+            >
+              <ListChecks className="h-3 w-3" />
+              {progress.done}/{progress.total}
+            </span>
+          )}
+          {openThreads > 0 && (
+            <span
+              className="flex h-5 w-5 items-center justify-center rounded-full bg-blue-500 text-[10px] text-white"
+              title={`${openThreads} unresolved ${openThreads === 1 ? 'thread' : 'threads'}`}
+            >
+              {openThreads}
             </span>
           )}
         </div>
         
+        {blockedBy && blockedBy.length > 0 && (
+          <div
+            className="flex items-center gap-1 rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-800"
+            title={`Blocked upstream by: ${blockedBy.join(', ')}`}
+          >
+            <OctagonAlert className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">Blocked by {blockedBy.length === 1 ? blockedBy[0] : `${blockedBy.length} upstream`}</span>
+          </div>
+        )}
+
         {nodeTags.length > 0 && (
           <div className="flex flex-wrap gap-1">
             {nodeTags.map((tag) => (
@@ -114,6 +226,17 @@ export function ArchitectureNode({
           </div>
         )}
 
+        {badgeFields.length > 0 && <CustomFieldBadges node={node} fields={badgeFields} />}
+
+        {progress.total > 0 && (
+          <div className="h-1 overflow-hidden rounded-full bg-black/10" title={`${progress.percent}% of tasks done`}>
+            <div
+              className={`h-full ${overdue > 0 ? 'bg-red-500' : 'bg-emerald-500'}`}
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+        )}
+
         {connectionMode && (
           <div className="text-[10px] text-gray-500 mt-1">
             {isConnectionStart ? 'Source selected. Click target.' : 'Click to connect'}
@@ -0,0 +1,92 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from './ui/command';
+import { Box } from 'lucide-react';
+import type { ComponentNode } from '../types/architecture';
+import { formatShortcut } from '../hooks/useKeyboardShortcuts';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  /** Shown as a hint on the right; the binding itself lives in useKeyboardShortcuts. */
+  shortcut?: string;
+  /** Extra words cmdk should match on. */
+  keywords?: string[];
+  icon?: React.ComponentType<{ className?: string }>;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodes: ComponentNode[];
+  onJumpToNode: (nodeId: string) => void;
+  commands: PaletteCommand[];
+}
+
+const STATUS_DOT: Record<ComponentNode['status'], string> = {
+  'built': 'bg-green-500',
+  'in-progress': 'bg-yellow-500',
+  'planned': 'bg-gray-400',
+  'open-question': 'bg-red-500',
+};
+
+export function CommandPalette({ open, onOpenChange, nodes, onJumpToNode, commands }: CommandPaletteProps) {
+  const groups = [...new Set(commands.map((c) => c.group))];
+
+  // Close first so focus returns to the canvas before the command runs
+  const runAndClose = (run: () => void) => {
+    onOpenChange(false);
+    run();
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Command Palette"
+      description="Jump to a node, open a view or run an action"
+    >
+      <CommandInput placeholder="Type a node name or command…" />
+      <CommandList>
+        <CommandEmpty>No matches.</CommandEmpty>
+
+        {groups.map((group) => (
+          <CommandGroup key={group} heading={group}>
+            {commands.filter((c) => c.group === group).map(({ id, label, shortcut, keywords, icon: Icon, run }) => (
+              <CommandItem key={id} value={`${group} ${label}`} keywords={keywords} onSelect={() => runAndClose(run)}>
+                {Icon && <Icon className="h-4 w-4" />}
+                <span>{label}</span>
+                {shortcut && <CommandShortcut>{formatShortcut(shortcut).join(' ')}</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+
+        <CommandSeparator />
+        <CommandGroup heading="Jump to node">
+          {nodes.map((node) => (
+            <CommandItem
+              key={node.id}
+              value={`node ${node.name} ${node.id}`}
+              keywords={[node.owner ?? '', ...node.tags]}
+              onSelect={() => runAndClose(() => onJumpToNode(node.id))}
+            >
+              <Box className="h-4 w-4" />
+              <span className="truncate">{node.name}</span>
+              <span className={`ml-auto h-2 w-2 rounded-full ${STATUS_DOT[node.status]}`} title={node.status} />
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { User } from '@supabase/supabase-js';
+import { CircleCheck, Edit2, Reply, Send, SmilePlus, Trash2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { MentionedUser } from './MentionTextarea';
+import { MarkdownEditor } from './MarkdownEditor';
+import { MarkdownText } from './MarkdownText';
+import { AttachmentList } from './AttachmentList';
+import type { Comment } from '../types/architecture';
+import { searchAnchor } from '../utils/search';
+import {
+  REACTION_EMOJIS,
+  deleteComment,
+  editComment,
+  markAnswer,
+  setThreadStatus,
+  toggleReaction,
+  type CommentThread as Thread,
+} from '../utils/commentThreads';
+
+interface CommentThreadProps {
+  thread: Thread;
+  /** The node's whole comment list — every change returns a new one. */
+  comments: Comment[];
+  /** Name recorded on reactions and edits. */
+  actor: string;
+  currentUser: User | null;
+  onChange: (next: Comment[]) => void;
+  onReply: (rootId: string, text: string, mentions: MentionedUser[]) => void;
+}
+
+const STATUS_STYLES: Record<Comment['status'], string> = {
+  open: 'border-gray-200',
+  answered: 'border-green-200',
+  parked: 'border-gray-200 bg-gray-50/60',
+};
+
+// ─── Reactions: existing ones as toggles, plus a picker for the rest ───
+function Reactions({ comment, actor, onToggle }: { comment: Comment; actor: string; onToggle: (emoji: string) => void }) {
+  const [picking, setPicking] = useState(false);
+  const reactions = Object.entries(comment.reactions ?? {});
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1.5">
+      {reactions.map(([emoji, people]) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => onToggle(emoji)}
+          title={people.join(', ')}
+          className={`flex items-center gap-1 rounded-full border px-1.5 py-0 text-xs ${
+            people.includes(actor) ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          <span>{emoji}</span>
+          <span className="text-[10px] tabular-nums">{people.length}</span>
+        </button>
+      ))}
+      {picking ? (
+        <div className="flex items-center gap-0.5 rounded-full border border-gray-200 bg-white px-1 shadow-sm">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => { onToggle(emoji); setPicking(false); }}
+              className="rounded-full px-1 text-sm hover:bg-gray-100"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setPicking(true)}
+          className="rounded-full p-0.5 text-gray-400 opacity-0 group-hover/comment:opacity-100 hover:bg-gray-100 hover:text-gray-600 transition-opacity"
+          title="Add reaction"
+        >
+          <SmilePlus className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ─── One comment or reply: header, text (or editor), history, reactions ───
+function CommentCard({
+  comment,
+  actor,
+  currentUser,
+  onEdit,
+  onDelete,
+  onReact,
+  headerExtra,
+}: {
+  comment: Comment;
+  actor: string;
+  currentUser: User | null;
+  onEdit: (text: string) => void;
+  onDelete: () => void;
+  onReact: (emoji: string) => void;
+  headerExtra?: React.ReactNode;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const edits = comment.edits ?? [];
+
+  return (
+    <div data-search-anchor={searchAnchor('comments', comment.id)} className="group/comment">
+      <div className="flex items-start justify-between gap-2 mb-1.5">
+        <div className="flex-1 min-w-0">
+          <span className="text-gray-900 font-medium text-xs">{comment.author}</span>
+          <span className="text-gray-400 text-[10px] ml-2">{format(comment.timestamp, 'MMM d, h:mm a')}</span>
+          {edits.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className="ml-1.5 text-[10px] text-gray-400 hover:text-gray-600 underline decoration-dotted"
+              title="Show edit history"
+            >
+              edited
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {headerExtra}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => { setDraft(comment.text); setEditing(true); }}
+            className="h-6 px-1.5 opacity-0 group-hover/comment:opacity-100 transition-opacity"
+            title="Edit"
+          >
+            <Edit2 className="h-2.5 w-2.5" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onDelete} className="h-6 px-1.5 text-red-500 hover:text-red-700 hover:bg-red-50" title="Delete">
+            <Trash2 className="h-2.5 w-2.5" />
+          </Button>
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <MarkdownEditor value={draft} onChange={setDraft} rows={3} className="min-h-[60px]" autoFocus />
+          <div className="flex gap-2">
+            <Button size="sm" className="h-7 text-xs" disabled={!draft.trim()} onClick={() => { onEdit(draft); setEditing(false); }}>Save</Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setEditing(false)}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <MarkdownText text={comment.text} mentions={comment.mentions} />
+      )}
+
+      {showHistory && edits.length > 0 && (
+        <ol className="mt-2 space-y-1.5 border-l-2 border-gray-100 pl-2">
+          {[...edits].reverse().map((edit, i) => (
+            <li key={i} className="text-[11px]">
+              <p className="text-gray-400" title={format(new Date(edit.at), 'PPpp')}>
+                Before {edit.by || 'someone'}'s edit {formatDistanceToNow(new Date(edit.at), { addSuffix: true })}
+              </p>
+              <p className="text-gray-500 whitespace-pre-wrap">{edit.text}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {comment.mentions.length > 0 && (
+        <div className="flex gap-1 mt-1.5">
+          {comment.mentions.map((mention) => (
+            <Badge key={mention} variant="outline" className="text-[10px] px-1.5 py-0">@{mention}</Badge>
+          ))}
+        </div>
+      )}
+      <Reactions comment={comment} actor={actor} onToggle={onReact} />
+      {/* Attachments for this comment (read-only in display mode) */}
+      <AttachmentList contextType="node" contextId={comment.id} field="comment" currentUser={currentUser} readOnly />
+    </div>
+  );
+}
+
+// ─── A top-level comment with its replies and a reply box ───
+export function CommentThread({ thread, comments, actor, currentUser, onChange, onReply }: CommentThreadProps) {
+  const { root, replies } = thread;
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [replyMentions, setReplyMentions] = useState<MentionedUser[]>([]);
+
+  const handleDelete = (comment: Comment) => {
+    const extra = comment.id === root.id && replies.length > 0 ? ` and its ${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}` : '';
+    if (window.confirm(`Delete this comment${extra}?`)) onChange(deleteComment(comments, comment.id));
+  };
+
+  const handleSendReply = () => {
+    if (!replyText.trim()) return;
+    onReply(root.id, replyText, replyMentions);
+    setReplyText('');
+    setReplyMentions([]);
+    setReplying(false);
+  };
+
+  const cardProps = (comment: Comment) => ({
+    comment,
+    actor,
+    currentUser,
+    onEdit: (text: string) => onChange(editComment(comments, comment.id, text, actor)),
+    onDelete: () => handleDelete(comment),
+    onReact: (emoji: string) => onChange(toggleReaction(comments, comment.id, emoji, actor)),
+  });
+
+  return (
+    <div className={`border rounded-lg p-3 text-sm ${STATUS_STYLES[root.status]}`}>
+      <CommentCard
+        {...cardProps(root)}
+        headerExtra={
+          <Select value={root.status} onValueChange={(value) => onChange(setThreadStatus(comments, root.id, value as Comment['status']))}>
+            <SelectTrigger className="w-[90px] h-6 text-[10px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="answered">Answered</SelectItem>
+              <SelectItem value="parked">Parked</SelectItem>
+            </SelectContent>
+          </Select>
+        }
+      />
+
+      {replies.length > 0 && (
+        <div className="mt-3 ml-2 space-y-3 border-l-2 border-gray-100 pl-3">
+          {replies.map((reply) => {
+            const isAnswer = root.answerId === reply.id;
+            return (
+              <div key={reply.id} className={isAnswer ? 'rounded-md bg-green-50/70 -ml-1 p-1.5 ring-1 ring-green-200' : ''}>
+                <CommentCard
+                  {...cardProps(reply)}
+                  headerExtra={
+                    <button
+                      type="button"
+                      onClick={() => onChange(markAnswer(comments, root.id, isAnswer ? null : reply.id))}
+                      className={`flex items-center gap-1 rounded px-1.5 h-6 text-[10px] ${
+                        isAnswer ? 'text-green-700 font-medium' : 'text-gray-400 opacity-0 group-hover/comment:opacity-100 hover:text-green-700 hover:bg-green-50'
+                      } transition-opacity`}
+                      title={isAnswer ? 'Unmark as the answer (reopens the thread)' : 'Mark as the answer (resolves the thread)'}
+                    >
+                      <CircleCheck className="h-3 w-3" />
+                      {isAnswer ? 'Answer' : 'Mark as answer'}
+                    </button>
+                  }
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {replying ? (
+        <div className="mt-3 ml-2 pl-3 space-y-2">
+          <MarkdownEditor
+            value={replyText}
+            onChange={setReplyText}
+            onMentionsChange={setReplyMentions}
+            placeholder="Reply… type @ to mention someone"
+            rows={2}
+            className="min-h-[56px]"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <Button size="sm" className="h-7 text-xs" disabled={!replyText.trim()} onClick={handleSendReply}>
+              <Send className="h-3 w-3 mr-1" /> Reply
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setReplying(false)}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setReplying(true)}
+          className="mt-2 flex items-center gap-1 text-[11px] text-gray-500 hover:text-blue-600"
+        >
+          <Reply className="h-3 w-3" />
+          Reply
+        </button>
+      )}
+    </div>
+  );
+}
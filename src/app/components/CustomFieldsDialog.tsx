@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { ListPlus, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { CustomFieldDef, CustomFieldType } from '../types/architecture';
+import { FIELD_TYPES, FIELD_TYPE_LABELS, generateFieldDefId, hasOptions } from '../utils/customFields';
+
+interface CustomFieldsDialogProps {
+  fieldDefs: CustomFieldDef[];
+  /** How many nodes have a value for each definition id. */
+  usage: Map<string, number>;
+  onSave: (next: CustomFieldDef[]) => void;
+  onClose: () => void;
+}
+
+interface DraftField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  /** Options as typed: one per line or comma-separated. */
+  optionsText: string;
+  showOnNode: boolean;
+  isNew: boolean;
+}
+
+const toDraft = (def: CustomFieldDef): DraftField => ({
+  id: def.id,
+  label: def.label,
+  type: def.type,
+  optionsText: (def.options ?? []).join(', '),
+  showOnNode: !!def.showOnNode,
+  isNew: false,
+});
+
+const parseOptions = (text: string) => [...new Set(text.split(/[,\n]/).map((o) => o.trim()).filter(Boolean))];
+
+function draftProblem(draft: DraftField, all: DraftField[]): string | null {
+  const label = draft.label.trim();
+  if (!label) return 'Needs a name';
+  if (all.some((d) => d !== draft && d.label.trim().toLowerCase() === label.toLowerCase())) return 'Name is used twice';
+  if (hasOptions(draft.type) && parseOptions(draft.optionsText).length === 0) return 'Needs at least one option';
+  return null;
+}
+
+// ─── Admin: define the custom fields every node can fill in ───
+export function CustomFieldsDialog({ fieldDefs, usage, onSave, onClose }: CustomFieldsDialogProps) {
+  const [drafts, setDrafts] = useState<DraftField[]>(() => fieldDefs.map(toDraft));
+
+  // Another admin saved meanwhile: pick up their definitions, keep unsaved new rows
+  useEffect(() => {
+    setDrafts((prev) => [...fieldDefs.map((def) => prev.find((d) => d.id === def.id && !d.isNew) ?? toDraft(def)), ...prev.filter((d) => d.isNew)]);
+  }, [fieldDefs]);
+
+  const update = (id: string, patch: Partial<DraftField>) =>
+    setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+
+  const addField = () =>
+    setDrafts((prev) => [...prev, { id: generateFieldDefId(''), label: '', type: 'text', optionsText: '', showOnNode: false, isNew: true }]);
+
+  const problems = new Map(drafts.map((d) => [d.id, draftProblem(d, drafts)]));
+  const valid = [...problems.values()].every((p) => p === null);
+
+  const handleSave = () => {
+    if (!valid) return;
+    onSave(drafts.map((d) => {
+      const def: CustomFieldDef = {
+        id: d.isNew ? generateFieldDefId(d.label) : d.id,
+        label: d.label.trim(),
+        type: d.type,
+      };
+      if (hasOptions(d.type)) def.options = parseOptions(d.optionsText);
+      if (d.showOnNode) def.showOnNode = true;
+      return def;
+    }));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5 text-blue-600" />
+            Custom fields
+          </DialogTitle>
+          <DialogDescription>
+            Extra fields every node can fill in, edited in the detail panel. Removing a field hides its values;
+            undo brings them back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+          {drafts.length === 0 && (
+            <p className="py-6 text-center text-sm text-gray-400">No custom fields yet.</p>
+          )}
+          {drafts.map((draft) => {
+            const problem = problems.get(draft.id);
+            const used = usage.get(draft.id) ?? 0;
+            return (
+              <div key={draft.id} className="rounded-md border border-gray-200 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={draft.label}
+                    onChange={(e) => update(draft.id, { label: e.target.value })}
+                    placeholder="e.g., Repository URL"
+                    className="flex-1"
+                    autoFocus={draft.isNew}
+                  />
+                  <Select value={draft.type} onValueChange={(type) => update(draft.id, { type: type as CustomFieldType })}>
+                    <SelectTrigger className="w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIELD_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDrafts((prev) => prev.filter((d) => d.id !== draft.id))}
+                    className="h-9 w-9 text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    title={used > 0 ? `Remove (filled in on ${used} ${used === 1 ? 'node' : 'nodes'})` : 'Remove'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {hasOptions(draft.type) && (
+                  <Input
+                    value={draft.optionsText}
+                    onChange={(e) => update(draft.id, { optionsText: e.target.value })}
+                    placeholder="Options, comma-separated — e.g., Python, Go, Rust"
+                    className="text-sm"
+                  />
+                )}
+
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={draft.showOnNode}
+                      onChange={(e) => update(draft.id, { showOnNode: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    Show as a badge on the node
+                  </label>
+                  <span className={`text-xs ${problem ? 'text-red-600' : 'text-gray-400'}`}>
+                    {problem ?? (draft.isNew ? 'New' : `${used} ${used === 1 ? 'node' : 'nodes'}`)}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+          <Button variant="outline" size="sm" onClick={addField} className="w-full gap-2">
+            <Plus className="h-4 w-4" /> Add field
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" disabled={!valid} onClick={handleSave}>Save fields</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { ComponentNode, CustomFieldDef, CustomFieldValue } from '../types/architecture';
+import type { MentionUser } from './MentionTextarea';
+import { customFieldUpdates, fieldValue } from '../utils/customFields';
+import { useUsers } from '../hooks/useUsers';
+
+interface CustomFieldsEditorProps {
+  node: ComponentNode;
+  fieldDefs: CustomFieldDef[];
+  onUpdate: (updates: Partial<ComponentNode>) => void;
+}
+
+interface FieldInputProps {
+  def: CustomFieldDef;
+  value: CustomFieldValue | undefined;
+  users: MentionUser[];
+  onChange: (value: CustomFieldValue | undefined) => void;
+}
+
+const NONE = '__none';
+
+// ─── Text / URL / number: edited as text, saved on blur or Enter ───
+function TypedInput({ def, value, onChange }: FieldInputProps) {
+  const saved = value === undefined ? '' : String(value);
+  const [draft, setDraft] = useState(saved);
+
+  useEffect(() => setDraft(saved), [saved]);
+
+  const commit = () => {
+    if (draft === saved) return;
+    const text = draft.trim();
+    if (!text) onChange(undefined);
+    else if (def.type !== 'number') onChange(text);
+    else if (Number.isFinite(Number(text))) onChange(Number(text));
+    else setDraft(saved);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        type={def.type === 'number' ? 'number' : def.type === 'url' ? 'url' : 'text'}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        placeholder={def.type === 'url' ? 'https://…' : '—'}
+        className="h-7 text-sm"
+      />
+      {def.type === 'url' && typeof value === 'string' && /^https?:\/\//.test(value) && (
+        <a href={value} target="_blank" rel="noopener noreferrer" className="p-1 text-gray-400 hover:text-blue-600" title="Open link">
+          <ExternalLink className="h-3.5 w-3.5" />
+        </a>
+      )}
+    </div>
+  );
+}
+
+function FieldInput(props: FieldInputProps) {
+  const { def, value, users, onChange } = props;
+
+  switch (def.type) {
+    case 'date':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className="h-7 text-sm w-44"
+        />
+      );
+
+    case 'select':
+    case 'user': {
+      const choices = def.type === 'select'
+        ? (def.options ?? []).map((o) => ({ value: o, label: o }))
+        : users.map((u) => ({ value: u.email, label: u.name || u.email }));
+      const current = typeof value === 'string' ? value : NONE;
+      // Keep a value that's no longer a choice (option removed, user gone) visible
+      if (current !== NONE && !choices.some((c) => c.value === current)) choices.push({ value: current, label: current });
+      return (
+        <Select value={current} onValueChange={(v) => onChange(v === NONE ? undefined : v)}>
+          <SelectTrigger className="h-7 text-sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>—</SelectItem>
+            {choices.map((c) => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    case 'multi-select': {
+      const selected = Array.isArray(value) ? value : [];
+      const options = [...(def.options ?? []), ...selected.filter((s) => !(def.options ?? []).includes(s))];
+      const toggle = (option: string) =>
+        onChange(selected.includes(option) ? selected.filter((s) => s !== option) : [...selected, option]);
+      return (
+        <div className="flex flex-wrap gap-1">
+          {options.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => toggle(option)}
+              className={`rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                selected.includes(option) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:border-gray-300'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return <TypedInput {...props} />;
+  }
+}
+
+// ─── Custom fields of one node, one editor per admin-defined field ───
+export function CustomFieldsEditor({ node, fieldDefs, onUpdate }: CustomFieldsEditorProps) {
+  const { users } = useUsers();
+
+  return (
+    <div className="space-y-3">
+      {fieldDefs.map((def) => (
+        <div key={def.id}>
+          <span className="block mb-1 text-[11px] font-medium text-gray-400 uppercase tracking-wider">{def.label}</span>
+          <FieldInput
+            def={def}
+            value={fieldValue(node, def)}
+            users={users}
+            onChange={(value) => onUpdate(customFieldUpdates(node, def.id, value))}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
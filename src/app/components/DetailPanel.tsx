@@ -1,5 +1,5 @@
-import { ComponentNode, Tag, Comment, WeeklyUpdate } from '../types/architecture';
-import { X, Plus, Send, Edit2, Check, Trash2, RefreshCw, Rocket, Lightbulb, MessageSquare, ChevronDown, ChevronRight, Calendar, AlertTriangle, Target } from 'lucide-react';
+import { ComponentNode, ComponentStatus, CustomFieldDef, StatusWorkflow, Tag, Comment, WeeklyUpdate } from '../types/architecture';
+import { X, Plus, Send, Edit2, Check, Trash2, RefreshCw, Rocket, Lightbulb, MessageSquare, History, ChevronDown, ChevronRight, Calendar, AlertTriangle, Target, ListPlus, ListChecks } from 'lucide-react';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -8,11 +8,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { format } from 'date-fns';
 import type { User } from '@supabase/supabase-js';
-import { MentionTextarea, type MentionedUser } from './MentionTextarea';
+import type { MentionedUser } from './MentionTextarea';
+import { MarkdownEditor } from './MarkdownEditor';
+import { MarkdownText } from './MarkdownText';
 import { useMentions } from '../hooks/useMentions';
 import { AttachmentList } from './AttachmentList';
-
-type PanelTab = 'mvp' | 'future' | 'discussion';
+import { NodeActivityFeed } from './NodeActivityFeed';
+import { NodeConflictPrompt } from './NodeConflictPrompt';
+import { SEARCH_FIELD_TAB, searchAnchor, type SearchField, type SearchFocus } from '../utils/search';
+import type { FieldConflict } from '../utils/nodeMerge';
+import type { PresenceState } from '../utils/architectureStore';
+import { EditingMarker, PresenceAvatars } from './PresenceAvatars';
+import { StatusTimeline } from './StatusTimeline';
+import { CustomFieldsEditor } from './CustomFieldsEditor';
+import { TaskChecklist } from './TaskChecklist';
+import { CommentThread } from './CommentThread';
+import { buildThreads, unresolvedThreadCount } from '../utils/commentThreads';
+import { overdueTasks, taskProgress } from '../utils/tasks';
+import { DEFAULT_STATUS_WORKFLOW, STATUS_LABELS, allowedTransitions, checkTransition, requiresNote, transitionUpdates } from '../utils/statusWorkflow';
+
+type PanelTab = 'mvp' | 'future' | 'discussion' | 'activity';
 
 interface DetailPanelProps {
   node: ComponentNode | null;
@@ -26,11 +41,25 @@ interface DetailPanelProps {
   onUpdateNode: (nodeId: string, updates: Partial<ComponentNode>) => void;
   onDeleteNode: (nodeId: string) => void;
   onCreateTag: (label: string, color: string) => void;
-  onEditStart?: (nodeId: string) => void;
+  /** Admin-defined fields, edited in the Custom Fields section. */
+  fieldDefs?: CustomFieldDef[];
+  /** Allowed status changes (the document's, see statusWorkflowOf). */
+  statusWorkflow?: StatusWorkflow;
+  /** `field` (a ComponentNode key) is shared with collaborators as "being edited". */
+  onEditStart?: (nodeId: string, field?: string) => void;
   onEditEnd?: (nodeId?: string) => void;
   width?: number;
   onResizeStart?: (e: React.MouseEvent) => void;
   isResizing?: boolean;
+  /** Global search pick to reveal: switches tab, opens the section and scrolls to the match. */
+  searchFocus?: SearchFocus | null;
+  /** Fields this node has in conflict with someone else's save. */
+  conflicts?: FieldConflict[];
+  onResolveConflict?: (nodeId: string, field: keyof ComponentNode, choice: 'mine' | 'theirs') => void;
+  /** Other people with this node open. */
+  viewers?: PresenceState[];
+  /** Field → other people editing it right now. */
+  peerEditors?: Record<string, PresenceState[]>;
 }
 
 // ─── Collapsible Section ────────────────────────────────────────────
@@ -41,6 +70,7 @@ function CollapsibleSection({
   children,
   badge,
   tint,
+  forceOpen = false,
 }: {
   title: string;
   icon?: React.ReactNode;
@@ -48,9 +78,15 @@ function CollapsibleSection({
   children: React.ReactNode;
   badge?: React.ReactNode;
   tint?: string;
+  /** Opens the section whenever this flips to true (search reveal). */
+  forceOpen?: boolean;
 }) {
   const [open, setOpen] = useState(defaultOpen);
 
+  useEffect(() => {
+    if (forceOpen) setOpen(true);
+  }, [forceOpen]);
+
   return (
     <div className={`border rounded-lg ${tint || 'border-gray-200'}`}>
       <button
@@ -72,86 +108,6 @@ function CollapsibleSection({
   );
 }
 
-// ─── URL Detection ───────────────────────────────────────────────────
-// Matches http(s):// URLs and bare www. URLs.
-const URL_REGEX = /((https?:\/\/|www\.)[^\s<>"')\]]+)/g;
-
-/** Splits a plain-text segment into text nodes and <a> link nodes. */
-function renderWithLinks(text: string): React.ReactNode[] {
-  const parts: React.ReactNode[] = [];
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  URL_REGEX.lastIndex = 0; // reset stateful regex
-  while ((match = URL_REGEX.exec(text)) !== null) {
-    const [fullMatch] = match;
-    const start = match.index;
-
-    // Text before this URL
-    if (start > lastIndex) {
-      parts.push(text.slice(lastIndex, start));
-    }
-
-    // Normalise: prepend https:// to bare www. links
-    const href = fullMatch.startsWith('http') ? fullMatch : `https://${fullMatch}`;
-
-    parts.push(
-      <a
-        key={start}
-        href={href}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="text-blue-600 underline hover:text-blue-800 break-all"
-        onClick={(e) => e.stopPropagation()}
-      >
-        {fullMatch}
-      </a>
-    );
-
-    lastIndex = start + fullMatch.length;
-  }
-
-  // Remaining text after last URL
-  if (lastIndex < text.length) {
-    parts.push(text.slice(lastIndex));
-  }
-
-  return parts;
-}
-
-// ─── Formatted Text Renderer ────────────────────────────────────────
-function FormattedText({ text, className = '' }: { text: string; className?: string }) {
-  if (!text) return null;
-  const lines = text.split('\n');
-
-  return (
-    <div className={`text-sm leading-relaxed ${className}`}>
-      {lines.map((line, i) => {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) return <div key={i} className="h-1.5" />;
-        if (/^[-*•]\s/.test(trimmedLine)) {
-          return (
-            <div key={i} className="flex gap-1.5 ml-1">
-              <span className="text-gray-400 text-xs mt-0.5">•</span>
-              <span className="text-gray-700">{renderWithLinks(trimmedLine.replace(/^[-*•]\s*/, ''))}</span>
-            </div>
-          );
-        }
-        const numberedMatch = trimmedLine.match(/^(\d+)[.)]\s*(.*)/);
-        if (numberedMatch) {
-          return (
-            <div key={i} className="flex gap-1.5 ml-1">
-              <span className="text-gray-400 min-w-[1.2rem] text-xs mt-0.5">{numberedMatch[1]}.</span>
-              <span className="text-gray-700">{renderWithLinks(numberedMatch[2])}</span>
-            </div>
-          );
-        }
-        return <p key={i} className="text-gray-700">{renderWithLinks(line)}</p>;
-      })}
-    </div>
-  );
-}
-
 // ─── Helpers ────────────────────────────────────────────────────────
 function generateId() {
   return `wu-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -170,31 +126,8 @@ function formatDateLabel(isoDate: string) {
   }
 }
 
-/**
- * Migrate legacy workDone + inDevelopment into a seed weeklyUpdates entry.
- * Only runs once per node that has legacy data but no weeklyUpdates yet.
- */
-function migrateWeeklyUpdates(node: ComponentNode): WeeklyUpdate[] {
-  if (node.weeklyUpdates && node.weeklyUpdates.length > 0) return node.weeklyUpdates;
-
-  const parts: string[] = [];
-  if (node.workDone && node.workDone.trim()) {
-    parts.push('## Work Done\n' + node.workDone.trim());
-  }
-  if (node.inDevelopment && node.inDevelopment.trim()) {
-    parts.push('## In Development\n' + node.inDevelopment.trim());
-  }
-  if (parts.length === 0) return [];
-
-  return [{
-    id: generateId(),
-    date: '2026-02-12',
-    text: parts.join('\n\n'),
-  }];
-}
-
 // ─── Main Component ─────────────────────────────────────────────────
-export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDeleteNode, onCreateTag, onEditStart, onEditEnd, width = 500, onResizeStart, isResizing = false, googleUser = null, userRole = null }: DetailPanelProps) {
+export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDeleteNode, onCreateTag, fieldDefs = [], statusWorkflow = DEFAULT_STATUS_WORKFLOW, onEditStart, onEditEnd, width = 500, onResizeStart, isResizing = false, googleUser = null, userRole = null, searchFocus = null, conflicts = [], onResolveConflict, viewers = [], peerEditors = {} }: DetailPanelProps) {
   // ── Shared state ──
   const [newTagLabel, setNewTagLabel] = useState('');
   const [newTagColor, setNewTagColor] = useState('#3b82f6');
@@ -210,6 +143,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
   // ── Inline edit state ──
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [statusNote, setStatusNote] = useState('');
   const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
   // ── Future Scope ──
@@ -222,13 +156,17 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
   const [editingUpdateId, setEditingUpdateId] = useState<string | null>(null);
   const [editingUpdateText, setEditingUpdateText] = useState('');
   const [editingUpdateDate, setEditingUpdateDate] = useState('');
-  const [updatesMigrated, setUpdatesMigrated] = useState(false);
 
   // ── Remaining MVP / Blockers local drafts ──
   const [remainingDraft, setRemainingDraft] = useState('');
   const [remainingDirty, setRemainingDirty] = useState(false);
   const [blockersDraft, setBlockersDraft] = useState('');
   const [blockersDirty, setBlockersDirty] = useState(false);
+  const [blockersEditing, setBlockersEditing] = useState(false);
+
+  // ── Search reveal ──
+  const [revealField, setRevealField] = useState<SearchField | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
 
   const prevNodeIdRef = useRef<string | null>(null);
   const newUpdateRef = useRef<HTMLDivElement | null>(null);
@@ -243,35 +181,55 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
       setFutureScopeSaveState('idle');
       setEditingField(null);
       setEditValue('');
+      setStatusNote('');
       setSaveState('idle');
       setEditingUpdateId(null);
       setShowTagCreator(false);
 
-      // Migrate and set weekly updates
-      const migrated = migrateWeeklyUpdates(node);
-      setLocalUpdates(migrated);
-      setUpdatesMigrated(false);
-
-      // If there were legacy fields to migrate, persist once
-      if (migrated.length > 0 && (!node.weeklyUpdates || node.weeklyUpdates.length === 0)) {
-        onEditStart?.(node.id);
-        onUpdateNode(node.id, { weeklyUpdates: migrated });
-        setUpdatesMigrated(true);
-        // Clear dirty after save debounce + network round-trip
-        setTimeout(() => onEditEnd?.(node.id), 3000);
-      } else {
-        setUpdatesMigrated(true);
-      }
+      // Legacy workDone / inDevelopment were folded in by the loader (utils/documentSchema.ts)
+      setLocalUpdates(node.weeklyUpdates ?? []);
 
       setRemainingDraft(node.remainingMvpScope || '');
       setRemainingDirty(false);
-      setBlockersDraft(node.blockers || node.blocker || '');
+      setBlockersDraft(node.blockers || '');
       setBlockersDirty(false);
+      setBlockersEditing(false);
 
       prevNodeIdRef.current = node.id;
     }
   }, [node?.id]);
 
+  // ── Reveal a global search hit ──
+  // Must run after the reset effect above so the tab switch isn't undone when
+  // the pick also changed the selected node.
+  useEffect(() => {
+    if (!node || !searchFocus || searchFocus.nodeId !== node.id) return;
+    setActiveTab(SEARCH_FIELD_TAB[searchFocus.field]);
+    setRevealField(searchFocus.field);
+
+    // Give the tab and the force-opened section a beat to render
+    const timer = setTimeout(() => {
+      setRevealField(null);
+      const anchor = searchAnchor(searchFocus.field, searchFocus.anchorId);
+      const el = scrollRef.current?.querySelector<HTMLElement>(`[data-search-anchor="${CSS.escape(anchor)}"]`)
+        ?? (searchFocus.field === 'name' ? document.querySelector<HTMLElement>('[data-search-anchor="name"]') : null);
+      if (!el) return;
+      el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+      // Editable fields: select the matched text so it's visible in place
+      if (el instanceof HTMLTextAreaElement) {
+        const index = el.value.toLowerCase().indexOf(searchFocus.query.trim().toLowerCase());
+        if (index !== -1) {
+          el.focus({ preventScroll: true });
+          el.setSelectionRange(index, index + searchFocus.query.trim().length);
+        }
+      }
+      el.classList.add('ring-2', 'ring-amber-300', 'rounded-md');
+      setTimeout(() => el.classList.remove('ring-2', 'ring-amber-300', 'rounded-md'), 1800);
+    }, 80);
+    return () => clearTimeout(timer);
+  }, [searchFocus?.nonce]);
+
   // Keep future scope in sync from remote (if not dirty)
   useEffect(() => {
     if (node && !futureScopeDirty) {
@@ -292,8 +250,8 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
   }, [node?.remainingMvpScope, remainingDirty]);
 
   useEffect(() => {
-    if (node && !blockersDirty) setBlockersDraft(node.blockers || node.blocker || '');
-  }, [node?.blockers, node?.blocker, blockersDirty]);
+    if (node && !blockersDirty) setBlockersDraft(node.blockers || '');
+  }, [node?.blockers, blockersDirty]);
 
   // Cleanup edit lock on unmount / node change
   useEffect(() => {
@@ -324,10 +282,13 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
   if (!node) return null;
 
   const nodeTags = tags.filter((t) => node.tags.includes(t.id));
+  const actor = googleUser?.user_metadata?.full_name ?? googleUser?.email ?? 'Unknown';
+  const tasksDone = taskProgress(node);
+  const tasksOverdue = overdueTasks(node).length;
 
   // ── Protected update: marks node dirty during save window to prevent remote overwrite ──
   const protectedUpdate = (nodeId: string, updates: Partial<ComponentNode>) => {
-    onEditStart?.(nodeId);
+    onEditStart?.(nodeId, Object.keys(updates)[0]);
     onUpdateNode(nodeId, updates);
     // Clear dirty after save debounce (800ms) + network round-trip buffer
     setTimeout(() => onEditEnd?.(nodeId), 3000);
@@ -378,12 +339,18 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
       setNewCommentMentions([]);
     }
   };
-  const handleUpdateCommentStatus = (commentId: string, status: Comment['status']) => {
-    const updatedComments = node.comments.map((c) => c.id === commentId ? { ...c, status } : c);
-    protectedUpdate(node.id, { comments: updatedComments });
-  };
-  const handleDeleteComment = (commentId: string) => {
-    protectedUpdate(node.id, { comments: node.comments.filter((c) => c.id !== commentId) });
+  const handleReply = (rootId: string, text: string, mentions: MentionedUser[]) => {
+    const reply: Comment = {
+      id: `c-${Date.now()}`,
+      text,
+      author: commentAuthor.trim() || actor,
+      timestamp: new Date(),
+      mentions: mentions.length > 0 ? mentions.map(m => m.name) : extractMentions(text),
+      status: 'open',
+      parentId: rootId,
+    };
+    protectedUpdate(node.id, { comments: [...node.comments, reply] });
+    saveCommentMentions({ currentMentions: mentions, contextLabel: text.slice(0, 120) });
   };
 
   // ── Weekly Update handlers ──
@@ -392,6 +359,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
     const updated = [newEntry, ...localUpdates];
     setLocalUpdates(updated);
     setEditingUpdateId(newEntry.id);
+    onEditStart?.(node.id, 'weeklyUpdates');
     setEditingUpdateText('');
     setEditingUpdateDate(newEntry.date);
     setTimeout(() => newUpdateRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' }), 100);
@@ -403,7 +371,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
     );
     setLocalUpdates(updated);
     setEditingUpdateId(null);
-    onEditStart?.(node.id);
+    onEditStart?.(node.id, 'weeklyUpdates');
     onUpdateNode(node.id, { weeklyUpdates: updated });
     setTimeout(() => onEditEnd?.(node.id), 3000);
 
@@ -419,7 +387,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
     if (!window.confirm('Delete this weekly update?')) return;
     const updated = localUpdates.filter((u) => u.id !== updateId);
     setLocalUpdates(updated);
-    onEditStart?.(node.id);
+    onEditStart?.(node.id, 'weeklyUpdates');
     onUpdateNode(node.id, { weeklyUpdates: updated });
     setTimeout(() => onEditEnd?.(node.id), 3000);
   };
@@ -427,13 +395,23 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
   // ── Future Scope save ──
   const handleSaveFutureScope = () => {
     setFutureScopeSaveState('saving');
-    onEditStart?.(node.id);
+    onEditStart?.(node.id, 'futureScope');
     onUpdateNode(node.id, { futureScope: futureScopeDraft });
     setFutureScopeSaveState('saved');
     setFutureScopeDirty(false);
     setTimeout(() => { setFutureScopeSaveState('idle'); onEditEnd?.(node.id); }, 1500);
   };
 
+  // ── Conflict resolution ──
+  // The picked value arrives through the node prop; drop any local draft of
+  // that field so it shows instead of the text typed before the conflict
+  const handleResolveConflict = (field: keyof ComponentNode, choice: 'mine' | 'theirs') => {
+    if (field === 'remainingMvpScope') setRemainingDirty(false);
+    if (field === 'blockers') setBlockersDirty(false);
+    if (field === 'futureScope') setFutureScopeDirty(false);
+    onResolveConflict?.(node.id, field, choice);
+  };
+
   // ── Status helpers ──
   const getStatusBadgeColor = () => {
     switch (node.status) {
@@ -454,7 +432,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
 
   // ── Inline edit helpers ──
   const startEdit = (field: string, currentValue: string | string[]) => {
-    onEditStart?.(node.id);
+    onEditStart?.(node.id, field);
     setEditingField(field);
     setEditValue(Array.isArray(currentValue) ? currentValue.join('\n') : currentValue);
   };
@@ -469,9 +447,22 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
     setTimeout(() => { setSaveState('idle'); setEditingField(null); setEditValue(''); onEditEnd?.(node.id); }, 1000);
   };
 
+  // Status goes through the workflow: allowed moves only, logged with who/when/note
+  const statusProblem = editingField === 'status'
+    ? checkTransition(node.status, editValue as ComponentStatus, statusNote, statusWorkflow)
+    : null;
+  const saveStatus = () => {
+    if (statusProblem) return;
+    setSaveState('saving');
+    onUpdateNode(node.id, transitionUpdates(node, editValue as ComponentStatus, actor, statusNote));
+    setSaveState('saved');
+    setTimeout(() => { setSaveState('idle'); setEditingField(null); setEditValue(''); setStatusNote(''); onEditEnd?.(node.id); }, 1000);
+  };
+
   const cancelEdit = () => {
     setEditingField(null);
     setEditValue('');
+    setStatusNote('');
     setSaveState('idle');
     onEditEnd?.(node.id);
   };
@@ -493,6 +484,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
     { id: 'mvp', label: 'MVP Scope (Q1)', icon: <Rocket className="h-3.5 w-3.5" /> },
     { id: 'future', label: 'Future Scope', icon: <Lightbulb className="h-3.5 w-3.5" /> },
     { id: 'discussion', label: 'Discussion', icon: <MessageSquare className="h-3.5 w-3.5" /> },
+    { id: 'activity', label: 'Activity', icon: <History className="h-3.5 w-3.5" /> },
   ];
 
   // ═══════════════════════════════════════════════════════════════════
@@ -531,7 +523,8 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                 </div>
               ) : (
                 <div className="flex items-center gap-2 mb-1 group/title">
-                  <h2 className="text-lg font-semibold text-gray-900 truncate">{node.name}</h2>
+                  <h2 data-search-anchor="name" className="text-lg font-semibold text-gray-900 truncate">{node.name}</h2>
+                  <EditingMarker peers={peerEditors.name} />
                   <Button variant="ghost" size="sm" onClick={() => startEdit('name', node.name)} className="h-6 px-1.5 opacity-0 group-hover/title:opacity-100 transition-opacity">
                     <Edit2 className="h-3 w-3" />
                   </Button>
@@ -539,6 +532,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
               )}
               <div className="flex items-center gap-2">
                 <Badge className={`${getStatusBadgeColor()} text-white text-[10px] px-2 py-0.5`}>{getStatusLabel()}</Badge>
+                <EditingMarker peers={peerEditors.status} />
                 {editingField !== 'status' && (
                   <Button variant="ghost" size="sm" onClick={() => startEdit('status', node.status)} className="h-5 px-1.5 opacity-60 hover:opacity-100">
                     <Edit2 className="h-2.5 w-2.5" />
@@ -550,19 +544,42 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                   <Select value={editValue} onValueChange={(value) => setEditValue(value)}>
                     <SelectTrigger className="text-sm"><SelectValue /></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="built">Built</SelectItem>
-                      <SelectItem value="in-progress">In Progress</SelectItem>
-                      <SelectItem value="planned">Planned</SelectItem>
-                      <SelectItem value="open-question">Open Question</SelectItem>
+                      {(Object.keys(STATUS_LABELS) as ComponentStatus[]).map((status) => (
+                        <SelectItem
+                          key={status}
+                          value={status}
+                          disabled={status !== node.status && !allowedTransitions(node.status, statusWorkflow).includes(status)}
+                        >
+                          {STATUS_LABELS[status]}{status === node.status ? ' (current)' : ''}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <Textarea
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    placeholder={requiresNote(editValue as ComponentStatus, statusWorkflow) ? 'Why? (required)' : 'Note (optional)'}
+                    className="text-sm min-h-[60px]"
+                  />
+                  {statusProblem && saveState === 'idle' && editValue !== node.status && (
+                    <p className="text-[11px] text-amber-700">{statusProblem}</p>
+                  )}
                   <div className="flex gap-2">
-                    <SaveButton onClick={() => saveEdit('status')} />
+                    {statusProblem && saveState === 'idle' ? (
+                      <Button size="sm" disabled><Check className="h-3 w-3 mr-1" />Save</Button>
+                    ) : (
+                      <SaveButton onClick={saveStatus} />
+                    )}
                     <Button size="sm" variant="outline" onClick={cancelEdit}>Cancel</Button>
                   </div>
                 </div>
               )}
             </div>
+            {viewers.length > 0 && (
+              <div className="flex-shrink-0 mr-2" title="Also viewing this node">
+                <PresenceAvatars peers={viewers} size="sm" max={3} />
+              </div>
+            )}
             <Button variant="ghost" size="icon" onClick={onClose} className="flex-shrink-0 -mt-1 -mr-1">
               <X className="h-5 w-5" />
             </Button>
@@ -580,10 +597,13 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
               >
                 {tab.icon}
                 <span className="truncate">{tab.label}</span>
-                {tab.id === 'discussion' && node.comments.length > 0 && (
-                  <span className={`ml-1 min-w-[18px] h-[18px] flex items-center justify-center rounded-full text-[10px] font-semibold ${
-                    activeTab === 'discussion' ? 'bg-blue-100 text-blue-700' : 'bg-gray-200 text-gray-600'
-                  }`}>{node.comments.length}</span>
+                {tab.id === 'discussion' && unresolvedThreadCount(node.comments) > 0 && (
+                  <span
+                    className={`ml-1 min-w-[18px] h-[18px] flex items-center justify-center rounded-full text-[10px] font-semibold ${
+                      activeTab === 'discussion' ? 'bg-blue-100 text-blue-700' : 'bg-gray-200 text-gray-600'
+                    }`}
+                    title="Open threads"
+                  >{unresolvedThreadCount(node.comments)}</span>
                 )}
               </button>
             ))}
@@ -592,20 +612,26 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
       </div>
 
       {/* ── SCROLLABLE CONTENT ── */}
-      <div className="flex-1 overflow-y-auto min-h-0">
+      <div ref={scrollRef} className="flex-1 overflow-y-auto min-h-0">
+
+        <NodeConflictPrompt conflicts={conflicts} allTags={allTags} onResolve={handleResolveConflict} />
 
         {/* ═══════ TAB: MVP Scope (Q1) ═══════ */}
         {activeTab === 'mvp' && (
           <div className="p-5 space-y-4">
 
             {/* ─ A) Core Metadata ─ */}
-            <CollapsibleSection title="Core Metadata" defaultOpen={true}>
+            <CollapsibleSection
+              title="Core Metadata"
+              defaultOpen={true}
+              forceOpen={revealField === 'description' || revealField === 'inputs' || revealField === 'outputs'}
+            >
               <div className="space-y-4 pt-2">
 
                 {/* Purpose */}
-                <div className="group/field">
+                <div data-search-anchor="description" className="group/field">
                   <div className="flex items-center justify-between mb-1">
-                    <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Purpose</span>
+                    <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Purpose <EditingMarker peers={peerEditors.description} /></span>
                     {editingField !== 'description' && (
                       <Button variant="ghost" size="sm" onClick={() => startEdit('description', node.description)} className="h-5 px-1.5 opacity-0 group-hover/field:opacity-100 transition-opacity">
                         <Edit2 className="h-2.5 w-2.5" />
@@ -614,7 +640,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                   </div>
                   {editingField === 'description' ? (
                     <div className="space-y-2">
-                      <Textarea value={editValue} onChange={(e) => setEditValue(e.target.value)} className="text-sm min-h-[80px]" />
+                      <MarkdownEditor value={editValue} onChange={setEditValue} rows={4} className="min-h-[80px]" autoFocus />
                       <AttachmentList contextType="node" contextId={node.id} field="description" currentUser={googleUser} />
                       <div className="flex gap-2">
                         <SaveButton onClick={() => saveEdit('description')} />
@@ -623,7 +649,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                     </div>
                   ) : (
                     <>
-                      <FormattedText text={node.description} />
+                      <MarkdownText text={node.description} />
                       <AttachmentList contextType="node" contextId={node.id} field="description" currentUser={googleUser} readOnly />
                     </>
                   )}
@@ -631,9 +657,9 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
 
                 {/* Inputs & Outputs */}
                 <div className="grid grid-cols-2 gap-3">
-                  <div className="group/field">
+                  <div data-search-anchor="inputs" className="group/field">
                     <div className="flex items-center justify-between mb-1">
-                      <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Inputs</span>
+                      <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Inputs <EditingMarker peers={peerEditors.inputs} /></span>
                       {editingField !== 'inputs' && (
                         <Button variant="ghost" size="sm" onClick={() => startEdit('inputs', node.inputs)} className="h-5 px-1.5 opacity-0 group-hover/field:opacity-100 transition-opacity">
                           <Edit2 className="h-2.5 w-2.5" />
@@ -661,9 +687,9 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                       </>
                     )}
                   </div>
-                  <div className="group/field">
+                  <div data-search-anchor="outputs" className="group/field">
                     <div className="flex items-center justify-between mb-1">
-                      <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Outputs</span>
+                      <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Outputs <EditingMarker peers={peerEditors.outputs} /></span>
                       {editingField !== 'outputs' && (
                         <Button variant="ghost" size="sm" onClick={() => startEdit('outputs', node.outputs)} className="h-5 px-1.5 opacity-0 group-hover/field:opacity-100 transition-opacity">
                           <Edit2 className="h-2.5 w-2.5" />
@@ -696,7 +722,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                 {/* Owner */}
                 <div className="group/field">
                   <div className="flex items-center justify-between mb-1">
-                    <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Owner</span>
+                    <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Owner <EditingMarker peers={peerEditors.owner} /></span>
                     {editingField !== 'owner' && (
                       <Button variant="ghost" size="sm" onClick={() => startEdit('owner', node.owner || '')} className="h-5 px-1.5 opacity-0 group-hover/field:opacity-100 transition-opacity">
                         <Edit2 className="h-2.5 w-2.5" />
@@ -724,7 +750,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
 
                 {/* Tags */}
                 <div>
-                  <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Tags</span>
+                  <span className="text-[11px] font-medium text-gray-400 uppercase tracking-wider">Tags <EditingMarker peers={peerEditors.tags} /></span>
                   <div className="flex flex-wrap gap-1.5 mt-1.5">
                     {nodeTags.map((tag) => (
                       <Badge key={tag.id} style={{ backgroundColor: tag.color }} className="text-white text-[10px] cursor-pointer hover:opacity-80 px-1.5 py-0" onClick={() => handleRemoveTag(tag.id)}>
@@ -767,13 +793,31 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
               </div>
             </CollapsibleSection>
 
+            {/* ─ Custom Fields (admin-defined) ─ */}
+            {fieldDefs.length > 0 && (
+              <CollapsibleSection
+                title="Custom Fields"
+                icon={<ListPlus className="h-3.5 w-3.5 text-gray-400" />}
+                defaultOpen={true}
+                badge={<EditingMarker peers={peerEditors.customFields} />}
+              >
+                <div className="pt-2">
+                  <CustomFieldsEditor node={node} fieldDefs={fieldDefs} onUpdate={(updates) => protectedUpdate(node.id, updates)} />
+                </div>
+              </CollapsibleSection>
+            )}
+
             {/* ─ B) Weekly Updates (timeline) ─ */}
             <CollapsibleSection
               title="Weekly Updates"
               icon={<Calendar className="h-3.5 w-3.5 text-blue-500" />}
               defaultOpen={true}
+              forceOpen={revealField === 'weeklyUpdates'}
               badge={
-                <span className="text-[10px] bg-blue-100 text-blue-700 rounded-full px-1.5 py-0.5 font-semibold">{localUpdates.length}</span>
+                <>
+                  <EditingMarker peers={peerEditors.weeklyUpdates} />
+                  <span className="text-[10px] bg-blue-100 text-blue-700 rounded-full px-1.5 py-0.5 font-semibold">{localUpdates.length}</span>
+                </>
               }
             >
               <div className="pt-2">
@@ -788,6 +832,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                     <div
                       key={entry.id}
                       ref={idx === 0 ? newUpdateRef : undefined}
+                      data-search-anchor={searchAnchor('weeklyUpdates', entry.id)}
                       className="relative pl-5 pb-3 border-l-2 border-blue-200 last:pb-0"
                     >
                       {/* Timeline dot */}
@@ -797,11 +842,13 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                         <div className="space-y-2">
                           <Input
                             type="date"
+                            required
                             value={editingUpdateDate}
-                            onChange={(e) => setEditingUpdateDate(e.target.value)}
+                            // Clearing the field keeps the last date — an update always has one
+                            onChange={(e) => e.target.value && setEditingUpdateDate(e.target.value)}
                             className="text-xs h-7 w-40"
                           />
-                          <MentionTextarea
+                          <MarkdownEditor
                             value={editingUpdateText}
                             onChange={setEditingUpdateText}
                             onMentionsChange={setEditingUpdateMentions}
@@ -820,7 +867,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                             <Button size="sm" onClick={() => handleSaveWeeklyUpdate(entry.id)} className="h-7 text-xs">
                               <Check className="h-3 w-3 mr-1" /> Save
                             </Button>
-                            <Button size="sm" variant="outline" onClick={() => setEditingUpdateId(null)} className="h-7 text-xs">Cancel</Button>
+                            <Button size="sm" variant="outline" onClick={() => { setEditingUpdateId(null); onEditEnd?.(node.id); }} className="h-7 text-xs">Cancel</Button>
                           </div>
                         </div>
                       ) : (
@@ -828,7 +875,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                           <div className="flex items-center justify-between mb-1">
                             <span className="text-[11px] font-semibold text-gray-500">{formatDateLabel(entry.date)}</span>
                             <div className="flex gap-1 opacity-0 group-hover/entry:opacity-100 transition-opacity">
-                              <Button variant="ghost" size="sm" onClick={() => { setEditingUpdateId(entry.id); setEditingUpdateText(entry.text); setEditingUpdateDate(entry.date); }} className="h-5 px-1">
+                              <Button variant="ghost" size="sm" onClick={() => { setEditingUpdateId(entry.id); setEditingUpdateText(entry.text); setEditingUpdateDate(entry.date); onEditStart?.(node.id, 'weeklyUpdates'); }} className="h-5 px-1">
                                 <Edit2 className="h-2.5 w-2.5" />
                               </Button>
                               <Button variant="ghost" size="sm" onClick={() => handleDeleteWeeklyUpdate(entry.id)} className="h-5 px-1 text-red-500 hover:text-red-700">
@@ -836,7 +883,7 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
                               </Button>
                             </div>
                           </div>
-                          {entry.text ? <FormattedText text={entry.text} className="text-gray-600" /> : <p className="text-xs text-gray-400 italic">Empty entry</p>}
+                          {entry.text ? <MarkdownText text={entry.text} className="text-gray-600" /> : <p className="text-xs text-gray-400 italic">Empty entry</p>}
                           {/* Read-only attachment list in display mode */}
                           <AttachmentList
                             contextType="node"
@@ -853,19 +900,48 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
               </div>
             </CollapsibleSection>
 
+            {/* ─ Tasks (checklist) ─ */}
+            <CollapsibleSection
+              title="Tasks"
+              icon={<ListChecks className="h-3.5 w-3.5 text-emerald-500" />}
+              defaultOpen={true}
+              badge={
+                <>
+                  <EditingMarker peers={peerEditors.tasks} />
+                  {tasksDone.total > 0 && (
+                    <span
+                      className={`text-[10px] rounded-full px-1.5 py-0.5 font-semibold ${
+                        tasksOverdue > 0 ? 'bg-red-100 text-red-700' : 'bg-emerald-100 text-emerald-700'
+                      }`}
+                      title={tasksOverdue > 0 ? `${tasksOverdue} overdue` : undefined}
+                    >
+                      {tasksDone.done}/{tasksDone.total}
+                    </span>
+                  )}
+                </>
+              }
+            >
+              <div className="pt-2">
+                <TaskChecklist node={node} onUpdate={(updates) => protectedUpdate(node.id, updates)} />
+              </div>
+            </CollapsibleSection>
+
             {/* ─ C) Remaining in MVP Scope ─ */}
             <CollapsibleSection
               title="Remaining in MVP Scope"
               icon={<Target className="h-3.5 w-3.5 text-emerald-500" />}
               defaultOpen={false}
+              forceOpen={revealField === 'remainingMvpScope'}
+              badge={<EditingMarker peers={peerEditors.remainingMvpScope} />}
             >
               <div className="pt-2 max-h-[240px] overflow-y-auto">
                 <Textarea
+                  data-search-anchor="remainingMvpScope"
                   value={remainingDraft}
                   onChange={(e) => {
                     setRemainingDraft(e.target.value);
                     setRemainingDirty(true);
-                    onEditStart?.(node.id);
+                    onEditStart?.(node.id, 'remainingMvpScope');
                     onUpdateNode(node.id, { remainingMvpScope: e.target.value });
                   }}
                   onBlur={() => {
@@ -887,26 +963,41 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
               title="Blockers"
               icon={<AlertTriangle className="h-3.5 w-3.5 text-red-400" />}
               defaultOpen={false}
+              forceOpen={revealField === 'blockers'}
+              badge={<EditingMarker peers={peerEditors.blockers} />}
               tint="border-red-100"
             >
               <div className="pt-2 max-h-[240px] overflow-y-auto">
-                <Textarea
-                  value={blockersDraft}
-                  onChange={(e) => {
-                    setBlockersDraft(e.target.value);
-                    setBlockersDirty(true);
-                    onEditStart?.(node.id);
-                    onUpdateNode(node.id, { blockers: e.target.value });
-                  }}
-                  onBlur={() => {
-                    if (blockersDirty) {
-                      setBlockersDirty(false);
-                      onEditEnd?.(node.id);
-                    }
-                  }}
-                  placeholder="Current risks, blockers, or issues..."
-                  className="text-sm min-h-[80px] resize-y border-0 shadow-none focus-visible:ring-0 p-0"
-                />
+                <div data-search-anchor="blockers">
+                  {blockersEditing ? (
+                    <MarkdownEditor
+                      value={blockersDraft}
+                      onChange={(text) => {
+                        setBlockersDraft(text);
+                        setBlockersDirty(true);
+                        onEditStart?.(node.id, 'blockers');
+                        onUpdateNode(node.id, { blockers: text });
+                      }}
+                      onBlur={() => {
+                        setBlockersEditing(false);
+                        if (blockersDirty) {
+                          setBlockersDirty(false);
+                          onEditEnd?.(node.id);
+                        }
+                      }}
+                      placeholder="Current risks, blockers, or issues..."
+                      rows={4}
+                      className="min-h-[80px]"
+                      autoFocus
+                    />
+                  ) : (
+                    <div onClick={() => setBlockersEditing(true)} className="cursor-text rounded px-1 -mx-1 min-h-[2rem] hover:bg-gray-50 transition-colors">
+                      {blockersDraft.trim()
+                        ? <MarkdownText text={blockersDraft} />
+                        : <p className="text-sm text-gray-400 italic">Current risks, blockers, or issues...</p>}
+                    </div>
+                  )}
+                </div>
                 {blockersDirty && <span className="text-[10px] text-amber-500 mt-1">Unsaved</span>}
                 <AttachmentList contextType="node" contextId={node.id} field="blockers" currentUser={googleUser} />
               </div>
@@ -921,12 +1012,16 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
               <div className="flex items-center gap-2 mb-1">
                 <Lightbulb className="h-4 w-4 text-amber-500" />
                 <h3 className="text-sm font-medium text-gray-700">Future Scope</h3>
+                <EditingMarker peers={peerEditors.futureScope} />
               </div>
               <p className="text-xs text-gray-400 mb-3">Ideas, enhancements, and work beyond Q1 MVP.</p>
             </div>
             <Textarea
+              data-search-anchor="futureScope"
               value={futureScopeDraft}
               onChange={(e) => { setFutureScopeDraft(e.target.value); setFutureScopeDirty(true); }}
+              onFocus={() => onEditStart?.(node.id, 'futureScope')}
+              onBlur={() => { if (!futureScopeDirty) onEditEnd?.(node.id); }}
               placeholder="Ideas, enhancements, and work beyond Q1 MVP."
               className="text-sm min-h-[240px] resize-y"
             />
@@ -942,56 +1037,28 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
         {/* ═══════ TAB: Discussion & Decisions ═══════ */}
         {activeTab === 'discussion' && (
           <div className="p-5 space-y-4">
-            <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Discussion & Questions</h3>
+            <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Discussion & Questions <EditingMarker peers={peerEditors.comments} /></h3>
 
             <div className="space-y-3">
               {node.comments.length === 0 && (
                 <p className="text-sm text-gray-400 italic text-center py-4">No comments yet. Start the discussion below.</p>
               )}
-              {node.comments.map((comment) => (
-                <div key={comment.id} className="border rounded-lg p-3 text-sm">
-                  <div className="flex items-start justify-between mb-1.5">
-                    <div className="flex-1">
-                      <span className="text-gray-900 font-medium text-xs">{comment.author}</span>
-                      <span className="text-gray-400 text-[10px] ml-2">{format(comment.timestamp, 'MMM d, h:mm a')}</span>
-                    </div>
-                    <div className="flex items-center gap-1.5">
-                      <Select value={comment.status} onValueChange={(value) => handleUpdateCommentStatus(comment.id, value as Comment['status'])}>
-                        <SelectTrigger className="w-[90px] h-6 text-[10px]"><SelectValue /></SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="open">Open</SelectItem>
-                          <SelectItem value="answered">Answered</SelectItem>
-                          <SelectItem value="parked">Parked</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <Button variant="ghost" size="sm" onClick={() => { if (window.confirm('Delete this comment?')) handleDeleteComment(comment.id); }} className="h-6 px-1.5 text-red-500 hover:text-red-700 hover:bg-red-50">
-                        <Trash2 className="h-2.5 w-2.5" />
-                      </Button>
-                    </div>
-                  </div>
-                  <FormattedText text={comment.text} className="text-gray-700" />
-                  {comment.mentions.length > 0 && (
-                    <div className="flex gap-1 mt-1.5">
-                      {comment.mentions.map((mention) => (
-                        <Badge key={mention} variant="outline" className="text-[10px] px-1.5 py-0">@{mention}</Badge>
-                      ))}
-                    </div>
-                  )}
-                  {/* Attachments for this comment (read-only in display mode) */}
-                  <AttachmentList
-                    contextType="node"
-                    contextId={comment.id}
-                    field="comment"
-                    currentUser={googleUser}
-                    readOnly
-                  />
-                </div>
+              {buildThreads(node.comments).map((thread) => (
+                <CommentThread
+                  key={thread.root.id}
+                  thread={thread}
+                  comments={node.comments}
+                  actor={actor}
+                  currentUser={googleUser}
+                  onChange={(comments) => protectedUpdate(node.id, { comments })}
+                  onReply={handleReply}
+                />
               ))}
             </div>
 
             <div className="space-y-2 border-t pt-3">
               <Input placeholder="Your name" value={commentAuthor} onChange={(e) => setCommentAuthor(e.target.value)} className="text-sm h-8" />
-              <MentionTextarea
+              <MarkdownEditor
                 value={newComment}
                 onChange={setNewComment}
                 onMentionsChange={setNewCommentMentions}
@@ -1012,6 +1079,14 @@ export function DetailPanel({ node, tags, allTags, onClose, onUpdateNode, onDele
             </div>
           </div>
         )}
+
+        {/* ═══════ TAB: Activity (audit trail) ═══════ */}
+        {activeTab === 'activity' && (
+          <div className="p-5 space-y-6">
+            <StatusTimeline node={node} />
+            <NodeActivityFeed nodeId={node.id} allTags={allTags} />
+          </div>
+        )}
       </div>
 
       {/* ── STICKY FOOTER — Delete Node (admin only) ── */}
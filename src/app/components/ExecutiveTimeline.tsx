@@ -7,6 +7,8 @@ import {
 } from 'lucide-react';
 import { generateTimelinePptx } from '../utils/generateTimelinePptx';
 import { Button } from './ui/button';
+import { MarkdownEditor } from './MarkdownEditor';
+import { MarkdownText } from './MarkdownText';
 import { supabase } from '../supabaseClient';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -68,7 +70,7 @@ const TAG_CONFIG: Record<TagType, {
 
 const ALL_TAG_TYPES = Object.keys(TAG_CONFIG) as TagType[];
 const FILTER_PRESETS: TagType[] = ['milestone', 'risk', 'decision'];
-const PROGRAM_ID = 'ergo-q1';
+export const PROGRAM_ID = 'ergo-q1';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Date helpers
@@ -344,114 +346,37 @@ function EditableText({
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Markdown renderer (bullets + bold only)
+// MarkdownNotes — rendered notes; click to edit with the shared Markdown editor
 // ─────────────────────────────────────────────────────────────────────────────
 
-function renderInline(s: string): React.ReactNode {
-  const parts = s.split(/(\*\*[^*]+\*\*)/g);
-  return parts.map((p, i) =>
-    p.startsWith('**') && p.endsWith('**')
-      ? <strong key={i}>{p.slice(2, -2)}</strong>
-      : p
-  );
-}
-
-function renderMarkdown(text: string): React.ReactNode {
-  if (!text) return null;
-  const lines = text.split('\n');
-  const nodes: React.ReactNode[] = [];
-  let listItems: React.ReactNode[] = [];
-
-  function flushList() {
-    if (listItems.length) {
-      nodes.push(<ul key={`ul-${nodes.length}`} className="list-disc list-inside space-y-0.5">{listItems}</ul>);
-      listItems = [];
-    }
-  }
-
-  lines.forEach((line, i) => {
-    const bullet = line.match(/^[-*]\s+(.+)/);
-    if (bullet) {
-      listItems.push(<li key={i}>{renderInline(bullet[1])}</li>);
-    } else {
-      flushList();
-      if (line.trim()) nodes.push(<p key={i} className="leading-snug">{renderInline(line)}</p>);
-    }
-  });
-  flushList();
-  return <div className="space-y-1 text-sm text-gray-600">{nodes}</div>;
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// MarkdownFocusCell — inline editable Focus field with bullets + bold toolbar
-// ─────────────────────────────────────────────────────────────────────────────
-
-function MarkdownFocusCell({ value, onChange }: { value: string; onChange: (v: string) => void }) {
-  const [editing, setEditing]   = useState(false);
-  const [draft, setDraft]       = useState(value);
-  const textareaRef             = useRef<HTMLTextAreaElement>(null);
-  useEffect(() => { setDraft(value); }, [value]);
+function MarkdownNotes({ value, onChange, placeholder }: { value: string; onChange: (v: string) => void; placeholder: string }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft]     = useState(value);
+  useEffect(() => { if (!editing) setDraft(value); }, [value, editing]);
 
   function commit() { setEditing(false); if (draft !== value) onChange(draft); }
   function onKeyDown(e: React.KeyboardEvent) {
     if (e.key === 'Escape') { e.stopPropagation(); setDraft(value); setEditing(false); }
   }
 
-  function insertAtCursor(prefix: string, suffix = '') {
-    const el = textareaRef.current;
-    if (!el) return;
-    const start = el.selectionStart, end = el.selectionEnd;
-    const sel   = draft.slice(start, end);
-    const next  = draft.slice(0, start) + prefix + sel + suffix + draft.slice(end);
-    setDraft(next);
-    requestAnimationFrame(() => {
-      el.focus();
-      el.setSelectionRange(start + prefix.length, start + prefix.length + sel.length);
-    });
-  }
-
-  function insertBullet() {
-    const el = textareaRef.current;
-    if (!el) { setDraft(d => (d ? d + '\n- ' : '- ')); return; }
-    const pos    = el.selectionStart;
-    const before = draft.slice(0, pos);
-    const after  = draft.slice(pos);
-    const pfx    = before.length === 0 || before.endsWith('\n') ? '- ' : '\n- ';
-    const next   = before + pfx + after;
-    setDraft(next);
-    requestAnimationFrame(() => { el.focus(); el.setSelectionRange(pos + pfx.length, pos + pfx.length); });
-  }
-
   if (!editing) {
     return (
-      <div onClick={() => setEditing(true)} className="cursor-text group rounded px-0.5 -mx-0.5 hover:bg-gray-50 transition-colors min-h-[1.5rem]">
-        {value
-          ? renderMarkdown(value)
-          : <span className="text-gray-300 italic text-xs">Click to add focus…</span>
+      <div onClick={() => setEditing(true)}
+        className="cursor-text group rounded-lg border border-gray-100 bg-gray-50/50 px-3 py-2.5 hover:border-gray-200 transition-colors min-h-[80px]">
+        {value.trim()
+          ? <MarkdownText text={value} />
+          : <span className="text-sm text-gray-300">{placeholder}</span>
         }
-        <Pencil className="inline h-2.5 w-2.5 text-gray-300 opacity-0 group-hover:opacity-100 ml-1 transition-opacity" />
       </div>
     );
   }
 
   return (
-    <div className="flex flex-col gap-1" onClick={e => e.stopPropagation()}>
-      <div className="flex gap-1">
-        <button type="button" onMouseDown={e => { e.preventDefault(); insertBullet(); }}
-          className="text-[10px] px-2 py-0.5 rounded border border-gray-200 bg-gray-50 hover:bg-gray-100 text-gray-600 transition-colors">
-          • Bullet
-        </button>
-        <button type="button" onMouseDown={e => { e.preventDefault(); insertAtCursor('**', '**'); }}
-          className="text-[10px] px-2 py-0.5 rounded border border-gray-200 bg-gray-50 hover:bg-gray-100 text-gray-700 font-bold transition-colors">
-          B Bold
-        </button>
-      </div>
-      <textarea
-        ref={textareaRef} autoFocus value={draft} rows={4}
-        onChange={e => setDraft(e.target.value)}
+    <div onClick={e => e.stopPropagation()}>
+      <MarkdownEditor
+        value={draft} onChange={setDraft}
         onBlur={commit} onKeyDown={onKeyDown}
-        className="w-full text-sm border border-blue-300 rounded-lg px-2 py-1.5 resize-none focus:outline-none focus:ring-1 focus:ring-blue-300 bg-white"
-        placeholder="Use - for bullets, **text** for bold"
+        placeholder={placeholder} rows={5} autoFocus
       />
     </div>
   );
@@ -936,12 +861,17 @@ function AddTagForm({
 // Main component
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface ExecutiveTimelineProps { isOpen: boolean; onClose: () => void; }
+interface ExecutiveTimelineProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** timeline_items id to reveal and open once tags have loaded (global search). */
+  focusItemId?: string | null;
+}
 
 const DRAWER_MIN     = 520;
 const DRAWER_DEFAULT = 920;
 
-export function ExecutiveTimeline({ isOpen, onClose }: ExecutiveTimelineProps) {
+export function ExecutiveTimeline({ isOpen, onClose, focusItemId }: ExecutiveTimelineProps) {
   const timelineRef = useRef<HTMLDivElement>(null);
 
   // ── Board (localStorage) ─────────────────────────────────────────────────
@@ -1250,6 +1180,25 @@ export function ExecutiveTimeline({ isOpen, onClose }: ExecutiveTimelineProps) {
     });
   }, [isOpen]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // ── Reveal an item picked from global search ──────────────────────────────
+  // Runs once per focusItemId — later realtime tag updates must not reopen it.
+  const handledFocusRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusItemId) { handledFocusRef.current = null; return; }
+    if (!isOpen || handledFocusRef.current === focusItemId) return;
+    const item = tags.find(t => t.id === focusItemId);
+    if (!item) return;
+    handledFocusRef.current = focusItemId;
+    setActiveFilters(prev => prev.includes(item.type) ? prev : [...prev, item.type]);
+    setFilterByPhase(null);
+    setSelectedTag(item);
+    const when = item.date ?? item.start_date;
+    if (when) requestAnimationFrame(() => {
+      const el = timelineRef.current;
+      if (el) el.scrollTo({ left: xFor(toDate(when)) - el.clientWidth / 2, behavior: 'smooth' });
+    });
+  }, [isOpen, focusItemId, tags]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // ── ESC handler ───────────────────────────────────────────────────────────
   useEffect(() => {
     if (!isOpen) return;
@@ -1679,12 +1628,11 @@ export function ExecutiveTimeline({ isOpen, onClose }: ExecutiveTimelineProps) {
                 {/* Notes */}
                 <div>
                   <h4 className="text-xs font-semibold uppercase tracking-widest text-gray-400 mb-2">Notes</h4>
-                  <textarea
-                    className="w-full text-sm text-gray-700 placeholder-gray-300 border border-gray-100 rounded-lg px-3 py-2.5 resize-none focus:outline-none focus:ring-1 focus:ring-blue-200 bg-gray-50/50 min-h-[80px]"
+                  <MarkdownNotes
+                    key={selectedSprint.id}
                     placeholder="Sprint notes, context, decisions…"
                     value={selectedSprint.notes}
-                    onChange={e => patchSprint(selectedQuarterId!, selectedSprint.id, { notes: e.target.value })}
-                    onInput={e => { const el = e.currentTarget; el.style.height = 'auto'; el.style.height = `${el.scrollHeight}px`; }}
+                    onChange={v => patchSprint(selectedQuarterId!, selectedSprint.id, { notes: v })}
                   />
                 </div>
               </div>
@@ -1744,12 +1692,11 @@ export function ExecutiveTimeline({ isOpen, onClose }: ExecutiveTimelineProps) {
                 {/* Notes */}
                 <div>
                   <h4 className="text-xs font-semibold uppercase tracking-widest text-gray-400 mb-2">Notes</h4>
-                  <textarea
-                    className="w-full text-sm text-gray-700 placeholder-gray-300 border border-gray-100 rounded-lg px-3 py-2.5 resize-none focus:outline-none focus:ring-1 focus:ring-blue-200 bg-gray-50/50 min-h-[80px]"
+                  <MarkdownNotes
+                    key={selectedQuarter.id}
                     placeholder="Quarter overview, goals, key decisions…"
                     value={selectedQuarter.notes}
-                    onChange={e => patchQuarter(selectedQuarter.id, { notes: e.target.value })}
-                    onInput={e => { const el = e.currentTarget; el.style.height = 'auto'; el.style.height = `${el.scrollHeight}px`; }}
+                    onChange={v => patchQuarter(selectedQuarter.id, { notes: v })}
                   />
                 </div>
               </div>
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X, CalendarRange } from 'lucide-react';
+import { supabase } from '../supabaseClient';
+import { PROGRAM_ID } from './ExecutiveTimeline';
+import type { ComponentNode } from '../types/architecture';
+import {
+  SEARCH_FIELD_LABELS,
+  searchNodes,
+  searchTimelineItems,
+  type NodeSearchHit,
+  type Snippet,
+  type TimelineSearchItem,
+} from '../utils/search';
+
+interface GlobalSearchProps {
+  nodes: ComponentNode[];
+  onPickNode: (nodeId: string, hit: NodeSearchHit, query: string) => void;
+  onPickTimelineItem: (itemId: string) => void;
+  /** Lets the "/" shortcut focus the box. */
+  inputRef?: React.RefObject<HTMLInputElement>;
+}
+
+const MAX_NODES = 12;
+const MAX_HITS_PER_NODE = 4;
+const MAX_TIMELINE = 8;
+
+// Each picked row is flattened into one list so arrow keys can walk it
+type Row =
+  | { kind: 'node'; key: string; nodeId: string; hit: NodeSearchHit }
+  | { kind: 'timeline'; key: string; itemId: string };
+
+function Highlighted({ snippet }: { snippet: Snippet }) {
+  return (
+    <span className="text-xs text-gray-600 break-words">
+      {snippet.before}
+      <mark className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{snippet.match}</mark>
+      {snippet.after}
+    </span>
+  );
+}
+
+// ─── Canvas search box: nodes (all text fields) + Executive Timeline items ───
+
+export function GlobalSearch({ nodes, onPickNode, onPickTimelineItem, inputRef }: GlobalSearchProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [timelineItems, setTimelineItems] = useState<TimelineSearchItem[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Timeline items live in their own table; refresh them each time the box opens
+  useEffect(() => {
+    if (!open) return;
+    supabase
+      .from('timeline_items')
+      .select('id, title, detail, type')
+      .eq('program_id', PROGRAM_ID)
+      .then(({ data, error }) => {
+        if (!error && data) setTimelineItems(data as TimelineSearchItem[]);
+      });
+  }, [open]);
+
+  // Close when clicking anywhere outside the box / results
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('pointerdown', handler);
+    return () => window.removeEventListener('pointerdown', handler);
+  }, [open]);
+
+  const nodeResults = useMemo(() => searchNodes(nodes, query).slice(0, MAX_NODES), [nodes, query]);
+  const timelineResults = useMemo(
+    () => searchTimelineItems(timelineItems, query).slice(0, MAX_TIMELINE),
+    [timelineItems, query]
+  );
+
+  const rows: Row[] = useMemo(() => [
+    ...nodeResults.flatMap(({ node, hits }) =>
+      hits.slice(0, MAX_HITS_PER_NODE).map((hit, i): Row => ({ kind: 'node', key: `${node.id}:${i}`, nodeId: node.id, hit }))
+    ),
+    ...timelineResults.map(({ item }): Row => ({ kind: 'timeline', key: `timeline:${item.id}`, itemId: item.id })),
+  ], [nodeResults, timelineResults]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  const pick = (row: Row) => {
+    setOpen(false);
+    inputRef?.current?.blur();
+    if (row.kind === 'node') onPickNode(row.nodeId, row.hit, query);
+    else onPickTimelineItem(row.itemId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, rows.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && rows[activeIndex]) {
+      e.preventDefault();
+      pick(rows[activeIndex]);
+    } else if (e.key === 'Escape') {
+      if (query) setQuery('');
+      else e.currentTarget.blur();
+      setOpen(false);
+    }
+  };
+
+  const rowClass = (key: string) =>
+    `w-full text-left px-3 py-1.5 flex flex-col gap-0.5 ${rows[activeIndex]?.key === key ? 'bg-blue-50' : 'hover:bg-gray-50'}`;
+
+  const showResults = open && query.trim().length > 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-1.5 bg-white/90 border rounded-lg shadow-lg px-2 h-9 w-64">
+        <Search className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search nodes, updates, comments… ( / )"
+          className="flex-1 min-w-0 bg-transparent text-sm outline-none placeholder:text-gray-400"
+        />
+        {query && (
+          <button type="button" onClick={() => setQuery('')} className="text-gray-400 hover:text-gray-600" title="Clear search">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      {showResults && (
+        <div className="absolute left-0 top-full mt-1 w-[26rem] max-h-[60vh] overflow-y-auto bg-white border rounded-lg shadow-xl py-1">
+          {rows.length === 0 && (
+            <p className="px-3 py-4 text-xs text-gray-400 text-center">No matches for “{query.trim()}”</p>
+          )}
+
+          {nodeResults.map(({ node, hits }) => (
+            <div key={node.id} className="py-1 border-b last:border-b-0">
+              <div className="px-3 pt-1 pb-0.5 text-xs font-semibold text-gray-800 truncate">
+                {node.name}
+                {hits.length > MAX_HITS_PER_NODE && (
+                  <span className="ml-1.5 font-normal text-gray-400">+{hits.length - MAX_HITS_PER_NODE} more</span>
+                )}
+              </div>
+              {hits.slice(0, MAX_HITS_PER_NODE).map((hit, i) => {
+                const key = `${node.id}:${i}`;
+                return (
+                  <button
+                    key={key}
+                    type="button"
+                    onMouseEnter={() => setActiveIndex(rows.findIndex((r) => r.key === key))}
+                    onClick={() => pick({ kind: 'node', key, nodeId: node.id, hit })}
+                    className={rowClass(key)}
+                  >
+                    <span className="text-[10px] uppercase tracking-wider text-gray-400">
+                      {SEARCH_FIELD_LABELS[hit.field]}{hit.detail ? ` · ${hit.detail}` : ''}
+                    </span>
+                    <Highlighted snippet={hit.snippet} />
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+
+          {timelineResults.length > 0 && (
+            <div className="py-1">
+              <div className="px-3 pt-1 pb-0.5 text-xs font-semibold text-gray-800 flex items-center gap-1.5">
+                <CalendarRange className="h-3.5 w-3.5 text-gray-400" /> Executive Timeline
+              </div>
+              {timelineResults.map(({ item, snippet, field }) => {
+                const key = `timeline:${item.id}`;
+                return (
+                  <button
+                    key={key}
+                    type="button"
+                    onMouseEnter={() => setActiveIndex(rows.findIndex((r) => r.key === key))}
+                    onClick={() => pick({ kind: 'timeline', key, itemId: item.id })}
+                    className={rowClass(key)}
+                  >
+                    <span className="text-[10px] uppercase tracking-wider text-gray-400">
+                      {item.type.replace('_', ' ')} · {field === 'title' ? 'Title' : item.title}
+                    </span>
+                    <Highlighted snippet={snippet} />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
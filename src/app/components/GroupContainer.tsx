@@ -0,0 +1,62 @@
+import { ChevronsDownUp, Move } from 'lucide-react';
+import type { NodeGroup } from '../types/architecture';
+import type { Rect } from '../utils/viewport';
+import { GROUP_HEADER } from '../utils/groups';
+
+interface GroupContainerProps {
+  group: NodeGroup;
+  /** World-space container rect, already padded around the members. */
+  bounds: Rect;
+  memberCount: number;
+  /** Mouse down on the label strip — moves every member. */
+  onDragStart: (e: React.MouseEvent) => void;
+  onEdit: () => void;
+  onCollapse: () => void;
+}
+
+// ─── Expanded group: labelled, tinted box drawn behind its member nodes ───
+
+export function GroupContainer({ group, bounds, memberCount, onDragStart, onEdit, onCollapse }: GroupContainerProps) {
+  return (
+    <div
+      className="absolute rounded-xl border-2 border-dashed pointer-events-none"
+      style={{
+        left: bounds.x,
+        top: bounds.y,
+        width: bounds.width,
+        height: bounds.height,
+        borderColor: group.color,
+        backgroundColor: `${group.color}12`,
+      }}
+    >
+      <div
+        className="flex items-center gap-1.5 px-2 rounded-t-[10px] pointer-events-auto cursor-move select-none"
+        style={{ height: GROUP_HEADER, backgroundColor: `${group.color}26` }}
+        onMouseDown={(e) => {
+          if ((e.target as HTMLElement).closest('button')) return;
+          e.stopPropagation();
+          onDragStart(e);
+        }}
+        title="Drag to move the whole group"
+      >
+        <Move className="h-3 w-3 flex-shrink-0" style={{ color: group.color }} />
+        <button
+          onClick={onEdit}
+          className="text-xs font-semibold truncate hover:underline"
+          style={{ color: group.color }}
+          title="Rename / recolour group"
+        >
+          {group.name}
+        </button>
+        <span className="text-[10px] text-gray-500">{memberCount}</span>
+        <button
+          onClick={onCollapse}
+          className="ml-auto rounded p-0.5 hover:bg-white/60 text-gray-500"
+          title="Collapse into a summary node"
+        >
+          <ChevronsDownUp className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { X, Ungroup } from 'lucide-react';
+import type { NodeGroup } from '../types/architecture';
+import { GROUP_COLORS } from '../utils/groups';
+
+interface GroupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (name: string, color: string) => void;
+  /** Edit mode only — removes the group but keeps its nodes. */
+  onUngroup?: () => void;
+  /** When set, the dialog edits this group instead of creating a new one. */
+  group?: NodeGroup | null;
+  memberCount: number;
+}
+
+export function GroupDialog({ isOpen, onClose, onSave, onUngroup, group, memberCount }: GroupDialogProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(GROUP_COLORS[0]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(group?.name ?? '');
+    setColor(group?.color ?? GROUP_COLORS[0]);
+  }, [isOpen, group]);
+
+  if (!isOpen) return null;
+
+  const isEdit = !!group;
+
+  const handleSave = () => {
+    if (name.trim()) onSave(name.trim(), color);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-sm bg-white rounded-lg shadow-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">{isEdit ? 'Edit Group' : 'New Group'}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Name *</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              placeholder="e.g., Analysis Agents"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Colour</label>
+            <div className="flex flex-wrap gap-2">
+              {GROUP_COLORS.map((c) => (
+                <button
+                  key={c}
+                  onClick={() => setColor(c)}
+                  className={`h-7 w-7 rounded-full border-2 ${color === c ? 'border-gray-900' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                  title={c}
+                />
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {memberCount} node{memberCount === 1 ? '' : 's'} in this group
+          </p>
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          {isEdit && onUngroup && (
+            <Button
+              variant="outline"
+              onClick={onUngroup}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              title="Ungroup (nodes are kept)"
+            >
+              <Ungroup className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim()} className="flex-1">
+            {isEdit ? 'Save Group' : 'Create Group'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
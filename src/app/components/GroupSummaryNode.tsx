@@ -0,0 +1,89 @@
+import { ChevronsUpDown, Move } from 'lucide-react';
+import type { ComponentNode, ComponentStatus, NodeGroup } from '../types/architecture';
+import type { Point } from '../utils/viewport';
+import { rollupStatus } from '../utils/groups';
+
+interface GroupSummaryNodeProps {
+  group: NodeGroup;
+  /** Visible members hidden behind this summary. */
+  members: ComponentNode[];
+  position: Point;
+  onDragStart: (e: React.MouseEvent) => void;
+  onEdit: () => void;
+  onExpand: () => void;
+  nodeRef?: (el: HTMLDivElement | null) => void;
+  /** Impact mode: no member is related to the focused node. */
+  dimmed?: boolean;
+}
+
+const STATUS_STYLES: Record<ComponentStatus, { label: string; card: string; dot: string }> = {
+  'built': { label: 'Built', card: 'bg-green-50 border-green-500', dot: 'bg-green-500' },
+  'in-progress': { label: 'In progress', card: 'bg-yellow-50 border-yellow-500', dot: 'bg-yellow-500' },
+  'planned': { label: 'Planned', card: 'bg-gray-50 border-gray-400', dot: 'bg-gray-400' },
+  'open-question': { label: 'Open question', card: 'bg-red-50 border-red-500', dot: 'bg-red-500' },
+};
+
+// ─── Collapsed group: one card standing in for all of its members ───
+
+export function GroupSummaryNode({ group, members, position, onDragStart, onEdit, onExpand, nodeRef, dimmed = false }: GroupSummaryNodeProps) {
+  const status = rollupStatus(members);
+  const counts = members.reduce<Partial<Record<ComponentStatus, number>>>((acc, m) => {
+    acc[m.status] = (acc[m.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div
+      ref={nodeRef}
+      className={`absolute rounded-lg border-2 border-l-[6px] p-4 shadow-md transition-opacity ${STATUS_STYLES[status].card} ${dimmed ? 'opacity-25' : ''}`}
+      style={{
+        left: position.x,
+        top: position.y,
+        width: 240,
+        borderLeftColor: group.color,
+      }}
+    >
+      <div className="space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-start gap-2 flex-1 min-w-0">
+            <div
+              className="drag-handle cursor-move mt-0.5 hover:bg-gray-200 rounded p-0.5"
+              title="Drag to move the whole group"
+              onMouseDown={(e) => {
+                e.stopPropagation();
+                onDragStart(e);
+              }}
+            >
+              <Move className="h-3 w-3 text-gray-400" />
+            </div>
+            <button onClick={onEdit} className="text-sm leading-tight text-left font-semibold hover:underline truncate">
+              {group.name}
+            </button>
+          </div>
+          <button
+            onClick={onExpand}
+            className="rounded p-0.5 hover:bg-gray-200 text-gray-500"
+            title="Expand group"
+          >
+            <ChevronsUpDown className="h-3.5 w-3.5" />
+          </button>
+        </div>
+
+        <div className="text-[11px] text-gray-600">
+          {members.length} component{members.length === 1 ? '' : 's'} · {STATUS_STYLES[status].label}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(STATUS_STYLES) as ComponentStatus[])
+            .filter((s) => counts[s])
+            .map((s) => (
+              <span key={s} className="flex items-center gap-1 text-[10px] text-gray-500" title={STATUS_STYLES[s].label}>
+                <span className={`h-2 w-2 rounded-full ${STATUS_STYLES[s].dot}`} />
+                {counts[s]}
+              </span>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
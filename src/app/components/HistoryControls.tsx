@@ -0,0 +1,102 @@
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Undo2, Redo2, History } from 'lucide-react';
+import type { HistoryEntry } from '../hooks/useHistory';
+
+interface HistoryControlsProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Jump so that this entry is the latest applied one (null = before everything). */
+  onJumpTo: (entryId: string | null) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl+';
+
+function formatTime(date: Date) {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export function HistoryControls({ past, future, onUndo, onRedo, onJumpTo }: HistoryControlsProps) {
+  const lastDone = past[past.length - 1];
+  const nextRedo = future[0];
+
+  return (
+    <div className="flex items-center gap-1 bg-white/90 border rounded-lg shadow-lg p-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onUndo}
+        disabled={!lastDone}
+        className="h-7 w-7"
+        title={lastDone ? `Undo ${lastDone.label} (${MOD}Z)` : `Undo (${MOD}Z)`}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRedo}
+        disabled={!nextRedo}
+        className="h-7 w-7"
+        title={nextRedo ? `Redo ${nextRedo.label} (${MOD}Shift+Z)` : `Redo (${MOD}Shift+Z)`}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Edit history">
+            <History className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72 max-h-[60vh] overflow-y-auto">
+          <DropdownMenuLabel className="text-xs text-gray-500">
+            History — click an entry to go back to it
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {past.length === 0 && future.length === 0 && (
+            <p className="px-2 py-3 text-xs text-gray-400 text-center">No changes yet this session</p>
+          )}
+          {/* Undone entries (newest first) — greyed, clicking redoes up to them */}
+          {[...future].reverse().map((entry) => (
+            <DropdownMenuItem
+              key={entry.id}
+              onSelect={() => onJumpTo(entry.id)}
+              className="flex justify-between gap-2 text-gray-400 italic"
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-[10px] tabular-nums flex-shrink-0">{formatTime(entry.at)}</span>
+            </DropdownMenuItem>
+          ))}
+          {[...past].reverse().map((entry, i) => (
+            <DropdownMenuItem
+              key={entry.id}
+              onSelect={() => onJumpTo(entry.id)}
+              className={`flex justify-between gap-2 ${i === 0 ? 'font-medium' : ''}`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-[10px] text-gray-400 tabular-nums flex-shrink-0">{formatTime(entry.at)}</span>
+            </DropdownMenuItem>
+          ))}
+          {past.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => onJumpTo(null)} className="text-xs text-gray-500">
+                Undo everything this session
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
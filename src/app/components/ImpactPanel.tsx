@@ -0,0 +1,82 @@
+import { Button } from './ui/button';
+import { ArrowDownToLine, ArrowUpFromLine, OctagonAlert, X } from 'lucide-react';
+import type { ComponentNode } from '../types/architecture';
+
+interface ImpactPanelProps {
+  /** The node being traced; null until one is selected. */
+  focus: ComponentNode | null;
+  upstream: ComponentNode[];
+  downstream: ComponentNode[];
+  /** Effectively blocked node ids (whole diagram, not just this trace). */
+  blockedIds: Set<string>;
+  onFocusNode: (nodeId: string) => void;
+  onExit: () => void;
+}
+
+function NodeList({ nodes, blockedIds, onFocusNode }: { nodes: ComponentNode[]; blockedIds: Set<string>; onFocusNode: (id: string) => void }) {
+  if (nodes.length === 0) return <p className="text-[11px] text-gray-400 italic px-1">None</p>;
+  return (
+    <ul className="max-h-36 overflow-y-auto space-y-0.5">
+      {nodes.map((n) => (
+        <li key={n.id}>
+          <button
+            type="button"
+            onClick={() => onFocusNode(n.id)}
+            className="w-full flex items-center gap-1 text-left text-xs text-gray-700 hover:bg-gray-100 rounded px-1 py-0.5"
+          >
+            <span className="truncate flex-1">{n.name}</span>
+            {blockedIds.has(n.id) && <OctagonAlert className="h-3 w-3 text-amber-600 flex-shrink-0" />}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ─── Impact mode: what the focused node depends on / holds up ───
+
+export function ImpactPanel({ focus, upstream, downstream, blockedIds, onFocusNode, onExit }: ImpactPanelProps) {
+  const blockedDownstream = downstream.filter((n) => blockedIds.has(n.id)).length;
+
+  return (
+    <div className="w-[28rem] bg-white/95 border rounded-lg shadow-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-[10px] uppercase tracking-wider text-gray-400">Impact mode</p>
+          <p className="text-sm font-semibold truncate">
+            {focus ? focus.name : 'Select a node to trace its impact'}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onExit} className="h-7 w-7 flex-shrink-0" title="Exit impact mode (I)">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {focus && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="flex items-center gap-1 text-[11px] font-medium text-violet-700 mb-1">
+              <ArrowUpFromLine className="h-3 w-3" /> Upstream ({upstream.length})
+            </p>
+            <NodeList nodes={upstream} blockedIds={blockedIds} onFocusNode={onFocusNode} />
+          </div>
+          <div>
+            <p className="flex items-center gap-1 text-[11px] font-medium text-orange-700 mb-1">
+              <ArrowDownToLine className="h-3 w-3" /> Downstream ({downstream.length})
+            </p>
+            <NodeList nodes={downstream} blockedIds={blockedIds} onFocusNode={onFocusNode} />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 border-t pt-2 text-[10px] text-gray-500">
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full ring-2 ring-violet-500" /> upstream</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full ring-2 ring-orange-500" /> downstream</span>
+        <span className="flex items-center gap-1">
+          <OctagonAlert className="h-3 w-3 text-amber-600" />
+          {blockedIds.size} effectively blocked{focus && downstream.length > 0 ? ` (${blockedDownstream} downstream)` : ''}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { FileWarning } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { ValidationIssue } from '../utils/documentSchema';
+
+export interface ImportReport {
+  fileName: string;
+  /** Schema version the file declared (or was detected as); null when unreadable. */
+  fromVersion: number | null;
+  issues: ValidationIssue[];
+}
+
+interface ImportReportDialogProps {
+  report: ImportReport | null;
+  onClose: () => void;
+}
+
+const MAX_SHOWN = 200;
+
+// ─── Why an import was rejected: every problem found, with where it is ───
+export function ImportReportDialog({ report, onClose }: ImportReportDialogProps) {
+  if (!report) return null;
+  const { fileName, fromVersion, issues } = report;
+  const shown = issues.slice(0, MAX_SHOWN);
+
+  const copyReport = () => {
+    const text = [`${fileName}${fromVersion ? ` (schema ${fromVersion})` : ''}`, ...issues.map((i) => `${i.path}: ${i.message}`)].join('\n');
+    navigator.clipboard?.writeText(text);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileWarning className="h-5 w-5 text-red-600" />
+            Import failed — nothing was changed
+          </DialogTitle>
+          <DialogDescription>
+            <span className="font-medium text-gray-700">{fileName}</span>
+            {fromVersion !== null && <> · schema {fromVersion}</>}
+            {' '}has {issues.length} {issues.length === 1 ? 'problem' : 'problems'}. Fix the file and import it again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 rounded-md border border-gray-200 text-sm">
+          {shown.map((issue, i) => (
+            <li key={i} className="px-3 py-2">
+              <div className="font-mono text-[11px] text-gray-500 break-all">{issue.path}</div>
+              <div className="text-gray-800">{issue.message}</div>
+            </li>
+          ))}
+          {issues.length > shown.length && (
+            <li className="px-3 py-2 text-xs text-gray-500 italic">
+              …and {issues.length - shown.length} more (copy the report to see them all)
+            </li>
+          )}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={copyReport}>Copy report</Button>
+          <Button size="sm" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
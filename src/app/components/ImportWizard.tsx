@@ -0,0 +1,266 @@
+import { useMemo, useState } from 'react';
+import { FileInput, Minus, Pencil, Plus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { Connection, StatusWorkflow } from '../types/architecture';
+import { checkTransition } from '../utils/statusWorkflow';
+import { diffVersions, isEmptyDiff, type DocumentSnapshot } from '../utils/versionDiff';
+import { SCHEMA_VERSION } from '../utils/documentSchema';
+import {
+  allChangeKeys,
+  buildImportPlan,
+  changeKey,
+  defaultSelection,
+  planSize,
+  type ImportPlan,
+} from '../utils/importPlan';
+
+export interface PendingImport {
+  fileName: string;
+  fromVersion: number;
+  snapshot: DocumentSnapshot;
+  /** References to missing nodes or tags the loader removed from the file. */
+  prunedReferences: number;
+}
+
+interface ImportWizardProps {
+  pending: PendingImport;
+  current: DocumentSnapshot;
+  /** Node deletes go through the admin-only edge function. */
+  canDeleteNodes: boolean;
+  /** Status changes must follow it, and are logged as `actor`'s. */
+  statusWorkflow: StatusWorkflow;
+  actor: string;
+  onApply: (plan: ImportPlan, label: string) => void;
+  onClose: () => void;
+}
+
+type Tone = 'added' | 'removed' | 'changed';
+
+const TONE_ICON = { added: Plus, removed: Minus, changed: Pencil };
+const TONE_COLOR = { added: 'text-green-700', removed: 'text-red-700', changed: 'text-amber-700' };
+
+// ─── One tickable change ───
+function ChangeRow({ checked, onToggle, tone, disabled, note, children }: {
+  checked: boolean;
+  onToggle: () => void;
+  tone: Tone;
+  disabled?: boolean;
+  note?: string;
+  children: React.ReactNode;
+}) {
+  const Icon = TONE_ICON[tone];
+  return (
+    <label className={`flex items-start gap-2 px-3 py-1.5 text-sm ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+      <input
+        type="checkbox"
+        checked={checked && !disabled}
+        disabled={disabled}
+        onChange={onToggle}
+        className="mt-0.5 h-4 w-4 rounded border-gray-300"
+      />
+      <Icon className={`mt-0.5 h-3.5 w-3.5 flex-shrink-0 ${TONE_COLOR[tone]}`} />
+      <span className="min-w-0 flex-1">
+        {children}
+        {note && <span className="block text-[11px] text-amber-700">{note}</span>}
+      </span>
+    </label>
+  );
+}
+
+function Section({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  if (count === 0) return null;
+  return (
+    <section>
+      <h3 className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">{title} ({count})</h3>
+      <div className="divide-y divide-gray-50">{children}</div>
+    </section>
+  );
+}
+
+// ─── Import wizard: the file diffed against the live map, change by change ───
+export function ImportWizard({ pending, current, canDeleteNodes, statusWorkflow, actor, onApply, onClose }: ImportWizardProps) {
+  const incoming = pending.snapshot;
+  const diff = useMemo(() => diffVersions(current, incoming), [current, incoming]);
+  const [accepted, setAccepted] = useState<Set<string>>(() => defaultSelection(diff));
+
+  const statusNote = `Imported from ${pending.fileName}`;
+  const { plan, skipped } = useMemo(
+    () => buildImportPlan(current, incoming, diff, accepted, { workflow: statusWorkflow, by: actor, note: statusNote }),
+    [current, incoming, diff, accepted, statusWorkflow, actor, statusNote]
+  );
+  const skippedKeys = new Set(skipped);
+  const selectable = useMemo(() => {
+    const removals = new Set(diff.nodesRemoved.map((n) => changeKey.nodeRemoved(n.id)));
+    return allChangeKeys(diff).filter((k) => canDeleteNodes || !removals.has(k));
+  }, [diff, canDeleteNodes]);
+  const size = planSize(plan);
+
+  const toggle = (...keys: string[]) => setAccepted((prev) => {
+    const next = new Set(prev);
+    const on = !keys.every((k) => prev.has(k));
+    keys.forEach((k) => (on ? next.add(k) : next.delete(k)));
+    return next;
+  });
+
+  const nodeName = (id: string) =>
+    (incoming.data.components.find((c) => c.id === id) ?? current.data.components.find((c) => c.id === id))?.name ?? id;
+  const arrow = (c: Connection) => `${nodeName(c.from)} → ${nodeName(c.to)}${c.label ? ` (${c.label})` : ''}`;
+  const missingEnd = (c: Connection) => `Needs node “${[c.from, c.to].map(nodeName).join('” and “')}” to be kept`;
+  const statusProblem = (id: string) => {
+    const from = current.data.components.find((c) => c.id === id)?.status;
+    const to = incoming.data.components.find((c) => c.id === id)?.status;
+    return from && to ? checkTransition(from, to, statusNote, statusWorkflow) ?? undefined : undefined;
+  };
+
+  const removalNote = canDeleteNodes ? undefined : 'Only admins can delete nodes';
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileInput className="h-5 w-5 text-blue-600" />
+            Import {pending.fileName}
+          </DialogTitle>
+          <DialogDescription>
+            Pick which of the file's differences to bring into the shared map. Nothing changes until you apply.
+            {pending.fromVersion < SCHEMA_VERSION && ` The file was upgraded from schema ${pending.fromVersion}.`}
+            {pending.prunedReferences > 0 &&
+              ` ${pending.prunedReferences} reference${pending.prunedReferences === 1 ? '' : 's'} to missing nodes or tags ${pending.prunedReferences === 1 ? 'was' : 'were'} removed.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isEmptyDiff(diff) ? (
+          <p className="py-8 text-center text-sm text-gray-500">The file matches the current map — there is nothing to import.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-xs">
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setAccepted(new Set(selectable))}>Select all</Button>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setAccepted(new Set())}>Select none</Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setAccepted(defaultSelection(diff))}>Reset</Button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto rounded-md border border-gray-200">
+              <Section title="New nodes" count={diff.nodesAdded.length}>
+                {diff.nodesAdded.map((n) => (
+                  <ChangeRow key={n.id} tone="added" checked={accepted.has(changeKey.nodeAdded(n.id))} onToggle={() => toggle(changeKey.nodeAdded(n.id))}>
+                    {n.name} <span className="text-xs text-gray-400">{n.status}</span>
+                  </ChangeRow>
+                ))}
+              </Section>
+
+              <Section title="Changed nodes" count={diff.nodesChanged.length}>
+                {diff.nodesChanged.map((change) => {
+                  const keys = change.fields.map((f) => changeKey.nodeField(change.id, f.field));
+                  return (
+                    <div key={change.id} className="py-1">
+                      <ChangeRow tone="changed" checked={keys.every((k) => accepted.has(k))} onToggle={() => toggle(...keys)}>
+                        <span className="font-medium">{change.name}</span>
+                        <span className="ml-1 text-xs text-gray-400">{change.fields.length} {change.fields.length === 1 ? 'field' : 'fields'}</span>
+                      </ChangeRow>
+                      <div className="ml-8">
+                        {change.fields.map((f) => (
+                          <ChangeRow
+                            key={f.field}
+                            tone="changed"
+                            checked={accepted.has(changeKey.nodeField(change.id, f.field))}
+                            onToggle={() => toggle(changeKey.nodeField(change.id, f.field))}
+                            note={skippedKeys.has(changeKey.nodeField(change.id, f.field)) ? statusProblem(change.id) : undefined}
+                          >
+                            <span className="grid grid-cols-[110px_1fr_1fr] gap-2 text-xs">
+                              <span className="text-gray-400">{f.field}</span>
+                              <span className="text-red-700 line-through decoration-red-300 break-words">{f.before}</span>
+                              <span className="text-green-700 break-words">{f.after}</span>
+                            </span>
+                          </ChangeRow>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </Section>
+
+              <Section title="Nodes not in the file" count={diff.nodesRemoved.length}>
+                {diff.nodesRemoved.map((n) => (
+                  <ChangeRow
+                    key={n.id}
+                    tone="removed"
+                    disabled={!canDeleteNodes}
+                    note={removalNote}
+                    checked={accepted.has(changeKey.nodeRemoved(n.id))}
+                    onToggle={() => toggle(changeKey.nodeRemoved(n.id))}
+                  >
+                    Delete {n.name}
+                  </ChangeRow>
+                ))}
+              </Section>
+
+              <Section title="Arrows" count={diff.connectionsAdded.length + diff.connectionsChanged.length + diff.connectionsRemoved.length}>
+                {diff.connectionsAdded.map((c) => {
+                  const key = changeKey.connAdded(c.id);
+                  return (
+                    <ChangeRow key={key} tone="added" checked={accepted.has(key)} onToggle={() => toggle(key)} note={skippedKeys.has(key) ? missingEnd(c) : undefined}>
+                      {arrow(c)}
+                    </ChangeRow>
+                  );
+                })}
+                {diff.connectionsChanged.map((c) => {
+                  const key = changeKey.connChanged(c.id);
+                  return (
+                    <ChangeRow key={key} tone="changed" checked={accepted.has(key)} onToggle={() => toggle(key)} note={skippedKeys.has(key) ? missingEnd(c) : undefined}>
+                      {arrow(c)} <span className="text-xs text-gray-400">{c.type}</span>
+                    </ChangeRow>
+                  );
+                })}
+                {diff.connectionsRemoved.map((c) => {
+                  const key = changeKey.connRemoved(c.id);
+                  return (
+                    <ChangeRow key={key} tone="removed" checked={accepted.has(key)} onToggle={() => toggle(key)}>
+                      Delete {arrow(c)}
+                    </ChangeRow>
+                  );
+                })}
+              </Section>
+
+              <Section title="Tags" count={diff.tagsAdded.length + diff.tagsChanged.length + diff.tagsRemoved.length}>
+                {diff.tagsAdded.map((t) => (
+                  <ChangeRow key={t.id} tone="added" checked={accepted.has(changeKey.tagAdded(t.id))} onToggle={() => toggle(changeKey.tagAdded(t.id))}>
+                    <span className="inline-block h-2.5 w-2.5 rounded-full mr-1.5 align-middle" style={{ backgroundColor: t.color }} />
+                    {t.label}
+                  </ChangeRow>
+                ))}
+                {diff.tagsChanged.map((t) => (
+                  <ChangeRow key={t.id} tone="changed" checked={accepted.has(changeKey.tagChanged(t.id))} onToggle={() => toggle(changeKey.tagChanged(t.id))}>
+                    <span className="inline-block h-2.5 w-2.5 rounded-full mr-1.5 align-middle" style={{ backgroundColor: t.color }} />
+                    {t.label}
+                  </ChangeRow>
+                ))}
+                {diff.tagsRemoved.map((t) => (
+                  <ChangeRow key={t.id} tone="removed" checked={accepted.has(changeKey.tagRemoved(t.id))} onToggle={() => toggle(changeKey.tagRemoved(t.id))}>
+                    Delete tag {t.label}
+                  </ChangeRow>
+                ))}
+              </Section>
+
+              {(diff.groupsAdded.length + diff.groupsRemoved.length + diff.groupsChanged.length) > 0 && (
+                <p className="px-3 py-2 text-xs text-gray-400">Group differences aren't imported.</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button
+            size="sm"
+            disabled={size === 0}
+            onClick={() => onApply(plan, `Import ${pending.fileName} (${size} ${size === 1 ? 'change' : 'changes'})`)}
+          >
+            Apply {size} {size === 1 ? 'change' : 'changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
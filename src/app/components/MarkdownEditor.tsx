@@ -0,0 +1,169 @@
+import { useRef, useState, type FocusEvent, type KeyboardEvent, type ReactNode } from 'react';
+import {
+  AtSign,
+  Bold,
+  Code,
+  Eye,
+  EyeOff,
+  Heading2,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  SquareCode,
+  Strikethrough,
+  Table,
+  TextQuote,
+} from 'lucide-react';
+import { MentionTextarea, type MentionedUser } from './MentionTextarea';
+import { MarkdownText } from './MarkdownText';
+import {
+  insertCodeBlock,
+  insertLink,
+  insertTable,
+  prefixLines,
+  wrapSelection,
+  type TextEdit,
+} from '../utils/markdown';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (text: string) => void;
+  onMentionsChange?: (mentions: MentionedUser[]) => void;
+  initialMentions?: MentionedUser[];
+  placeholder?: string;
+  /** Forwarded to the textarea. */
+  className?: string;
+  rows?: number;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  /** Start with the live preview showing. */
+  defaultPreview?: boolean;
+  onFocus?: (e: FocusEvent<HTMLTextAreaElement>) => void;
+  onBlur?: (e: FocusEvent<HTMLTextAreaElement>) => void;
+  onKeyDown?: (e: KeyboardEvent<HTMLTextAreaElement>) => void;
+}
+
+type Transform = (text: string, start: number, end: number) => TextEdit;
+
+const insertMention: Transform = (text, start, end) => {
+  const pad = start > 0 && !/\s/.test(text[start - 1]) ? ' ' : '';
+  const caret = start + pad.length + 1;
+  return { text: `${text.slice(0, start)}${pad}@${text.slice(end)}`, selectionStart: caret, selectionEnd: caret };
+};
+
+// Toolbar groups; separators fall between them
+const TOOLS: { label: string; shortcut?: string; icon: ReactNode; apply: Transform }[][] = [
+  [
+    { label: 'Heading', icon: <Heading2 />, apply: (t, s, e) => prefixLines(t, s, e, '## ') },
+    { label: 'Bold', shortcut: 'B', icon: <Bold />, apply: (t, s, e) => wrapSelection(t, s, e, '**') },
+    { label: 'Italic', shortcut: 'I', icon: <Italic />, apply: (t, s, e) => wrapSelection(t, s, e, '_') },
+    { label: 'Strikethrough', icon: <Strikethrough />, apply: (t, s, e) => wrapSelection(t, s, e, '~~') },
+  ],
+  [
+    { label: 'Bulleted list', icon: <List />, apply: (t, s, e) => prefixLines(t, s, e, '- ') },
+    { label: 'Numbered list', icon: <ListOrdered />, apply: (t, s, e) => prefixLines(t, s, e, (i) => `${i + 1}. `) },
+    { label: 'Quote', icon: <TextQuote />, apply: (t, s, e) => prefixLines(t, s, e, '> ') },
+  ],
+  [
+    { label: 'Link', shortcut: 'K', icon: <Link />, apply: insertLink },
+    { label: 'Inline code', icon: <Code />, apply: (t, s, e) => wrapSelection(t, s, e, '`', '`', 'code') },
+    { label: 'Code block', icon: <SquareCode />, apply: insertCodeBlock },
+    { label: 'Table', icon: <Table />, apply: insertTable },
+    { label: 'Mention someone', icon: <AtSign />, apply: insertMention },
+  ],
+];
+
+const SHORTCUTS = new Map(TOOLS.flat().filter((t) => t.shortcut).map((t) => [t.shortcut!.toLowerCase(), t.apply]));
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// ─── The one rich-text editor: toolbar, @mentions and a live preview ───
+export function MarkdownEditor({
+  value,
+  onChange,
+  defaultPreview = false,
+  onKeyDown,
+  disabled,
+  ...textareaProps
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(defaultPreview);
+
+  const apply = (transform: Transform) => {
+    const el = textareaRef.current;
+    if (!el || disabled) return;
+    const edit = transform(value, el.selectionStart, el.selectionEnd);
+    onChange(edit.text);
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const transform = (isMac ? e.metaKey : e.ctrlKey) && !e.altKey && !e.shiftKey ? SHORTCUTS.get(e.key.toLowerCase()) : undefined;
+    if (transform) {
+      // Keep mod+K here from also opening the command palette
+      e.preventDefault();
+      e.stopPropagation();
+      apply(transform);
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  const mod = isMac ? '⌘' : 'Ctrl+';
+
+  return (
+    <div className="space-y-1">
+      {/* Toolbar — mousedown keeps focus (and the selection) in the textarea */}
+      <div className="flex flex-wrap items-center gap-0.5">
+        {TOOLS.map((group, g) => (
+          <div key={g} className="flex items-center gap-0.5 pr-1 mr-0.5 border-r border-gray-200 last:border-r-0">
+            {group.map((tool) => (
+              <button
+                key={tool.label}
+                type="button"
+                disabled={disabled}
+                onMouseDown={(e) => { e.preventDefault(); apply(tool.apply); }}
+                className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-40 [&>svg]:h-3.5 [&>svg]:w-3.5"
+                title={tool.shortcut ? `${tool.label} (${mod}${tool.shortcut})` : tool.label}
+              >
+                {tool.icon}
+              </button>
+            ))}
+          </div>
+        ))}
+        <button
+          type="button"
+          onMouseDown={(e) => { e.preventDefault(); setPreview(!preview); }}
+          className={`ml-auto flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px] ${
+            preview ? 'bg-blue-50 text-blue-700' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-800'
+          }`}
+          title={preview ? 'Hide preview' : 'Show a live preview'}
+        >
+          {preview ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+          Preview
+        </button>
+      </div>
+
+      <MentionTextarea
+        ref={textareaRef}
+        value={value}
+        onChange={onChange}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        {...textareaProps}
+      />
+
+      {preview && (
+        <div className="rounded-md border border-dashed border-gray-200 bg-gray-50/50 px-3 py-2">
+          {value.trim()
+            ? <MarkdownText text={value} />
+            : <p className="text-xs text-gray-400 italic">Nothing to preview yet.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
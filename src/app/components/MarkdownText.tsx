@@ -0,0 +1,133 @@
+import { Fragment, useMemo } from 'react';
+import { parseMarkdown, type MdBlock, type MdInline, type TableAlign } from '../utils/markdown';
+import { useUsers } from '../hooks/useUsers';
+import { cn } from './ui/utils';
+
+interface MarkdownTextProps {
+  text: string;
+  /** Extra names to show as @mentions, on top of everyone in the user directory. */
+  mentions?: string[];
+  className?: string;
+}
+
+const HEADING_STYLES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium', 'text-xs font-semibold uppercase tracking-wide'];
+
+const ALIGN_CLASS: Record<NonNullable<TableAlign>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+// ─── Inline: emphasis, code, links and mentions ───
+function Inline({ nodes }: { nodes: MdInline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case 'text':
+            return <Fragment key={i}>{node.text}</Fragment>;
+          case 'break':
+            return <br key={i} />;
+          case 'strong':
+            return <strong key={i} className="font-semibold"><Inline nodes={node.children} /></strong>;
+          case 'em':
+            return <em key={i}><Inline nodes={node.children} /></em>;
+          case 'del':
+            return <del key={i} className="text-gray-400"><Inline nodes={node.children} /></del>;
+          case 'code':
+            return <code key={i} className="rounded bg-gray-100 px-1 py-px font-mono text-[0.85em] text-gray-800">{node.text}</code>;
+          case 'mention':
+            return <span key={i} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700">@{node.name}</span>;
+          case 'link':
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 underline hover:text-blue-800 break-all"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Inline nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+// ─── Blocks ───
+function Block({ block }: { block: MdBlock }) {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+      return <Tag className={`${HEADING_STYLES[Math.min(block.level, 4) - 1]} text-gray-900 mt-2 first:mt-0`}><Inline nodes={block.content} /></Tag>;
+    }
+    case 'paragraph':
+      return <p><Inline nodes={block.content} /></p>;
+    case 'list': {
+      const items = block.items.map((item, i) => <li key={i}><Inline nodes={item} /></li>);
+      return block.ordered
+        ? <ol start={block.start} className="list-decimal pl-5 space-y-0.5 marker:text-gray-400 marker:text-xs">{items}</ol>
+        : <ul className="list-disc pl-5 space-y-0.5 marker:text-gray-400">{items}</ul>;
+    }
+    case 'code':
+      return (
+        <pre className="overflow-x-auto rounded-md border border-gray-200 bg-gray-50 px-2.5 py-2 font-mono text-xs leading-snug text-gray-800">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'quote':
+      return (
+        <blockquote className="border-l-2 border-gray-200 pl-3 text-gray-500 space-y-1.5">
+          {block.blocks.map((b, i) => <Block key={i} block={b} />)}
+        </blockquote>
+      );
+    case 'table':
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} className={`border border-gray-200 bg-gray-50 px-2 py-1 font-semibold text-gray-700 ${ALIGN_CLASS[block.align[c] ?? 'left']}`}>
+                    <Inline nodes={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, c) => (
+                    <td key={c} className={`border border-gray-200 px-2 py-1 align-top ${ALIGN_CLASS[block.align[c] ?? 'left']}`}>
+                      <Inline nodes={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr className="border-gray-200" />;
+  }
+}
+
+// ─── Read-only Markdown, used wherever a rich-text field is displayed ───
+export function MarkdownText({ text, mentions, className = '' }: MarkdownTextProps) {
+  const { users } = useUsers();
+  const blocks = useMemo(
+    () => parseMarkdown(text, { mentions: [...users.map((u) => u.name), ...(mentions ?? [])] }),
+    [text, users, mentions]
+  );
+  if (!text) return null;
+
+  return (
+    <div className={cn('text-sm leading-relaxed text-gray-700 space-y-1.5 break-words', className)}>
+      {blocks.map((block, i) => <Block key={i} block={block} />)}
+    </div>
+  );
+}
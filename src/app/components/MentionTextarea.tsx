@@ -20,15 +20,23 @@
 //   initialMentions    — mentions already persisted (for edit scenarios)
 //   className          — forwarded to the <textarea>
 //   rows / placeholder — forwarded to the <textarea>
+//   onFocus / onBlur   — forwarded to the <textarea>
+//   onKeyDown          — keys the mention dropdown does not consume
+//
+// The ref points at the <textarea> (MarkdownEditor uses it to read and set
+// the selection).
 // =============================================================================
 
 import {
+  forwardRef,
   useState,
   useEffect,
+  useImperativeHandle,
   useRef,
   useCallback,
   KeyboardEvent,
   ChangeEvent,
+  FocusEvent,
 } from "react";
 import { supabase } from "../supabaseClient";
 
@@ -60,6 +68,9 @@ interface MentionTextareaProps {
   rows?: number;
   autoFocus?: boolean;
   disabled?: boolean;
+  onFocus?: (e: FocusEvent<HTMLTextAreaElement>) => void;
+  onBlur?: (e: FocusEvent<HTMLTextAreaElement>) => void;
+  onKeyDown?: (e: KeyboardEvent<HTMLTextAreaElement>) => void;
 }
 
 // How many dropdown items to show at once
@@ -69,7 +80,7 @@ const MAX_SUGGESTIONS = 6;
 // Component
 // ---------------------------------------------------------------------------
 
-export function MentionTextarea({
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(function MentionTextarea({
   value,
   onChange,
   onMentionsChange,
@@ -80,8 +91,12 @@ export function MentionTextarea({
   rows = 4,
   autoFocus = false,
   disabled = false,
-}: MentionTextareaProps) {
+  onFocus,
+  onBlur,
+  onKeyDown,
+}, ref) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  useImperativeHandle(ref, () => textareaRef.current!, []);
 
   // ── User list ─────────────────────────────────────────────────────────────
   const [allUsers, setAllUsers] = useState<MentionUser[]>(propUsers ?? []);
@@ -190,7 +205,7 @@ export function MentionTextarea({
 
   // ── Keyboard navigation for dropdown ─────────────────────────────────────
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
-    if (query === null || suggestions.length === 0) return;
+    if (query === null || suggestions.length === 0) { onKeyDown?.(e); return; }
 
     if (e.key === "ArrowDown") {
       e.preventDefault();
@@ -203,6 +218,8 @@ export function MentionTextarea({
       selectSuggestion(suggestions[highlightIdx]);
     } else if (e.key === "Escape") {
       setQuery(null);
+    } else {
+      onKeyDown?.(e);
     }
   };
 
@@ -244,6 +261,8 @@ export function MentionTextarea({
         onKeyDown={handleKeyDown}
         onClick={handleSelectionChange}
         onKeyUp={handleSelectionChange}
+        onFocus={onFocus}
+        onBlur={onBlur}
         placeholder={placeholder}
         rows={rows}
         autoFocus={autoFocus}
@@ -317,4 +336,4 @@ export function MentionTextarea({
       )}
     </div>
   );
-}
+});
@@ -0,0 +1,111 @@
+import { useRef } from 'react';
+import type { ComponentNode } from '../types/architecture';
+import {
+  unionRects,
+  visibleWorldRect,
+  type Point,
+  type Rect,
+  type Size,
+  type Viewport,
+} from '../utils/viewport';
+
+interface MinimapProps {
+  nodes: ComponentNode[];
+  /** World-space rect for each node id. */
+  getNodeRect: (node: ComponentNode) => Rect;
+  viewport: Viewport;
+  containerSize: Size;
+  selectedNodeId?: string | null;
+  /** Centre the main canvas on this world point. */
+  onNavigate: (world: Point) => void;
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 40;
+
+const STATUS_FILL: Record<ComponentNode['status'], string> = {
+  'built': '#22c55e',
+  'in-progress': '#eab308',
+  'planned': '#9ca3af',
+  'open-question': '#ef4444',
+};
+
+export function Minimap({ nodes, getNodeRect, viewport, containerSize, selectedNodeId, onNavigate }: MinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const visible = visibleWorldRect(viewport, containerSize);
+  const content = unionRects(nodes.map(getNodeRect));
+  // Frame both the content and the current view so the viewport box never falls off the map
+  const world = unionRects(content ? [content, visible] : [visible])!;
+  const frame: Rect = {
+    x: world.x - MINIMAP_PADDING,
+    y: world.y - MINIMAP_PADDING,
+    width: world.width + MINIMAP_PADDING * 2,
+    height: world.height + MINIMAP_PADDING * 2,
+  };
+  const scale = Math.min(MINIMAP_WIDTH / frame.width, MINIMAP_HEIGHT / frame.height);
+
+  const navigateFromEvent = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onNavigate({
+      x: frame.x + (e.clientX - rect.left) / scale,
+      y: frame.y + (e.clientY - rect.top) / scale,
+    });
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    navigateFromEvent(e);
+    const handleMove = (ev: MouseEvent) => navigateFromEvent(ev);
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <div className="bg-white/90 border rounded-lg shadow-lg overflow-hidden">
+      <svg
+        ref={svgRef}
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        viewBox={`${frame.x} ${frame.y} ${MINIMAP_WIDTH / scale} ${MINIMAP_HEIGHT / scale}`}
+        className="block cursor-pointer"
+        onMouseDown={handleMouseDown}
+      >
+        {nodes.map((node) => {
+          const r = getNodeRect(node);
+          return (
+            <rect
+              key={node.id}
+              x={r.x}
+              y={r.y}
+              width={r.width}
+              height={r.height}
+              rx={8}
+              fill={STATUS_FILL[node.status] ?? '#d1d5db'}
+              fillOpacity={node.id === selectedNodeId ? 0.9 : 0.45}
+              stroke={node.id === selectedNodeId ? '#2563eb' : 'none'}
+              strokeWidth={4 / scale}
+            />
+          );
+        })}
+        <rect
+          x={visible.x}
+          y={visible.y}
+          width={visible.width}
+          height={visible.height}
+          fill="#3b82f6"
+          fillOpacity={0.08}
+          stroke="#3b82f6"
+          strokeWidth={2 / scale}
+        />
+      </svg>
+    </div>
+  );
+}
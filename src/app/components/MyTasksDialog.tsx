@@ -0,0 +1,124 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ListChecks } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { ComponentNode } from '../types/architecture';
+import { isOverdue, tasksAssignedTo, todayISODate, type AssignedTask } from '../utils/tasks';
+
+interface MyTasksDialogProps {
+  components: ComponentNode[];
+  /** Signed-in user's email; tasks are assigned by email. */
+  email: string | null;
+  onToggleTask: (nodeId: string, taskId: string) => void;
+  onOpenNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+function TaskSection({
+  title,
+  items,
+  today,
+  onToggleTask,
+  onOpenNode,
+}: {
+  title: string;
+  items: AssignedTask[];
+  today: string;
+  onToggleTask: (nodeId: string, taskId: string) => void;
+  onOpenNode: (nodeId: string) => void;
+}) {
+  if (items.length === 0) return null;
+  return (
+    <section>
+      <h3 className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">{title} ({items.length})</h3>
+      <ul className="px-1 pb-1">
+        {items.map(({ task, node }) => (
+          <li key={`${node.id}:${task.id}`} className="flex items-center gap-2 rounded px-2 py-1.5 hover:bg-gray-50">
+            <input
+              type="checkbox"
+              checked={task.done}
+              onChange={() => onToggleTask(node.id, task.id)}
+              className="h-4 w-4 rounded border-gray-300 flex-shrink-0"
+            />
+            <span className={`flex-1 min-w-0 truncate text-sm ${task.done ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+              {task.title}
+            </span>
+            {task.due && (
+              <span className={`text-xs flex-shrink-0 ${isOverdue(task, today) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                {format(parseISO(task.due), 'MMM d')}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => onOpenNode(node.id)}
+              className="max-w-[140px] truncate rounded bg-gray-100 px-1.5 py-0.5 text-[11px] text-gray-600 hover:bg-blue-50 hover:text-blue-700 flex-shrink-0"
+              title={`Open ${node.name}`}
+            >
+              {node.name}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+// ─── Everything assigned to the signed-in user, across all nodes ───
+export function MyTasksDialog({ components, email, onToggleTask, onOpenNode, onClose }: MyTasksDialogProps) {
+  const [showDone, setShowDone] = useState(false);
+  const today = todayISODate();
+
+  const all = useMemo(() => tasksAssignedTo(components, email), [components, email]);
+  const open = all.filter((a) => !a.task.done);
+  const overdue = open.filter((a) => isOverdue(a.task, today));
+  const upcoming = open.filter((a) => a.task.due && !isOverdue(a.task, today));
+  const undated = open.filter((a) => !a.task.due);
+  const done = all.filter((a) => a.task.done);
+
+  const sectionProps = { today, onToggleTask, onOpenNode };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="sm:max-w-xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5 text-emerald-600" />
+            My tasks
+          </DialogTitle>
+          <DialogDescription>
+            {open.length === 0
+              ? 'Nothing open is assigned to you.'
+              : `${open.length} open ${open.length === 1 ? 'task' : 'tasks'}${overdue.length > 0 ? `, ${overdue.length} overdue` : ''}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto rounded-md border border-gray-200">
+          {all.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-400">Tasks assigned to you on any node show up here.</p>
+          ) : (
+            <>
+              <TaskSection title="Overdue" items={overdue} {...sectionProps} />
+              <TaskSection title="Upcoming" items={upcoming} {...sectionProps} />
+              <TaskSection title="No due date" items={undated} {...sectionProps} />
+              {showDone && <TaskSection title="Done" items={done} {...sectionProps} />}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showDone}
+              onChange={(e) => setShowDone(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Show done ({done.length})
+          </label>
+          <Button variant="outline" size="sm" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Loader2, ArrowRight } from 'lucide-react';
+import type { Tag } from '../types/architecture';
+import { AUDITED_FIELDS, useNodeActivity, type NodeActivity } from '../hooks/useNodeActivity';
+
+interface NodeActivityFeedProps {
+  nodeId: string;
+  allTags: Tag[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  status: 'status',
+  description: 'purpose',
+  inputs: 'inputs',
+  outputs: 'outputs',
+  owner: 'owner',
+  tags: 'tags',
+  blockers: 'blockers',
+  remainingMvpScope: 'remaining MVP scope',
+  futureScope: 'future scope',
+};
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  'built': { label: 'Built', className: 'bg-green-500' },
+  'in-progress': { label: 'In Progress', className: 'bg-yellow-500' },
+  'planned': { label: 'Planned', className: 'bg-gray-400' },
+  'open-question': { label: 'Open Question', className: 'bg-red-500' },
+};
+
+function actorLabel(entry: NodeActivity) {
+  return entry.actor_name || entry.actor_email || 'Someone';
+}
+
+function initials(entry: NodeActivity) {
+  const source = entry.actor_name || entry.actor_email || '?';
+  return source.split(/[\s@.]+/).filter(Boolean).slice(0, 2).map((p) => p[0]?.toUpperCase()).join('');
+}
+
+// ─── One side of a change (old or new value) ───
+function ActivityValue({ field, value, allTags, tone }: { field: string; value: unknown; allTags: Tag[]; tone: 'old' | 'new' }) {
+  const muted = tone === 'old' ? 'text-red-700 line-through decoration-red-300' : 'text-green-700';
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return <span className="text-gray-400 italic">empty</span>;
+  }
+  if (field === 'status' && typeof value === 'string') {
+    const s = STATUS_LABELS[value];
+    return (
+      <span className={`inline-block rounded px-1.5 py-0.5 text-[10px] text-white ${s?.className ?? 'bg-gray-400'} ${tone === 'old' ? 'opacity-60' : ''}`}>
+        {s?.label ?? value}
+      </span>
+    );
+  }
+  if (field === 'tags' && Array.isArray(value)) {
+    return (
+      <span className="inline-flex flex-wrap gap-1">
+        {value.map((id) => {
+          const tag = allTags.find((t) => t.id === id);
+          return (
+            <span key={String(id)} className={`rounded px-1.5 py-0.5 text-[10px] text-white ${tone === 'old' ? 'opacity-60' : ''}`} style={{ backgroundColor: tag?.color ?? '#9ca3af' }}>
+              {tag?.label ?? String(id)}
+            </span>
+          );
+        })}
+      </span>
+    );
+  }
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return <span className={`${muted} whitespace-pre-wrap break-words line-clamp-4`}>{text}</span>;
+}
+
+// ─── Activity tab: field-level audit trail for one node ───
+export function NodeActivityFeed({ nodeId, allTags }: NodeActivityFeedProps) {
+  const { entries, loading } = useNodeActivity(nodeId);
+  const [fieldFilter, setFieldFilter] = useState<string>('all');
+
+  const visible = fieldFilter === 'all' ? entries : entries.filter((e) => e.field === fieldFilter);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Activity</h3>
+        <select
+          value={fieldFilter}
+          onChange={(e) => setFieldFilter(e.target.value)}
+          className="text-xs border rounded px-1.5 py-1 bg-white text-gray-600"
+        >
+          <option value="all">All fields</option>
+          {AUDITED_FIELDS.map((f) => (
+            <option key={f} value={f}>{FIELD_LABELS[f] ?? f}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8 text-gray-400 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading activity…
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-400 italic text-center py-4">
+          {entries.length === 0 ? 'No recorded changes yet.' : 'No changes to this field yet.'}
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {visible.map((entry) => {
+            const at = new Date(entry.created_at);
+            return (
+              <li key={entry.id} className="flex gap-2.5 text-sm">
+                <div className="w-7 h-7 rounded-full bg-blue-100 flex items-center justify-center text-blue-700 font-semibold text-[10px] flex-shrink-0">
+                  {initials(entry)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-700">
+                    <span className="font-medium text-gray-900" title={entry.actor_email ?? undefined}>{actorLabel(entry)}</span>
+                    {' '}changed <span className="font-medium">{FIELD_LABELS[entry.field] ?? entry.field}</span>
+                    <span className="text-gray-400 text-[10px] ml-2" title={format(at, 'PPpp')}>
+                      {formatDistanceToNow(at, { addSuffix: true })}
+                    </span>
+                  </p>
+                  <div className="mt-1 flex flex-wrap items-start gap-1.5 text-xs">
+                    <ActivityValue field={entry.field} value={entry.old_value} allTags={allTags} tone="old" />
+                    <ArrowRight className="h-3 w-3 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <ActivityValue field={entry.field} value={entry.new_value} allTags={allTags} tone="new" />
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { GitMerge } from 'lucide-react';
+import { Button } from './ui/button';
+import type { ComponentNode, Tag } from '../types/architecture';
+import type { FieldConflict } from '../utils/nodeMerge';
+import { formatFieldValue } from '../utils/versionDiff';
+
+interface NodeConflictPromptProps {
+  conflicts: FieldConflict[];
+  allTags: Tag[];
+  onResolve: (field: keyof ComponentNode, choice: 'mine' | 'theirs') => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof ComponentNode, string>> = {
+  name: 'Name',
+  status: 'Status',
+  description: 'Purpose',
+  inputs: 'Inputs',
+  outputs: 'Outputs',
+  owner: 'Owner',
+  tags: 'Tags',
+  blockers: 'Blockers',
+  remainingMvpScope: 'Remaining MVP scope',
+  futureScope: 'Future scope',
+  comments: 'Comments',
+  weeklyUpdates: 'Weekly updates',
+  statusHistory: 'Status history',
+  customFields: 'Custom fields',
+  tasks: 'Tasks',
+};
+
+// ─── One side of a conflict, shown in full (text fields can be long) ───
+function ConflictValue({ field, value, allTags }: { field: keyof ComponentNode; value: unknown; allTags: Tag[] }) {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return <span className="text-gray-400 italic">empty</span>;
+  }
+  if (field === 'tags' && Array.isArray(value)) {
+    return <>{value.map((id) => allTags.find((t) => t.id === id)?.label ?? String(id)).join(', ')}</>;
+  }
+  if (typeof value === 'string') return <>{value}</>;
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return <>{value.join('\n')}</>;
+  return <>{formatFieldValue(value)}</>;
+}
+
+// ─── Conflict prompt: fields someone else changed while you were editing ───
+export function NodeConflictPrompt({ conflicts, allTags, onResolve }: NodeConflictPromptProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="mx-5 mt-4 rounded-lg border border-amber-300 bg-amber-50 p-3 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-amber-900">
+        <GitMerge className="h-4 w-4" />
+        {conflicts.length === 1 ? 'Conflicting edit' : `${conflicts.length} conflicting edits`}
+      </div>
+      <p className="text-xs text-amber-800">
+        Someone else saved a different value while you were editing. Their version is live until you choose.
+      </p>
+
+      {conflicts.map((conflict) => (
+        <div key={conflict.field} className="rounded-md border border-amber-200 bg-white p-2.5 space-y-2">
+          <div className="text-[11px] font-medium text-gray-500 uppercase tracking-wider">
+            {FIELD_LABELS[conflict.field] ?? conflict.field}
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="min-w-0">
+              <div className="text-[10px] font-medium text-blue-700 mb-1">Yours</div>
+              <div className="max-h-32 overflow-y-auto whitespace-pre-wrap break-words rounded bg-blue-50 p-1.5 text-gray-800">
+                <ConflictValue field={conflict.field} value={conflict.mine} allTags={allTags} />
+              </div>
+            </div>
+            <div className="min-w-0">
+              <div className="text-[10px] font-medium text-amber-700 mb-1 truncate" title={conflict.theirsBy ?? undefined}>
+                {conflict.theirsBy ? `Theirs (${conflict.theirsBy})` : 'Theirs'}
+              </div>
+              <div className="max-h-32 overflow-y-auto whitespace-pre-wrap break-words rounded bg-amber-50 p-1.5 text-gray-800">
+                <ConflictValue field={conflict.field} value={conflict.theirs} allTags={allTags} />
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onResolve(conflict.field, 'mine')}>
+              Keep mine
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onResolve(conflict.field, 'theirs')}>
+              Keep theirs
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
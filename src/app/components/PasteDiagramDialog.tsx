@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react';
+import { ClipboardPaste, Link2, Plus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { ImportPlan } from '../utils/importPlan';
+import type { DocumentSnapshot } from '../utils/versionDiff';
+import { parseDiagram, planDiagramImport } from '../utils/diagramImport';
+
+interface PasteDiagramDialogProps {
+  current: DocumentSnapshot;
+  onApply: (plan: ImportPlan, label: string) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS = { mermaid: 'Mermaid flowchart', dot: 'Graphviz DOT' };
+const MAX_ERRORS = 5;
+
+const PLACEHOLDER = `flowchart LR
+  ingest[Ingest] --> parser[Parser]
+  parser -->|tokens| router{Router}
+  router -.-> store[(Store)]`;
+
+function PreviewList({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  if (count === 0) return null;
+  return (
+    <section>
+      <h3 className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">{title} ({count})</h3>
+      <ul className="px-3 pb-1 space-y-0.5 text-sm">{children}</ul>
+    </section>
+  );
+}
+
+// ─── Paste diagram: Mermaid / DOT source → new nodes + arrows, previewed first ───
+export function PasteDiagramDialog({ current, onApply, onClose }: PasteDiagramDialogProps) {
+  const [source, setSource] = useState('');
+
+  const parsed = useMemo(() => (source.trim() ? parseDiagram(source) : null), [source]);
+  const preview = useMemo(() => (parsed ? planDiagramImport(parsed, current) : null), [parsed, current]);
+
+  const nameOf = (id: string) =>
+    (preview?.created.find((n) => n.id === id) ?? current.data.components.find((n) => n.id === id))?.name ?? id;
+
+  const nodeCount = preview?.created.length ?? 0;
+  const arrowCount = preview?.plan.putConnections.length ?? 0;
+  const summary = [
+    nodeCount > 0 && `${nodeCount} ${nodeCount === 1 ? 'node' : 'nodes'}`,
+    arrowCount > 0 && `${arrowCount} ${arrowCount === 1 ? 'arrow' : 'arrows'}`,
+  ].filter(Boolean).join(' and ');
+
+  const handleApply = () => {
+    if (!parsed || !preview || !summary) return;
+    onApply(preview.plan, `Paste ${FORMAT_LABELS[parsed.format]} (${summary})`);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardPaste className="h-5 w-5 text-blue-600" />
+            Paste diagram
+          </DialogTitle>
+          <DialogDescription>
+            Paste a Mermaid flowchart or Graphviz DOT graph. Nodes that match an existing node by id or name are
+            reused; the rest are created and laid out below the current map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 min-h-0 flex-1">
+          <div className="flex flex-col gap-1.5 min-h-0">
+            <Textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={PLACEHOLDER}
+              spellCheck={false}
+              className="flex-1 min-h-[280px] font-mono text-xs"
+              autoFocus
+            />
+            <p className="text-xs text-gray-500">
+              {!source.trim()
+                ? 'Format is detected automatically.'
+                : parsed
+                  ? `Detected: ${FORMAT_LABELS[parsed.format]}`
+                  : "Not recognised — start with `flowchart TB` / `graph LR`, or `digraph name {`."}
+            </p>
+            {parsed && parsed.errors.length > 0 && (
+              <ul className="rounded border border-amber-200 bg-amber-50 px-2 py-1.5 text-xs text-amber-800 space-y-0.5">
+                {parsed.errors.slice(0, MAX_ERRORS).map((err, i) => (
+                  <li key={i}>Line {err.line}: {err.message}</li>
+                ))}
+                {parsed.errors.length > MAX_ERRORS && <li>…and {parsed.errors.length - MAX_ERRORS} more</li>}
+              </ul>
+            )}
+          </div>
+
+          <div className="overflow-y-auto rounded-md border border-gray-200">
+            {!preview || (nodeCount === 0 && arrowCount === 0 && preview.matched.length === 0) ? (
+              <p className="py-8 text-center text-sm text-gray-400">The preview appears here.</p>
+            ) : (
+              <>
+                <PreviewList title="New nodes" count={nodeCount}>
+                  {preview.created.map((n) => (
+                    <li key={n.id} className="flex items-center gap-1.5">
+                      <Plus className="h-3.5 w-3.5 text-green-700 flex-shrink-0" />
+                      <span className="truncate">{n.name}</span>
+                      <span className="text-xs text-gray-400">{n.status}</span>
+                    </li>
+                  ))}
+                </PreviewList>
+                <PreviewList title="Matched to existing nodes" count={preview.matched.length}>
+                  {preview.matched.map(({ parsed: p, existing }) => (
+                    <li key={p.id} className="flex items-center gap-1.5 text-gray-600">
+                      <Link2 className="h-3.5 w-3.5 text-blue-600 flex-shrink-0" />
+                      <span className="font-mono text-xs">{p.id}</span> → <span className="truncate">{existing.name}</span>
+                    </li>
+                  ))}
+                </PreviewList>
+                <PreviewList title="New arrows" count={arrowCount}>
+                  {preview.plan.putConnections.map((c) => (
+                    <li key={c.id} className="flex items-center gap-1.5">
+                      <Plus className="h-3.5 w-3.5 text-green-700 flex-shrink-0" />
+                      <span className="truncate">
+                        {nameOf(c.from)} → {nameOf(c.to)}
+                        {c.label && <span className="text-gray-400"> ({c.label})</span>}
+                      </span>
+                      <span className="text-xs text-gray-400">{c.type}</span>
+                    </li>
+                  ))}
+                </PreviewList>
+                {preview.duplicateEdges.length > 0 && (
+                  <p className="px-3 py-2 text-xs text-gray-400">
+                    {preview.duplicateEdges.length} {preview.duplicateEdges.length === 1 ? 'arrow is' : 'arrows are'} already on the map and will be skipped.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" disabled={!summary} onClick={handleApply}>
+            {summary ? `Add ${summary}` : 'Nothing to add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { Pencil } from 'lucide-react';
+import type { PresenceState } from '../utils/architectureStore';
+import { initialsOf } from '../hooks/usePresence';
+
+// ─── One round avatar (photo, or initials) ───
+function Avatar({ peer, size }: { peer: PresenceState; size: 'sm' | 'md' }) {
+  const box = size === 'sm' ? 'h-5 w-5 text-[8px]' : 'h-7 w-7 text-[10px]';
+  const title = peer.email ? `${peer.name} (${peer.email})` : peer.name;
+  return peer.avatarUrl ? (
+    <img
+      src={peer.avatarUrl}
+      alt={peer.name}
+      title={title}
+      referrerPolicy="no-referrer"
+      className={`${box} rounded-full border-2 border-white object-cover bg-gray-100`}
+    />
+  ) : (
+    <span
+      title={title}
+      className={`${box} flex items-center justify-center rounded-full border-2 border-white bg-blue-100 font-semibold text-blue-700`}
+    >
+      {initialsOf(peer.name)}
+    </span>
+  );
+}
+
+// ─── Overlapping stack: header (who's here) and node badges (who has it open) ───
+export function PresenceAvatars({ peers, size = 'md', max = 4 }: { peers: PresenceState[]; size?: 'sm' | 'md'; max?: number }) {
+  if (peers.length === 0) return null;
+  const shown = peers.slice(0, max);
+  const extra = peers.length - shown.length;
+  return (
+    <div className="flex items-center -space-x-1.5">
+      {shown.map((peer) => <Avatar key={peer.clientId} peer={peer} size={size} />)}
+      {extra > 0 && (
+        <span
+          title={peers.slice(max).map((p) => p.name).join(', ')}
+          className={`${size === 'sm' ? 'h-5 w-5 text-[8px]' : 'h-7 w-7 text-[10px]'} flex items-center justify-center rounded-full border-2 border-white bg-gray-200 font-semibold text-gray-600`}
+        >
+          +{extra}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// ─── "Being edited by X" marker next to a DetailPanel field label ───
+export function EditingMarker({ peers }: { peers?: PresenceState[] }) {
+  if (!peers || peers.length === 0) return null;
+  const names = peers.map((p) => p.name.split(' ')[0]);
+  const label = names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-purple-50 px-1.5 py-0.5 text-[10px] font-medium normal-case tracking-normal text-purple-700 animate-pulse">
+      <Pencil className="h-2.5 w-2.5" />
+      being edited by {label}
+    </span>
+  );
+}
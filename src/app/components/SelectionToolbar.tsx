@@ -0,0 +1,80 @@
+import { Button } from './ui/button';
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceAround,
+  AlignVerticalSpaceAround,
+  Group,
+  X,
+} from 'lucide-react';
+import type { AlignCommand, DistributeAxis } from '../utils/alignment';
+
+interface SelectionToolbarProps {
+  count: number;
+  onAlign: (command: AlignCommand) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onClear: () => void;
+}
+
+const ALIGN_BUTTONS: { command: AlignCommand; title: string; Icon: typeof AlignStartVertical }[] = [
+  { command: 'left', title: 'Align left edges', Icon: AlignStartVertical },
+  { command: 'center', title: 'Align horizontal centers', Icon: AlignCenterVertical },
+  { command: 'right', title: 'Align right edges', Icon: AlignEndVertical },
+  { command: 'top', title: 'Align top edges', Icon: AlignStartHorizontal },
+  { command: 'middle', title: 'Align vertical middles', Icon: AlignCenterHorizontal },
+  { command: 'bottom', title: 'Align bottom edges', Icon: AlignEndHorizontal },
+];
+
+export function SelectionToolbar({ count, onAlign, onDistribute, onGroup, onClear }: SelectionToolbarProps) {
+  return (
+    <div className="flex items-center gap-1 bg-white/90 border rounded-lg shadow-lg p-1">
+      <span className="text-xs text-gray-600 px-2 tabular-nums">{count} selected</span>
+      <div className="w-px h-5 bg-gray-200 mx-0.5" />
+      {ALIGN_BUTTONS.map(({ command, title, Icon }) => (
+        <Button
+          key={command}
+          variant="ghost"
+          size="icon"
+          onClick={() => onAlign(command)}
+          className="h-7 w-7"
+          title={title}
+        >
+          <Icon className="h-4 w-4" />
+        </Button>
+      ))}
+      <div className="w-px h-5 bg-gray-200 mx-0.5" />
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onDistribute('horizontal')}
+        disabled={count < 3}
+        className="h-7 w-7"
+        title="Distribute horizontally (even spacing)"
+      >
+        <AlignHorizontalSpaceAround className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onDistribute('vertical')}
+        disabled={count < 3}
+        className="h-7 w-7"
+        title="Distribute vertically (even spacing)"
+      >
+        <AlignVerticalSpaceAround className="h-4 w-4" />
+      </Button>
+      <div className="w-px h-5 bg-gray-200 mx-0.5" />
+      <Button variant="ghost" size="icon" onClick={onGroup} className="h-7 w-7" title="Group selected nodes">
+        <Group className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onClear} className="h-7 w-7" title="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { formatShortcut, type Shortcut } from '../hooks/useKeyboardShortcuts';
+
+interface ShortcutsOverlayProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shortcuts: Shortcut[];
+}
+
+// ─── "?" overlay: every key binding, grouped the same way as the palette ───
+
+export function ShortcutsOverlay({ open, onOpenChange, shortcuts }: ShortcutsOverlayProps) {
+  const groups = [...new Set(shortcuts.map((s) => s.group))];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Single-key shortcuts are ignored while you are typing in a field.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-4">
+          {groups.map((group) => (
+            <div key={group}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{group}</h3>
+              <ul className="space-y-1.5">
+                {shortcuts.filter((s) => s.group === group).map((s) => (
+                  <li key={s.id} className={`flex items-center justify-between gap-4 text-sm ${s.disabled ? 'text-gray-400' : ''}`}>
+                    <span>{s.label}</span>
+                    <span className="flex gap-1">
+                      {formatShortcut(s.keys).map((k, i) => (
+                        <kbd key={i} className="min-w-[22px] rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 text-center text-[11px] font-mono text-gray-700">
+                          {k}
+                        </kbd>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import type { ComponentNode, ComponentStatus } from '../types/architecture';
+import { STATUS_LABELS, formatDuration, statusTimeline, timeInStatus } from '../utils/statusWorkflow';
+
+interface StatusTimelineProps {
+  node: ComponentNode;
+}
+
+const STATUS_COLORS: Record<ComponentStatus, string> = {
+  'built': 'bg-green-500',
+  'in-progress': 'bg-yellow-500',
+  'planned': 'bg-gray-400',
+  'open-question': 'bg-red-500',
+};
+
+// ─── Status changes for one node, with the time spent in each ───
+export function StatusTimeline({ node }: StatusTimelineProps) {
+  const segments = statusTimeline(node);
+  const totals = timeInStatus(segments);
+  const measured = segments.filter((s) => s.duration !== null);
+  const span = measured.reduce((sum, s) => sum + s.duration!, 0);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Status timeline</h3>
+
+      {span > 0 && (
+        <>
+          <div className="flex h-2 overflow-hidden rounded-full bg-gray-100">
+            {measured.map((s, i) => (
+              <div
+                key={i}
+                className={STATUS_COLORS[s.status]}
+                style={{ width: `${(s.duration! / span) * 100}%` }}
+                title={`${STATUS_LABELS[s.status]} · ${formatDuration(s.duration!)}`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-gray-600">
+            {(Object.keys(totals) as ComponentStatus[]).map((status) => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`h-2 w-2 rounded-full ${STATUS_COLORS[status]}`} />
+                {STATUS_LABELS[status]} <span className="font-medium">{formatDuration(totals[status]!)}</span>
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      <ol className="relative space-y-3 border-l border-gray-200 ml-1.5 pl-4">
+        {[...segments].reverse().map((s, i) => {
+          const current = s.end === null;
+          return (
+            <li key={s.entered?.id ?? `before-${i}`} className="relative text-xs">
+              <span className={`absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full ring-2 ring-white ${STATUS_COLORS[s.status]}`} />
+              <div className="flex flex-wrap items-baseline gap-x-2">
+                <span className="font-medium text-gray-900">{STATUS_LABELS[s.status]}</span>
+                {s.duration !== null && (
+                  <span className="text-gray-500">{current ? `${formatDuration(s.duration)} so far` : `for ${formatDuration(s.duration)}`}</span>
+                )}
+                {s.start === null && s.end !== null && (
+                  <span className="text-gray-400">until {format(s.end, 'MMM d, yyyy')}</span>
+                )}
+              </div>
+              {s.entered && (
+                <p className="text-[11px] text-gray-500">
+                  {s.entered.by || 'Someone'}
+                  <span className="text-gray-400" title={format(new Date(s.entered.at), 'PPpp')}>
+                    {' · '}{formatDistanceToNow(new Date(s.entered.at), { addSuffix: true })}
+                  </span>
+                </p>
+              )}
+              {s.entered?.note && (
+                <p className="mt-1 rounded bg-gray-50 px-2 py-1 text-[11px] text-gray-700 whitespace-pre-wrap">{s.entered.note}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {segments.length === 1 && segments[0].entered === null && (
+        <p className="text-[11px] text-gray-400 italic">No status changes recorded yet.</p>
+      )}
+    </div>
+  );
+}
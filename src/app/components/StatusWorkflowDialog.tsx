@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Workflow } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { ComponentStatus, StatusWorkflow } from '../types/architecture';
+import { DEFAULT_STATUS_WORKFLOW, STATUS_LABELS } from '../utils/statusWorkflow';
+
+interface StatusWorkflowDialogProps {
+  workflow: StatusWorkflow;
+  onSave: (next: StatusWorkflow) => void;
+  onClose: () => void;
+}
+
+const STATUSES = Object.keys(STATUS_LABELS) as ComponentStatus[];
+
+// ─── Admin: which status changes the detail panel allows ───
+export function StatusWorkflowDialog({ workflow, onSave, onClose }: StatusWorkflowDialogProps) {
+  const [draft, setDraft] = useState<StatusWorkflow>(workflow);
+
+  // Another admin saved meanwhile: start over from their rules
+  useEffect(() => { setDraft(workflow); }, [workflow]);
+
+  const toggleMove = (from: ComponentStatus, to: ComponentStatus) =>
+    setDraft((prev) => {
+      const moves = prev.transitions[from] ?? [];
+      const next = moves.includes(to) ? moves.filter((s) => s !== to) : STATUSES.filter((s) => s === to || moves.includes(s));
+      return { ...prev, transitions: { ...prev.transitions, [from]: next } };
+    });
+
+  const toggleNote = (status: ComponentStatus) =>
+    setDraft((prev) => ({
+      ...prev,
+      noteRequiredFor: prev.noteRequiredFor.includes(status)
+        ? prev.noteRequiredFor.filter((s) => s !== status)
+        : STATUSES.filter((s) => s === status || prev.noteRequiredFor.includes(s)),
+    }));
+
+  const stuck = STATUSES.filter((s) => (draft.transitions[s] ?? []).length === 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5 text-blue-600" />
+            Status workflow
+          </DialogTitle>
+          <DialogDescription>
+            Which status changes are allowed, and which need a note saying why. Changes already logged on nodes stay
+            as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="py-1.5 pr-3 text-left font-medium">From ↓ / to →</th>
+              {STATUSES.map((to) => (
+                <th key={to} className="py-1.5 px-2 text-center font-medium">{STATUS_LABELS[to]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {STATUSES.map((from) => (
+              <tr key={from} className="border-t border-gray-100">
+                <td className="py-1.5 pr-3 text-gray-700">{STATUS_LABELS[from]}</td>
+                {STATUSES.map((to) => (
+                  <td key={to} className="py-1.5 px-2 text-center">
+                    {from === to ? (
+                      <span className="text-gray-300">—</span>
+                    ) : (
+                      <input
+                        type="checkbox"
+                        checked={(draft.transitions[from] ?? []).includes(to)}
+                        onChange={() => toggleMove(from, to)}
+                        className="h-4 w-4 rounded border-gray-300"
+                        aria-label={`${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}`}
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t border-gray-200">
+              <td className="py-1.5 pr-3 text-gray-500">Needs a note</td>
+              {STATUSES.map((status) => (
+                <td key={status} className="py-1.5 px-2 text-center">
+                  <input
+                    type="checkbox"
+                    checked={draft.noteRequiredFor.includes(status)}
+                    onChange={() => toggleNote(status)}
+                    className="h-4 w-4 rounded border-gray-300"
+                    aria-label={`Moving to ${STATUS_LABELS[status]} needs a note`}
+                  />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+
+        {stuck.length > 0 && (
+          <p className="text-xs text-amber-700">
+            Nodes in {stuck.map((s) => STATUS_LABELS[s]).join(', ')} won't be able to change status.
+          </p>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setDraft({ ...DEFAULT_STATUS_WORKFLOW, id: workflow.id })}>
+            Reset to default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+            <Button size="sm" onClick={() => onSave(draft)}>Save workflow</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
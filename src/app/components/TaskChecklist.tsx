@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { ComponentNode, NodeTask } from '../types/architecture';
+import type { MentionUser } from './MentionTextarea';
+import { generateTaskId, isOverdue, taskProgress, toggleTaskUpdates, todayISODate } from '../utils/tasks';
+import { useUsers } from '../hooks/useUsers';
+
+interface TaskChecklistProps {
+  node: ComponentNode;
+  onUpdate: (updates: Partial<ComponentNode>) => void;
+}
+
+const UNASSIGNED = '__none';
+
+// ─── One task: done box + title on top, assignee and due date below ───
+function TaskRow({
+  task,
+  users,
+  today,
+  onToggle,
+  onChange,
+  onDelete,
+}: {
+  task: NodeTask;
+  users: MentionUser[];
+  today: string;
+  onToggle: () => void;
+  onChange: (patch: Partial<NodeTask>) => void;
+  onDelete: () => void;
+}) {
+  const [title, setTitle] = useState(task.title);
+  useEffect(() => setTitle(task.title), [task.title]);
+
+  const commitTitle = () => {
+    if (title.trim() && title.trim() !== task.title) onChange({ title: title.trim() });
+    else setTitle(task.title);
+  };
+
+  const overdue = isOverdue(task, today);
+  const assignees = users.map((u) => ({ value: u.email, label: u.name || u.email }));
+  if (task.assignee && !assignees.some((a) => a.value === task.assignee)) assignees.push({ value: task.assignee, label: task.assignee });
+
+  return (
+    <li className="group/task rounded-md border border-gray-100 px-2 py-1.5 hover:border-gray-200">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={task.done}
+          onChange={onToggle}
+          className="h-4 w-4 rounded border-gray-300 flex-shrink-0"
+        />
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          className={`flex-1 min-w-0 bg-transparent text-sm outline-none ${task.done ? 'text-gray-400 line-through' : 'text-gray-800'}`}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="h-5 px-1 text-red-500 hover:text-red-700 opacity-0 group-hover/task:opacity-100 transition-opacity"
+          title="Delete task"
+        >
+          <Trash2 className="h-2.5 w-2.5" />
+        </Button>
+      </div>
+      <div className="mt-1 ml-6 flex items-center gap-1.5">
+        <Select
+          value={task.assignee ?? UNASSIGNED}
+          onValueChange={(v) => onChange({ assignee: v === UNASSIGNED ? undefined : v })}
+        >
+          <SelectTrigger className="h-6 text-xs flex-1 min-w-0"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {assignees.map((a) => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={task.due ?? ''}
+          onChange={(e) => onChange({ due: e.target.value || undefined })}
+          className={`h-6 w-36 text-xs ${overdue ? 'border-red-300 text-red-600' : ''}`}
+          title={overdue ? 'Overdue' : 'Due date'}
+        />
+      </div>
+    </li>
+  );
+}
+
+// ─── Node checklist with a progress bar; each change saves the whole list ───
+export function TaskChecklist({ node, onUpdate }: TaskChecklistProps) {
+  const { users } = useUsers();
+  const [newTitle, setNewTitle] = useState('');
+  const tasks = node.tasks ?? [];
+  const progress = taskProgress(node);
+  const today = todayISODate();
+
+  const setTasks = (next: NodeTask[]) => onUpdate({ tasks: next });
+
+  const handleAdd = () => {
+    if (!newTitle.trim()) return;
+    setTasks([...tasks, { id: generateTaskId(), title: newTitle.trim(), done: false }]);
+    setNewTitle('');
+  };
+
+  const handleChange = (taskId: string, patch: Partial<NodeTask>) =>
+    setTasks(tasks.map((t) => {
+      if (t.id !== taskId) return t;
+      const next: NodeTask = { ...t, ...patch };
+      if (next.assignee === undefined) delete next.assignee;
+      if (next.due === undefined) delete next.due;
+      return next;
+    }));
+
+  return (
+    <div className="space-y-2">
+      {progress.total > 0 && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-1.5 overflow-hidden rounded-full bg-gray-100">
+            <div className="h-full bg-emerald-500 transition-[width]" style={{ width: `${progress.percent}%` }} />
+          </div>
+          <span className="text-[11px] text-gray-500 tabular-nums">{progress.done}/{progress.total} · {progress.percent}%</span>
+        </div>
+      )}
+
+      {tasks.length === 0 && (
+        <p className="text-xs text-gray-400 italic text-center py-2">No tasks yet.</p>
+      )}
+      <ul className="space-y-1.5">
+        {tasks.map((task) => (
+          <TaskRow
+            key={task.id}
+            task={task}
+            users={users}
+            today={today}
+            onToggle={() => onUpdate(toggleTaskUpdates(node, task.id))}
+            onChange={(patch) => handleChange(task.id, patch)}
+            onDelete={() => setTasks(tasks.filter((t) => t.id !== task.id))}
+          />
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Add a task…"
+          className="h-7 text-sm"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd} disabled={!newTitle.trim()} className="h-7 text-xs">
+          <Plus className="h-3 w-3 mr-1" /> Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+// =============================================================================
+// VersionHistoryPanel — browse architecture_versions and diff any two saves.
+//
+// Versions are listed newest first with their author. Pick a "from" and a
+// "to" version (or the live document) to see a visual diff of the canvas plus
+// a field-level list of what changed. Admins can restore any version; the
+// restore is handed back to App, which writes it through the normal save path
+// (so it syncs to everyone and is itself recorded as a new version).
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { X, Loader2, RefreshCw, History, RotateCcw } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { supabase } from "../supabaseClient";
+import { ESTIMATED_NODE_SIZE, unionRects, type Rect } from "../utils/viewport";
+import { diffVersions, isEmptyDiff, type DocumentSnapshot, type VersionDiff } from "../utils/versionDiff";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface VersionRow {
+  id: number;
+  saved_by: string | null;
+  started_at: string;
+  saved_at: string;
+  component_count: number;
+  connection_count: number;
+}
+
+type VersionRef = number | "current";
+
+interface VersionHistoryPanelProps {
+  onClose: () => void;
+  /** Live document — always available as the "to" side. */
+  current: DocumentSnapshot;
+  /** Converts a stored row's raw JSON into typed data (dates, legacy arrows). */
+  loadSnapshot: (raw: { data: unknown; connections: unknown }) => DocumentSnapshot;
+  canRestore: boolean;
+  onRestore: (snapshot: DocumentSnapshot, label: string) => void;
+}
+
+const VERSIONS_TABLE = "architecture_versions";
+const PAGE_SIZE = 200;
+
+function versionTime(row: VersionRow) {
+  const start = new Date(row.started_at);
+  const end = new Date(row.saved_at);
+  const range = end.getTime() - start.getTime() > 60_000 ? `${format(start, "HH:mm")}–${format(end, "HH:mm")}` : format(end, "HH:mm");
+  return `${format(end, "MMM d")}, ${range}`;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function VersionHistoryPanel({ onClose, current, loadSnapshot, canRestore, onRestore }: VersionHistoryPanelProps) {
+  const [rows, setRows] = useState<VersionRow[]>([]);
+  const [loadingRows, setLoadingRows] = useState(true);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const [fromId, setFromId] = useState<VersionRef | null>(null);
+  const [toId, setToId] = useState<VersionRef>("current");
+  const [snapshots, setSnapshots] = useState<Map<number, DocumentSnapshot>>(() => new Map());
+  const [loadingSnapshot, setLoadingSnapshot] = useState(false);
+
+  // ── Fetch version list (metadata only — snapshots load on demand) ─────────
+
+  const fetchRows = useCallback(async () => {
+    setLoadingRows(true);
+    setFetchError(null);
+    const { data, error } = await supabase
+      .from(VERSIONS_TABLE)
+      .select("id, saved_by, started_at, saved_at, component_count, connection_count")
+      .eq("document_id", "main")
+      .order("saved_at", { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      setFetchError(error.message);
+    } else {
+      const list = (data ?? []) as VersionRow[];
+      setRows(list);
+      // Default comparison: the save before the latest one → live document
+      setFromId((prev) => prev ?? (list[1] ?? list[0])?.id ?? null);
+    }
+    setLoadingRows(false);
+  }, []);
+
+  useEffect(() => { fetchRows(); }, [fetchRows]);
+
+  const fetchSnapshot = useCallback(async (id: number): Promise<DocumentSnapshot | null> => {
+    const cached = snapshots.get(id);
+    if (cached) return cached;
+    const { data, error } = await supabase
+      .from(VERSIONS_TABLE)
+      .select("data, connections")
+      .eq("id", id)
+      .single();
+    if (error || !data) {
+      console.error("[VersionHistoryPanel] snapshot fetch failed:", error);
+      return null;
+    }
+    const snapshot = loadSnapshot(data);
+    setSnapshots((prev) => new Map(prev).set(id, snapshot));
+    return snapshot;
+  }, [snapshots, loadSnapshot]);
+
+  // Load whichever selected sides aren't cached yet
+  useEffect(() => {
+    const missing = [fromId, toId].filter((v): v is number => typeof v === "number" && !snapshots.has(v));
+    if (missing.length === 0) return;
+    setLoadingSnapshot(true);
+    Promise.all(missing.map(fetchSnapshot)).finally(() => setLoadingSnapshot(false));
+  }, [fromId, toId, snapshots, fetchSnapshot]);
+
+  const resolve = (ref: VersionRef | null) =>
+    ref === null ? null : ref === "current" ? current : snapshots.get(ref) ?? null;
+  const before = resolve(fromId);
+  const after = resolve(toId);
+  const diff = useMemo(() => (before && after ? diffVersions(before, after) : null), [before, after]);
+
+  const handleRestore = async (row: VersionRow) => {
+    if (!window.confirm(`Restore the diagram to the version saved ${versionTime(row)}${row.saved_by ? ` by ${row.saved_by}` : ""}?\n\nEveryone will see the restored version. You can undo this with Ctrl+Z.`)) return;
+    const snapshot = await fetchSnapshot(row.id);
+    if (!snapshot) {
+      alert("Could not load that version.");
+      return;
+    }
+    onRestore(snapshot, `Restore version from ${versionTime(row)}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[980px] max-w-full bg-white shadow-2xl border-l border-gray-200 flex flex-col z-50">
+
+      {/* Header */}
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-blue-600" />
+          <h2 className="text-base font-semibold text-gray-900">Version History</h2>
+          <Badge variant="secondary" className="text-xs">{rows.length} versions</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={fetchRows} disabled={loadingRows} title="Refresh">
+            <RefreshCw className={`h-3.5 w-3.5 ${loadingRows ? "animate-spin" : ""}`} />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Version list */}
+        <div className="w-[340px] flex-shrink-0 border-r border-gray-100 overflow-y-auto">
+          <div className="grid grid-cols-[32px_32px_1fr] items-center gap-1 px-3 py-2 text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100 sticky top-0 bg-white">
+            <span className="text-center">From</span>
+            <span className="text-center">To</span>
+            <span>Saved</span>
+          </div>
+
+          <VersionListRow
+            label="Current (live)"
+            sublabel={`${current.data.components.length} nodes · ${current.connections.length} arrows`}
+            isFrom={fromId === "current"}
+            isTo={toId === "current"}
+            onFrom={() => setFromId("current")}
+            onTo={() => setToId("current")}
+          />
+
+          {loadingRows && rows.length === 0 ? (
+            <div className="flex items-center justify-center py-12 text-gray-400">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading versions…
+            </div>
+          ) : fetchError ? (
+            <p className="px-4 py-6 text-sm text-red-600">Failed to load versions: {fetchError}</p>
+          ) : rows.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-400 text-center">No saved versions yet.</p>
+          ) : (
+            rows.map((row) => (
+              <VersionListRow
+                key={row.id}
+                label={versionTime(row)}
+                sublabel={`${row.saved_by ?? "Unknown"} · ${row.component_count} nodes · ${row.connection_count} arrows`}
+                isFrom={fromId === row.id}
+                isTo={toId === row.id}
+                onFrom={() => setFromId(row.id)}
+                onTo={() => setToId(row.id)}
+                onRestore={canRestore ? () => handleRestore(row) : undefined}
+              />
+            ))
+          )}
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 min-w-0 overflow-y-auto px-5 py-4 space-y-4">
+          {!before || !after ? (
+            <div className="flex items-center justify-center py-12 text-gray-400 text-sm">
+              {loadingSnapshot ? <><Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading versions…</> : "Pick a “from” and a “to” version to compare."}
+            </div>
+          ) : diff && isEmptyDiff(diff) ? (
+            <p className="py-12 text-center text-sm text-gray-400">These two versions are identical.</p>
+          ) : diff && (
+            <>
+              <DiffCanvas before={before} after={after} diff={diff} />
+              <DiffDetails diff={diff} before={before} after={after} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-component: one row in the version list
+// ---------------------------------------------------------------------------
+
+function VersionListRow({
+  label, sublabel, isFrom, isTo, onFrom, onTo, onRestore,
+}: {
+  label: string;
+  sublabel: string;
+  isFrom: boolean;
+  isTo: boolean;
+  onFrom: () => void;
+  onTo: () => void;
+  onRestore?: () => void;
+}) {
+  return (
+    <div className={`group grid grid-cols-[32px_32px_1fr_auto] items-center gap-1 px-3 py-2 border-b border-gray-50 text-sm ${isFrom || isTo ? "bg-blue-50/60" : "hover:bg-gray-50"}`}>
+      <input type="radio" checked={isFrom} onChange={onFrom} className="mx-auto accent-red-500" title="Compare from this version" />
+      <input type="radio" checked={isTo} onChange={onTo} className="mx-auto accent-green-600" title="Compare to this version" />
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">{label}</p>
+        <p className="text-xs text-gray-400 truncate">{sublabel}</p>
+      </div>
+      {onRestore && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRestore}
+          className="h-7 px-2 text-xs text-gray-500 hover:text-blue-600 opacity-0 group-hover:opacity-100"
+          title="Restore this version"
+        >
+          <RotateCcw className="h-3.5 w-3.5 mr-1" /> Restore
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-component: visual diff — node boxes and arrows of both versions
+// ---------------------------------------------------------------------------
+
+const DIFF_COLORS = {
+  added: { fill: "#dcfce7", stroke: "#16a34a" },
+  removed: { fill: "#fee2e2", stroke: "#dc2626" },
+  changed: { fill: "#fef3c7", stroke: "#d97706" },
+  unchanged: { fill: "#f9fafb", stroke: "#d1d5db" },
+};
+
+function DiffCanvas({ before, after, diff }: { before: DocumentSnapshot; after: DocumentSnapshot; diff: VersionDiff }) {
+  const rectOf = (n: { position: { x: number; y: number } }): Rect => ({
+    x: n.position.x, y: n.position.y, width: ESTIMATED_NODE_SIZE.width, height: ESTIMATED_NODE_SIZE.height,
+  });
+  const removedIds = new Set(diff.nodesRemoved.map((n) => n.id));
+  const addedIds = new Set(diff.nodesAdded.map((n) => n.id));
+  const changedIds = new Set(diff.nodesChanged.map((n) => n.id));
+
+  const boxes = [
+    ...after.data.components.map((n) => ({
+      node: n,
+      kind: addedIds.has(n.id) ? "added" as const : changedIds.has(n.id) ? "changed" as const : "unchanged" as const,
+    })),
+    ...before.data.components.filter((n) => removedIds.has(n.id)).map((n) => ({ node: n, kind: "removed" as const })),
+  ];
+  const centers = new Map<string, { x: number; y: number }>();
+  boxes.forEach(({ node }) => {
+    const r = rectOf(node);
+    centers.set(node.id, { x: r.x + r.width / 2, y: r.y + r.height / 2 });
+  });
+
+  const bounds = unionRects(boxes.map(({ node }) => rectOf(node)));
+  if (!bounds) return null;
+  const pad = 40;
+
+  const addedConns = new Set(diff.connectionsAdded.map((c) => c.id));
+  const lines = [
+    ...after.connections.map((c) => ({ conn: c, kind: addedConns.has(c.id) ? "added" as const : "unchanged" as const })),
+    ...diff.connectionsRemoved.map((c) => ({ conn: c, kind: "removed" as const })),
+  ];
+
+  return (
+    <div className="border rounded-lg bg-gray-50 p-2">
+      <svg
+        viewBox={`${bounds.x - pad} ${bounds.y - pad} ${bounds.width + pad * 2} ${bounds.height + pad * 2}`}
+        className="w-full h-[280px]"
+        preserveAspectRatio="xMidYMid meet"
+      >
+        {lines.map(({ conn, kind }) => {
+          const a = centers.get(conn.from);
+          const b = centers.get(conn.to);
+          if (!a || !b) return null;
+          return (
+            <line
+              key={`${kind}-${conn.id}`}
+              x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+              stroke={kind === "unchanged" ? "#9ca3af" : DIFF_COLORS[kind].stroke}
+              strokeWidth={kind === "unchanged" ? 2 : 4}
+              strokeDasharray={kind === "removed" ? "10 8" : undefined}
+              opacity={kind === "unchanged" ? 0.5 : 0.9}
+            />
+          );
+        })}
+        {boxes.map(({ node, kind }) => {
+          const r = rectOf(node);
+          return (
+            <g key={`${kind}-${node.id}`}>
+              <title>{`${node.name} (${kind})`}</title>
+              <rect
+                x={r.x} y={r.y} width={r.width} height={r.height} rx={8}
+                fill={DIFF_COLORS[kind].fill}
+                stroke={DIFF_COLORS[kind].stroke}
+                strokeWidth={kind === "unchanged" ? 2 : 4}
+                strokeDasharray={kind === "removed" ? "10 8" : undefined}
+              />
+              <text x={r.x + 12} y={r.y + 28} fontSize={18} fill="#374151">
+                {node.name.length > 22 ? `${node.name.slice(0, 21)}…` : node.name}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex gap-4 px-1 pt-1 text-[11px] text-gray-500">
+        {(["added", "changed", "removed"] as const).map((kind) => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-sm border-2" style={{ background: DIFF_COLORS[kind].fill, borderColor: DIFF_COLORS[kind].stroke }} />
+            {kind}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-component: field-level change list
+// ---------------------------------------------------------------------------
+
+function DiffDetails({ diff, before, after }: { diff: VersionDiff; before: DocumentSnapshot; after: DocumentSnapshot }) {
+  const nodeName = (id: string) =>
+    (after.data.components.find((c) => c.id === id) ?? before.data.components.find((c) => c.id === id))?.name ?? id;
+  const arrow = (c: { from: string; to: string; label?: string }) => `${nodeName(c.from)} → ${nodeName(c.to)}${c.label ? ` (${c.label})` : ""}`;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.nodesChanged.length > 0 && (
+        <section>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Changed nodes ({diff.nodesChanged.length})</h3>
+          <div className="space-y-2">
+            {diff.nodesChanged.map((change) => (
+              <div key={change.id} className="border rounded-lg p-3">
+                <p className="font-medium text-gray-900 mb-1.5">{change.name}</p>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {change.fields.map((f) => (
+                      <tr key={f.field} className="align-top">
+                        <td className="pr-3 py-0.5 text-gray-400 whitespace-nowrap">{f.field}</td>
+                        <td className="pr-2 py-0.5 text-red-700 line-through decoration-red-300 break-words">{f.before}</td>
+                        <td className="py-0.5 text-green-700 break-words">{f.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <ChangeList title="Added nodes" tone="added" items={diff.nodesAdded.map((n) => ({ id: n.id, text: n.name }))} />
+      <ChangeList title="Removed nodes" tone="removed" items={diff.nodesRemoved.map((n) => ({ id: n.id, text: n.name }))} />
+      <ChangeList title="Added arrows" tone="added" items={diff.connectionsAdded.map((c) => ({ id: c.id, text: arrow(c) }))} />
+      <ChangeList title="Removed arrows" tone="removed" items={diff.connectionsRemoved.map((c) => ({ id: c.id, text: arrow(c) }))} />
+      <ChangeList title="Edited arrows" tone="changed" items={diff.connectionsChanged.map((c) => ({ id: c.id, text: arrow(c) }))} />
+      <ChangeList title="Added groups" tone="added" items={diff.groupsAdded.map((g) => ({ id: g.id, text: g.name }))} />
+      <ChangeList title="Removed groups" tone="removed" items={diff.groupsRemoved.map((g) => ({ id: g.id, text: g.name }))} />
+      <ChangeList title="Edited groups" tone="changed" items={diff.groupsChanged.map((g) => ({ id: g.id, text: g.name }))} />
+      <ChangeList title="Added tags" tone="added" items={diff.tagsAdded.map((t) => ({ id: t.id, text: t.label }))} />
+      <ChangeList title="Removed tags" tone="removed" items={diff.tagsRemoved.map((t) => ({ id: t.id, text: t.label }))} />
+      <ChangeList title="Edited tags" tone="changed" items={diff.tagsChanged.map((t) => ({ id: t.id, text: t.label }))} />
+    </div>
+  );
+}
+
+function ChangeList({ title, tone, items }: { title: string; tone: "added" | "removed" | "changed"; items: { id: string; text: string }[] }) {
+  if (items.length === 0) return null;
+  const color = { added: "text-green-700", removed: "text-red-700", changed: "text-amber-700" }[tone];
+  return (
+    <section>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{title} ({items.length})</h3>
+      <ul className="space-y-0.5">
+        {items.map((item) => (
+          <li key={item.id} className={`text-xs ${color}`}>{tone === "added" ? "+" : tone === "removed" ? "−" : "~"} {item.text}</li>
+        ))}
+      </ul>
+    </section>
+  );
+}
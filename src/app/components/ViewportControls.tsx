@@ -0,0 +1,69 @@
+import { Button } from './ui/button';
+import { ZoomIn, ZoomOut, Maximize, Crosshair, Spline, CornerDownRight } from 'lucide-react';
+import type { RoutingStyle } from '../utils/edgeRouting';
+
+interface ViewportControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onFitContent: () => void;
+  onZoomToSelection: () => void;
+  hasSelection: boolean;
+  routingStyle: RoutingStyle;
+  onToggleRoutingStyle: () => void;
+}
+
+export function ViewportControls({
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onFitContent,
+  onZoomToSelection,
+  hasSelection,
+  routingStyle,
+  onToggleRoutingStyle,
+}: ViewportControlsProps) {
+  return (
+    <div className="flex items-center gap-1 bg-white/90 border rounded-lg shadow-lg p-1">
+      <Button variant="ghost" size="icon" onClick={onZoomOut} className="h-7 w-7" title="Zoom out">
+        <ZoomOut className="h-4 w-4" />
+      </Button>
+      <button
+        onClick={onResetZoom}
+        className="min-w-[48px] text-xs text-gray-600 hover:text-gray-900 tabular-nums"
+        title="Reset to 100%"
+      >
+        {Math.round(zoom * 100)}%
+      </button>
+      <Button variant="ghost" size="icon" onClick={onZoomIn} className="h-7 w-7" title="Zoom in">
+        <ZoomIn className="h-4 w-4" />
+      </Button>
+      <div className="w-px h-5 bg-gray-200 mx-0.5" />
+      <Button variant="ghost" size="icon" onClick={onFitContent} className="h-7 w-7" title="Fit to content">
+        <Maximize className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onZoomToSelection}
+        disabled={!hasSelection}
+        className="h-7 w-7"
+        title="Zoom to selection"
+      >
+        <Crosshair className="h-4 w-4" />
+      </Button>
+      <div className="w-px h-5 bg-gray-200 mx-0.5" />
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onToggleRoutingStyle}
+        className="h-7 w-7"
+        title={routingStyle === 'curved' ? 'Arrows: curved (click for orthogonal)' : 'Arrows: orthogonal (click for curved)'}
+      >
+        {routingStyle === 'curved' ? <Spline className="h-4 w-4" /> : <CornerDownRight className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { ArchitectureData, Tag, ComponentNode, MilestoneView } from '../types/architecture';
+import { ArchitectureData, Tag, ComponentNode, MilestoneView, NodeGroup } from '../types/architecture';
 
 export const defaultTags: Tag[] = [
   { id: 'built', label: 'Built', color: '#10b981' },
@@ -299,8 +299,32 @@ export const initialMilestones: MilestoneView[] = [
   },
 ];
 
+const initialGroups: NodeGroup[] = [
+  {
+    id: 'group-ingestion',
+    name: 'Profile & Scenario Ingestion',
+    color: '#0ea5e9',
+    memberIds: ['company-profile', 'predefined-scenarios', 'data-loader', 'scenario-bundles'],
+  },
+  {
+    id: 'group-analysis-agents',
+    name: 'Analysis Agents',
+    color: '#8b5cf6',
+    memberIds: ['finance-agent', 'legal-agent', 'operations-agent', 'strategy-agent'],
+  },
+  {
+    id: 'group-policy-output',
+    name: 'Policy Checking & Output',
+    color: '#f59e0b',
+    memberIds: ['policy-checker', 'json-output'],
+  },
+];
+
 export const initialArchitectureData: ArchitectureData = {
   components: initialComponents,
   tags: defaultTags,
   milestones: initialMilestones,
+  groups: initialGroups,
+  fieldDefs: [],
+  workflows: [],
 };
\ No newline at end of file
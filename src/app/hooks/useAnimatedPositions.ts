@@ -0,0 +1,79 @@
+// =============================================================================
+// useAnimatedPositions — tweens node positions on the canvas.
+//
+// Positions are interpolated in local state only (requestAnimationFrame), so
+// arrows follow the nodes frame by frame. Nothing is saved while the tween
+// runs; `onDone` fires once with the final targets so the caller can persist
+// them through its normal save path.
+//
+// A tween is never cut short — its onDone is what saves it — so a call made
+// while one is still running is ignored and returns false.
+//
+// Usage:
+//   const animateTo = useAnimatedPositions(setData);
+//   if (!animateTo(data.components, targets, () => targets.forEach(...save...))) return;
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from "react";
+import type { ArchitectureData, ComponentNode } from "../types/architecture";
+import type { Point } from "../utils/viewport";
+
+const DEFAULT_DURATION_MS = 450;
+
+function easeInOutCubic(t: number) {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+export function useAnimatedPositions(
+  setData: React.Dispatch<React.SetStateAction<ArchitectureData>>,
+) {
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  return useCallback((
+    /** Current nodes — their positions are the tween's starting points. */
+    nodes: ComponentNode[],
+    targets: Map<string, Point>,
+    onDone?: () => void,
+    duration = DEFAULT_DURATION_MS,
+  ): boolean => {
+    if (frameRef.current !== null) return false;
+
+    const starts = new Map<string, Point>(
+      nodes.filter(c => targets.has(c.id)).map(c => [c.id, c.position])
+    );
+
+    const startedAt = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startedAt) / duration);
+      const eased = easeInOutCubic(t);
+      setData(prev => ({
+        ...prev,
+        components: prev.components.map(c => {
+          const target = targets.get(c.id);
+          const start = starts.get(c.id);
+          if (!target || !start) return c;
+          return {
+            ...c,
+            position: {
+              x: start.x + (target.x - start.x) * eased,
+              y: start.y + (target.y - start.y) * eased,
+            },
+          };
+        }),
+      }));
+
+      if (t < 1) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        onDone?.();
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+    return true;
+  }, [setData]);
+}
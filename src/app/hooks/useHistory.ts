@@ -0,0 +1,124 @@
+// =============================================================================
+// useHistory — undo / redo command stack for diagram and detail edits.
+//
+// Each mutating handler in App records an entry with a pair of closures:
+// `undo` re-applies the previous values and `redo` re-applies the new ones.
+// Both call back into the normal handlers (handleUpdateNode, setConnections,
+// …), so a revert is saved and synced to collaborators exactly like an edit.
+//
+// While an entry is being replayed, record() is a no-op — the handlers it
+// calls would otherwise push new entries and wipe the redo stack.
+//
+// Typing into a field fires one update per keystroke; consecutive entries
+// with the same `coalesceKey` inside COALESCE_MS merge into one (keeping the
+// oldest undo and the newest redo).
+//
+// Usage:
+//   const history = useHistory();
+//   history.record({ label: "Delete arrow", undo: () => …, redo: () => … });
+//   history.undo(); history.redo(); history.jumpTo(entryId);
+// =============================================================================
+
+import { useCallback, useRef, useState } from "react";
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: Date;
+  /** Entries recorded back-to-back with the same key merge into one. */
+  coalesceKey?: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];   // oldest → newest; the last one is undone first
+  future: HistoryEntry[]; // next to redo first
+}
+
+const COALESCE_MS = 1500;
+
+export function useHistory(limit = 100) {
+  const [state, setState] = useState<HistoryState>({ past: [], future: [] });
+  const stateRef = useRef(state);
+  const replayingRef = useRef(false);
+
+  const commit = useCallback((next: HistoryState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const replay = (fn: () => void) => {
+    replayingRef.current = true;
+    try {
+      fn();
+    } finally {
+      replayingRef.current = false;
+    }
+  };
+
+  const record = useCallback((entry: Omit<HistoryEntry, "id" | "at">) => {
+    if (replayingRef.current) return;
+    const { past } = stateRef.current;
+    const now = new Date();
+    const last = past[past.length - 1];
+
+    if (
+      entry.coalesceKey &&
+      last?.coalesceKey === entry.coalesceKey &&
+      now.getTime() - last.at.getTime() < COALESCE_MS
+    ) {
+      commit({ past: [...past.slice(0, -1), { ...last, at: now, redo: entry.redo }], future: [] });
+      return;
+    }
+
+    const id = `h-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`;
+    commit({ past: [...past, { ...entry, id, at: now }].slice(-limit), future: [] });
+  }, [commit, limit]);
+
+  const undo = useCallback(() => {
+    const { past, future } = stateRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    replay(entry.undo);
+    commit({ past: past.slice(0, -1), future: [entry, ...future] });
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const { past, future } = stateRef.current;
+    const entry = future[0];
+    if (!entry) return;
+    replay(entry.redo);
+    commit({ past: [...past, entry], future: future.slice(1) });
+  }, [commit]);
+
+  /**
+   * Undo or redo until `entryId` is the most recent applied entry.
+   * Pass null to undo everything.
+   */
+  const jumpTo = useCallback((entryId: string | null) => {
+    const { past, future } = stateRef.current;
+    if (entryId === null) {
+      for (let i = 0; i < past.length; i++) undo();
+      return;
+    }
+    const pastIndex = past.findIndex((e) => e.id === entryId);
+    if (pastIndex !== -1) {
+      for (let i = past.length - 1; i > pastIndex; i--) undo();
+      return;
+    }
+    const futureIndex = future.findIndex((e) => e.id === entryId);
+    for (let i = 0; i <= futureIndex; i++) redo();
+  }, [undo, redo]);
+
+  return {
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    record,
+    undo,
+    redo,
+    jumpTo,
+  };
+}
@@ -0,0 +1,90 @@
+// =============================================================================
+// useKeyboardShortcuts — one window keydown listener for every app shortcut.
+//
+// Bindings are plain data ({ keys, label, group, run }) so the same list feeds
+// the listener, the command palette's shortcut hints and the `?` overlay.
+//
+// Key syntax: "+"-joined, lower case — "mod+k", "mod+shift+z", "n", "?",
+// "escape". `mod` is Cmd on macOS and Ctrl elsewhere. Shift only has to match
+// for letter keys; symbols like "?" or "+" already imply it on most layouts.
+//
+// Shortcuts are ignored while typing in a field unless `allowInInputs` is set,
+// and while an overlay (dialog or full-screen view) is open unless
+// `whileOverlayOpen` is — that's for toggles like the palette's own key.
+//
+// Usage:
+//   useKeyboardShortcuts([{ id: "add-node", keys: "n", label: "Add node",
+//                           group: "Actions", run: () => setShowAddNode(true) }]);
+// =============================================================================
+
+import { useEffect, useRef } from "react";
+
+export interface Shortcut {
+  id: string;
+  keys: string;
+  label: string;
+  group: string;
+  run: () => void;
+  /** Also fires while focus is in an input / textarea. */
+  allowInInputs?: boolean;
+  /** Also fires while an overlay is open. */
+  whileOverlayOpen?: boolean;
+  /** Listed in the overlay but currently inactive. */
+  disabled?: boolean;
+}
+
+const IS_MAC = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  mod: IS_MAC ? "⌘" : "Ctrl",
+  shift: IS_MAC ? "⇧" : "Shift",
+  alt: IS_MAC ? "⌥" : "Alt",
+  escape: "Esc",
+};
+
+/** Display form of a key combo, e.g. "mod+shift+z" → ["Ctrl", "Shift", "Z"]. */
+export function formatShortcut(keys: string): string[] {
+  return keys.split("+").map((part) => KEY_LABELS[part] ?? part.toUpperCase());
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el?.closest?.("input, textarea, select, [contenteditable='true']");
+}
+
+function matches(e: KeyboardEvent, keys: string): boolean {
+  const parts = keys.split("+");
+  const key = parts[parts.length - 1];
+  const wantsMod = parts.includes("mod");
+  const wantsShift = parts.includes("shift");
+  const wantsAlt = parts.includes("alt");
+
+  if ((e.metaKey || e.ctrlKey) !== wantsMod) return false;
+  if (e.altKey !== wantsAlt) return false;
+  const pressed = e.key.toLowerCase();
+  if (/^[a-z]$/.test(key) && e.shiftKey !== wantsShift) return false;
+  return pressed === key;
+}
+
+export function useKeyboardShortcuts(shortcuts: Shortcut[], enabled = true, overlayOpen = false) {
+  // Read through refs so the listener is attached once, not on every render
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+  const overlayOpenRef = useRef(overlayOpen);
+  overlayOpenRef.current = overlayOpen;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handler = (e: KeyboardEvent) => {
+      const typing = isTypingTarget(e.target);
+      const match = shortcutsRef.current.find(
+        (s) => !s.disabled && (!typing || s.allowInInputs) && (!overlayOpenRef.current || s.whileOverlayOpen) && matches(e, s.keys)
+      );
+      if (!match) return;
+      e.preventDefault();
+      match.run();
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [enabled]);
+}
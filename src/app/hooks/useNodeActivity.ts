@@ -0,0 +1,180 @@
+// =============================================================================
+// useNodeActivity — field-level audit trail for nodes (public.node_activity).
+//
+// Two hooks:
+//   useActivityRecorder(commit) — App calls record(before, updates) from
+//     handleUpdateNode. Changes are buffered per node + field and handed to
+//     `commit` once the field has been idle for FLUSH_DELAY_MS, so typing into
+//     a textarea produces one "old → new" row instead of one per keystroke. A
+//     field edited back to its original value records nothing. App commits
+//     the rows like any other write, so they wait in the offline queue too;
+//     the server stamps who wrote them.
+//   useNodeActivity(nodeId) — the Activity tab's feed for one node: initial
+//     fetch plus a realtime subscription for new rows.
+//
+// Usage:
+//   const recordActivity = useActivityRecorder((rows) => commitMutation(..., { type: "activity", rows }));
+//   recordActivity(node, { status: "built" });
+//   const { entries, loading } = useNodeActivity(node.id);
+// =============================================================================
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "../supabaseClient";
+import type { ComponentNode } from "../types/architecture";
+import type { ActivityRow } from "../utils/architectureStore";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface NodeActivity {
+  id: string;
+  node_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+/** Fields whose changes are audited. */
+export const AUDITED_FIELDS: (keyof ComponentNode)[] = [
+  "name",
+  "status",
+  "description",
+  "inputs",
+  "outputs",
+  "owner",
+  "tags",
+  "blockers",
+  "remainingMvpScope",
+  "futureScope",
+];
+
+interface PendingChange {
+  nodeId: string;
+  field: keyof ComponentNode;
+  oldValue: unknown;
+  newValue: unknown;
+  /** When the last edit of this burst happened — the row's time. */
+  at: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const TABLE = "node_activity";
+const FLUSH_DELAY_MS = 4000;
+const FEED_LIMIT = 100;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+export function useActivityRecorder(commit: (rows: ActivityRow[]) => void) {
+  const pendingRef = useRef<Map<string, PendingChange>>(new Map());
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+
+  const flush = useCallback((keys: string[]) => {
+    const rows: ActivityRow[] = [];
+    for (const key of keys) {
+      const change = pendingRef.current.get(key);
+      if (!change) continue;
+      clearTimeout(change.timer);
+      pendingRef.current.delete(key);
+      if (same(change.oldValue, change.newValue)) continue;
+      rows.push({
+        node_id: change.nodeId,
+        field: change.field,
+        old_value: change.oldValue ?? null,
+        new_value: change.newValue ?? null,
+        created_at: change.at,
+      });
+    }
+    if (rows.length > 0) commitRef.current(rows);
+  }, []);
+
+  // Don't lose buffered edits when the tab goes away: flush as soon as it's
+  // hidden (tab switch, close, navigation), while there's still time to write
+  // or queue them — an async write started in beforeunload rarely lands
+  useEffect(() => {
+    const flushAll = () => flush([...pendingRef.current.keys()]);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushAll();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      flushAll();
+    };
+  }, [flush]);
+
+  return useCallback((before: ComponentNode, updates: Partial<ComponentNode>) => {
+    for (const field of AUDITED_FIELDS) {
+      if (!(field in updates) || same(before[field], updates[field])) continue;
+
+      const key = `${before.id}:${field}`;
+      const existing = pendingRef.current.get(key);
+      if (existing) clearTimeout(existing.timer);
+      pendingRef.current.set(key, {
+        nodeId: before.id,
+        field,
+        // Keep the value from before the first keystroke of this burst
+        oldValue: existing ? existing.oldValue : before[field],
+        newValue: updates[field],
+        at: new Date().toISOString(),
+        timer: setTimeout(() => flush([key]), FLUSH_DELAY_MS),
+      });
+    }
+  }, [flush]);
+}
+
+// ---------------------------------------------------------------------------
+// Feed
+// ---------------------------------------------------------------------------
+
+export function useNodeActivity(nodeId: string) {
+  const [entries, setEntries] = useState<NodeActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setEntries([]);
+
+    supabase
+      .from(TABLE)
+      .select("*")
+      .eq("node_id", nodeId)
+      .order("created_at", { ascending: false })
+      .limit(FEED_LIMIT)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("[useNodeActivity] fetch failed:", error.message);
+        else setEntries((data ?? []) as NodeActivity[]);
+        setLoading(false);
+      });
+
+    const channel = supabase
+      .channel(`node_activity_${nodeId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: TABLE, filter: `node_id=eq.${nodeId}` },
+        (payload) => {
+          const row = payload.new as NodeActivity;
+          setEntries((prev) => (prev.some((e) => e.id === row.id) ? prev : [row, ...prev]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [nodeId]);
+
+  return { entries, loading };
+}
@@ -0,0 +1,75 @@
+// =============================================================================
+// useNodeSizes — measures the rendered size of each ArchitectureNode.
+//
+// A single ResizeObserver watches every node element. Sizes are read from
+// offsetWidth/offsetHeight, which ignore CSS transforms, so they are already
+// in world units regardless of the canvas zoom level.
+//
+// Usage:
+//   const { nodeSizes, measureRef } = useNodeSizes();
+//   <ArchitectureNode nodeRef={measureRef(node.id)} … />
+//   nodeRect(node, nodeSizes.get(node.id))
+// =============================================================================
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Size } from "../utils/viewport";
+
+export function useNodeSizes() {
+  const [nodeSizes, setNodeSizes] = useState<Map<string, Size>>(() => new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const idByElement = useRef(new Map<Element, string>());
+  const elementById = useRef(new Map<string, HTMLElement>());
+  const callbacks = useRef(new Map<string, (el: HTMLElement | null) => void>());
+
+  const record = useCallback((entries: HTMLElement[]) => {
+    setNodeSizes(prev => {
+      let next = prev;
+      for (const el of entries) {
+        const id = idByElement.current.get(el);
+        if (!id) continue;
+        const size = { width: el.offsetWidth, height: el.offsetHeight };
+        const known = prev.get(id);
+        if (known && known.width === size.width && known.height === size.height) continue;
+        if (next === prev) next = new Map(prev);
+        next.set(id, size);
+      }
+      return next;
+    });
+  }, []);
+
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        record(entries.map(e => e.target as HTMLElement));
+      });
+    }
+    return observerRef.current;
+  }, [record]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  /** Stable callback ref per node id. */
+  const measureRef = useCallback((id: string) => {
+    let cb = callbacks.current.get(id);
+    if (!cb) {
+      cb = (el: HTMLElement | null) => {
+        const previous = elementById.current.get(id);
+        if (previous && previous !== el) {
+          getObserver().unobserve(previous);
+          idByElement.current.delete(previous);
+          elementById.current.delete(id);
+        }
+        if (el) {
+          idByElement.current.set(el, id);
+          elementById.current.set(id, el);
+          getObserver().observe(el);
+          record([el]);
+        }
+      };
+      callbacks.current.set(id, cb);
+    }
+    return cb;
+  }, [getObserver, record]);
+
+  return { nodeSizes, measureRef };
+}
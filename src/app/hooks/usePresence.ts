@@ -0,0 +1,114 @@
+// =============================================================================
+// usePresence — publishes this tab's presence on the architecture channel.
+//
+// The profile (name, avatar) comes from public.users, falling back to the
+// Google metadata until that row loads. What we publish follows the
+// DetailPanel: the open node, and the field the onEditStart / onEditEnd
+// tracking says is being edited.
+//
+// Peers arrive through subscribeToDocument's onPresence; the helpers below
+// shape them for the header stack, node badges and field markers.
+//
+// Usage:
+//   usePresence(subscription, googleUser, { nodeId, field });
+//   const byNode = peersByNode(peers);
+// =============================================================================
+
+import { useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "../supabaseClient";
+import { USERS_TABLE } from "../auth/authConstants";
+import type { DocumentSubscription, PresenceState } from "../utils/architectureStore";
+
+export interface EditingActivity {
+  nodeId: string | null;
+  field: string | null;
+}
+
+interface Profile {
+  name: string;
+  avatarUrl: string | null;
+}
+
+export function usePresence(
+  subscription: DocumentSubscription | null,
+  currentUser: User | null,
+  activity: EditingActivity,
+) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    setProfile({
+      name: currentUser.user_metadata?.full_name ?? currentUser.email ?? "Someone",
+      avatarUrl: currentUser.user_metadata?.avatar_url ?? null,
+    });
+
+    let cancelled = false;
+    supabase
+      .from(USERS_TABLE)
+      .select("name, avatar_url")
+      .eq("id", currentUser.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("[usePresence] profile fetch failed:", error.message);
+        else if (data) {
+          setProfile((prev) => ({
+            name: data.name || prev?.name || "Someone",
+            avatarUrl: data.avatar_url ?? prev?.avatarUrl ?? null,
+          }));
+        }
+      });
+    return () => { cancelled = true; };
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    if (!subscription || !currentUser || !profile) return;
+    subscription.track({
+      userId: currentUser.id,
+      name: profile.name,
+      email: currentUser.email ?? null,
+      avatarUrl: profile.avatarUrl,
+      nodeId: activity.nodeId,
+      field: activity.nodeId ? activity.field : null,
+    });
+  }, [subscription, currentUser?.id, profile, activity.nodeId, activity.field]);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** One entry per person (several tabs of the same user collapse). */
+export function uniquePeers(peers: PresenceState[]): PresenceState[] {
+  const byUser = new Map<string, PresenceState>();
+  peers.forEach((p) => { if (!byUser.has(p.userId)) byUser.set(p.userId, p); });
+  return [...byUser.values()];
+}
+
+/** Peers grouped by the node they have open. */
+export function peersByNode(peers: PresenceState[]): Map<string, PresenceState[]> {
+  const map = new Map<string, PresenceState[]>();
+  for (const peer of peers) {
+    if (!peer.nodeId) continue;
+    const list = map.get(peer.nodeId) ?? [];
+    if (!list.some((p) => p.userId === peer.userId)) list.push(peer);
+    map.set(peer.nodeId, list);
+  }
+  return map;
+}
+
+/** Field → peers editing it, for one node. */
+export function peersByField(peers: PresenceState[]): Record<string, PresenceState[]> {
+  const map: Record<string, PresenceState[]> = {};
+  for (const peer of peers) {
+    if (!peer.field) continue;
+    (map[peer.field] ??= []).push(peer);
+  }
+  return map;
+}
+
+export function initialsOf(name: string): string {
+  return name.split(/[\s@.]+/).filter(Boolean).slice(0, 2).map((p) => p[0]?.toUpperCase()).join("") || "?";
+}
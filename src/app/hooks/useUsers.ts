@@ -0,0 +1,49 @@
+// =============================================================================
+// useUsers — the public.users directory (everyone who has signed in), for
+// pickers that assign a person: custom "user" fields, and anything else that
+// stores a teammate by email.
+//
+// Fetched once per page load and shared by every caller; a failed fetch is
+// retried by the next component that mounts.
+//
+// Usage:
+//   const { users, nameOf } = useUsers();
+//   nameOf("ana@ergo.net") // → "Ana Pérez", or undefined when unknown
+// =============================================================================
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../supabaseClient";
+import type { MentionUser } from "../components/MentionTextarea";
+
+let directory: Promise<MentionUser[]> | null = null;
+
+function fetchUsers(): Promise<MentionUser[]> {
+  directory ??= Promise.resolve(
+    supabase.from("users").select("id, name, email, avatar_url").order("name")
+  ).then(({ data, error }) => {
+    if (error) {
+      console.error("[useUsers] fetch failed:", error.message);
+      directory = null;
+      return [];
+    }
+    return (data ?? []) as MentionUser[];
+  });
+  return directory;
+}
+
+export function useUsers() {
+  const [users, setUsers] = useState<MentionUser[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUsers().then((list) => { if (!cancelled) setUsers(list); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const nameOf = useCallback(
+    (email: string) => users.find((u) => u.email === email)?.name || undefined,
+    [users]
+  );
+
+  return { users, nameOf };
+}
@@ -0,0 +1,208 @@
+// =============================================================================
+// useViewport — pan / zoom state for the architecture canvas.
+//
+// Responsibilities:
+//   1. Hold the viewport transform (see utils/viewport.ts) and persist it to
+//      localStorage so a reload lands where the user left off.
+//   2. Wheel zoom around the cursor (trackpad pinch arrives as ctrl+wheel and
+//      goes through the same path) and two-finger touch pinch.
+//   3. Drag-to-pan on the empty canvas background.
+//   4. Track the container size so callers can fit content / draw the minimap.
+//
+// Usage:
+//   const { canvasRef, viewport, startPan, toWorld, fitTo } = useViewport();
+//   <div ref={canvasRef}> … </div>
+//
+// canvasRef is a callback ref: the canvas only mounts once auth resolves, so
+// listeners are (re)attached whenever the element itself changes.
+// =============================================================================
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  DEFAULT_VIEWPORT,
+  centerOn,
+  clampZoom,
+  fitRect,
+  screenToWorld,
+  zoomAround,
+  type Point,
+  type Rect,
+  type Size,
+  type Viewport,
+} from "../utils/viewport";
+
+const VIEWPORT_KEY = "architecture-viewport";
+const WHEEL_ZOOM_SPEED = 0.0015;
+const BUTTON_ZOOM_STEP = 1.2;
+
+function loadViewport(): Viewport {
+  try {
+    const saved = localStorage.getItem(VIEWPORT_KEY);
+    if (saved) {
+      const vp = JSON.parse(saved) as Viewport;
+      if ([vp.x, vp.y, vp.zoom].every(Number.isFinite)) {
+        return { ...vp, zoom: clampZoom(vp.zoom) };
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load viewport:", e);
+  }
+  return DEFAULT_VIEWPORT;
+}
+
+export function useViewport() {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState<Viewport>(loadViewport);
+  const [containerSize, setContainerSize] = useState<Size>({ width: 0, height: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+
+  // ── Persist (debounced — wheel zoom fires many times per second) ──────────
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      localStorage.setItem(VIEWPORT_KEY, JSON.stringify(viewport));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [viewport]);
+
+  // ── Container size ────────────────────────────────────────────────────────
+  useEffect(() => {
+    const el = container;
+    if (!el) return;
+    const update = () => setContainerSize({ width: el.clientWidth, height: el.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [container]);
+
+  /** Client (page) coordinates → container-relative screen coordinates. */
+  const toLocal = useCallback((clientX: number, clientY: number): Point => {
+    const rect = container?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  }, [container]);
+
+  /** Client (page) coordinates → world coordinates at the current zoom. */
+  const toWorld = useCallback((clientX: number, clientY: number): Point => {
+    return screenToWorld(viewportRef.current, toLocal(clientX, clientY));
+  }, [toLocal]);
+
+  // ── Wheel zoom (non-passive so we can stop the page from scrolling) ───────
+  useEffect(() => {
+    const el = container;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const anchor = toLocal(e.clientX, e.clientY);
+      // Pinch gestures report small deltas with ctrlKey set; amplify them a little
+      const speed = e.ctrlKey ? WHEEL_ZOOM_SPEED * 4 : WHEEL_ZOOM_SPEED;
+      setViewport(vp => zoomAround(vp, anchor, vp.zoom * Math.exp(-e.deltaY * speed)));
+    };
+    el.addEventListener("wheel", handleWheel, { passive: false });
+    return () => el.removeEventListener("wheel", handleWheel);
+  }, [container, toLocal]);
+
+  // ── Touch pinch (two active touch pointers) ───────────────────────────────
+  useEffect(() => {
+    const el = container;
+    if (!el) return;
+    const touches = new Map<number, Point>();
+    let lastDistance = 0;
+
+    const distance = () => {
+      const [a, b] = [...touches.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+    const midpoint = (): Point => {
+      const [a, b] = [...touches.values()];
+      return toLocal((a.x + b.x) / 2, (a.y + b.y) / 2);
+    };
+
+    const handleDown = (e: PointerEvent) => {
+      if (e.pointerType !== "touch") return;
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.size === 2) lastDistance = distance();
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!touches.has(e.pointerId)) return;
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.size !== 2 || lastDistance === 0) return;
+      const next = distance();
+      const anchor = midpoint();
+      const ratio = next / lastDistance;
+      lastDistance = next;
+      setViewport(vp => zoomAround(vp, anchor, vp.zoom * ratio));
+    };
+    const handleUp = (e: PointerEvent) => {
+      touches.delete(e.pointerId);
+      if (touches.size < 2) lastDistance = 0;
+    };
+
+    el.addEventListener("pointerdown", handleDown);
+    el.addEventListener("pointermove", handleMove);
+    el.addEventListener("pointerup", handleUp);
+    el.addEventListener("pointercancel", handleUp);
+    return () => {
+      el.removeEventListener("pointerdown", handleDown);
+      el.removeEventListener("pointermove", handleMove);
+      el.removeEventListener("pointerup", handleUp);
+      el.removeEventListener("pointercancel", handleUp);
+    };
+  }, [container, toLocal]);
+
+  // ── Drag-to-pan ───────────────────────────────────────────────────────────
+  const startPan = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const origin = viewportRef.current;
+    setIsPanning(true);
+
+    const handleMove = (ev: MouseEvent) => {
+      setViewport({ ...origin, x: origin.x + ev.clientX - startX, y: origin.y + ev.clientY - startY });
+    };
+    const handleUp = () => {
+      setIsPanning(false);
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  }, []);
+
+  // ── Programmatic navigation ───────────────────────────────────────────────
+  const zoomBy = useCallback((factor: number) => {
+    setViewport(vp => zoomAround(vp, { x: containerSize.width / 2, y: containerSize.height / 2 }, vp.zoom * factor));
+  }, [containerSize]);
+
+  const zoomIn = useCallback(() => zoomBy(BUTTON_ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / BUTTON_ZOOM_STEP), [zoomBy]);
+  const resetZoom = useCallback(() => {
+    setViewport(vp => zoomAround(vp, { x: containerSize.width / 2, y: containerSize.height / 2 }, 1));
+  }, [containerSize]);
+
+  const fitTo = useCallback((rect: Rect | null, maxZoom?: number) => {
+    if (!rect || containerSize.width === 0) return;
+    setViewport(fitRect(rect, containerSize, 48, maxZoom));
+  }, [containerSize]);
+
+  const panTo = useCallback((world: Point) => {
+    setViewport(vp => centerOn(vp, world, containerSize));
+  }, [containerSize]);
+
+  return {
+    canvasRef: setContainer,
+    viewport,
+    setViewport,
+    containerSize,
+    isPanning,
+    startPan,
+    toWorld,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitTo,
+    panTo,
+  };
+}
@@ -6,13 +6,24 @@ export interface Tag {
   color: string;
 }
 
+// Earlier text of an edited comment
+export interface CommentEdit {
+  text: string; // the text before this edit
+  at: string; // ISO timestamp of the edit
+  by: string; // display name or email
+}
+
 export interface Comment {
   id: string;
   text: string;
   author: string;
   timestamp: Date;
   mentions: string[];
-  status: 'open' | 'answered' | 'parked';
+  status: 'open' | 'answered' | 'parked'; // on a reply: unused (see utils/commentThreads.ts)
+  parentId?: string; // top-level comment this replies to
+  answerId?: string; // top-level only: the reply marked as the answer
+  reactions?: Record<string, string[]>; // emoji → who reacted
+  edits?: CommentEdit[]; // oldest first
 }
 
 export interface WeeklyUpdate {
@@ -21,6 +32,34 @@ export interface WeeklyUpdate {
   text: string;
 }
 
+// One status change, as logged by the status workflow (utils/statusWorkflow.ts)
+export interface StatusTransition {
+  id: string;
+  from: ComponentStatus | null; // null for the node's first status
+  to: ComponentStatus;
+  at: string; // ISO timestamp
+  by: string; // display name or email
+  note?: string;
+}
+
+// Admin-set rules for status changes (see utils/statusWorkflow.ts); one per
+// document, id "status"
+export interface StatusWorkflow {
+  id: string;
+  transitions: Record<ComponentStatus, ComponentStatus[]>; // statuses each status may move to
+  noteRequiredFor: ComponentStatus[]; // moving into one of these needs a note
+}
+
+// One checklist item on a node (utils/tasks.ts)
+export interface NodeTask {
+  id: string;
+  title: string;
+  assignee?: string; // email of a public.users row
+  due?: string; // ISO date, e.g. "2026-02-12"
+  done: boolean;
+  doneAt?: string; // ISO timestamp
+}
+
 export interface ComponentNode {
   id: string;
   name: string;
@@ -34,13 +73,26 @@ export interface ComponentNode {
   comments: Comment[];
   position: { x: number; y: number };
   layer: number; // for vertical positioning
-  workDone?: string;
-  inDevelopment?: string;
-  blocker?: string;
   futureScope?: string;
   weeklyUpdates?: WeeklyUpdate[];
   remainingMvpScope?: string;
   blockers?: string;
+  pinned?: boolean; // excluded from auto-layout; keeps its manual position
+  statusHistory?: StatusTransition[];
+  customFields?: Record<string, CustomFieldValue>; // CustomFieldDef id → value
+  tasks?: NodeTask[];
+}
+
+export type ConnectionType = 'data' | 'control' | 'dependency' | 'optional';
+
+export interface Connection {
+  id: string;
+  from: string;
+  to: string;
+  type: ConnectionType;
+  label?: string;
+  description?: string;
+  async?: boolean; // fire-and-forget / queued hand-off rather than a blocking call
 }
 
 export interface MilestoneView {
@@ -51,8 +103,35 @@ export interface MilestoneView {
   createdAt: Date;
 }
 
+// A named container (subsystem / swimlane) drawn behind its member nodes
+export interface NodeGroup {
+  id: string;
+  name: string;
+  color: string;
+  memberIds: string[];
+  collapsed?: boolean; // shown as a single summary node on the canvas
+}
+
+export type CustomFieldType = 'text' | 'url' | 'number' | 'date' | 'select' | 'multi-select' | 'user';
+
+// Admin-defined field every node can fill in (see utils/customFields.ts)
+export interface CustomFieldDef {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // choices for select / multi-select
+  showOnNode?: boolean; // shown as a badge on the canvas node
+}
+
+// text / url / date (ISO "2026-02-12") / select / user (email): string;
+// number: number; multi-select: string[]
+export type CustomFieldValue = string | number | string[];
+
 export interface ArchitectureData {
   components: ComponentNode[];
   tags: Tag[];
   milestones: MilestoneView[];
+  groups: NodeGroup[];
+  fieldDefs: CustomFieldDef[];
+  workflows: StatusWorkflow[]; // empty until an admin changes the default
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+// =============================================================================
+// Align / distribute helpers for a multi-node selection.
+//
+// Everything works on measured world-space rects (see useNodeSizes) so nodes of
+// different widths line up by their real edges, not by their top-left corner.
+// Each function returns the new top-left position for every node it moves.
+// =============================================================================
+
+import type { Point, Rect } from "./viewport";
+
+export type AlignCommand = "left" | "center" | "right" | "top" | "middle" | "bottom";
+export type DistributeAxis = "horizontal" | "vertical";
+
+export function alignRects(rects: Map<string, Rect>, command: AlignCommand): Map<string, Point> {
+  const all = [...rects.values()];
+  const targets = new Map<string, Point>();
+  if (all.length < 2) return targets;
+
+  const left = Math.min(...all.map(r => r.x));
+  const right = Math.max(...all.map(r => r.x + r.width));
+  const top = Math.min(...all.map(r => r.y));
+  const bottom = Math.max(...all.map(r => r.y + r.height));
+
+  rects.forEach((r, id) => {
+    switch (command) {
+      case "left": targets.set(id, { x: left, y: r.y }); break;
+      case "center": targets.set(id, { x: (left + right) / 2 - r.width / 2, y: r.y }); break;
+      case "right": targets.set(id, { x: right - r.width, y: r.y }); break;
+      case "top": targets.set(id, { x: r.x, y: top }); break;
+      case "middle": targets.set(id, { x: r.x, y: (top + bottom) / 2 - r.height / 2 }); break;
+      case "bottom": targets.set(id, { x: r.x, y: bottom - r.height }); break;
+    }
+  });
+  return targets;
+}
+
+/**
+ * Even spacing: the outermost nodes stay put and the ones in between are moved
+ * so the gaps between neighbouring edges are all equal.
+ */
+export function distributeRects(rects: Map<string, Rect>, axis: DistributeAxis): Map<string, Point> {
+  const targets = new Map<string, Point>();
+  if (rects.size < 3) return targets;
+
+  const horizontal = axis === "horizontal";
+  const start = (r: Rect) => (horizontal ? r.x : r.y);
+  const length = (r: Rect) => (horizontal ? r.width : r.height);
+
+  const sorted = [...rects].sort(([, a], [, b]) => start(a) + length(a) / 2 - (start(b) + length(b) / 2));
+  const first = sorted[0][1];
+  const last = sorted[sorted.length - 1][1];
+  const span = start(last) + length(last) - start(first);
+  const occupied = sorted.reduce((sum, [, r]) => sum + length(r), 0);
+  const gap = (span - occupied) / (sorted.length - 1);
+
+  let cursor = start(first);
+  for (const [id, r] of sorted) {
+    targets.set(id, horizontal ? { x: cursor, y: r.y } : { x: r.x, y: cursor });
+    cursor += length(r) + gap;
+  }
+  return targets;
+}
@@ -0,0 +1,439 @@
+// =============================================================================
+// Architecture store — row-level persistence for the diagram.
+//
+// Every entity lives in its own table (see
+// supabase/migrations/20261021_normalize_architecture.sql), one row per item:
+// `id` + the entity as `body` jsonb. Saves upsert or delete only the rows that
+// changed, so two people saving different nodes never touch the same row.
+//
+// Each browser tab stamps its writes with CLIENT_ID; subscribeToDocument()
+// drops realtime events carrying our own id, which replaces the old
+// updated_at echo check.
+//
+// Nodes are saved with saveComponents(): a compare-and-swap against the
+// revision the edit started from (20261022_component_revisions.sql). Rows
+// that changed underneath come back as stale for the caller to merge.
+//
+// Usage:
+//   const doc = await fetchDocument();
+//   const result = await saveComponents([{ node, baseRevision: 3 }]);
+//   await upsertRows("tags", [tag]);
+//   await deleteRows("connections", [connId]);
+//   await deleteComponent(nodeId);
+//   const sub = subscribeToDocument({ onChange, onStatus, onPresence });
+//   sub.track({ userId, name, email, avatarUrl, nodeId, field });
+// =============================================================================
+
+import type {
+  ArchitectureData,
+  ComponentNode,
+  Connection,
+  CustomFieldDef,
+  MilestoneView,
+  NodeGroup,
+  StatusWorkflow,
+  Tag,
+} from "../types/architecture";
+import { supabase } from "../supabaseClient";
+import { loadComponent, loadConnection, loadFieldDef, loadGroup, loadMilestone, loadTag, loadWorkflow } from "./documentSchema";
+import type { DocumentSnapshot } from "./versionDiff";
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+export const ARCHITECTURE_TABLES = {
+  components: "architecture_components",
+  connections: "architecture_connections",
+  tags: "architecture_tags",
+  milestones: "architecture_milestones",
+  groups: "architecture_groups",
+  fieldDefs: "architecture_field_defs", // admin-only writes (20261023_custom_fields.sql)
+  workflows: "architecture_workflows",  // admin-only writes (20261027_status_workflow.sql)
+} as const;
+
+export type EntityKind = keyof typeof ARCHITECTURE_TABLES;
+
+export interface EntityMap {
+  components: ComponentNode;
+  connections: Connection;
+  tags: Tag;
+  milestones: MilestoneView;
+  groups: NodeGroup;
+  fieldDefs: CustomFieldDef;
+  workflows: StatusWorkflow;
+}
+
+/** Server bookkeeping carried with a row (revision is only kept for components). */
+export interface RowMeta {
+  revision: number | null;
+  updatedBy: string | null;
+}
+
+/** One realtime row event, already parsed into its entity type. */
+export type RowChange = {
+  [K in EntityKind]:
+    | { kind: K; type: "upsert"; entity: EntityMap[K]; meta: RowMeta }
+    | { kind: K; type: "delete"; id: string };
+}[EntityKind];
+
+export interface ComponentSave {
+  node: ComponentNode;
+  /** Revision the edit started from; null for a node created locally. */
+  baseRevision: number | null;
+}
+
+export interface StaleComponent {
+  id: string;
+  /** Current server copy; null when the node was deleted meanwhile. */
+  node: ComponentNode | null;
+  revision: number | null;
+  updatedBy: string | null;
+}
+
+export interface ComponentSaveResult {
+  saved: { id: string; revision: number }[];
+  stale: StaleComponent[];
+}
+
+/** One node_activity audit row as sent; the server stamps the actor (20261026_node_activity_actor.sql). */
+export interface ActivityRow {
+  node_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+}
+
+const KINDS = Object.keys(ARCHITECTURE_TABLES) as EntityKind[];
+
+const SUPABASE_URL = "https://ywnvnwsziqjhauyqgzjt.supabase.co";
+
+/** Identifies this browser tab's writes so their realtime echo can be ignored. */
+export const CLIENT_ID = `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// ---------------------------------------------------------------------------
+// Parsing (jsonb body → entity) — through the versioned loader in
+// documentSchema.ts; an invalid row is skipped rather than loaded
+// ---------------------------------------------------------------------------
+
+function parseEntity<K extends EntityKind>(kind: K, body: unknown): EntityMap[K] | null {
+  switch (kind) {
+    case "components":
+      return loadComponent(body) as EntityMap[K] | null;
+    case "milestones":
+      return loadMilestone(body) as EntityMap[K] | null;
+    case "connections":
+      return loadConnection(body) as EntityMap[K] | null;
+    case "groups":
+      return loadGroup(body) as EntityMap[K] | null;
+    case "fieldDefs":
+      return loadFieldDef(body) as EntityMap[K] | null;
+    case "workflows":
+      return loadWorkflow(body) as EntityMap[K] | null;
+    default:
+      return loadTag(body) as EntityMap[K] | null;
+  }
+}
+
+/** Apply one row event to a list: replace or append on upsert, drop on delete. */
+export function applyRowChange<T extends { id: string }>(
+  list: T[],
+  change: { type: "upsert"; entity: T } | { type: "delete"; id: string },
+): T[] {
+  if (change.type === "delete") return list.filter((x) => x.id !== change.id);
+  const { entity } = change;
+  return list.some((x) => x.id === entity.id)
+    ? list.map((x) => (x.id === entity.id ? entity : x))
+    : [...list, entity];
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+interface StoredRow {
+  id: string;
+  body: unknown;
+  revision?: number;
+}
+
+async function fetchRows(kind: EntityKind): Promise<StoredRow[]> {
+  const { data, error } = await supabase
+    .from(ARCHITECTURE_TABLES[kind])
+    .select("*")
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true });
+  if (error) throw new Error(`${ARCHITECTURE_TABLES[kind]}: ${error.message}`);
+  return (data ?? []) as StoredRow[];
+}
+
+/** Assemble the whole document from the entity tables. Throws on any read error. */
+export async function fetchDocument(): Promise<DocumentSnapshot & { empty: boolean; revisions: Map<string, number> }> {
+  const rows = await Promise.all(KINDS.map(fetchRows));
+  const [components, connections, tags, milestones, groups, fieldDefs, workflows] = rows.map((list) => list.map((row) => row.body));
+  const parsed = <K extends EntityKind>(kind: K, bodies: unknown[]) =>
+    bodies.map((b) => parseEntity(kind, b)).filter((e): e is EntityMap[K] => e !== null);
+
+  const data: ArchitectureData = {
+    components: parsed("components", components),
+    tags: parsed("tags", tags),
+    milestones: parsed("milestones", milestones),
+    groups: parsed("groups", groups),
+    fieldDefs: parsed("fieldDefs", fieldDefs),
+    workflows: parsed("workflows", workflows),
+  };
+  return {
+    data,
+    connections: parsed("connections", connections),
+    empty: rows.every((list) => list.length === 0),
+    revisions: new Map(rows[0].map((row) => [row.id, row.revision ?? 1])),
+  };
+}
+
+/** Current revision of every node — used to re-base after a whole-document write. */
+export async function fetchComponentRevisions(): Promise<Map<string, number> | null> {
+  const { data, error } = await supabase.from(ARCHITECTURE_TABLES.components).select("id, revision");
+  if (error) {
+    console.error("[architectureStore] revision read failed:", error.message);
+    return null;
+  }
+  return new Map((data ?? []).map((row) => [row.id as string, row.revision as number]));
+}
+
+// ---------------------------------------------------------------------------
+// Writes — retried with backoff. Each resolves to a WriteOutcome: "retry" once
+// all attempts fail on the network or server, "rejected" straight away when
+// the server refuses the write itself (no permission, invalid row), since
+// sending it again can't succeed.
+// ---------------------------------------------------------------------------
+
+export type WriteOutcome = "ok" | "retry" | "rejected";
+export type WriteFailure = Exclude<WriteOutcome, "ok">;
+
+const ATTEMPTS = 3;
+
+/** 4xx is the server refusing the write — except an expired token, a timeout or a rate limit. */
+function isRejection(status: number | undefined): boolean {
+  return status !== undefined && status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+}
+
+/** The worst of several outcomes: any rejection, else any retry, else ok. */
+function worstOutcome(outcomes: WriteOutcome[]): WriteOutcome {
+  if (outcomes.includes("rejected")) return "rejected";
+  return outcomes.includes("retry") ? "retry" : "ok";
+}
+
+async function withRetry(
+  label: string,
+  op: () => PromiseLike<{ error: { message: string } | null; status?: number }>
+): Promise<WriteOutcome> {
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    try {
+      const { error, status } = await op();
+      if (!error) return "ok";
+      console.error(`[architectureStore] ${label} attempt ${attempt + 1} failed (${status}):`, error.message);
+      if (isRejection(status)) return "rejected";
+    } catch (e) {
+      console.error(`[architectureStore] ${label} attempt ${attempt + 1} threw:`, e);
+    }
+    if (attempt < ATTEMPTS - 1) await new Promise((r) => setTimeout(r, 1000 * Math.pow(2, attempt)));
+  }
+  return "retry";
+}
+
+export function upsertRows<K extends EntityKind>(kind: K, items: EntityMap[K][]): Promise<WriteOutcome> {
+  if (items.length === 0) return Promise.resolve("ok");
+  const rows = items.map((item) => ({ id: item.id, body: item, client_id: CLIENT_ID }));
+  return withRetry(`upsert ${kind}`, () => supabase.from(ARCHITECTURE_TABLES[kind]).upsert(rows));
+}
+
+/** Compare-and-swap node save. Resolves to the failure kind if it couldn't be sent. */
+export async function saveComponents(saves: ComponentSave[]): Promise<ComponentSaveResult | WriteFailure> {
+  if (saves.length === 0) return { saved: [], stale: [] };
+  const rows = saves.map(({ node, baseRevision }) => ({ id: node.id, body: node, baseRevision }));
+
+  let result: ComponentSaveResult | null = null;
+  const outcome = await withRetry("save components", async () => {
+    const { data, error, status } = await supabase.rpc("save_architecture_components", { p_rows: rows, p_client_id: CLIENT_ID });
+    if (!error) {
+      const raw = data as { saved: ComponentSaveResult["saved"]; stale: { id: string; body: unknown; revision: number | null; updatedBy: string | null }[] };
+      result = {
+        saved: raw.saved,
+        stale: raw.stale.map((s) => ({
+          id: s.id,
+          node: s.body ? loadComponent(s.body) : null,
+          revision: s.revision,
+          updatedBy: s.updatedBy,
+        })),
+      };
+    }
+    return { error, status };
+  });
+  return outcome === "ok" ? result! : outcome;
+}
+
+export function deleteRows(kind: EntityKind, ids: string[]): Promise<WriteOutcome> {
+  if (ids.length === 0) return Promise.resolve("ok");
+  return withRetry(`delete ${kind}`, () => supabase.from(ARCHITECTURE_TABLES[kind]).delete().in("id", ids));
+}
+
+/**
+ * Delete a node through the admin-only delete-node Edge Function, which also
+ * drops its arrows and prunes it from groups.
+ */
+export async function deleteComponent(nodeId: string): Promise<WriteOutcome> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const token = session?.access_token;
+    if (!token) return "retry";
+
+    const res = await fetch(`${SUPABASE_URL}/functions/v1/delete-node`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify({ nodeId }),
+    });
+    if (res.ok) return "ok";
+    const err = await res.json().catch(() => ({}));
+    console.error(`[architectureStore] delete-node edge fn error (${res.status}):`, err);
+    return isRejection(res.status) ? "rejected" : "retry";
+  } catch (e) {
+    console.error("[architectureStore] delete-node fetch threw:", e);
+    return "retry";
+  }
+}
+
+/**
+ * Take back a node this tab added (undo of add node / of an import). Unlike
+ * deleteComponent it's open to members; the server refuses a node someone
+ * else — or another session — created, unless the caller is an admin.
+ */
+export function deleteOwnComponent(nodeId: string, clientId: string): Promise<WriteOutcome> {
+  return withRetry(`delete own component ${nodeId}`, () =>
+    supabase.rpc("delete_own_architecture_node", { p_node_id: nodeId, p_client_id: clientId })
+  );
+}
+
+/** Append audit rows for useNodeActivity's feed. */
+export function insertActivity(rows: ActivityRow[]): Promise<WriteOutcome> {
+  if (rows.length === 0) return Promise.resolve("ok");
+  return withRetry("insert activity", () => supabase.from("node_activity").insert(rows));
+}
+
+/**
+ * Make the tables match a whole snapshot (version restore, first-run seed):
+ * upsert every item, then delete the rows the snapshot doesn't have.
+ */
+export async function replaceDocument(snapshot: DocumentSnapshot): Promise<WriteOutcome> {
+  const wanted: { [K in EntityKind]: EntityMap[K][] } = {
+    components: snapshot.data.components,
+    connections: snapshot.connections,
+    tags: snapshot.data.tags,
+    milestones: snapshot.data.milestones,
+    groups: snapshot.data.groups,
+    fieldDefs: snapshot.data.fieldDefs,
+    workflows: snapshot.data.workflows,
+  };
+
+  const results = await Promise.all(KINDS.map(async (kind): Promise<WriteOutcome> => {
+    const { data, error, status } = await supabase.from(ARCHITECTURE_TABLES[kind]).select("id");
+    if (error) {
+      console.error(`[architectureStore] replace ${kind} read failed:`, error.message);
+      return isRejection(status) ? "rejected" : "retry";
+    }
+    const keep = new Set(wanted[kind].map((item) => item.id));
+    const stale = (data ?? []).map((row) => row.id as string).filter((id) => !keep.has(id));
+    const upserted = await upsertRows(kind, wanted[kind] as EntityMap[typeof kind][]);
+    return upserted === "ok" ? deleteRows(kind, stale) : upserted;
+  }));
+  return worstOutcome(results);
+}
+
+// ---------------------------------------------------------------------------
+// Realtime
+// ---------------------------------------------------------------------------
+
+/** What each open tab publishes on the channel: who, and what they have open. */
+export interface PresenceState {
+  clientId: string;
+  userId: string;
+  name: string;
+  email: string | null;
+  avatarUrl: string | null;
+  /** Node open in the DetailPanel. */
+  nodeId: string | null;
+  /** Field being edited on that node (ComponentNode key). */
+  field: string | null;
+}
+
+interface SubscribeHandlers {
+  onChange: (change: RowChange) => void;
+  /** Channel status as reported by supabase-js ("SUBSCRIBED", "CLOSED", …). */
+  onStatus?: (status: string) => void;
+  /** Every other tab's presence, on each sync. */
+  onPresence?: (peers: PresenceState[]) => void;
+}
+
+export interface DocumentSubscription {
+  unsubscribe: () => void;
+  /** Publish this tab's presence; re-sent after every reconnect. */
+  track: (state: Omit<PresenceState, "clientId">) => void;
+}
+
+/**
+ * One channel for the whole document: row events from every entity table plus
+ * presence (keyed by CLIENT_ID, so two tabs of one user are two peers).
+ */
+export function subscribeToDocument({ onChange, onStatus, onPresence }: SubscribeHandlers): DocumentSubscription {
+  let channel = supabase.channel("architecture_rows", { config: { presence: { key: CLIENT_ID } } });
+  let subscribed = false;
+  let presence: PresenceState | null = null;
+
+  const sendPresence = () => {
+    if (subscribed && presence) channel.track({ ...presence });
+  };
+  for (const kind of KINDS) {
+    channel = channel.on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: ARCHITECTURE_TABLES[kind] },
+      (payload) => {
+        if (payload.eventType === "DELETE") {
+          const id = (payload.old as { id?: string }).id;
+          if (id) onChange({ kind, type: "delete", id } as RowChange);
+          return;
+        }
+        const row = payload.new as { body: unknown; client_id: string | null; revision?: number; updated_by: string | null };
+        if (row.client_id === CLIENT_ID) return; // our own write
+        const entity = parseEntity(kind, row.body);
+        const meta: RowMeta = { revision: row.revision ?? null, updatedBy: row.updated_by ?? null };
+        if (entity) onChange({ kind, type: "upsert", entity, meta } as RowChange);
+      }
+    );
+  }
+
+  channel = channel.on("presence", { event: "sync" }, () => {
+    const state = channel.presenceState<PresenceState>();
+    const peers = Object.entries(state)
+      .filter(([key]) => key !== CLIENT_ID)
+      .map(([, metas]) => metas[metas.length - 1])
+      .filter(Boolean);
+    onPresence?.(peers);
+  });
+
+  channel.subscribe((status) => {
+    subscribed = status === "SUBSCRIBED";
+    sendPresence();
+    onStatus?.(status);
+  });
+
+  return {
+    unsubscribe: () => { supabase.removeChannel(channel); },
+    track: (state) => {
+      presence = { ...state, clientId: CLIENT_ID };
+      sendPresence();
+    },
+  };
+}
@@ -0,0 +1,358 @@
+// =============================================================================
+// Layered (Sugiyama-style) auto-layout for the architecture graph.
+//
+// Steps:
+//   1. Break cycles by reversing DFS back-edges so the graph is a DAG.
+//   2. Rank nodes by longest path from the sources (rank → ComponentNode.layer).
+//   3. Insert virtual nodes on edges that span more than one rank so long
+//      edges get their own channel and take part in crossing reduction.
+//   4. Order each rank with alternating barycenter sweeps, keeping the order
+//      with the fewest crossings. The initial order follows current positions
+//      so a re-layout does not shuffle a map the user already knows.
+//   5. Assign coordinates: ranks along the main axis, nodes packed along the
+//      cross axis and nudged towards the centre of their upstream neighbours.
+//
+// Pinned nodes keep their position; unpinned nodes in the same rank are
+// packed around them so nothing overlaps.
+// =============================================================================
+
+import type { ComponentNode, Connection } from "../types/architecture";
+import type { Point, Size } from "./viewport";
+
+export type LayoutDirection = "TB" | "LR";
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  /** Footprint of each node, used for spacing. */
+  getNodeSize: (node: ComponentNode) => Size;
+  /** Gap between ranks, along the main axis. */
+  rankGap?: number;
+  /** Gap between neighbouring nodes within a rank. */
+  nodeGap?: number;
+  /** Top-left corner of the laid-out graph. Defaults to the current content origin. */
+  origin?: Point;
+}
+
+export interface LayoutResult {
+  position: Point;
+  layer: number;
+}
+
+interface LayoutItem {
+  id: string;
+  /** Real node, or null for a virtual node on a long edge. */
+  node: ComponentNode | null;
+  rank: number;
+  /** Extent along the cross axis. */
+  breadth: number;
+  /** Extent along the main axis. */
+  depth: number;
+  /** Cross-axis coordinate of the item's leading edge. */
+  cross: number;
+}
+
+const VIRTUAL_BREADTH = 24;
+const SWEEP_ITERATIONS = 8;
+
+// ---------------------------------------------------------------------------
+// 1 + 2. Acyclic ranking
+// ---------------------------------------------------------------------------
+
+function acyclicEdges(ids: string[], edges: Connection[]): Connection[] {
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const e of edges) outgoing.get(e.from)!.push(e.to);
+
+  const state = new Map<string, "visiting" | "done">();
+  const reversed = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    for (const to of outgoing.get(id)!) {
+      const s = state.get(to);
+      if (s === "visiting") reversed.add(`${id}->${to}`);
+      else if (!s) visit(to);
+    }
+    state.set(id, "done");
+  };
+  ids.forEach(id => { if (!state.has(id)) visit(id); });
+
+  return edges.map(e =>
+    reversed.has(`${e.from}->${e.to}`) ? { ...e, from: e.to, to: e.from } : e
+  );
+}
+
+function longestPathRanks(ids: string[], edges: Connection[]): Map<string, number> {
+  const incoming = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const e of edges) incoming.get(e.to)!.push(e.from);
+
+  const ranks = new Map<string, number>();
+  const rankOf = (id: string): number => {
+    const known = ranks.get(id);
+    if (known !== undefined) return known;
+    const preds = incoming.get(id)!;
+    const rank = preds.length === 0 ? 0 : Math.max(...preds.map(rankOf)) + 1;
+    ranks.set(id, rank);
+    return rank;
+  };
+  ids.forEach(rankOf);
+  return ranks;
+}
+
+// ---------------------------------------------------------------------------
+// 4. Crossing reduction
+// ---------------------------------------------------------------------------
+
+function countCrossings(layers: string[][], down: Map<string, string[]>): number {
+  let crossings = 0;
+  for (let r = 0; r < layers.length - 1; r++) {
+    const nextIndex = new Map(layers[r + 1].map((id, i) => [id, i]));
+    const segments: [number, number][] = [];
+    layers[r].forEach((id, i) => {
+      for (const to of down.get(id) ?? []) segments.push([i, nextIndex.get(to)!]);
+    });
+    for (let a = 0; a < segments.length; a++) {
+      for (let b = a + 1; b < segments.length; b++) {
+        const [a1, a2] = segments[a];
+        const [b1, b2] = segments[b];
+        if ((a1 - b1) * (a2 - b2) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+}
+
+function reorderByBarycenter(layer: string[], reference: string[], neighbours: Map<string, string[]>): string[] {
+  const refIndex = new Map(reference.map((id, i) => [id, i]));
+  const weighted = layer.map((id, i) => {
+    const positions = (neighbours.get(id) ?? []).map(n => refIndex.get(n)!).filter(p => p !== undefined);
+    // Nodes with no neighbours in the reference layer keep their current slot
+    const barycenter = positions.length
+      ? positions.reduce((sum, p) => sum + p, 0) / positions.length
+      : i;
+    return { id, barycenter, i };
+  });
+  weighted.sort((a, b) => a.barycenter - b.barycenter || a.i - b.i);
+  return weighted.map(w => w.id);
+}
+
+function minimizeCrossings(
+  layers: string[][],
+  down: Map<string, string[]>,
+  up: Map<string, string[]>,
+): string[][] {
+  let best = layers.map(l => [...l]);
+  let bestCrossings = countCrossings(best, down);
+  let current = best.map(l => [...l]);
+
+  for (let iter = 0; iter < SWEEP_ITERATIONS && bestCrossings > 0; iter++) {
+    if (iter % 2 === 0) {
+      for (let r = 1; r < current.length; r++) {
+        current[r] = reorderByBarycenter(current[r], current[r - 1], up);
+      }
+    } else {
+      for (let r = current.length - 2; r >= 0; r--) {
+        current[r] = reorderByBarycenter(current[r], current[r + 1], down);
+      }
+    }
+    const crossings = countCrossings(current, down);
+    if (crossings < bestCrossings) {
+      best = current.map(l => [...l]);
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// 5. Cross-axis coordinates
+// ---------------------------------------------------------------------------
+
+/**
+ * Move `items` (in order) so none overlap, staying as close as possible to
+ * their current `cross` coordinates. Overlapping neighbours are merged into
+ * blocks and each block is centred on the mean of its members' wishes, so a
+ * fan of siblings ends up centred under their parent instead of drifting to
+ * one side. Pinned items carry a very large weight and never move.
+ */
+function resolveOverlaps(items: LayoutItem[], gap: number) {
+  // Pinned items cannot move, so the rank has to follow their coordinates
+  if (items.some(i => i.node?.pinned)) items.sort((a, b) => a.cross - b.cross);
+
+  interface Block { members: LayoutItem[]; offsets: number[]; width: number; weight: number; wsum: number }
+  const blocks: Block[] = [];
+  const startOf = (b: Block) => b.wsum / b.weight;
+
+  for (const item of items) {
+    const weight = item.node?.pinned ? 1e6 : 1;
+    let block: Block = { members: [item], offsets: [0], width: item.breadth, weight, wsum: weight * item.cross };
+    while (blocks.length > 0) {
+      const prev = blocks[blocks.length - 1];
+      if (startOf(prev) + prev.width + gap <= startOf(block)) break;
+      const shift = prev.width + gap;
+      blocks.pop();
+      block = {
+        members: [...prev.members, ...block.members],
+        offsets: [...prev.offsets, ...block.offsets.map(o => o + shift)],
+        width: shift + block.width,
+        weight: prev.weight + block.weight,
+        wsum: prev.wsum + block.wsum - block.weight * shift,
+      };
+    }
+    blocks.push(block);
+  }
+
+  for (const block of blocks) {
+    const start = startOf(block);
+    block.members.forEach((item, i) => {
+      if (!item.node?.pinned) item.cross = start + block.offsets[i];
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute new positions for `nodes`. Only edges between the given nodes are
+ * considered. Returns an entry for every node, pinned ones included (with
+ * their original position) so callers can update `layer` uniformly.
+ */
+export function computeLayeredLayout(
+  nodes: ComponentNode[],
+  connections: Connection[],
+  options: LayoutOptions,
+): Map<string, LayoutResult> {
+  const { direction, getNodeSize, rankGap = 90, nodeGap = 40 } = options;
+  const result = new Map<string, LayoutResult>();
+  if (nodes.length === 0) return result;
+
+  const horizontal = direction === "LR";
+  const ids = nodes.map(n => n.id);
+  const idSet = new Set(ids);
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // Dedupe, drop self-loops and edges to nodes outside the current view
+  const seen = new Set<string>();
+  const edges = connections.filter(c => {
+    const key = `${c.from}->${c.to}`;
+    if (c.from === c.to || !idSet.has(c.from) || !idSet.has(c.to) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const dag = acyclicEdges(ids, edges);
+  const ranks = longestPathRanks(ids, dag);
+
+  // ── 3. Virtual nodes for long edges ──
+  const items = new Map<string, LayoutItem>();
+  const crossOf = (p: Point) => (horizontal ? p.y : p.x);
+  for (const node of nodes) {
+    const size = getNodeSize(node);
+    items.set(node.id, {
+      id: node.id,
+      node,
+      rank: ranks.get(node.id)!,
+      breadth: horizontal ? size.height : size.width,
+      depth: horizontal ? size.width : size.height,
+      cross: crossOf(node.position),
+    });
+  }
+
+  const down = new Map<string, string[]>();
+  const up = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    down.set(from, [...(down.get(from) ?? []), to]);
+    up.set(to, [...(up.get(to) ?? []), from]);
+  };
+
+  for (const e of dag) {
+    const fromRank = ranks.get(e.from)!;
+    const toRank = ranks.get(e.to)!;
+    let prev = e.from;
+    for (let r = fromRank + 1; r < toRank; r++) {
+      const from = items.get(e.from)!;
+      const to = items.get(e.to)!;
+      const t = (r - fromRank) / (toRank - fromRank);
+      const id = `__virtual:${e.from}->${e.to}:${r}`;
+      items.set(id, {
+        id,
+        node: null,
+        rank: r,
+        breadth: VIRTUAL_BREADTH,
+        depth: 0,
+        cross: from.cross + (to.cross - from.cross) * t,
+      });
+      link(prev, id);
+      prev = id;
+    }
+    link(prev, e.to);
+  }
+
+  // ── 4. Ordering ──
+  const rankCount = Math.max(...[...items.values()].map(i => i.rank)) + 1;
+  const initial: string[][] = Array.from({ length: rankCount }, () => []);
+  [...items.values()]
+    .sort((a, b) => a.cross - b.cross)
+    .forEach(item => initial[item.rank].push(item.id));
+  const layers = minimizeCrossings(initial, down, up);
+
+  // ── 5. Coordinates ──
+  const unpinned = nodes.filter(n => !n.pinned);
+  const anchor = unpinned.length ? unpinned : nodes;
+  const origin = options.origin ?? {
+    x: Math.min(...anchor.map(n => n.position.x)),
+    y: Math.min(...anchor.map(n => n.position.y)),
+  };
+  const originCross = horizontal ? origin.y : origin.x;
+  const originMain = horizontal ? origin.x : origin.y;
+
+  // Initial packing: each rank centred on the widest one
+  const rankItems = layers.map(layer => layer.map(id => items.get(id)!));
+  const rankBreadth = rankItems.map(list =>
+    list.reduce((sum, item) => sum + item.breadth, 0) + nodeGap * Math.max(0, list.length - 1)
+  );
+  const widest = Math.max(...rankBreadth);
+  rankItems.forEach((list, r) => {
+    let cursor = originCross + (widest - rankBreadth[r]) / 2;
+    for (const item of list) {
+      if (!item.node?.pinned) item.cross = cursor;
+      cursor += item.breadth + nodeGap;
+    }
+    resolveOverlaps(list, nodeGap);
+  });
+
+  // Nudge each item towards the mean centre of its upstream neighbours
+  const centre = (item: LayoutItem) => item.cross + item.breadth / 2;
+  for (let pass = 0; pass < 2; pass++) {
+    for (let r = 1; r < rankItems.length; r++) {
+      for (const item of rankItems[r]) {
+        if (item.node?.pinned) continue;
+        const parents = (up.get(item.id) ?? []).map(id => items.get(id)!);
+        if (parents.length === 0) continue;
+        const target = parents.reduce((sum, p) => sum + centre(p), 0) / parents.length;
+        item.cross = target - item.breadth / 2;
+      }
+      resolveOverlaps(rankItems[r], nodeGap);
+    }
+  }
+
+  // Main-axis coordinate per rank: deep enough for the tallest node in it
+  let main = originMain;
+  rankItems.forEach((list, r) => {
+    const depth = Math.max(0, ...list.map(i => i.depth));
+    for (const item of list) {
+      if (!item.node) continue;
+      const node = byId.get(item.id)!;
+      const position = node.pinned
+        ? node.position
+        : horizontal
+          ? { x: Math.round(main), y: Math.round(item.cross) }
+          : { x: Math.round(item.cross), y: Math.round(main) };
+      result.set(item.id, { position, layer: r });
+    }
+    main += depth + rankGap;
+  });
+
+  return result;
+}
@@ -0,0 +1,110 @@
+// =============================================================================
+// Comment threads — replies, answers, reactions and edit history on top of
+// the flat `node.comments` list.
+//
+// Comments stay one flat, id-keyed list (so they keep merging item by item,
+// see utils/nodeMerge.ts); threading is a `parentId` pointing at the thread's
+// top-level comment. Threads are one level deep: replying to a reply adds to
+// the same thread.
+//
+// A thread's state is its top-level comment's `status`. Marking a reply as
+// the answer sets `answerId` on the top-level comment and flips it to
+// "answered"; unmarking (or deleting that reply) flips it back to "open".
+// Replies carry a status too (the type requires one) but it is not used.
+//
+// Edits keep the text they replaced in `edits` (oldest first), so the
+// history of a comment can be shown next to it.
+//
+// Usage:
+//   const threads = buildThreads(node.comments);
+//   const open = unresolvedThreadCount(node.comments);      // node badge
+//   onUpdate({ comments: markAnswer(node.comments, rootId, replyId) });
+//   onUpdate({ comments: toggleReaction(node.comments, id, "👍", actor) });
+// =============================================================================
+
+import type { Comment } from "../types/architecture";
+
+export const REACTION_EMOJIS = ["👍", "🎉", "❤️", "👀", "✅", "❓"];
+
+export interface CommentThread {
+  root: Comment;
+  /** Oldest first. */
+  replies: Comment[];
+}
+
+const byTime = (a: Comment, b: Comment) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/** Top-level comments in list order, each with its replies. A reply whose parent is gone becomes a thread of its own. */
+export function buildThreads(comments: Comment[]): CommentThread[] {
+  const ids = new Set(comments.map((c) => c.id));
+  const isRoot = (c: Comment) => !c.parentId || !ids.has(c.parentId);
+  return comments.filter(isRoot).map((root) => ({
+    root,
+    replies: comments.filter((c) => !isRoot(c) && c.parentId === root.id).sort(byTime),
+  }));
+}
+
+/** Threads still waiting on something: top-level comments that are open. */
+export function unresolvedThreadCount(comments: Comment[]): number {
+  return buildThreads(comments).filter((t) => t.root.status === "open").length;
+}
+
+/** Top-level id a reply to `commentId` belongs under. */
+export function threadRootId(comments: Comment[], commentId: string): string {
+  const target = comments.find((c) => c.id === commentId);
+  return target?.parentId && comments.some((c) => c.id === target.parentId) ? target.parentId : commentId;
+}
+
+/** Mark `replyId` as the answer to thread `rootId` (answered), or clear it with null (open again). */
+export function markAnswer(comments: Comment[], rootId: string, replyId: string | null): Comment[] {
+  return comments.map((c) => {
+    if (c.id !== rootId) return c;
+    if (replyId) return { ...c, answerId: replyId, status: "answered" };
+    const reopened: Comment = { ...c, status: "open" };
+    delete reopened.answerId;
+    return reopened;
+  });
+}
+
+/** Set a thread's status by hand; moving away from "answered" drops the marked answer. */
+export function setThreadStatus(comments: Comment[], rootId: string, status: Comment["status"]): Comment[] {
+  return comments.map((c) => {
+    if (c.id !== rootId) return c;
+    const next: Comment = { ...c, status };
+    if (status !== "answered") delete next.answerId;
+    return next;
+  });
+}
+
+/** Add or remove `who`'s `emoji` reaction. */
+export function toggleReaction(comments: Comment[], commentId: string, emoji: string, who: string): Comment[] {
+  return comments.map((c) => {
+    if (c.id !== commentId) return c;
+    const reactions = { ...c.reactions };
+    const people = reactions[emoji] ?? [];
+    const next = people.includes(who) ? people.filter((p) => p !== who) : [...people, who];
+    if (next.length > 0) reactions[emoji] = next;
+    else delete reactions[emoji];
+    return { ...c, reactions };
+  });
+}
+
+/** Replace a comment's text, keeping the old text in its edit history. */
+export function editComment(comments: Comment[], commentId: string, text: string, by: string, at: Date = new Date()): Comment[] {
+  return comments.map((c) => {
+    if (c.id !== commentId || c.text === text) return c;
+    return { ...c, text, edits: [...(c.edits ?? []), { text: c.text, at: at.toISOString(), by }] };
+  });
+}
+
+/**
+ * Remove a comment. A top-level comment takes its replies with it; a reply
+ * that was its thread's answer reopens the thread.
+ */
+export function deleteComment(comments: Comment[], commentId: string): Comment[] {
+  const rootId = threadRootId(comments, commentId);
+  const isRoot = rootId === commentId;
+  const remaining = comments.filter((c) => c.id !== commentId && !(isRoot && c.parentId === commentId));
+  const root = remaining.find((c) => c.id === rootId);
+  return root?.answerId === commentId ? markAnswer(remaining, rootId, null) : remaining;
+}
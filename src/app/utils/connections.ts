@@ -0,0 +1,65 @@
+// =============================================================================
+// Connection helpers — type styles and normalisation of stored connections.
+//
+// Older data (localStorage, the Supabase row, exported JSON) stores arrows as
+// bare `{ from, to }`. normalizeConnections() upgrades those in place with a
+// deterministic id and the default "data" type so every client agrees on ids
+// without a migration.
+// =============================================================================
+
+import type { Connection, ConnectionType } from "../types/architecture";
+
+export const CONNECTION_TYPE_STYLES: Record<ConnectionType, {
+  label: string;
+  description: string;
+  stroke: string;
+  dasharray?: string;
+  opacity: number;
+}> = {
+  data:       { label: "Data flow",  description: "Data passed from one component to the next", stroke: "#374151", opacity: 1 },
+  control:    { label: "Control",    description: "Triggers, orchestration or commands",         stroke: "#2563eb", dasharray: "8 4", opacity: 1 },
+  dependency: { label: "Dependency", description: "Relies on, without data flowing at runtime",  stroke: "#7c3aed", dasharray: "2 4", opacity: 1 },
+  optional:   { label: "Optional",   description: "Only used in some runs / not yet wired up",   stroke: "#9ca3af", dasharray: "6 6", opacity: 0.7 },
+};
+
+export const CONNECTION_TYPES = Object.keys(CONNECTION_TYPE_STYLES) as ConnectionType[];
+
+function isConnectionType(value: unknown): value is ConnectionType {
+  return typeof value === "string" && (CONNECTION_TYPES as string[]).includes(value);
+}
+
+/** Deterministic id for legacy arrows; suffixed when the same pair appears twice. */
+function legacyId(from: string, to: string, taken: Set<string>): string {
+  const base = `${from}->${to}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}#${n}`;
+  return id;
+}
+
+export function generateConnectionId(): string {
+  return `conn-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function normalizeConnections(raw: unknown): Connection[] {
+  if (!Array.isArray(raw)) return [];
+  const taken = new Set<string>();
+  return raw
+    .filter((c): c is Record<string, unknown> =>
+      !!c && typeof c === "object" && typeof (c as Record<string, unknown>).from === "string" && typeof (c as Record<string, unknown>).to === "string"
+    )
+    .map((c) => {
+      const from = c.from as string;
+      const to = c.to as string;
+      const id = typeof c.id === "string" && c.id && !taken.has(c.id) ? c.id : legacyId(from, to, taken);
+      taken.add(id);
+      return {
+        id,
+        from,
+        to,
+        type: isConnectionType(c.type) ? c.type : "data",
+        ...(typeof c.label === "string" && c.label ? { label: c.label } : {}),
+        ...(typeof c.description === "string" && c.description ? { description: c.description } : {}),
+        ...(c.async === true ? { async: true } : {}),
+      };
+    });
+}
@@ -0,0 +1,56 @@
+// =============================================================================
+// CSV export — one row per node for spreadsheets: the core fields, then one
+// column per custom field definition (in definition order).
+//
+// Cells are quoted RFC 4180 style when they contain a comma, quote or line
+// break; list values (tags, inputs, multi-select fields) are joined with "; ".
+// Text that a spreadsheet would run as a formula (starting with =, +, -, @)
+// is prefixed with ' so it stays text. Tasks get separate done and total
+// columns — "3/5" would be read as a date.
+//
+// Usage:
+//   download(toComponentsCsv(data), "text/csv");
+// =============================================================================
+
+import type { ArchitectureData, ComponentNode } from "../types/architecture";
+import { exportFieldValue } from "./customFields";
+import { taskProgress } from "./tasks";
+
+interface Column {
+  header: string;
+  value: (node: ComponentNode) => string;
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function csvCell(value: string): string {
+  const safe = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toComponentsCsv(data: ArchitectureData): string {
+  const tagLabels = new Map(data.tags.map((t) => [t.id, t.label]));
+  const columns: Column[] = [
+    { header: "ID", value: (n) => n.id },
+    { header: "Name", value: (n) => n.name },
+    { header: "Status", value: (n) => n.status },
+    { header: "Owner", value: (n) => n.owner ?? "" },
+    { header: "Layer", value: (n) => String(n.layer) },
+    { header: "Tags", value: (n) => n.tags.map((id) => tagLabels.get(id) ?? id).join("; ") },
+    { header: "Description", value: (n) => n.description },
+    { header: "Inputs", value: (n) => n.inputs.join("; ") },
+    { header: "Outputs", value: (n) => n.outputs.join("; ") },
+    { header: "Blockers", value: (n) => n.blockers ?? "" },
+    { header: "Tasks done", value: (n) => { const p = taskProgress(n); return p.total > 0 ? String(p.done) : ""; } },
+    { header: "Tasks total", value: (n) => { const p = taskProgress(n); return p.total > 0 ? String(p.total) : ""; } },
+    { header: "Last updated", value: (n) => (Number.isNaN(n.lastUpdated.getTime()) ? "" : n.lastUpdated.toISOString()) },
+    ...data.fieldDefs.map((def): Column => ({ header: def.label, value: (n) => exportFieldValue(def, n) })),
+  ];
+
+  const rows = [
+    columns.map((c) => csvCell(c.header)).join(","),
+    ...data.components.map((node) => columns.map((c) => csvCell(c.value(node))).join(",")),
+  ];
+  return rows.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,139 @@
+// =============================================================================
+// Custom fields — admin-defined extra fields on nodes (repo URL, runtime,
+// SLA, on-call, …).
+//
+// Definitions live in `data.fieldDefs` (architecture_field_defs, admin-only
+// writes — see supabase/migrations/20261023_custom_fields.sql). Values live
+// on the node, keyed by definition id: `node.customFields[def.id]`.
+//
+//   text / url / select    string
+//   date                   "2026-02-12"
+//   user                   email of a public.users row
+//   number                 number
+//   multi-select           string[]
+//
+// A value that doesn't fit its definition's type (the type was changed after
+// it was filled in) reads as empty rather than being deleted, so changing the
+// type back brings it back. Values of deleted definitions stay on the node
+// for the same reason (undo) and are simply not shown.
+//
+// Usage:
+//   const value = fieldValue(node, def);
+//   onUpdateNode(node.id, customFieldUpdates(node, def.id, "https://…"));
+//   const visible = components.filter((n) => matchesFieldFilter(n, def, filter));
+// =============================================================================
+
+import { format, parseISO } from "date-fns";
+import type { ComponentNode, CustomFieldDef, CustomFieldType, CustomFieldValue } from "../types/architecture";
+
+export const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  "text": "Text",
+  "url": "URL",
+  "number": "Number",
+  "date": "Date",
+  "select": "Single select",
+  "multi-select": "Multi select",
+  "user": "User",
+};
+
+export const FIELD_TYPES = Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[];
+
+export function hasOptions(type: CustomFieldType): boolean {
+  return type === "select" || type === "multi-select";
+}
+
+export function generateFieldDefId(label: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 24);
+  return `cf-${slug || "field"}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+function fitsType(type: CustomFieldType, value: CustomFieldValue): boolean {
+  if (type === "number") return typeof value === "number";
+  if (type === "multi-select") return Array.isArray(value);
+  return typeof value === "string";
+}
+
+/** The node's value for `def`, or undefined when unset, empty or of the wrong type. */
+export function fieldValue(node: ComponentNode, def: CustomFieldDef): CustomFieldValue | undefined {
+  const value = node.customFields?.[def.id];
+  if (value === undefined || !fitsType(def.type, value)) return undefined;
+  if (typeof value === "string" && !value.trim()) return undefined;
+  if (Array.isArray(value) && value.length === 0) return undefined;
+  return value;
+}
+
+/** Node updates setting one field; `undefined` (or an empty value) clears it. */
+export function customFieldUpdates(
+  node: ComponentNode,
+  defId: string,
+  value: CustomFieldValue | undefined,
+): Partial<ComponentNode> {
+  const rest = { ...node.customFields };
+  delete rest[defId];
+  const empty = value === undefined || (typeof value === "string" && !value.trim()) || (Array.isArray(value) && value.length === 0);
+  return { customFields: empty ? rest : { ...rest, [defId]: value } };
+}
+
+/** Display text: "Mar 3, 2026", "Go, Rust", "1,500". `userName` maps an email to a name. */
+export function formatFieldValue(
+  def: CustomFieldDef,
+  value: CustomFieldValue,
+  userName: (email: string) => string | undefined = () => undefined,
+): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "number") return value.toLocaleString();
+  if (def.type === "date") {
+    const d = parseISO(value);
+    return Number.isNaN(d.getTime()) ? value : format(d, "MMM d, yyyy");
+  }
+  if (def.type === "user") return userName(value) ?? value;
+  if (def.type === "url") return value.replace(/^https?:\/\//, "").replace(/\/$/, "");
+  return value;
+}
+
+/** Plain value for export: ISO dates, raw numbers, multi-select joined with "; ". */
+export function exportFieldValue(def: CustomFieldDef, node: ComponentNode): string {
+  const value = fieldValue(node, def);
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join("; ") : String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Filtering
+// ---------------------------------------------------------------------------
+
+/** Show nodes whose `defId` field matches `value`; an empty value matches any filled-in field. */
+export interface CustomFieldFilter {
+  defId: string;
+  value: string;
+}
+
+/** Whether the filter offers a fixed list of values (otherwise it's a text match). */
+export function hasFilterChoices(type: CustomFieldType): boolean {
+  return hasOptions(type) || type === "user";
+}
+
+/** Values to pick from in the filter: the options, or (users) everyone assigned somewhere. */
+export function filterChoices(def: CustomFieldDef, components: ComponentNode[]): string[] {
+  if (hasOptions(def.type)) return def.options ?? [];
+  const used = new Set<string>();
+  for (const node of components) {
+    const value = fieldValue(node, def);
+    if (typeof value === "string") used.add(value);
+  }
+  return [...used].sort();
+}
+
+export function matchesFieldFilter(node: ComponentNode, def: CustomFieldDef, filter: CustomFieldFilter): boolean {
+  const value = fieldValue(node, def);
+  if (value === undefined) return false;
+  const wanted = filter.value.trim();
+  if (!wanted) return true;
+  if (Array.isArray(value)) return value.includes(wanted);
+  if (hasFilterChoices(def.type)) return value === wanted;
+  return String(value).toLowerCase().includes(wanted.toLowerCase());
+}
@@ -0,0 +1,348 @@
+// =============================================================================
+// Diagram export — the architecture as text other tools can render, for
+// design docs and READMEs.
+//
+//   toMermaid()  flowchart syntax (GitHub, Notion, most Markdown renderers)
+//   toDot()      Graphviz DOT
+//   toDrawio()   draw.io / diagrams.net XML
+//
+// All three carry the same information where the format allows it:
+//   - status   → fill + stroke colours matching the canvas, plus a
+//                `status-<status>` class (`status_<status>` in Mermaid)
+//   - tags     → `tag-<label>` classes; draw.io has no classes, so its own
+//                "tags" attribute is used instead
+//   - arrows   → stroke colour + dash per connection type, label, "(async)";
+//                in Mermaid also the arrow itself (`-.-o` for optional)
+//   - groups   → Mermaid subgraph / DOT cluster / draw.io container box
+//   - position → DOT `pos` (honoured by `neato -n`) and draw.io geometry.
+//                Mermaid has no coordinates and lays the chart out itself.
+// =============================================================================
+
+import type { ComponentStatus, Connection, ConnectionType } from "../types/architecture";
+import { CONNECTION_TYPE_STYLES } from "./connections";
+import { groupBounds } from "./groups";
+import { ESTIMATED_NODE_SIZE, nodeRect } from "./viewport";
+import type { DocumentSnapshot } from "./versionDiff";
+
+export type DiagramFormat = "mermaid" | "dot" | "drawio";
+
+export const DIAGRAM_FORMATS: Record<DiagramFormat, { label: string; extension: string; mimeType: string }> = {
+  mermaid: { label: "Mermaid", extension: "mmd", mimeType: "text/plain" },
+  dot:     { label: "Graphviz DOT", extension: "dot", mimeType: "text/vnd.graphviz" },
+  drawio:  { label: "draw.io", extension: "drawio", mimeType: "application/xml" },
+};
+
+/** Canvas colours per status (Tailwind *-50 fill / *-500 border, see ArchitectureNode). */
+export const STATUS_STYLES: Record<ComponentStatus, { fill: string; stroke: string; strokeWidth: number }> = {
+  "built":         { fill: "#f0fdf4", stroke: "#22c55e", strokeWidth: 1 },
+  "in-progress":   { fill: "#fefce8", stroke: "#eab308", strokeWidth: 1 },
+  "planned":       { fill: "#f9fafb", stroke: "#9ca3af", strokeWidth: 1 },
+  "open-question": { fill: "#fef2f2", stroke: "#ef4444", strokeWidth: 2 },
+};
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/** Lower-case, dash-separated class name fragment ("Data Pipeline" → "data-pipeline"). */
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "x";
+}
+
+/** Words Mermaid reads as syntax when used as a node id. */
+const MERMAID_RESERVED = new Set(["end", "graph", "flowchart", "subgraph", "class", "classdef", "style", "linkstyle", "click", "direction"]);
+
+/**
+ * Mermaid-safe node ids. Node ids are usually already safe; anything else is
+ * prefixed, cleaned and de-duplicated.
+ */
+function safeIds(ids: string[]): Map<string, string> {
+  const out = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const id of ids) {
+    const ok = /^[A-Za-z_][A-Za-z0-9_]*$/.test(id) && !MERMAID_RESERVED.has(id.toLowerCase());
+    const base = ok ? id : `n_${id.replace(/[^A-Za-z0-9_]+/g, "_")}`;
+    let safe = base;
+    for (let n = 2; taken.has(safe); n++) safe = `${base}_${n}`;
+    taken.add(safe);
+    out.set(id, safe);
+  }
+  return out;
+}
+
+function tagClasses(snapshot: DocumentSnapshot): Map<string, string> {
+  return new Map(snapshot.data.tags.map((t) => [t.id, `tag-${slug(t.label)}`]));
+}
+
+function edgeLabel(c: Connection): string {
+  return [c.label, c.async ? "(async)" : ""].filter(Boolean).join(" ");
+}
+
+/** Groups with at least one existing member; a node is drawn in its first group only. */
+function groupMembership(snapshot: DocumentSnapshot) {
+  const ids = new Set(snapshot.data.components.map((n) => n.id));
+  const claimed = new Set<string>();
+  return snapshot.data.groups
+    .map((g) => {
+      const members = g.memberIds.filter((id) => ids.has(id) && !claimed.has(id));
+      members.forEach((id) => claimed.add(id));
+      return { group: g, members };
+    })
+    .filter(({ members }) => members.length > 0);
+}
+
+// ---------------------------------------------------------------------------
+// Mermaid
+// ---------------------------------------------------------------------------
+
+/** One arrow per type so the importer can tell them apart — optional ends in a circle. */
+const MERMAID_ARROWS: Record<ConnectionType, string> = {
+  data: "-->",
+  control: "==>",
+  dependency: "-.->",
+  optional: "-.-o",
+};
+
+/** `#` first: Mermaid reads `#…;` as an entity, including the ones added here. */
+function mermaidText(text: string): string {
+  return text.replace(/#/g, "#35;").replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;").replace(/\n/g, " ");
+}
+
+function mermaidClass(name: string): string {
+  return name.replace(/-/g, "_");
+}
+
+export function toMermaid(snapshot: DocumentSnapshot): string {
+  const { components, tags } = snapshot.data;
+  const ids = safeIds(components.map((n) => n.id));
+  const tagClass = tagClasses(snapshot);
+  const lines = ["flowchart TB"];
+
+  const nodeLine = (id: string) => {
+    const node = components.find((n) => n.id === id)!;
+    return `${ids.get(id)}["${mermaidText(node.name)}"]`;
+  };
+
+  const grouped = groupMembership(snapshot);
+  const inGroup = new Set(grouped.flatMap(({ members }) => members));
+  grouped.forEach(({ group, members }, i) => {
+    lines.push(`  subgraph group_${i}["${mermaidText(group.name)}"]`);
+    members.forEach((id) => lines.push(`    ${nodeLine(id)}`));
+    lines.push("  end");
+  });
+  components.filter((n) => !inGroup.has(n.id)).forEach((n) => lines.push(`  ${nodeLine(n.id)}`));
+
+  const edges = snapshot.connections.filter((c) => ids.has(c.from) && ids.has(c.to));
+  edges.forEach((c) => {
+    const label = edgeLabel(c);
+    lines.push(`  ${ids.get(c.from)} ${MERMAID_ARROWS[c.type]}${label ? `|"${mermaidText(label)}"|` : ""} ${ids.get(c.to)}`);
+  });
+  edges.forEach((c, i) => {
+    const style = CONNECTION_TYPE_STYLES[c.type];
+    lines.push(`  linkStyle ${i} stroke:${style.stroke}${style.dasharray ? `,stroke-dasharray:${style.dasharray}` : ""}`);
+  });
+
+  // Tag classes first so the status colours win where both set a property;
+  // the tag classes are there to be restyled by whoever embeds the chart.
+  const usedTags = tags.filter((t) => components.some((n) => n.tags.includes(t.id)));
+  usedTags.forEach((t) => lines.push(`  classDef ${mermaidClass(tagClass.get(t.id)!)} stroke:${t.color}`));
+  (Object.keys(STATUS_STYLES) as ComponentStatus[]).forEach((status) => {
+    const s = STATUS_STYLES[status];
+    lines.push(`  classDef ${mermaidClass(`status-${status}`)} fill:${s.fill},stroke:${s.stroke},stroke-width:${s.strokeWidth}px`);
+  });
+  components.forEach((n) => {
+    const classes = [
+      ...n.tags.flatMap((id) => tagClass.get(id) ?? []),
+      `status-${n.status}`,
+    ].map(mermaidClass);
+    lines.push(`  class ${ids.get(n.id)} ${classes.join(",")}`);
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Graphviz DOT
+// ---------------------------------------------------------------------------
+
+const DOT_STYLES: Record<ConnectionType, string> = {
+  data: "solid",
+  control: "dashed",
+  dependency: "dotted",
+  optional: "dashed",
+};
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function dotAttrs(attrs: Record<string, string | number | undefined>): string {
+  const parts = Object.entries(attrs)
+    .filter(([, v]) => v !== undefined && v !== "")
+    .map(([k, v]) => `${k}=${typeof v === "number" ? v : dotString(v!)}`);
+  return parts.length ? ` [${parts.join(", ")}]` : "";
+}
+
+/** Canvas pixels → DOT points; DOT's y axis points up, so y is flipped. */
+function dotPos(p: { x: number; y: number }): string {
+  const cx = p.x + ESTIMATED_NODE_SIZE.width / 2;
+  const cy = p.y + ESTIMATED_NODE_SIZE.height / 2;
+  return `${Math.round(cx * 0.75)},${Math.round(-cy * 0.75)}!`;
+}
+
+export function toDot(snapshot: DocumentSnapshot): string {
+  const { components } = snapshot.data;
+  const ids = new Set(components.map((n) => n.id));
+  const tagClass = tagClasses(snapshot);
+  const lines = [
+    "// Positions are the canvas layout; render with `neato -n` to keep them,",
+    "// or with `dot` to lay the graph out again.",
+    "digraph architecture {",
+    "  graph [rankdir=TB, fontname=\"Helvetica\"];",
+    `  node [shape=box, style="rounded,filled", fontname="Helvetica", width=${(ESTIMATED_NODE_SIZE.width / 72).toFixed(2)}, height=${(ESTIMATED_NODE_SIZE.height / 72).toFixed(2)}];`,
+    "  edge [fontname=\"Helvetica\", fontsize=10];",
+  ];
+
+  const nodeLine = (id: string, indent: string) => {
+    const node = components.find((n) => n.id === id)!;
+    const s = STATUS_STYLES[node.status];
+    lines.push(`${indent}${dotString(id)}${dotAttrs({
+      label: node.name,
+      fillcolor: s.fill,
+      color: s.stroke,
+      penwidth: s.strokeWidth,
+      class: [`status-${node.status}`, ...node.tags.flatMap((t) => tagClass.get(t) ?? [])].join(" "),
+      tooltip: node.description || undefined,
+      pos: dotPos(node.position),
+    })};`);
+  };
+
+  const grouped = groupMembership(snapshot);
+  const inGroup = new Set(grouped.flatMap(({ members }) => members));
+  grouped.forEach(({ group, members }, i) => {
+    lines.push(`  subgraph cluster_${i} {`);
+    lines.push(`    label=${dotString(group.name)}; color=${dotString(group.color)}; style="rounded";`);
+    members.forEach((id) => nodeLine(id, "    "));
+    lines.push("  }");
+  });
+  components.filter((n) => !inGroup.has(n.id)).forEach((n) => nodeLine(n.id, "  "));
+
+  snapshot.connections
+    .filter((c) => ids.has(c.from) && ids.has(c.to))
+    .forEach((c) => {
+      const style = CONNECTION_TYPE_STYLES[c.type];
+      lines.push(`  ${dotString(c.from)} -> ${dotString(c.to)}${dotAttrs({
+        label: edgeLabel(c) || undefined,
+        color: style.stroke,
+        style: DOT_STYLES[c.type],
+        class: `conn-${c.type}`,
+        tooltip: c.description || undefined,
+      })};`);
+    });
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// draw.io
+// ---------------------------------------------------------------------------
+
+function xmlAttr(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "&#10;");
+}
+
+/** Cell labels are HTML (html=1), so text is escaped once for HTML and again for XML. */
+function drawioLabel(text: string): string {
+  return xmlAttr(text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;"));
+}
+
+function drawioStyle(parts: Record<string, string | number | undefined>): string {
+  return Object.entries(parts)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${v}`)
+    .join(";") + ";";
+}
+
+export function toDrawio(snapshot: DocumentSnapshot): string {
+  const { components, tags } = snapshot.data;
+  const ids = new Set(components.map((n) => n.id));
+  const tagLabels = new Map(tags.map((t) => [t.id, slug(t.label)]));
+  const { width, height } = ESTIMATED_NODE_SIZE;
+  const cells: string[] = [];
+
+  // Group boxes first so they sit behind the nodes
+  groupMembership(snapshot).forEach(({ group, members }, i) => {
+    const bounds = groupBounds(members.map((id) => nodeRect(components.find((n) => n.id === id)!)));
+    if (!bounds) return;
+    cells.push(
+      `<mxCell id="export-group-${i}" value="${drawioLabel(group.name)}" style="${drawioStyle({
+        rounded: 1, whiteSpace: "wrap", html: 1, container: 0, verticalAlign: "top", align: "left", spacingLeft: 8,
+        fillColor: "none", strokeColor: group.color, dashed: 1, fontStyle: 1,
+      })}" vertex="1" parent="1">` +
+      `<mxGeometry x="${Math.round(bounds.x)}" y="${Math.round(bounds.y)}" width="${Math.round(bounds.width)}" height="${Math.round(bounds.height)}" as="geometry"/></mxCell>`
+    );
+  });
+
+  components.forEach((n) => {
+    const s = STATUS_STYLES[n.status];
+    const nodeTags = n.tags.flatMap((t) => tagLabels.get(t) ?? []);
+    const style = drawioStyle({
+      rounded: 1, whiteSpace: "wrap", html: 1,
+      fillColor: s.fill, strokeColor: s.stroke, strokeWidth: s.strokeWidth,
+    });
+    // UserObject carries draw.io's tags plus the status as a custom property
+    cells.push(
+      `<UserObject id="${xmlAttr(n.id)}" label="${drawioLabel(n.name)}" status="${n.status}"` +
+      `${nodeTags.length ? ` tags="${xmlAttr(nodeTags.join(" "))}"` : ""}` +
+      `${n.description ? ` tooltip="${xmlAttr(n.description)}"` : ""}>` +
+      `<mxCell style="${style}" vertex="1" parent="1">` +
+      `<mxGeometry x="${Math.round(n.position.x)}" y="${Math.round(n.position.y)}" width="${width}" height="${height}" as="geometry"/>` +
+      `</mxCell></UserObject>`
+    );
+  });
+
+  snapshot.connections
+    .filter((c) => ids.has(c.from) && ids.has(c.to))
+    .forEach((c) => {
+      const type = CONNECTION_TYPE_STYLES[c.type];
+      const style = drawioStyle({
+        edgeStyle: "orthogonalEdgeStyle", rounded: 1, html: 1,
+        strokeColor: type.stroke,
+        dashed: type.dasharray ? 1 : undefined,
+        dashPattern: type.dasharray,
+        opacity: type.opacity < 1 ? Math.round(type.opacity * 100) : undefined,
+      });
+      cells.push(
+        `<mxCell id="${xmlAttr(c.id)}" value="${drawioLabel(edgeLabel(c))}" style="${style}" edge="1" parent="1" source="${xmlAttr(c.from)}" target="${xmlAttr(c.to)}">` +
+        `<mxGeometry relative="1" as="geometry"/></mxCell>`
+      );
+    });
+
+  return [
+    `<mxfile host="architecture-export">`,
+    `  <diagram name="Architecture" id="architecture">`,
+    `    <mxGraphModel grid="1" gridSize="10" arrows="1" connect="1" page="0">`,
+    `      <root>`,
+    `        <mxCell id="0"/>`,
+    `        <mxCell id="1" parent="0"/>`,
+    ...cells.map((c) => `        ${c}`),
+    `      </root>`,
+    `    </mxGraphModel>`,
+    `  </diagram>`,
+    `</mxfile>`,
+  ].join("\n") + "\n";
+}
+
+export function exportDiagram(format: DiagramFormat, snapshot: DocumentSnapshot): string {
+  switch (format) {
+    case "mermaid": return toMermaid(snapshot);
+    case "dot": return toDot(snapshot);
+    case "drawio": return toDrawio(snapshot);
+  }
+}
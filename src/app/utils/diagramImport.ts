@@ -0,0 +1,612 @@
+// =============================================================================
+// Diagram import — Mermaid flowchart or Graphviz DOT source → nodes + arrows.
+//
+//   const parsed = parseDiagram(text);          // format auto-detected
+//   const result = planDiagramImport(parsed, { data, connections });
+//   // result.plan is an ImportPlan (utils/importPlan.ts) App applies as usual
+//
+// Parsing keeps only what the map can hold: node ids and labels, arrows and
+// their labels. Classes written by utils/diagramExport.ts are read back
+// (status-*, tag-*, conn-*; `_` or `-` separated) so an exported diagram
+// round-trips, as are Mermaid's per-type arrows (`==>` control, `-.->`
+// dependency, `-.-o` optional); everything else (shapes, styles, subgraphs)
+// is ignored.
+//
+// Pasted nodes are matched to the map by id, then by name (case and spacing
+// insensitive). Matched nodes are reused as they are; only unmatched nodes are
+// created, laid out with computeLayeredLayout() below the existing content.
+// =============================================================================
+
+import type { ComponentNode, ComponentStatus, Connection, ConnectionType } from "../types/architecture";
+import { computeLayeredLayout, type LayoutDirection } from "./autoLayout";
+import { CONNECTION_TYPES, generateConnectionId } from "./connections";
+import type { ImportPlan } from "./importPlan";
+import { ESTIMATED_NODE_SIZE, nodeRect, unionRects } from "./viewport";
+import type { DocumentSnapshot } from "./versionDiff";
+
+export type DiagramSource = "mermaid" | "dot";
+
+export interface ParsedNode {
+  id: string;
+  label: string;
+  classes: string[];
+}
+
+export interface ParsedEdge {
+  from: string;
+  to: string;
+  label?: string;
+  type: ConnectionType;
+  async?: boolean;
+}
+
+export interface ParsedDiagram {
+  format: DiagramSource;
+  direction: LayoutDirection;
+  nodes: ParsedNode[];
+  edges: ParsedEdge[];
+  /** Lines (1-based) that couldn't be read; the rest of the source still is. */
+  errors: { line: number; message: string }[];
+}
+
+const STATUSES: ComponentStatus[] = ["built", "in-progress", "planned", "open-question"];
+
+// ---------------------------------------------------------------------------
+// Shared parse state
+// ---------------------------------------------------------------------------
+
+class DiagramBuilder {
+  private nodes = new Map<string, ParsedNode>();
+  edges: ParsedEdge[] = [];
+  errors: ParsedDiagram["errors"] = [];
+
+  /** Declare or reference a node; a later label replaces the id placeholder. */
+  node(id: string, label?: string): ParsedNode {
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, label: id, classes: [] };
+      this.nodes.set(id, node);
+    }
+    if (label !== undefined && label.trim()) node.label = label.trim();
+    return node;
+  }
+
+  addClasses(id: string, classes: string[]) {
+    const node = this.node(id);
+    classes.forEach((c) => { if (c && !node.classes.includes(c)) node.classes.push(c); });
+  }
+
+  edge(from: string, to: string, type: ConnectionType, rawLabel?: string) {
+    this.node(from);
+    this.node(to);
+    let label = rawLabel?.trim();
+    const async = !!label && /\(async\)$/i.test(label);
+    if (async) label = label!.replace(/\s*\(async\)$/i, "");
+    this.edges.push({ from, to, type, ...(label ? { label } : {}), ...(async ? { async } : {}) });
+  }
+
+  build(format: DiagramSource, direction: LayoutDirection): ParsedDiagram {
+    return { format, direction, nodes: [...this.nodes.values()], edges: this.edges, errors: this.errors };
+  }
+}
+
+function connTypeFromClass(cls: string): ConnectionType | null {
+  const m = /^conn[-_](.+)$/.exec(cls);
+  const type = m?.[1].replace(/_/g, "-");
+  return type && (CONNECTION_TYPES as string[]).includes(type) ? (type as ConnectionType) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Mermaid flowchart
+// ---------------------------------------------------------------------------
+
+const MERMAID_ID = /^[A-Za-z0-9_][\w.-]*/;
+/** Opening → closing bracket pairs, longest first so `((` wins over `(`. */
+const MERMAID_SHAPES: [string, string][] = [
+  ["(((", ")))"], ["([", "])"], ["[[", "]]"], ["[(", ")]"], ["((", "))"], ["{{", "}}"],
+  ["[/", "/]"], ["[\\", "\\]"], ["[/", "\\]"], ["[\\", "/]"],
+  ["[", "]"], ["(", ")"], ["{", "}"], [">", "]"],
+];
+/** `A -- text --> B` / `A -. text .-> B` / `A == text ==> B` */
+const MERMAID_TEXT_LINK = /^\s*(--|==|-\.)\s*([^\s>.=-][^]*?)\s*(-{2,}[>ox]|-{3,}|={2,}>|={3,}|\.-+>|\.-)/;
+/** `-->`, `---`, `-.->`, `==>`, `<-->`, `--o`, … with an optional `|label|` or `|"label"|` */
+const MERMAID_LINK = /^\s*<?((?:-{2,}|={2,}|-\.+-)[>ox]?)\s*(?:\|(\s*"[^"]*"\s*|[^|]*)\|)?/;
+
+/** Named entities first, then numeric ones — `#35;` (an escaped `#`) may be followed by what looks like a name. */
+function mermaidUnquote(text: string): string {
+  const t = text.trim();
+  const inner = t.startsWith('"') && t.endsWith('"') && t.length >= 2 ? t.slice(1, -1) : t;
+  return inner
+    .replace(/#quot;/g, '"').replace(/#lt;/g, "<").replace(/#gt;/g, ">").replace(/#amp;/g, "&")
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/<br\s*\/?>/gi, " ");
+}
+
+/** `stroke` is the link up to its head (`-.-o`), or the opening of a text link (`-.`). */
+function mermaidLinkType(stroke: string): ConnectionType {
+  if (stroke.startsWith("=")) return "control";
+  if (stroke.includes(".")) return stroke.endsWith("o") ? "optional" : "dependency";
+  return "data";
+}
+
+/** What one statement declares; applied only once the whole statement parsed. */
+interface MermaidStatement {
+  nodes: { id: string; label?: string; cls?: string }[];
+  edges: { from: string; to: string; type: ConnectionType; label?: string }[];
+}
+
+/** Reads `id[label]:::cls` at the start of `src`; returns the node id and the rest. */
+function readMermaidNode(src: string, out: MermaidStatement): { id: string; rest: string } | null {
+  const s = src.trimStart();
+  const idMatch = MERMAID_ID.exec(s);
+  if (!idMatch) return null;
+  // "A---B": the id pattern allows "-", so stop before a link
+  let id = idMatch[0];
+  const linkAt = id.search(/--|==|-\./);
+  if (linkAt > 0) id = id.slice(0, linkAt);
+  let rest = s.slice(id.length);
+
+  let label: string | undefined;
+  const openers = MERMAID_SHAPES.filter(([open]) => rest.startsWith(open));
+  for (const [open, close] of openers) {
+    const body = rest.slice(open.length);
+    // A quoted label may contain the closing bracket
+    const end = body.trimStart().startsWith('"')
+      ? body.indexOf(close, body.indexOf('"', body.indexOf('"') + 1))
+      : body.indexOf(close);
+    if (end === -1) continue;
+    label = mermaidUnquote(body.slice(0, end));
+    rest = body.slice(end + close.length);
+    break;
+  }
+  if (openers.length > 0 && label === undefined) return null;
+
+  const cls = /^:::([\w-]+)/.exec(rest);
+  if (cls) rest = rest.slice(cls[0].length);
+  out.nodes.push({ id, label, cls: cls?.[1] });
+  return { id, rest };
+}
+
+/** `A & B` */
+function readMermaidGroup(src: string, out: MermaidStatement): { ids: string[]; rest: string } | null {
+  const ids: string[] = [];
+  let rest = src;
+  for (;;) {
+    const node = readMermaidNode(rest, out);
+    if (!node) return null;
+    ids.push(node.id);
+    rest = node.rest;
+    const amp = /^\s*&/.exec(rest);
+    if (!amp) return { ids, rest };
+    rest = rest.slice(amp[0].length);
+  }
+}
+
+function parseMermaidStatement(stmt: string, b: DiagramBuilder): boolean {
+  const classStmt = /^class\s+([\w.,\s-]+?)\s+([\w,-]+)\s*$/.exec(stmt);
+  if (classStmt) {
+    const classes = classStmt[2].split(",");
+    classStmt[1].split(",").forEach((id) => b.addClasses(id.trim(), classes));
+    return true;
+  }
+  if (/^(classDef|style|linkStyle|click|direction|end|subgraph|accTitle|accDescr)\b/.test(stmt)) return true;
+
+  const out: MermaidStatement = { nodes: [], edges: [] };
+  let group = readMermaidGroup(stmt, out);
+  if (!group) return false;
+  let rest = group.rest;
+  while (rest.trim()) {
+    const text = MERMAID_TEXT_LINK.exec(rest);
+    const link = text ?? MERMAID_LINK.exec(rest);
+    if (!link) return false;
+    const type = mermaidLinkType(text ? text[1] : link[1]);
+    const label = link[2] !== undefined ? mermaidUnquote(link[2]) : undefined;
+    const next = readMermaidGroup(rest.slice(link[0].length), out);
+    if (!next) return false;
+    for (const from of group.ids) for (const to of next.ids) out.edges.push({ from, to, type, label });
+    group = next;
+    rest = next.rest;
+  }
+
+  out.nodes.forEach(({ id, label, cls }) => {
+    b.node(id, label);
+    if (cls) b.addClasses(id, [cls]);
+  });
+  out.edges.forEach((e) => b.edge(e.from, e.to, e.type, e.label));
+  return true;
+}
+
+/** Split a line on `;`, except inside quotes and in `#quot;`-style escapes. */
+function splitMermaidStatements(line: string): string[] {
+  const out: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') quoted = !quoted;
+    if (ch === ";" && !quoted && !/#\w+$/.test(current)) {
+      out.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  out.push(current);
+  return out.map((stmt) => stmt.trim()).filter(Boolean);
+}
+
+export function parseMermaid(source: string): ParsedDiagram {
+  const b = new DiagramBuilder();
+  let direction: LayoutDirection = "TB";
+  let sawHeader = false;
+
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/%%.*$/, "").trim();
+    if (!line) return;
+    if (!sawHeader) {
+      const header = /^(flowchart|graph)(?:\s+(TB|TD|BT|LR|RL))?\s*;?\s*$/i.exec(line);
+      if (header) {
+        sawHeader = true;
+        direction = /LR|RL/i.test(header[2] ?? "") ? "LR" : "TB";
+        return;
+      }
+      b.errors.push({ line: i + 1, message: "Expected `flowchart TB` (or graph LR, …) first" });
+      sawHeader = true;
+    }
+    for (const stmt of splitMermaidStatements(line)) {
+      if (!parseMermaidStatement(stmt, b)) b.errors.push({ line: i + 1, message: `Couldn't read "${stmt}"` });
+    }
+  });
+
+  return b.build("mermaid", direction);
+}
+
+// ---------------------------------------------------------------------------
+// Graphviz DOT
+// ---------------------------------------------------------------------------
+
+interface DotToken {
+  kind: "id" | "punct";
+  text: string;
+  line: number;
+}
+
+function tokenizeDot(source: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\n") { line++; i++; continue; }
+    if (/\s/.test(ch)) { i++; continue; }
+    if (source.startsWith("//", i) || (ch === "#" && (i === 0 || source[i - 1] === "\n"))) {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+    if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      line += (source.slice(i, stop).match(/\n/g) ?? []).length;
+      i = stop;
+      continue;
+    }
+    if (ch === '"') {
+      let text = "";
+      const start = line;
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const next = source[i + 1];
+          text += next === "n" || next === "l" || next === "r" ? "\n" : next === "\n" ? "" : next;
+          if (next === "\n") line++;
+          i += 2;
+          continue;
+        }
+        if (source[i] === "\n") line++;
+        text += source[i++];
+      }
+      i++;
+      tokens.push({ kind: "id", text, line: start });
+      continue;
+    }
+    if (ch === "<") {
+      // HTML label: keep the text, drop the markup
+      let depth = 0;
+      const start = i;
+      do {
+        if (source[i] === "<") depth++;
+        else if (source[i] === ">") depth--;
+        else if (source[i] === "\n") line++;
+        i++;
+      } while (i < source.length && depth > 0);
+      tokens.push({ kind: "id", text: source.slice(start + 1, i - 1).replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim(), line });
+      continue;
+    }
+    const two = source.slice(i, i + 2);
+    if (two === "->" || two === "--") {
+      tokens.push({ kind: "punct", text: two, line });
+      i += 2;
+      continue;
+    }
+    if ("{}[]=;,:".includes(ch)) {
+      tokens.push({ kind: "punct", text: ch, line });
+      i++;
+      continue;
+    }
+    const word = /^(-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(i));
+    if (!word) throw Object.assign(new Error(`Unexpected "${ch}"`), { line });
+    tokens.push({ kind: "id", text: word[0], line });
+    i += word[0].length;
+  }
+  return tokens;
+}
+
+class DotParser {
+  private pos = 0;
+  direction: LayoutDirection = "TB";
+
+  constructor(private tokens: DotToken[], private b: DiagramBuilder) {}
+
+  private peek(offset = 0) { return this.tokens[this.pos + offset]; }
+  private isPunct(text: string, offset = 0) {
+    const t = this.peek(offset);
+    return !!t && t.kind === "punct" && t.text === text;
+  }
+  private isKeyword(word: string) {
+    const t = this.peek();
+    return !!t && t.kind === "id" && t.text.toLowerCase() === word;
+  }
+  private fail(message: string): never {
+    throw Object.assign(new Error(message), { line: this.peek()?.line ?? this.tokens[this.tokens.length - 1]?.line ?? 1 });
+  }
+  private expect(text: string) {
+    if (!this.isPunct(text)) this.fail(`Expected "${text}"`);
+    this.pos++;
+  }
+  private id(): string {
+    const t = this.peek();
+    if (!t || t.kind !== "id") this.fail("Expected a name");
+    this.pos++;
+    return t.text;
+  }
+
+  graph() {
+    if (this.isKeyword("strict")) this.pos++;
+    if (!this.isKeyword("digraph") && !this.isKeyword("graph")) this.fail("Expected `digraph` or `graph`");
+    this.pos++;
+    if (!this.isPunct("{")) this.id();
+    this.block();
+  }
+
+  /** `{ stmt* }` — returns the node ids mentioned inside (for subgraph edges). */
+  private block(): string[] {
+    this.expect("{");
+    const ids: string[] = [];
+    while (!this.isPunct("}")) {
+      if (!this.peek()) this.fail('Missing "}"');
+      ids.push(...this.statement());
+      if (this.isPunct(";") || this.isPunct(",")) this.pos++;
+    }
+    this.pos++;
+    return ids;
+  }
+
+  private attrs(): Record<string, string> {
+    const out: Record<string, string> = {};
+    while (this.isPunct("[")) {
+      this.pos++;
+      while (!this.isPunct("]")) {
+        const key = this.id();
+        if (this.isPunct("=")) {
+          this.pos++;
+          out[key] = this.id();
+        }
+        if (this.isPunct(",") || this.isPunct(";")) this.pos++;
+      }
+      this.pos++;
+    }
+    return out;
+  }
+
+  private statement(): string[] {
+    if (this.isKeyword("node") || this.isKeyword("edge")) {
+      this.pos++;
+      this.attrs();
+      return [];
+    }
+    if (this.isKeyword("graph") && this.isPunct("[", 1)) {
+      this.pos++;
+      const attrs = this.attrs();
+      if (attrs.rankdir) this.direction = /LR|RL/i.test(attrs.rankdir) ? "LR" : "TB";
+      return [];
+    }
+    if (this.peek()?.kind === "id" && this.isPunct("=", 1)) {
+      const key = this.id();
+      this.pos++;
+      const value = this.id();
+      if (key === "rankdir") this.direction = /LR|RL/i.test(value) ? "LR" : "TB";
+      return [];
+    }
+
+    // Node or edge chain; operands are node ids or subgraphs
+    const first = this.operand();
+    const chain: string[][] = [first.ids];
+    while (this.isPunct("->") || this.isPunct("--")) {
+      this.pos++;
+      chain.push(this.operand().ids);
+    }
+    const attrs = this.attrs();
+    if (chain.length === 1) {
+      if (!first.subgraph) {
+        this.b.node(first.ids[0], attrs.label);
+        if (attrs.class) this.b.addClasses(first.ids[0], attrs.class.split(/\s+/));
+      }
+      return first.ids;
+    }
+    const type = (attrs.class ?? "").split(/\s+/).map(connTypeFromClass).find(Boolean)
+      ?? (attrs.style === "dotted" ? "dependency" : attrs.style === "dashed" ? "control" : "data");
+    for (let i = 1; i < chain.length; i++) {
+      for (const from of chain[i - 1]) for (const to of chain[i]) this.b.edge(from, to, type, attrs.label);
+    }
+    return chain.flat();
+  }
+
+  private operand(): { ids: string[]; subgraph: boolean } {
+    if (this.isKeyword("subgraph") || this.isPunct("{")) {
+      if (this.isKeyword("subgraph")) {
+        this.pos++;
+        if (!this.isPunct("{")) this.id();
+      }
+      return { ids: this.block(), subgraph: true };
+    }
+    const id = this.id();
+    // node:port[:compass]
+    while (this.isPunct(":")) {
+      this.pos++;
+      this.id();
+    }
+    this.b.node(id);
+    return { ids: [id], subgraph: false };
+  }
+}
+
+export function parseDot(source: string): ParsedDiagram {
+  const b = new DiagramBuilder();
+  let direction: LayoutDirection = "TB";
+  try {
+    const parser = new DotParser(tokenizeDot(source), b);
+    parser.graph();
+    direction = parser.direction;
+  } catch (e) {
+    b.errors.push({ line: (e as { line?: number }).line ?? 1, message: (e as Error).message });
+  }
+  return b.build("dot", direction);
+}
+
+// ---------------------------------------------------------------------------
+// Detection + matching against the map
+// ---------------------------------------------------------------------------
+
+export function detectDiagramFormat(source: string): DiagramSource | null {
+  const first = source.replace(/^\s*(?:%%.*\n\s*)*/, "").replace(/^\s*(?:(?:\/\/|#).*\n\s*|\/\*[^]*?\*\/\s*)*/, "");
+  if (/^(flowchart|graph)(\s+(TB|TD|BT|LR|RL))?\s*(;|\n|$)/i.test(first)) return "mermaid";
+  if (/^(strict\s+)?(di)?graph\b[^\n]*\{/i.test(first)) return "dot";
+  return null;
+}
+
+export function parseDiagram(source: string): ParsedDiagram | null {
+  const format = detectDiagramFormat(source);
+  if (format === "mermaid") return parseMermaid(source);
+  if (format === "dot") return parseDot(source);
+  return null;
+}
+
+export interface DiagramImportPreview {
+  /** Pasted node id → existing node it was matched to. */
+  matched: { parsed: ParsedNode; existing: ComponentNode }[];
+  created: ComponentNode[];
+  /** Arrows the map already has (same ends and type). */
+  duplicateEdges: ParsedEdge[];
+  plan: ImportPlan;
+}
+
+function normalizeName(text: string): string {
+  return text.toLowerCase().replace(/[\s_-]+/g, " ").trim();
+}
+
+function nodeIdFor(name: string, taken: Set<string>): string {
+  const base = name.toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "") || "node";
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+export function planDiagramImport(parsed: ParsedDiagram, current: DocumentSnapshot): DiagramImportPreview {
+  const existing = current.data.components;
+  const byId = new Map(existing.map((n) => [n.id, n]));
+  const byName = new Map(existing.map((n) => [normalizeName(n.name), n]));
+  const tagsBySlug = new Map(current.data.tags.map((t) => [`tag-${t.label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}`, t.id]));
+  const taken = new Set(existing.map((n) => n.id));
+  const now = new Date();
+
+  const matched: DiagramImportPreview["matched"] = [];
+  const created: ComponentNode[] = [];
+  const resolved = new Map<string, string>();
+
+  for (const p of parsed.nodes) {
+    const hit = byId.get(p.id) ?? byName.get(normalizeName(p.label)) ?? byName.get(normalizeName(p.id));
+    if (hit) {
+      matched.push({ parsed: p, existing: hit });
+      resolved.set(p.id, hit.id);
+      continue;
+    }
+    const classes = p.classes.map((c) => c.replace(/_/g, "-"));
+    const status = STATUSES.find((s) => classes.includes(`status-${s}`)) ?? "planned";
+    const node: ComponentNode = {
+      id: nodeIdFor(p.label, taken),
+      name: p.label,
+      description: "",
+      status,
+      inputs: [],
+      outputs: [],
+      lastUpdated: now,
+      tags: classes.flatMap((c) => tagsBySlug.get(c) ?? []),
+      comments: [],
+      position: { x: 0, y: 0 },
+      layer: 0,
+    };
+    created.push(node);
+    resolved.set(p.id, node.id);
+  }
+
+  const seen = new Set(current.connections.map((c) => `${c.from}->${c.to}:${c.type}`));
+  const duplicateEdges: ParsedEdge[] = [];
+  const putConnections: Connection[] = [];
+  for (const e of parsed.edges) {
+    const from = resolved.get(e.from)!;
+    const to = resolved.get(e.to)!;
+    if (from === to) continue;
+    const key = `${from}->${to}:${e.type}`;
+    if (seen.has(key)) {
+      duplicateEdges.push(e);
+      continue;
+    }
+    seen.add(key);
+    putConnections.push({
+      id: generateConnectionId(),
+      from,
+      to,
+      type: e.type,
+      ...(e.label ? { label: e.label } : {}),
+      ...(e.async ? { async: true } : {}),
+    });
+  }
+
+  // New nodes get their own layered layout, placed below the current map
+  const content = unionRects(existing.map((n) => nodeRect(n)));
+  const layout = computeLayeredLayout(created, putConnections, {
+    direction: parsed.direction,
+    getNodeSize: () => ESTIMATED_NODE_SIZE,
+    origin: content ? { x: content.x, y: content.y + content.height + 160 } : { x: 100, y: 100 },
+  });
+  const laidOut = created.map((n) => {
+    const placed = layout.get(n.id);
+    return placed ? { ...n, position: placed.position, layer: placed.layer } : n;
+  });
+
+  return {
+    matched,
+    created: laidOut,
+    duplicateEdges,
+    plan: {
+      addNodes: laidOut,
+      updateNodes: new Map(),
+      removeNodeIds: [],
+      putConnections,
+      removeConnectionIds: [],
+      putTags: [],
+      removeTagIds: [],
+    },
+  };
+}
@@ -0,0 +1,603 @@
+// =============================================================================
+// Document schema — the one loader for architecture data from anywhere:
+// exported files, the localStorage cache, Supabase rows and saved versions.
+//
+// Exports carry `schemaVersion`. Anything older (or unversioned) is first
+// migrated step by step up to SCHEMA_VERSION, then every entity is validated
+// against the ArchitectureData shape. Problems are collected as
+// ValidationIssues with a path ("components[3] “Policy Checker”.status") so
+// the import dialog can list them all at once instead of failing on the first.
+//
+// strict  — file import: any invalid item rejects the whole document.
+// lenient — cache / server: invalid items are dropped (and logged), the rest
+//           loads, so one bad row can't take down the map. Within an item,
+//           a bad comment, task or tag id is dropped rather than the item.
+//
+// In both modes a reference to a missing node or tag is pruned and reported,
+// not fatal: the app's own state can briefly hold one, and so can its exports.
+//
+// Version history:
+//   1  pre-versioning exports: `{ data, connections, exportedAt }`. Nodes may
+//      carry `blocker` (now `blockers`) and `workDone` / `inDevelopment`
+//      (now a seed weekly update); arrows may lack id / type; `groups`,
+//      `milestones` or `tags` may be missing.
+//   2  no `fieldDefs` (admin-defined custom fields).
+//   3  no `workflows` (admin-set status workflow).
+//   4  current.
+//
+// Usage:
+//   const result = loadDocument(JSON.parse(text), { strict: true });
+//   if (!result.ok) showReport(result.issues);
+//   const node = loadComponent(row.body);   // single Supabase row, or null
+//   download(JSON.stringify(toExportFile(snapshot)));
+// =============================================================================
+
+import type {
+  ArchitectureData,
+  Comment,
+  CommentEdit,
+  ComponentNode,
+  ComponentStatus,
+  Connection,
+  CustomFieldDef,
+  CustomFieldType,
+  CustomFieldValue,
+  MilestoneView,
+  NodeGroup,
+  NodeTask,
+  StatusTransition,
+  StatusWorkflow,
+  Tag,
+  WeeklyUpdate,
+} from "../types/architecture";
+import { CONNECTION_TYPES, normalizeConnections } from "./connections";
+import type { DocumentSnapshot } from "./versionDiff";
+
+export const SCHEMA_VERSION = 4;
+
+export interface ExportFile extends DocumentSnapshot {
+  schemaVersion: number;
+  exportedAt: string;
+}
+
+export interface ValidationIssue {
+  /** Where in the document, e.g. `components[3] “Policy Checker”.status`. */
+  path: string;
+  message: string;
+}
+
+export type LoadResult =
+  | { ok: true; snapshot: DocumentSnapshot; fromVersion: number; issues: ValidationIssue[] }
+  | { ok: false; fromVersion: number | null; issues: ValidationIssue[] };
+
+const STATUSES: ComponentStatus[] = ["built", "in-progress", "planned", "open-question"];
+const COMMENT_STATUSES: Comment["status"][] = ["open", "answered", "parked"];
+const FIELD_TYPES: CustomFieldType[] = ["text", "url", "number", "date", "select", "multi-select", "user"];
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => !!v && typeof v === "object" && !Array.isArray(v);
+const list = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+// ---------------------------------------------------------------------------
+// Migrations — MIGRATIONS[n] turns a version-n document into version n + 1
+// ---------------------------------------------------------------------------
+
+interface RawDocument {
+  data: Raw;
+  connections: unknown;
+}
+
+/** v1 node fields → their current names. Safe to run on an already-current node. */
+function migrateLegacyComponent(raw: unknown): unknown {
+  if (!isObject(raw)) return raw;
+  const { blocker, workDone, inDevelopment, ...node } = raw;
+
+  if (typeof blocker === "string" && blocker.trim() && !node.blockers) node.blockers = blocker;
+
+  if (list(node.weeklyUpdates).length === 0) {
+    const parts: string[] = [];
+    if (typeof workDone === "string" && workDone.trim()) parts.push("## Work Done\n" + workDone.trim());
+    if (typeof inDevelopment === "string" && inDevelopment.trim()) parts.push("## In Development\n" + inDevelopment.trim());
+    // Fixed id and date so every client migrating the same row agrees
+    if (parts.length > 0) node.weeklyUpdates = [{ id: `wu-${String(node.id)}-legacy`, date: "2026-02-12", text: parts.join("\n\n") }];
+  }
+
+  node.description ??= "";
+  node.inputs ??= [];
+  node.outputs ??= [];
+  node.tags ??= [];
+  node.comments ??= [];
+  return node;
+}
+
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  1: ({ data, connections }) => ({
+    data: {
+      ...data,
+      components: list(data.components).map(migrateLegacyComponent),
+      tags: data.tags ?? [],
+      milestones: data.milestones ?? [],
+      groups: data.groups ?? [],
+    },
+    connections: normalizeConnections(connections),
+  }),
+  2: ({ data, connections }) => ({
+    data: { ...data, fieldDefs: data.fieldDefs ?? [] },
+    connections,
+  }),
+  3: ({ data, connections }) => ({
+    data: { ...data, workflows: data.workflows ?? [] },
+    connections,
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Collects the issues of one entity. With a `dropped` list it is lenient:
+ * an invalid entry inside a list or map (one comment, one task, one tag id)
+ * is left out and noted there, instead of failing the whole entity.
+ */
+class Checker {
+  constructor(
+    private path: string,
+    readonly issues: ValidationIssue[] = [],
+    private dropped: ValidationIssue[] | null = null,
+  ) {}
+
+  /** Checker for a nested object; its issues land in this one's list. */
+  at(field: string): Checker {
+    return new Checker(`${this.path}.${field}`, this.issues, this.dropped);
+  }
+
+  fail(field: string | null, message: string) {
+    this.issues.push({ path: field ? `${this.path}.${field}` : this.path, message });
+  }
+
+  /** An invalid entry of a list or map: left out when lenient, an issue otherwise. */
+  reject(field: string, message: string) {
+    if (this.dropped) this.dropped.push({ path: `${this.path}.${field}`, message: `${message} — left out` });
+    else this.fail(field, message);
+  }
+
+  string(raw: Raw, field: string, { optional = false, nonEmpty = false } = {}): string | undefined {
+    const v = raw[field];
+    if (v === undefined || v === null) {
+      if (!optional) this.fail(field, "is missing");
+      return undefined;
+    }
+    if (typeof v !== "string") this.fail(field, `should be text, got ${describe(v)}`);
+    else if (nonEmpty && !v.trim()) this.fail(field, "is empty");
+    return typeof v === "string" ? v : undefined;
+  }
+
+  strings(raw: Raw, field: string): string[] {
+    const v = raw[field];
+    if (!Array.isArray(v)) {
+      this.fail(field, `should be a list of text, got ${describe(v)}`);
+      return [];
+    }
+    v.forEach((item, i) => { if (typeof item !== "string") this.reject(`${field}[${i}]`, `should be text, got ${describe(item)}`); });
+    return v.filter((item): item is string => typeof item === "string");
+  }
+
+  number(raw: Raw, field: string): number {
+    const v = raw[field];
+    if (typeof v !== "number" || !Number.isFinite(v)) this.fail(field, `should be a number, got ${describe(v)}`);
+    return typeof v === "number" ? v : 0;
+  }
+
+  boolean(raw: Raw, field: string): boolean | undefined {
+    const v = raw[field];
+    if (v !== undefined && typeof v !== "boolean") this.fail(field, `should be true or false, got ${describe(v)}`);
+    return typeof v === "boolean" ? v : undefined;
+  }
+
+  date(raw: Raw, field: string): Date {
+    const v = raw[field];
+    const d = v instanceof Date ? v : typeof v === "string" || typeof v === "number" ? new Date(v) : null;
+    if (!d || Number.isNaN(d.getTime())) this.fail(field, `should be a date, got ${describe(v)}`);
+    return d ?? new Date(NaN);
+  }
+
+  oneOf<T extends string>(raw: Raw, field: string, allowed: readonly T[]): T {
+    const v = raw[field];
+    if (!allowed.includes(v as T)) this.fail(field, `should be one of ${allowed.join(", ")}; got ${describe(v)}`);
+    return v as T;
+  }
+
+  /** Validate each item with `check`, under `field[i]` paths. Lenient: invalid items are left out. */
+  each<T>(raw: Raw, field: string, check: (item: unknown, c: Checker) => T): T[] {
+    const v = raw[field];
+    if (!Array.isArray(v)) {
+      this.fail(field, `should be a list, got ${describe(v)}`);
+      return [];
+    }
+    return v.flatMap((item, i) => {
+      if (!this.dropped) return [check(item, this.at(`${field}[${i}]`))];
+      const c = new Checker(`${this.path}.${field}[${i}]`, [], this.dropped);
+      const checked = check(item, c);
+      if (c.issues.length === 0) return [checked];
+      this.dropped.push(...c.issues.map((issue) => ({ ...issue, message: `${issue.message} — item left out` })));
+      return [];
+    });
+  }
+}
+
+function describe(v: unknown): string {
+  if (v === undefined) return "nothing";
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "a list";
+  if (typeof v === "string") return v.length > 40 ? `"${v.slice(0, 40)}…"` : `"${v}"`;
+  if (typeof v === "object") return "an object";
+  return String(v);
+}
+
+/** `components[3] “Policy Checker”` — the name makes the report readable. */
+function itemPath(collection: string, i: number, raw: unknown): string {
+  const name = isObject(raw) && typeof raw.name === "string" ? raw.name : isObject(raw) && typeof raw.label === "string" ? raw.label : null;
+  return name ? `${collection}[${i}] “${name}”` : `${collection}[${i}]`;
+}
+
+function checkCommentEdit(raw: unknown, c: Checker): CommentEdit {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as CommentEdit; }
+  return { ...raw, text: c.string(raw, "text") ?? "", at: c.string(raw, "at") ?? "", by: c.string(raw, "by") ?? "" };
+}
+
+function checkComment(raw: unknown, c: Checker): Comment {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as Comment; }
+  c.string(raw, "parentId", { optional: true });
+  c.string(raw, "answerId", { optional: true });
+  if (raw.reactions !== undefined) {
+    if (!isObject(raw.reactions)) c.fail("reactions", `should be an object, got ${describe(raw.reactions)}`);
+    else for (const emoji of Object.keys(raw.reactions)) c.at("reactions").strings(raw.reactions, emoji);
+  }
+  if (raw.edits !== undefined) c.each(raw, "edits", checkCommentEdit);
+  return {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    text: c.string(raw, "text") ?? "",
+    author: c.string(raw, "author") ?? "",
+    timestamp: c.date(raw, "timestamp"),
+    mentions: raw.mentions === undefined ? [] : c.strings(raw, "mentions"),
+    status: c.oneOf(raw, "status", COMMENT_STATUSES),
+  } as Comment;
+}
+
+function checkWeeklyUpdate(raw: unknown, c: Checker): WeeklyUpdate {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as WeeklyUpdate; }
+  const date = c.string(raw, "date");
+  if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) c.fail("date", `should look like 2026-02-12, got ${describe(date)}`);
+  return { ...raw, id: c.string(raw, "id", { nonEmpty: true })!, date: date ?? "", text: c.string(raw, "text") ?? "" };
+}
+
+function checkStatusTransition(raw: unknown, c: Checker): StatusTransition {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as StatusTransition; }
+  const at = c.string(raw, "at");
+  if (at !== undefined && Number.isNaN(new Date(at).getTime())) c.fail("at", `should be a timestamp, got ${describe(at)}`);
+  c.string(raw, "note", { optional: true });
+  return {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    from: raw.from === null ? null : c.oneOf(raw, "from", STATUSES),
+    to: c.oneOf(raw, "to", STATUSES),
+    at: at ?? "",
+    by: c.string(raw, "by") ?? "",
+  } as StatusTransition;
+}
+
+function checkTask(raw: unknown, c: Checker): NodeTask {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as NodeTask; }
+  const due = c.string(raw, "due", { optional: true });
+  if (due !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(due)) c.fail("due", `should look like 2026-02-12, got ${describe(due)}`);
+  c.string(raw, "assignee", { optional: true });
+  c.string(raw, "doneAt", { optional: true });
+  return {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    title: c.string(raw, "title") ?? "",
+    done: c.boolean(raw, "done") ?? false,
+  } as NodeTask;
+}
+
+/** Values keyed by field definition id. Unknown ids are kept — the definition may come back via undo. */
+function checkCustomFields(raw: unknown, c: Checker): Record<string, CustomFieldValue> {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return {}; }
+  const values: Record<string, CustomFieldValue> = {};
+  for (const [id, v] of Object.entries(raw)) {
+    const ok = typeof v === "string"
+      || (typeof v === "number" && Number.isFinite(v))
+      || (Array.isArray(v) && v.every((item) => typeof item === "string"));
+    if (ok) values[id] = v as CustomFieldValue;
+    else c.reject(id, `should be text, a number or a list of text, got ${describe(v)}`);
+  }
+  return values;
+}
+
+function checkComponent(raw: unknown, c: Checker): ComponentNode {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as ComponentNode; }
+  const position = raw.position;
+  let x = 0, y = 0;
+  if (!isObject(position)) c.fail("position", `should be { x, y }, got ${describe(position)}`);
+  else { x = c.at("position").number(position, "x"); y = c.at("position").number(position, "y"); }
+
+  const node: ComponentNode = {
+    ...(raw as unknown as ComponentNode),
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    name: c.string(raw, "name") ?? "",
+    description: c.string(raw, "description") ?? "",
+    status: c.oneOf(raw, "status", STATUSES),
+    inputs: c.strings(raw, "inputs"),
+    outputs: c.strings(raw, "outputs"),
+    lastUpdated: c.date(raw, "lastUpdated"),
+    tags: c.strings(raw, "tags"),
+    comments: c.each(raw, "comments", checkComment),
+    position: { x, y },
+    layer: c.number(raw, "layer"),
+  };
+  for (const field of ["owner", "futureScope", "remainingMvpScope", "blockers"] as const) {
+    c.string(raw, field, { optional: true });
+  }
+  if (raw.weeklyUpdates !== undefined) node.weeklyUpdates = c.each(raw, "weeklyUpdates", checkWeeklyUpdate);
+  if (raw.statusHistory !== undefined) node.statusHistory = c.each(raw, "statusHistory", checkStatusTransition);
+  if (raw.tasks !== undefined) node.tasks = c.each(raw, "tasks", checkTask);
+  if (raw.customFields !== undefined) node.customFields = checkCustomFields(raw.customFields, c.at("customFields"));
+  c.boolean(raw, "pinned");
+  return node;
+}
+
+function checkTag(raw: unknown, c: Checker): Tag {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as Tag; }
+  return { ...raw, id: c.string(raw, "id", { nonEmpty: true })!, label: c.string(raw, "label") ?? "", color: c.string(raw, "color") ?? "" };
+}
+
+function checkMilestone(raw: unknown, c: Checker): MilestoneView {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as MilestoneView; }
+  return {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    name: c.string(raw, "name") ?? "",
+    description: c.string(raw, "description") ?? "",
+    filterTags: c.strings(raw, "filterTags"),
+    createdAt: c.date(raw, "createdAt"),
+  };
+}
+
+function checkGroup(raw: unknown, c: Checker): NodeGroup {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as NodeGroup; }
+  const group: NodeGroup = {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    name: c.string(raw, "name") ?? "",
+    color: c.string(raw, "color") ?? "",
+    memberIds: c.strings(raw, "memberIds"),
+  };
+  c.boolean(raw, "collapsed");
+  return group;
+}
+
+function checkFieldDef(raw: unknown, c: Checker): CustomFieldDef {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as CustomFieldDef; }
+  const def: CustomFieldDef = {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    label: c.string(raw, "label", { nonEmpty: true }) ?? "",
+    type: c.oneOf(raw, "type", FIELD_TYPES),
+  };
+  if (raw.options !== undefined) def.options = c.strings(raw, "options");
+  c.boolean(raw, "showOnNode");
+  return def;
+}
+
+/** A list of statuses; an unknown one is left out when lenient. */
+function statusList(raw: Raw, field: string, c: Checker): ComponentStatus[] {
+  return c.strings(raw, field).filter((status, i) => {
+    if (STATUSES.includes(status as ComponentStatus)) return true;
+    c.reject(`${field}[${i}]`, `should be one of ${STATUSES.join(", ")}; got ${describe(status)}`);
+    return false;
+  }) as ComponentStatus[];
+}
+
+function checkWorkflow(raw: unknown, c: Checker): StatusWorkflow {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as StatusWorkflow; }
+  const transitions = {} as StatusWorkflow["transitions"];
+  if (!isObject(raw.transitions)) c.fail("transitions", `should be an object, got ${describe(raw.transitions)}`);
+  else {
+    const moves = raw.transitions;
+    STATUSES.forEach((status) => { transitions[status] = moves[status] === undefined ? [] : statusList(moves, status, c.at("transitions")); });
+  }
+  return {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    transitions,
+    noteRequiredFor: statusList(raw, "noteRequiredFor", c),
+  };
+}
+
+function checkConnection(raw: unknown, c: Checker): Connection {
+  if (!isObject(raw)) { c.fail(null, `should be an object, got ${describe(raw)}`); return raw as Connection; }
+  const conn: Connection = {
+    ...raw,
+    id: c.string(raw, "id", { nonEmpty: true })!,
+    from: c.string(raw, "from", { nonEmpty: true })!,
+    to: c.string(raw, "to", { nonEmpty: true })!,
+    type: c.oneOf(raw, "type", CONNECTION_TYPES),
+  };
+  c.string(raw, "label", { optional: true });
+  c.string(raw, "description", { optional: true });
+  c.boolean(raw, "async");
+  return conn;
+}
+
+/**
+ * Validate a collection item by item. Returns the items that passed and the
+ * issues of those that didn't; duplicate ids are an issue too. Lenient: bad
+ * entries inside an item are left out (and reported) rather than the item.
+ */
+function checkCollection<T extends { id: string }>(
+  name: string,
+  raw: unknown,
+  check: (item: unknown, c: Checker) => T,
+  lenient: boolean,
+): { items: T[]; issues: ValidationIssue[] } {
+  if (!Array.isArray(raw)) return { items: [], issues: [{ path: name, message: `should be a list, got ${describe(raw)}` }] };
+  const items: T[] = [];
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  raw.forEach((entry, i) => {
+    const dropped: ValidationIssue[] = [];
+    const c = new Checker(itemPath(name, i, entry), [], lenient ? dropped : null);
+    const item = check(entry, c);
+    if (c.issues.length === 0 && seen.has(item.id)) c.fail("id", `"${item.id}" is used more than once`);
+    if (c.issues.length > 0) {
+      issues.push(...c.issues);
+      return;
+    }
+    seen.add(item.id);
+    items.push(item);
+    issues.push(...dropped);
+  });
+  return { items, issues };
+}
+
+/**
+ * References between entities: tags on nodes, arrow ends, group members,
+ * milestone filters. A reference to something that isn't there is pruned
+ * rather than failing the load — the live map has them briefly (an undone
+ * tag, an arrow of a node just deleted), so an export can too. Returns the
+ * pruned snapshot and what was removed.
+ */
+function pruneReferences(snapshot: DocumentSnapshot): { snapshot: DocumentSnapshot; issues: ValidationIssue[] } {
+  const { components, tags, milestones, groups } = snapshot.data;
+  const nodeIds = new Set(components.map((n) => n.id));
+  const tagIds = new Set(tags.map((t) => t.id));
+  const issues: ValidationIssue[] = [];
+  const keep = (ok: boolean, path: string, message: string) => {
+    if (!ok) issues.push({ path, message: `${message} — removed` });
+    return ok;
+  };
+
+  const data: ArchitectureData = {
+    ...snapshot.data,
+    components: components.map((node, i) => ({
+      ...node,
+      tags: node.tags.filter((tagId) => keep(tagIds.has(tagId), `${itemPath("components", i, node)}.tags`, `unknown tag "${tagId}"`)),
+    })),
+    groups: groups
+      .map((group, i) => ({
+        ...group,
+        memberIds: group.memberIds.filter((id) => keep(nodeIds.has(id), `${itemPath("groups", i, group)}.memberIds`, `no node with id "${id}"`)),
+      }))
+      .filter((group) => group.memberIds.length > 0),
+    milestones: milestones.map((m, i) => ({
+      ...m,
+      filterTags: m.filterTags.filter((tagId) => keep(tagIds.has(tagId), `${itemPath("milestones", i, m)}.filterTags`, `unknown tag "${tagId}"`)),
+    })),
+  };
+  const connections = snapshot.connections.filter((conn, i) =>
+    (["from", "to"] as const).every((end) => keep(nodeIds.has(conn[end]), `connections[${i}].${end}`, `no node with id "${conn[end]}"`))
+  );
+  return { snapshot: { data, connections }, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Version of a raw document; unversioned documents are version 1. */
+function versionOf(raw: Raw): number {
+  return typeof raw.schemaVersion === "number" ? raw.schemaVersion : 1;
+}
+
+/**
+ * Migrate and validate a whole document (`{ schemaVersion?, data, connections }`).
+ * Strict: any invalid item → `ok: false`. Lenient: invalid items — and
+ * invalid entries inside otherwise valid items — are left out. Either way
+ * dangling references are pruned and reported alongside the loaded snapshot.
+ */
+export function loadDocument(raw: unknown, { strict }: { strict: boolean }): LoadResult {
+  if (!isObject(raw) || !isObject(raw.data)) {
+    return { ok: false, fromVersion: null, issues: [{ path: "data", message: "missing — this doesn't look like an architecture export" }] };
+  }
+
+  const fromVersion = versionOf(raw);
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { ok: false, fromVersion: null, issues: [{ path: "schemaVersion", message: `${describe(raw.schemaVersion)} is not a schema version` }] };
+  }
+  if (fromVersion > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      fromVersion,
+      issues: [{ path: "schemaVersion", message: `this file is schema ${fromVersion}; this app reads up to schema ${SCHEMA_VERSION}. Reload to get the latest version.` }],
+    };
+  }
+
+  let doc: RawDocument = { data: raw.data, connections: raw.connections ?? [] };
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) doc = MIGRATIONS[v](doc);
+
+  const lenient = !strict;
+  const components = checkCollection("components", doc.data.components, checkComponent, lenient);
+  const tags = checkCollection("tags", doc.data.tags, checkTag, lenient);
+  const milestones = checkCollection("milestones", doc.data.milestones, checkMilestone, lenient);
+  const groups = checkCollection("groups", doc.data.groups, checkGroup, lenient);
+  const fieldDefs = checkCollection("fieldDefs", doc.data.fieldDefs, checkFieldDef, lenient);
+  const workflows = checkCollection("workflows", doc.data.workflows, checkWorkflow, lenient);
+  const connections = checkCollection("connections", doc.connections, checkConnection, lenient);
+
+  const data: ArchitectureData = {
+    components: components.items,
+    tags: tags.items,
+    milestones: milestones.items,
+    groups: groups.items,
+    fieldDefs: fieldDefs.items,
+    workflows: workflows.items,
+  };
+  const issues = [
+    ...components.issues, ...tags.issues, ...milestones.issues, ...groups.issues, ...fieldDefs.issues,
+    ...workflows.issues, ...connections.issues,
+  ];
+  if (strict && issues.length > 0) return { ok: false, fromVersion, issues };
+
+  const pruned = pruneReferences({ data, connections: connections.items });
+  return { ok: true, snapshot: pruned.snapshot, fromVersion, issues: [...issues, ...pruned.issues] };
+}
+
+/**
+ * One entity (a Supabase row body), or null when it's invalid. Leniently:
+ * a bad comment, task or the like is left out rather than the whole row.
+ * The problems are logged.
+ */
+function loadEntity<T>(what: string, raw: unknown, check: (item: unknown, c: Checker) => T): T | null {
+  const format = (issues: ValidationIssue[]) => issues.map((i) => `${i.path}: ${i.message}`).join("; ");
+  const dropped: ValidationIssue[] = [];
+  const c = new Checker(itemPath(what, 0, raw).replace("[0]", ""), [], dropped);
+  const item = check(raw, c);
+  if (c.issues.length > 0) {
+    console.error(`[documentSchema] skipping invalid ${what}:`, format(c.issues));
+    return null;
+  }
+  if (dropped.length > 0) console.warn(`[documentSchema] loading ${what} without invalid entries:`, format(dropped));
+  return item;
+}
+
+// Rows carry no version; the legacy node migration is safe on current rows
+export const loadComponent = (raw: unknown) => loadEntity("component", migrateLegacyComponent(raw), checkComponent);
+export const loadTag = (raw: unknown) => loadEntity("tag", raw, checkTag);
+export const loadMilestone = (raw: unknown) => loadEntity("milestone", raw, checkMilestone);
+export const loadGroup = (raw: unknown) => loadEntity("group", raw, checkGroup);
+export const loadFieldDef = (raw: unknown) => loadEntity("field", raw, checkFieldDef);
+export const loadWorkflow = (raw: unknown) => loadEntity("workflow", raw, checkWorkflow);
+export const loadConnection = (raw: unknown) => loadEntity("connection", normalizeConnections([raw])[0] ?? raw, checkConnection);
+
+/** What "Export" writes. */
+export function toExportFile(snapshot: DocumentSnapshot): ExportFile {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: snapshot.data,
+    connections: snapshot.connections,
+  };
+}
@@ -0,0 +1,259 @@
+// =============================================================================
+// Edge routing for the architecture canvas.
+//
+// Works purely on world-space rects (measured from the rendered nodes), so it
+// no longer needs to know which nodes are narrow "agent" cards.
+//
+//   1. Pick the facing sides of the two rects (bottom→top when the target is
+//      below, right→left when it is beside, and so on).
+//   2. Build candidate orthogonal routes — a Z through the gap between the
+//      nodes first, then detours through channels beside any blocking node —
+//      and keep the first one that doesn't cut through another node.
+//   3. Render it either as an orthogonal polyline with rounded corners, or as
+//      a smooth cubic curve when the direct route is clear.
+//
+// Parallel edges (same pair of nodes, either direction) get spread apart via
+// `offset`, which shifts both the ports along their side and the mid channel.
+// =============================================================================
+
+import type { Connection } from "../types/architecture";
+import type { Point, Rect } from "./viewport";
+
+export type RoutingStyle = "curved" | "orthogonal";
+
+type Side = "top" | "bottom" | "left" | "right";
+
+export interface RoutedEdge {
+  path: string;
+  /** Midpoint along the route, for labels. */
+  labelPoint: Point;
+}
+
+interface RouteOptions {
+  style: RoutingStyle;
+  /** Perpendicular spread for parallel edges, in world px. */
+  offset?: number;
+}
+
+const OBSTACLE_MARGIN = 10;
+const STUB = 18;
+const CORNER_RADIUS = 10;
+export const PARALLEL_EDGE_SPACING = 16;
+
+// ---------------------------------------------------------------------------
+// Geometry helpers
+// ---------------------------------------------------------------------------
+
+function inflate(r: Rect, by: number): Rect {
+  return { x: r.x - by, y: r.y - by, width: r.width + by * 2, height: r.height + by * 2 };
+}
+
+/** Axis-aligned segment vs rect (strict interior overlap). */
+function segmentHitsRect(a: Point, b: Point, r: Rect): boolean {
+  const minX = Math.min(a.x, b.x), maxX = Math.max(a.x, b.x);
+  const minY = Math.min(a.y, b.y), maxY = Math.max(a.y, b.y);
+  return maxX > r.x && minX < r.x + r.width && maxY > r.y && minY < r.y + r.height;
+}
+
+function routeIsClear(points: Point[], obstacles: Rect[]): boolean {
+  for (let i = 0; i < points.length - 1; i++) {
+    if (obstacles.some(o => segmentHitsRect(points[i], points[i + 1], o))) return false;
+  }
+  return true;
+}
+
+function pointAlong(points: Point[], fraction: number): Point {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((s, l) => s + l, 0) * fraction;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
+/** Drop zero-length segments and merge collinear runs. */
+function simplify(points: Point[]): Point[] {
+  const out: Point[] = [];
+  for (const p of points) {
+    const last = out[out.length - 1];
+    if (last && Math.abs(last.x - p.x) < 0.5 && Math.abs(last.y - p.y) < 0.5) continue;
+    const prev = out[out.length - 2];
+    if (prev && last &&
+      ((Math.abs(prev.x - last.x) < 0.5 && Math.abs(last.x - p.x) < 0.5) ||
+       (Math.abs(prev.y - last.y) < 0.5 && Math.abs(last.y - p.y) < 0.5))) {
+      out[out.length - 1] = p;
+      continue;
+    }
+    out.push(p);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Ports
+// ---------------------------------------------------------------------------
+
+function chooseSides(from: Rect, to: Rect): [Side, Side] {
+  const gapBelow = to.y - (from.y + from.height);
+  const gapAbove = from.y - (to.y + to.height);
+  const gapRight = to.x - (from.x + from.width);
+  const gapLeft = from.x - (to.x + to.width);
+  const vertical = Math.max(gapBelow, gapAbove);
+  const horizontal = Math.max(gapRight, gapLeft);
+
+  if (vertical >= horizontal && vertical > 0) {
+    return gapBelow >= gapAbove ? ["bottom", "top"] : ["top", "bottom"];
+  }
+  if (horizontal > 0) {
+    return gapRight >= gapLeft ? ["right", "left"] : ["left", "right"];
+  }
+  // Overlapping rects: fall back on centre direction
+  const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+  const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+  if (Math.abs(dy) >= Math.abs(dx)) return dy >= 0 ? ["bottom", "top"] : ["top", "bottom"];
+  return dx >= 0 ? ["right", "left"] : ["left", "right"];
+}
+
+function port(r: Rect, side: Side, offset: number): Point {
+  // Keep ports inside the side even with many parallel edges
+  const along = (len: number) => Math.max(-len / 2 + 8, Math.min(len / 2 - 8, offset));
+  switch (side) {
+    case "top": return { x: r.x + r.width / 2 + along(r.width), y: r.y };
+    case "bottom": return { x: r.x + r.width / 2 + along(r.width), y: r.y + r.height };
+    case "left": return { x: r.x, y: r.y + r.height / 2 + along(r.height) };
+    case "right": return { x: r.x + r.width, y: r.y + r.height / 2 + along(r.height) };
+  }
+}
+
+function stub(p: Point, side: Side): Point {
+  switch (side) {
+    case "top": return { x: p.x, y: p.y - STUB };
+    case "bottom": return { x: p.x, y: p.y + STUB };
+    case "left": return { x: p.x - STUB, y: p.y };
+    case "right": return { x: p.x + STUB, y: p.y };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Candidate routes
+// ---------------------------------------------------------------------------
+
+function candidateRoutes(
+  start: Point, startSide: Side, end: Point, endSide: Side,
+  obstacles: Rect[], offset: number,
+): Point[][] {
+  const s = stub(start, startSide);
+  const e = stub(end, endSide);
+  const verticalFlow = startSide === "top" || startSide === "bottom";
+  const routes: Point[][] = [];
+
+  if (verticalFlow) {
+    // Z through a horizontal channel between the nodes; try the middle first
+    const mid = (s.y + e.y) / 2 + offset;
+    const span = Math.abs(e.y - s.y) / 2;
+    for (const shift of [0, -0.5, 0.5, -0.85, 0.85]) {
+      const y = mid + shift * span;
+      routes.push([start, s, { x: s.x, y }, { x: e.x, y }, e, end]);
+    }
+    // Detours through vertical channels beside each obstacle in the way
+    const xs = obstacles.flatMap(o => [o.x - STUB + offset, o.x + o.width + STUB + offset]);
+    xs.sort((a, b) => Math.abs(a - (s.x + e.x) / 2) - Math.abs(b - (s.x + e.x) / 2));
+    for (const x of xs) {
+      routes.push([start, s, { x, y: s.y }, { x, y: e.y }, e, end]);
+    }
+  } else {
+    const mid = (s.x + e.x) / 2 + offset;
+    const span = Math.abs(e.x - s.x) / 2;
+    for (const shift of [0, -0.5, 0.5, -0.85, 0.85]) {
+      const x = mid + shift * span;
+      routes.push([start, s, { x, y: s.y }, { x, y: e.y }, e, end]);
+    }
+    const ys = obstacles.flatMap(o => [o.y - STUB + offset, o.y + o.height + STUB + offset]);
+    ys.sort((a, b) => Math.abs(a - (s.y + e.y) / 2) - Math.abs(b - (s.y + e.y) / 2));
+    for (const y of ys) {
+      routes.push([start, s, { x: s.x, y }, { x: e.x, y }, e, end]);
+    }
+  }
+  return routes;
+}
+
+// ---------------------------------------------------------------------------
+// Path rendering
+// ---------------------------------------------------------------------------
+
+function roundedPolyline(points: Point[]): string {
+  if (points.length < 3) return `M ${points.map(p => `${p.x} ${p.y}`).join(" L ")}`;
+  let d = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const prev = points[i - 1], cur = points[i], next = points[i + 1];
+    const inLen = Math.hypot(cur.x - prev.x, cur.y - prev.y);
+    const outLen = Math.hypot(next.x - cur.x, next.y - cur.y);
+    const r = Math.min(CORNER_RADIUS, inLen / 2, outLen / 2);
+    const a = { x: cur.x - ((cur.x - prev.x) / (inLen || 1)) * r, y: cur.y - ((cur.y - prev.y) / (inLen || 1)) * r };
+    const b = { x: cur.x + ((next.x - cur.x) / (outLen || 1)) * r, y: cur.y + ((next.y - cur.y) / (outLen || 1)) * r };
+    d += ` L ${a.x} ${a.y} Q ${cur.x} ${cur.y} ${b.x} ${b.y}`;
+  }
+  const last = points[points.length - 1];
+  return `${d} L ${last.x} ${last.y}`;
+}
+
+function smoothCurve(start: Point, startSide: Side, end: Point, route: Point[]): string {
+  // Control points sit on the chosen channel so the curve follows the same gap
+  const verticalFlow = startSide === "top" || startSide === "bottom";
+  const channel = route[2];
+  const c1 = verticalFlow ? { x: start.x, y: channel.y } : { x: channel.x, y: start.y };
+  const c2 = verticalFlow ? { x: end.x, y: channel.y } : { x: channel.x, y: end.y };
+  return `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Route one edge from `from` to `to`, avoiding every rect in `obstacles`
+ * (which should not include the two endpoints).
+ */
+export function routeEdge(from: Rect, to: Rect, obstacles: Rect[], { style, offset = 0 }: RouteOptions): RoutedEdge {
+  const [startSide, endSide] = chooseSides(from, to);
+  const start = port(from, startSide, offset);
+  const end = port(to, endSide, offset);
+  const blockers = obstacles.map(o => inflate(o, OBSTACLE_MARGIN));
+
+  const candidates = candidateRoutes(start, startSide, end, endSide, blockers, offset);
+  const clearIndex = candidates.findIndex(route => routeIsClear(route, blockers));
+  const chosen = simplify(candidates[clearIndex === -1 ? 0 : clearIndex]);
+
+  // Curves only for the direct Z routes; detours stay orthogonal-with-rounded-corners
+  const path = style === "curved" && clearIndex <= 0
+    ? smoothCurve(start, startSide, end, candidates[0])
+    : roundedPolyline(chosen);
+
+  return { path, labelPoint: pointAlong(chosen, 0.5) };
+}
+
+/**
+ * Perpendicular offset for each connection so edges between the same pair of
+ * nodes (in either direction) fan out instead of drawing on top of each other.
+ */
+export function parallelEdgeOffsets(connections: Connection[]): Map<string, number> {
+  const groups = new Map<string, Connection[]>();
+  for (const c of connections) {
+    const key = [c.from, c.to].sort().join("|");
+    groups.set(key, [...(groups.get(key) ?? []), c]);
+  }
+  const offsets = new Map<string, number>();
+  groups.forEach(group => {
+    group.forEach((c, i) => {
+      offsets.set(c.id, (i - (group.length - 1) / 2) * PARALLEL_EDGE_SPACING);
+    });
+  });
+  return offsets;
+}
@@ -4,6 +4,7 @@
  * Called from the "Export PPTX" button in ExecutiveTimeline.tsx.
  */
 import PptxGenJS from 'pptxgenjs';
+import { markdownToPlainText } from './markdown';
 
 // ── Types (mirrored from ExecutiveTimeline.tsx) ───────────────────────────────
 export type Confidence = 'On track' | 'Watch' | 'At risk';
@@ -457,10 +458,7 @@ function addPhaseTableSlide(pres: PptxGenJS, board: BoardData) {
     });
     if (ph.focus) {
       // Strip markdown for plain text display
-      const plainFocus = ph.focus
-        .replace(/\*\*([^*]+)\*\*/g, '$1')
-        .replace(/^[-*]\s+/gm, '• ')
-        .replace(/\n/g, '  ');
+      const plainFocus = markdownToPlainText(ph.focus).replace(/\n/g, '  ');
       const truncFocus = plainFocus.length > 65 ? plainFocus.slice(0, 64) + '…' : plainFocus;
       slide.addText(truncFocus, {
         x: COL_X[0] + 0.14, y: ry + 0.26, w: COL_W[0] - 0.16, h: 0.22,
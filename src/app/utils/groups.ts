@@ -0,0 +1,134 @@
+// =============================================================================
+// Group (subsystem / swimlane) helpers.
+//
+// A group only stores its member ids — its container is always derived from
+// the members' measured rects, so moving a member reshapes the container and
+// moving the container just moves every member.
+//
+// When a group is collapsed its members are hidden and replaced by a single
+// summary node. Arrows into or out of the group are re-attached to that
+// summary node; arrows between two members disappear until it is expanded.
+// =============================================================================
+
+import type { ComponentNode, ComponentStatus, Connection, NodeGroup } from "../types/architecture";
+import { unionRects, type Rect } from "./viewport";
+
+export const GROUP_COLORS = [
+  "#0ea5e9", "#8b5cf6", "#f59e0b", "#10b981", "#ef4444", "#ec4899", "#6366f1", "#64748b",
+];
+
+/** Space between the member nodes and the container edge, in world px. */
+export const GROUP_PADDING = 24;
+/** Height of the label strip above the members. */
+export const GROUP_HEADER = 28;
+
+export function generateGroupId(): string {
+  return `group-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Container rect around the given member rects, including the label strip. */
+export function groupBounds(memberRects: Rect[]): Rect | null {
+  const inner = unionRects(memberRects);
+  if (!inner) return null;
+  return {
+    x: inner.x - GROUP_PADDING,
+    y: inner.y - GROUP_PADDING - GROUP_HEADER,
+    width: inner.width + GROUP_PADDING * 2,
+    height: inner.height + GROUP_PADDING * 2 + GROUP_HEADER,
+  };
+}
+
+/**
+ * Summary status for a collapsed group: any open question wins, then
+ * all-built, then in-progress as soon as anything has started.
+ */
+export function rollupStatus(members: ComponentNode[]): ComponentStatus {
+  if (members.length === 0) return "planned";
+  if (members.some((m) => m.status === "open-question")) return "open-question";
+  if (members.every((m) => m.status === "built")) return "built";
+  if (members.some((m) => m.status === "in-progress" || m.status === "built")) return "in-progress";
+  return "planned";
+}
+
+/** nodeId → id of the collapsed group that currently hides it. */
+export function collapsedMembership(groups: NodeGroup[]): Map<string, string> {
+  const hiddenBy = new Map<string, string>();
+  groups.forEach((g) => {
+    if (g.collapsed) g.memberIds.forEach((id) => hiddenBy.set(id, g.id));
+  });
+  return hiddenBy;
+}
+
+/**
+ * Re-point connections at collapsed groups. Arrows internal to a collapsed
+ * group are dropped, and several arrows that now join the same pair collapse
+ * into the first one.
+ */
+export function remapConnections(connections: Connection[], hiddenBy: Map<string, string>): Connection[] {
+  if (hiddenBy.size === 0) return connections;
+  const seen = new Set<string>();
+  const result: Connection[] = [];
+  for (const conn of connections) {
+    const from = hiddenBy.get(conn.from) ?? conn.from;
+    const to = hiddenBy.get(conn.to) ?? conn.to;
+    if (from === to) continue;
+    if (from === conn.from && to === conn.to) {
+      result.push(conn);
+      continue;
+    }
+    const key = `${from}|${to}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push({ ...conn, from, to });
+  }
+  return result;
+}
+
+/**
+ * Put `memberIds` into `group` and take them out of every other group.
+ * Returns the full next list of groups plus the ids of groups that changed
+ * or were removed (emptied), so callers can persist only those.
+ */
+export function assignMembers(
+  groups: NodeGroup[],
+  group: NodeGroup,
+): { groups: NodeGroup[]; changed: NodeGroup[]; removedIds: string[] } {
+  const members = new Set(group.memberIds);
+  const changed: NodeGroup[] = [group];
+  const removedIds: string[] = [];
+  const next: NodeGroup[] = [];
+
+  groups.forEach((g) => {
+    if (g.id === group.id) return;
+    const kept = g.memberIds.filter((id) => !members.has(id));
+    if (kept.length === g.memberIds.length) {
+      next.push(g);
+    } else if (kept.length === 0) {
+      removedIds.push(g.id);
+    } else {
+      const updated = { ...g, memberIds: kept };
+      next.push(updated);
+      changed.push(updated);
+    }
+  });
+
+  const index = groups.findIndex((g) => g.id === group.id);
+  if (index === -1) next.push(group);
+  else next.splice(Math.min(index, next.length), 0, group);
+
+  return { groups: next, changed, removedIds };
+}
+
+/**
+ * Apply a change to the groups as they are now: replace or append `changed`,
+ * drop `removedIds`, and leave every other group alone — so undoing one edit
+ * doesn't roll back groups someone else changed since.
+ */
+export function patchGroups(groups: NodeGroup[], changed: NodeGroup[], removedIds: string[]): NodeGroup[] {
+  const changedById = new Map(changed.map((g) => [g.id, g]));
+  const removed = new Set(removedIds);
+  return [
+    ...groups.filter((g) => !removed.has(g.id)).map((g) => changedById.get(g.id) ?? g),
+    ...changed.filter((g) => !groups.some((existing) => existing.id === g.id)),
+  ];
+}
@@ -0,0 +1,84 @@
+// =============================================================================
+// Impact analysis — transitive upstream / downstream sets over `connections`
+// and blocker propagation.
+//
+// Every arrow type counts as a dependency edge: `from` feeds `to`, so
+// downstream follows arrows forwards and upstream follows them backwards.
+// Cycles are fine — each walk keeps a visited set.
+//
+// A node is a *blocker source* when its status is `open-question` or it has a
+// non-empty blockers field. Every node downstream of a source is *effectively
+// blocked*, even if its own status looks healthy.
+// =============================================================================
+
+import type { ComponentNode, Connection } from "../types/architecture";
+
+export interface ImpactSets {
+  upstream: Set<string>;
+  downstream: Set<string>;
+}
+
+type Adjacency = Map<string, string[]>;
+
+function buildAdjacency(connections: Connection[], reverse: boolean): Adjacency {
+  const adj: Adjacency = new Map();
+  for (const c of connections) {
+    const [a, b] = reverse ? [c.to, c.from] : [c.from, c.to];
+    if (a === b) continue;
+    const list = adj.get(a);
+    if (list) list.push(b);
+    else adj.set(a, [b]);
+  }
+  return adj;
+}
+
+/** Everything reachable from `start` (excluding `start` itself). */
+function reachable(start: string, adj: Adjacency): Set<string> {
+  const seen = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of adj.get(id) ?? []) {
+      if (next === start || seen.has(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return seen;
+}
+
+export function computeImpact(nodeId: string, connections: Connection[]): ImpactSets {
+  return {
+    upstream: reachable(nodeId, buildAdjacency(connections, true)),
+    downstream: reachable(nodeId, buildAdjacency(connections, false)),
+  };
+}
+
+/** Arrow lies on a path through the focused node (upstream or downstream side). */
+export function isImpactEdge(conn: Connection, focusId: string, impact: ImpactSets): boolean {
+  const upSide = (id: string) => id === focusId || impact.upstream.has(id);
+  const downSide = (id: string) => id === focusId || impact.downstream.has(id);
+  return (impact.upstream.has(conn.from) && upSide(conn.to))
+    || (downSide(conn.from) && impact.downstream.has(conn.to));
+}
+
+export function isBlockerSource(node: ComponentNode): boolean {
+  return node.status === "open-question" || !!node.blockers?.trim();
+}
+
+/**
+ * Effectively blocked nodes → the blocker sources upstream of them.
+ * Sources themselves only appear if another source sits above them.
+ */
+export function computeBlockedBy(nodes: ComponentNode[], connections: Connection[]): Map<string, string[]> {
+  const forward = buildAdjacency(connections, false);
+  const blockedBy = new Map<string, string[]>();
+  for (const source of nodes.filter(isBlockerSource)) {
+    for (const id of reachable(source.id, forward)) {
+      const list = blockedBy.get(id);
+      if (list) list.push(source.id);
+      else blockedBy.set(id, [source.id]);
+    }
+  }
+  return blockedBy;
+}
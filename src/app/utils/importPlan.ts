@@ -0,0 +1,211 @@
+// =============================================================================
+// Import plan — turns "file vs current map" into a set of accept/reject
+// choices, and the accepted ones into changes App can save normally.
+//
+// Every line of the diff (utils/versionDiff.ts) gets a key:
+//   node-added:<id>   node-removed:<id>   node-field:<id>:<field>
+//   conn-added:<id>   conn-removed:<id>   conn-changed:<id>
+//   tag-added:<id>    tag-removed:<id>    tag-changed:<id>
+// The import wizard keeps the set of accepted keys; buildImportPlan() turns
+// that set into an ImportPlan. Arrows whose ends wouldn't exist afterwards
+// (their node was rejected) are left out and reported as `skipped`. Tag ids
+// that wouldn't exist afterwards (a removed tag, or one whose tag-added was
+// rejected) are stripped from the nodes the plan adds or edits, and nodes
+// that keep a removed tag are patched in the same batch.
+//
+// An accepted status change goes through the status workflow like one made
+// in the detail panel: a move the workflow doesn't allow is left out (and
+// reported as `skipped`), an allowed one also appends its statusHistory entry.
+//
+// Plans are applied by App as ordinary edits (batched node save, arrow diff
+// save, tag saves); invertImportPlan() gives the undo step.
+// =============================================================================
+
+import type { ComponentNode, Connection, StatusWorkflow, Tag } from "../types/architecture";
+import { checkTransition, transitionUpdates } from "./statusWorkflow";
+import type { DocumentSnapshot, VersionDiff } from "./versionDiff";
+
+export interface ImportPlan {
+  addNodes: ComponentNode[];
+  /** Node id → accepted field values from the file. */
+  updateNodes: Map<string, Partial<ComponentNode>>;
+  removeNodeIds: string[];
+  /** Added or edited arrows, as they should end up. */
+  putConnections: Connection[];
+  removeConnectionIds: string[];
+  /** Added or edited tags, as they should end up. */
+  putTags: Tag[];
+  removeTagIds: string[];
+}
+
+export const changeKey = {
+  nodeAdded: (id: string) => `node-added:${id}`,
+  nodeRemoved: (id: string) => `node-removed:${id}`,
+  nodeField: (id: string, field: string) => `node-field:${id}:${field}`,
+  connAdded: (id: string) => `conn-added:${id}`,
+  connRemoved: (id: string) => `conn-removed:${id}`,
+  connChanged: (id: string) => `conn-changed:${id}`,
+  tagAdded: (id: string) => `tag-added:${id}`,
+  tagRemoved: (id: string) => `tag-removed:${id}`,
+  tagChanged: (id: string) => `tag-changed:${id}`,
+};
+
+/**
+ * What starts ticked: everything the file adds or edits. Removals start
+ * unticked — a teammate's older file simply won't have what was added since.
+ */
+export function defaultSelection(diff: VersionDiff): Set<string> {
+  return new Set([
+    ...diff.nodesAdded.map((n) => changeKey.nodeAdded(n.id)),
+    ...diff.nodesChanged.flatMap((n) => n.fields.map((f) => changeKey.nodeField(n.id, f.field))),
+    ...diff.connectionsAdded.map((c) => changeKey.connAdded(c.id)),
+    ...diff.connectionsChanged.map((c) => changeKey.connChanged(c.id)),
+    ...diff.tagsAdded.map((t) => changeKey.tagAdded(t.id)),
+    ...diff.tagsChanged.map((t) => changeKey.tagChanged(t.id)),
+  ]);
+}
+
+/** Every selectable key in the diff. */
+export function allChangeKeys(diff: VersionDiff): string[] {
+  return [
+    ...defaultSelection(diff),
+    ...diff.nodesRemoved.map((n) => changeKey.nodeRemoved(n.id)),
+    ...diff.connectionsRemoved.map((c) => changeKey.connRemoved(c.id)),
+    ...diff.tagsRemoved.map((t) => changeKey.tagRemoved(t.id)),
+  ];
+}
+
+/** How accepted status changes are logged: the workflow they must follow, by whom, with what note. */
+export interface ImportTransition {
+  workflow: StatusWorkflow;
+  by: string;
+  note: string;
+}
+
+export function buildImportPlan(
+  current: DocumentSnapshot,
+  incoming: DocumentSnapshot,
+  diff: VersionDiff,
+  accepted: Set<string>,
+  transition: ImportTransition,
+): { plan: ImportPlan; skipped: string[] } {
+  const incomingNodes = new Map(incoming.data.components.map((n) => [n.id, n]));
+  const currentNodes = new Map(current.data.components.map((n) => [n.id, n]));
+  const skipped: string[] = [];
+
+  const accepts = diff.nodesAdded.filter((n) => accepted.has(changeKey.nodeAdded(n.id)));
+  const removeNodeIds = diff.nodesRemoved.filter((n) => accepted.has(changeKey.nodeRemoved(n.id))).map((n) => n.id);
+
+  const updateNodes = new Map<string, Partial<ComponentNode>>();
+  for (const change of diff.nodesChanged) {
+    const from = incomingNodes.get(change.id)!;
+    const fields = change.fields.map((f) => f.field).filter((field) => accepted.has(changeKey.nodeField(change.id, field)));
+    const patch = Object.fromEntries(fields.map((f) => [f, from[f as keyof ComponentNode]])) as Partial<ComponentNode>;
+
+    const node = currentNodes.get(change.id)!;
+    if (patch.status !== undefined && patch.status !== node.status) {
+      if (checkTransition(node.status, patch.status, transition.note, transition.workflow)) {
+        delete patch.status;
+        skipped.push(changeKey.nodeField(change.id, "status"));
+      } else {
+        const history = { ...node, statusHistory: patch.statusHistory ?? node.statusHistory };
+        Object.assign(patch, transitionUpdates(history, patch.status, transition.by, transition.note));
+      }
+    }
+    if (Object.keys(patch).length > 0) updateNodes.set(change.id, patch);
+  }
+
+  // Node ids once the plan is applied — arrows may only point at these
+  const removed = new Set(removeNodeIds);
+  const nodeIds = new Set([
+    ...current.data.components.map((n) => n.id).filter((id) => !removed.has(id)),
+    ...accepts.map((n) => n.id),
+  ]);
+
+  // Tag ids once the plan is applied — nodes may only carry these
+  const putTags = [
+    ...diff.tagsAdded.filter((t) => accepted.has(changeKey.tagAdded(t.id))),
+    ...diff.tagsChanged.filter((t) => accepted.has(changeKey.tagChanged(t.id))),
+  ];
+  const removeTagIds = diff.tagsRemoved.filter((t) => accepted.has(changeKey.tagRemoved(t.id))).map((t) => t.id);
+  const removedTags = new Set(removeTagIds);
+  const tagIds = new Set([
+    ...current.data.tags.map((t) => t.id).filter((id) => !removedTags.has(id)),
+    ...putTags.map((t) => t.id),
+  ]);
+  const knownTags = (tags: string[]) => tags.filter((id) => tagIds.has(id));
+
+  const addNodes = accepts.map((n) => ({ ...n, tags: knownTags(n.tags) }));
+  for (const [id, patch] of updateNodes) {
+    if (patch.tags) updateNodes.set(id, { ...patch, tags: knownTags(patch.tags) });
+  }
+  for (const node of current.data.components) {
+    if (removed.has(node.id) || updateNodes.get(node.id)?.tags) continue;
+    if (!node.tags.some((id) => removedTags.has(id))) continue;
+    updateNodes.set(node.id, { ...updateNodes.get(node.id), tags: knownTags(node.tags) });
+  }
+
+  const putConnections: Connection[] = [];
+  const candidates = [
+    ...diff.connectionsAdded.map((c) => [c, changeKey.connAdded(c.id)] as const),
+    ...diff.connectionsChanged.map((c) => [c, changeKey.connChanged(c.id)] as const),
+  ];
+  for (const [conn, key] of candidates) {
+    if (!accepted.has(key)) continue;
+    if (nodeIds.has(conn.from) && nodeIds.has(conn.to)) putConnections.push(conn);
+    else skipped.push(key);
+  }
+
+  // Arrows of removed nodes go with them, as with a normal delete
+  const removeConnectionIds = [...new Set([
+    ...diff.connectionsRemoved.filter((c) => accepted.has(changeKey.connRemoved(c.id))).map((c) => c.id),
+    ...current.connections.filter((c) => removed.has(c.from) || removed.has(c.to)).map((c) => c.id),
+  ])];
+
+  return {
+    plan: {
+      addNodes,
+      updateNodes,
+      removeNodeIds,
+      putConnections,
+      removeConnectionIds,
+      putTags,
+      removeTagIds,
+    },
+    skipped,
+  };
+}
+
+/** Number of entity writes in a plan (the wizard's "Apply N changes"). */
+export function planSize(plan: ImportPlan): number {
+  return plan.addNodes.length + plan.updateNodes.size + plan.removeNodeIds.length +
+    plan.putConnections.length + plan.removeConnectionIds.length +
+    plan.putTags.length + plan.removeTagIds.length;
+}
+
+/** The plan that undoes `plan`, given the state it is about to be applied to. */
+export function invertImportPlan(plan: ImportPlan, current: DocumentSnapshot): ImportPlan {
+  const nodes = new Map(current.data.components.map((n) => [n.id, n]));
+  const conns = new Map(current.connections.map((c) => [c.id, c]));
+  const tags = new Map(current.data.tags.map((t) => [t.id, t]));
+
+  return {
+    addNodes: plan.removeNodeIds.flatMap((id) => nodes.get(id) ?? []),
+    updateNodes: new Map([...plan.updateNodes].flatMap(([id, patch]) => {
+      const node = nodes.get(id);
+      if (!node) return [];
+      return [[id, Object.fromEntries(Object.keys(patch).map((f) => [f, node[f as keyof ComponentNode]])) as Partial<ComponentNode>]];
+    })),
+    removeNodeIds: plan.addNodes.map((n) => n.id),
+    putConnections: [
+      ...plan.putConnections.flatMap((c) => conns.get(c.id) ?? []),
+      ...plan.removeConnectionIds.flatMap((id) => conns.get(id) ?? []),
+    ],
+    removeConnectionIds: plan.putConnections.filter((c) => !conns.has(c.id)).map((c) => c.id),
+    putTags: [
+      ...plan.putTags.flatMap((t) => tags.get(t.id) ?? []),
+      ...plan.removeTagIds.flatMap((id) => tags.get(id) ?? []),
+    ],
+    removeTagIds: plan.putTags.filter((t) => !tags.has(t.id)).map((t) => t.id),
+  };
+}
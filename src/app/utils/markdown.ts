@@ -0,0 +1,488 @@
+// =============================================================================
+// Markdown — the one dialect every rich-text field speaks: descriptions,
+// blockers, weekly updates, comments and timeline notes.
+//
+// Supported:
+//   # / ## / ### headings        - / * / • bullets, 1. numbered lists
+//   **bold**  _italic_  ~~strike~~  `code`      > quotes      --- rules
+//   [text](https://…) links and bare https:// / www. URLs
+//   ``` fenced code blocks ```   | pipe | tables | with a --- separator row
+//   @Name mentions (only names the caller passes in — see ParseOptions)
+//
+// Parsing produces a small block/inline tree instead of HTML, so rendering
+// (components/MarkdownText.tsx) builds React elements and never injects
+// markup: raw HTML in the text shows as text, and link targets go through
+// safeHref, which only lets http(s) and mailto through.
+//
+// Single line breaks inside a paragraph are kept — the fields predate
+// Markdown and were written that way.
+//
+// The second half holds the text edits behind the editor toolbar
+// (components/MarkdownEditor.tsx); each takes the text plus the selection
+// and returns the new text plus where the selection should go.
+//
+// Usage:
+//   const blocks = parseMarkdown(node.description, { mentions: ["Ana Pérez"] });
+//   markdownToPlainText(sprint.notes)            // for slides, titles, CSV
+//   const edit = wrapSelection(text, start, end, "**");
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: MdInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "mention"; name: string }
+  | { type: "break" };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type MdBlock =
+  | { type: "heading"; level: number; content: MdInline[] }
+  | { type: "paragraph"; content: MdInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MdInline[][] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "quote"; blocks: MdBlock[] }
+  | { type: "table"; align: TableAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: "rule" };
+
+export interface ParseOptions {
+  /** Display names that `@Name` should be recognised as. Longest match wins. */
+  mentions?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Links
+// ---------------------------------------------------------------------------
+
+const SAFE_SCHEME = /^(https?:\/\/|mailto:)/i;
+
+/** A link target that is safe to put in an href, or null. Bare www. hosts get https://. */
+export function safeHref(raw: string): string | null {
+  const url = raw.trim();
+  if (/^www\./i.test(url)) return `https://${url}`;
+  return SAFE_SCHEME.test(url) ? url : null;
+}
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+const AUTOLINK = /^(https?:\/\/|www\.)[^\s<>"')\]]+/i;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+interface InlineContext {
+  /** Lower-cased, longest first. */
+  mentions: string[];
+}
+
+/** Index of the closing `marker` for a span opened at `from`, or -1. */
+function findClose(text: string, marker: string, from: number): number {
+  let i = text.indexOf(marker, from);
+  while (i !== -1 && text[i - 1] === "\\") i = text.indexOf(marker, i + 1);
+  return i;
+}
+
+function parseInlineWith(text: string, ctx: InlineContext): MdInline[] {
+  const out: MdInline[] = [];
+  let plain = "";
+  const flush = () => {
+    if (plain) out.push({ type: "text", text: plain });
+    plain = "";
+  };
+  const push = (node: MdInline) => {
+    flush();
+    out.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+    const prev = i > 0 ? text[i - 1] : "";
+
+    // \* escapes the next punctuation character
+    if (ch === "\\" && i + 1 < text.length && /[\\`*_~[\]()#>|@-]/.test(text[i + 1])) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (ch === "`") {
+      const close = text.indexOf("`", i + 1);
+      if (close > i + 1) {
+        push({ type: "code", text: text.slice(i + 1, close) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const m = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+      if (m) {
+        const href = safeHref(m[2]);
+        if (href) push({ type: "link", href, children: parseInlineWith(m[1], ctx) });
+        else plain += m[1];
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === "h" || ch === "H" || ch === "w" || ch === "W") && !WORD_CHAR.test(prev)) {
+      const m = rest.match(AUTOLINK);
+      if (m) {
+        // Sentence punctuation right after a URL is not part of it
+        const url = m[0].replace(/[.,;:!?]+$/, "");
+        push({ type: "link", href: safeHref(url)!, children: [{ type: "text", text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    if ((ch === "*" || ch === "_" || ch === "~") && rest.length > 2) {
+      const double = rest.startsWith(ch + ch);
+      const marker = double ? ch + ch : ch;
+      // Underscores inside words (snake_case) are not emphasis; ~ only comes doubled
+      const opens = !(ch === "_" && WORD_CHAR.test(prev)) && !(ch === "~" && !double);
+      const afterOpen = text[i + marker.length];
+      if (opens && afterOpen && !/\s/.test(afterOpen)) {
+        const close = findClose(text, marker, i + marker.length + 1);
+        const next = close === -1 ? "" : text[close + marker.length] ?? "";
+        if (close !== -1 && !/\s/.test(text[close - 1]) && !(ch === "_" && WORD_CHAR.test(next))) {
+          const type = ch === "~" ? "del" : double ? "strong" : "em";
+          push({ type, children: parseInlineWith(text.slice(i + marker.length, close), ctx) });
+          i = close + marker.length;
+          continue;
+        }
+      }
+    }
+
+    if (ch === "@" && !WORD_CHAR.test(prev)) {
+      const lower = rest.slice(1).toLowerCase();
+      const name = ctx.mentions.find((n) => lower.startsWith(n) && !WORD_CHAR.test(lower[n.length] ?? ""));
+      if (name) {
+        push({ type: "mention", name: rest.slice(1, 1 + name.length) });
+        i += 1 + name.length;
+        continue;
+      }
+    }
+
+    plain += ch;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+function inlineContext(options: ParseOptions): InlineContext {
+  const names = new Set((options.mentions ?? []).map((n) => n.trim().toLowerCase()).filter(Boolean));
+  return { mentions: [...names].sort((a, b) => b.length - a.length) };
+}
+
+export function parseInline(text: string, options: ParseOptions = {}): MdInline[] {
+  return parseInlineWith(text, inlineContext(options));
+}
+
+// ---------------------------------------------------------------------------
+// Block parsing
+// ---------------------------------------------------------------------------
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BULLET = /^\s*[-*+•]\s+(.*)$/;
+const NUMBERED = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function cellAlign(separator: string): TableAlign {
+  const s = separator.trim();
+  if (s.startsWith(":") && s.endsWith(":")) return "center";
+  if (s.endsWith(":")) return "right";
+  if (s.startsWith(":")) return "left";
+  return null;
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes("|") && i + 1 < lines.length && lines[i + 1].includes("-") && TABLE_SEPARATOR.test(lines[i + 1]);
+}
+
+/** Whether `line` begins some block other than a paragraph (so it ends one). */
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BULLET.test(line)
+    || NUMBERED.test(line) || QUOTE.test(line) || isTableStart(lines, i);
+}
+
+function parseBlocks(lines: string[], ctx: InlineContext): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) body.push(lines[i++]);
+      i++; // closing fence (or past the end when it is missing)
+      blocks.push({ type: "code", lang: fence[1], text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, content: parseInlineWith(heading[2], ctx) });
+      i++;
+      continue;
+    }
+
+    // Before bullets: "---" and "* * *" are rules, not list items
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(cellAlign);
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInlineWith(cells[c] ?? "", ctx)));
+      }
+      blocks.push({
+        type: "table",
+        align: header.map((_, c) => align[c] ?? null),
+        header: header.map((cell) => parseInlineWith(cell, ctx)),
+        rows,
+      });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: "quote", blocks: parseBlocks(body, ctx) });
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+    if (bullet || numbered) {
+      const ordered = !bullet;
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: MdInline[][] = [];
+      // A blank line between items keeps the list going; anything else ends it
+      while (i < lines.length) {
+        const m = lines[i].match(pattern);
+        if (m) {
+          items.push(parseInlineWith(ordered ? m[2] : m[1], ctx));
+          i++;
+        } else if (!lines[i].trim() && i + 1 < lines.length && pattern.test(lines[i + 1])) {
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: "list", ordered, start: numbered && ordered ? Number(numbered[1]) : 1, items });
+      continue;
+    }
+
+    const body: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) body.push(lines[i++]);
+    blocks.push({ type: "paragraph", content: parseInlineWith(body.join("\n"), ctx) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(text: string, options: ParseOptions = {}): MdBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"), inlineContext(options));
+}
+
+// ---------------------------------------------------------------------------
+// Plain text — for places that cannot show formatting (slides, tooltips)
+// ---------------------------------------------------------------------------
+
+export function inlineToPlainText(nodes: MdInline[]): string {
+  return nodes.map((n) => {
+    switch (n.type) {
+      case "text":
+      case "code":
+        return n.text;
+      case "mention":
+        return `@${n.name}`;
+      case "break":
+        return "\n";
+      default:
+        return inlineToPlainText(n.children);
+    }
+  }).join("");
+}
+
+function blockToPlainLines(block: MdBlock): string[] {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      return inlineToPlainText(block.content).split("\n");
+    case "list":
+      return block.items.map((item, i) => `${block.ordered ? `${block.start + i}.` : "•"} ${inlineToPlainText(item)}`);
+    case "code":
+      return block.text.split("\n");
+    case "quote":
+      return block.blocks.flatMap(blockToPlainLines);
+    case "table":
+      return [block.header, ...block.rows].map((row) => row.map(inlineToPlainText).join(" | "));
+    case "rule":
+      return [];
+  }
+}
+
+/** The text with its Markdown syntax removed, one line per line of output. */
+export function markdownToPlainText(text: string): string {
+  return parseMarkdown(text).flatMap(blockToPlainLines).join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Editing — the toolbar's text transformations
+// ---------------------------------------------------------------------------
+
+export interface TextEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wrap the selection in `before`/`after` (e.g. "**" for bold). With nothing
+ * selected the placeholder is inserted and selected; when the selection is
+ * already wrapped the markers are removed instead.
+ */
+export function wrapSelection(
+  text: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string = before,
+  placeholder = "text"
+): TextEdit {
+  if (text.slice(start - before.length, start) === before && text.slice(end, end + after.length) === after) {
+    return {
+      text: text.slice(0, start - before.length) + text.slice(start, end) + text.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+  const inner = start === end ? placeholder : text.slice(start, end);
+  return {
+    text: text.slice(0, start) + before + inner + after + text.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length,
+  };
+}
+
+/** Start and end offsets of the whole lines the selection touches. */
+function lineRange(text: string, start: number, end: number): [number, number] {
+  const from = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = text.indexOf("\n", end > start && text[end - 1] === "\n" ? end - 1 : end);
+  return [from, lineEnd === -1 ? text.length : lineEnd];
+}
+
+/**
+ * Put a prefix on every selected line ("- ", "> ", "## "…), or take it off
+ * when every line already has it. `prefix` may be numbered per line.
+ * Existing list/heading/quote markers are swapped rather than stacked.
+ */
+export function prefixLines(
+  text: string,
+  start: number,
+  end: number,
+  prefix: string | ((index: number) => string)
+): TextEdit {
+  const [from, to] = lineRange(text, start, end);
+  const lines = text.slice(from, to).split("\n");
+  const prefixFor = (i: number) => (typeof prefix === "string" ? prefix : prefix(i));
+  const pattern = typeof prefix === "string" ? null : /^\d+[.)]\s/;
+  const has = (line: string, i: number) => (pattern ? pattern.test(line) : line.startsWith(prefixFor(i)));
+
+  const remove = lines.some(has) && lines.every((line, i) => has(line, i) || !line.trim());
+  const next = lines.map((line, i) => {
+    if (!line.trim() && lines.length > 1) return line;
+    if (remove) return pattern ? line.replace(pattern, "") : line.slice(prefixFor(i).length);
+    return prefixFor(i) + line.replace(/^(\s*([-*+•]|\d+[.)])\s+|#{1,6}\s+|>\s?)/, "");
+  });
+
+  const replaced = next.join("\n");
+  const result = text.slice(0, from) + replaced + text.slice(to);
+  // Keep a caret on one line after the prefix; otherwise select the lines
+  if (start === end && lines.length === 1) {
+    const caret = Math.max(from, start + replaced.length - (to - from));
+    return { text: result, selectionStart: caret, selectionEnd: caret };
+  }
+  return { text: result, selectionStart: from, selectionEnd: from + replaced.length };
+}
+
+/**
+ * Insert a block (table, code fence) on lines of its own, replacing the
+ * selection. `select` picks the part of the block to leave selected.
+ */
+export function insertBlock(text: string, start: number, end: number, block: string, select: [number, number] = [0, 0]): TextEdit {
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  const lead = !before || before.endsWith("\n\n") ? "" : before.endsWith("\n") ? "\n" : "\n\n";
+  const trail = !after || after.startsWith("\n\n") ? "" : after.startsWith("\n") ? "\n" : "\n\n";
+  const at = start + lead.length;
+  return {
+    text: before + lead + block + trail + after,
+    selectionStart: at + select[0],
+    selectionEnd: at + select[1],
+  };
+}
+
+/** `[selection](url)` with the url placeholder selected, ready to paste over. */
+export function insertLink(text: string, start: number, end: number): TextEdit {
+  const label = start === end ? "link text" : text.slice(start, end);
+  const url = "https://";
+  const inserted = `[${label}](${url})`;
+  const urlAt = start + label.length + 3;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(end),
+    selectionStart: urlAt,
+    selectionEnd: urlAt + url.length,
+  };
+}
+
+/** Fenced code block around the selection (or an empty one). */
+export function insertCodeBlock(text: string, start: number, end: number): TextEdit {
+  const body = text.slice(start, end).replace(/\n$/, "");
+  const block = "```\n" + body + "\n```";
+  return insertBlock(text, start, end, block, [4, 4 + body.length]);
+}
+
+export const TABLE_TEMPLATE = "| Column | Column |\n| --- | --- |\n|  |  |";
+
+export function insertTable(text: string, start: number, end: number): TextEdit {
+  // Select the first header cell so typing renames it
+  return insertBlock(text, start, end, TABLE_TEMPLATE, [2, 8]);
+}
@@ -0,0 +1,152 @@
+// =============================================================================
+// Node merge — field-level three-way merge for concurrent node edits.
+//
+// base   = the node as the server had it when the local edit started
+// mine   = the local node being saved
+// theirs = the node as the server has it now
+//
+// Per field: changed on one side only → that side wins; changed identically
+// on both → fine; changed differently on both → a FieldConflict, and the
+// merge keeps *theirs* until someone picks a side (DetailPanel prompt).
+//
+// `comments`, `weeklyUpdates`, `statusHistory` and `tasks` are merged item by
+// item (matched by id), so two people adding a comment at the same time is
+// not a conflict. `customFields` is merged key by key (one value per custom
+// field), so two people filling in different fields don't clash. Layout
+// fields (position, layer) and lastUpdated are last-writer-wins: a prompt for
+// two people nudging the same box would be noise.
+// =============================================================================
+
+import type { ComponentNode } from "../types/architecture";
+
+export interface FieldConflict {
+  field: keyof ComponentNode;
+  mine: unknown;
+  theirs: unknown;
+  /** Email of whoever wrote `theirs`, when the server knows it. */
+  theirsBy: string | null;
+}
+
+export interface MergeResult {
+  merged: ComponentNode;
+  conflicts: FieldConflict[];
+}
+
+const LAST_WRITER_WINS = new Set<string>(["position", "layer", "lastUpdated"]);
+const LIST_FIELDS = new Set<string>(["comments", "weeklyUpdates", "statusHistory", "tasks"]);
+const MAP_FIELDS = new Set<string>(["customFields"]);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const CONFLICT = Symbol("conflict");
+
+/** Three-way pick for one value; `undefined` means absent on that side. */
+function pick<T>(base: T, mine: T, theirs: T): T | typeof CONFLICT {
+  if (same(mine, base)) return theirs;
+  if (same(theirs, base)) return mine;
+  if (same(mine, theirs)) return mine;
+  return CONFLICT;
+}
+
+/**
+ * Item-level merge of an id-keyed list. Keeps local order; items only
+ * `theirs` has are slotted in after their predecessor in `theirs`.
+ */
+function mergeList<T extends { id: string }>(base: T[], mine: T[], theirs: T[]): T[] | typeof CONFLICT {
+  const baseById = new Map(base.map((x) => [x.id, x]));
+  const mineById = new Map(mine.map((x) => [x.id, x]));
+  const theirsById = new Map(theirs.map((x) => [x.id, x]));
+
+  const order = mine.map((x) => x.id);
+  theirs.forEach((item, i) => {
+    if (mineById.has(item.id)) return;
+    const at = i > 0 ? order.indexOf(theirs[i - 1].id) + 1 : 0;
+    order.splice(at, 0, item.id);
+  });
+
+  const result: T[] = [];
+  for (const id of order) {
+    const value = pick(baseById.get(id), mineById.get(id), theirsById.get(id));
+    if (value === CONFLICT) return CONFLICT;
+    if (value !== undefined) result.push(value);
+  }
+  return result;
+}
+
+/** Key-level merge of a record; absent keys stay absent. */
+function mergeMap(base: Record<string, unknown>, mine: Record<string, unknown>, theirs: Record<string, unknown>): Record<string, unknown> | typeof CONFLICT {
+  const result: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)])) {
+    const value = pick(base[key], mine[key], theirs[key]);
+    if (value === CONFLICT) return CONFLICT;
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+export function mergeNode(
+  base: ComponentNode,
+  mine: ComponentNode,
+  theirs: ComponentNode,
+  theirsBy: string | null = null,
+): MergeResult {
+  const merged: Record<string, unknown> = { ...theirs };
+  const conflicts: FieldConflict[] = [];
+  const fields = new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]);
+
+  for (const key of fields) {
+    const field = key as keyof ComponentNode;
+    const b = base[field];
+    const m = mine[field];
+    const t = theirs[field];
+
+    if (LAST_WRITER_WINS.has(key)) {
+      merged[key] = same(m, b) ? t : m;
+      continue;
+    }
+
+    const value = LIST_FIELDS.has(key)
+      ? mergeList((b ?? []) as { id: string }[], (m ?? []) as { id: string }[], (t ?? []) as { id: string }[])
+      : MAP_FIELDS.has(key)
+        ? mergeMap((b ?? {}) as Record<string, unknown>, (m ?? {}) as Record<string, unknown>, (t ?? {}) as Record<string, unknown>)
+        : pick(b, m, t);
+
+    if (value === CONFLICT) {
+      conflicts.push({ field, mine: m, theirs: t, theirsBy });
+      merged[key] = t;
+    } else if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return { merged: merged as unknown as ComponentNode, conflicts };
+}
+
+/**
+ * Carry the change `from → to` over onto `current`, leaving alone every field
+ * `current` has already moved away from `from` (newer local edits).
+ */
+export function applyRemoteFields(current: ComponentNode, from: ComponentNode, to: ComponentNode): ComponentNode {
+  const next: Record<string, unknown> = { ...current };
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  for (const key of fields) {
+    const field = key as keyof ComponentNode;
+    if (!same(current[field], from[field]) || same(from[field], to[field])) continue;
+    if (to[field] === undefined) delete next[key];
+    else next[key] = to[field];
+  }
+  return next as unknown as ComponentNode;
+}
+
+/** Open conflicts per node id. */
+export type NodeConflicts = Map<string, FieldConflict[]>;
+
+/** Copy of `all` with one node's conflict list replaced (removed when empty). */
+export function withNodeConflicts(all: NodeConflicts, nodeId: string, list: FieldConflict[]): NodeConflicts {
+  const next = new Map(all);
+  if (list.length > 0) next.set(nodeId, list);
+  else next.delete(nodeId);
+  return next;
+}
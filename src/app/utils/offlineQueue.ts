@@ -0,0 +1,242 @@
+// =============================================================================
+// Offline queue — writes that couldn't reach Supabase, kept in IndexedDB.
+//
+// A save that fails (or is made while earlier ones are still waiting) is
+// stored here as a QueuedMutation instead of being dropped. The queue
+// survives reloads and is replayed oldest-first once the connection returns;
+// App.tsx runs each entry through the same row writes as a live save, so
+// queued node patches still go through the compare-and-swap + three-way
+// merge and surface conflicts in the DetailPanel prompt.
+//
+// Node patches carry the server copy + revision they were edited from. A
+// newer patch to a node that is already waiting replaces the waiting copy
+// (keeping its original base) as long as only node patches were queued since,
+// so a run of node edits replays as one write per node rather than one per
+// keystroke batch.
+//
+// Usage:
+//   await enqueueMutation({ type: "upsert", kind: "tags", items: [tag] });
+//   for (const entry of await readQueue()) {
+//     setReplaying(entry.seq);
+//     if (await replay(entry.mutation)) await removeEntry(entry.seq);
+//   }
+// =============================================================================
+
+import type { ComponentNode } from "../types/architecture";
+import type { ActivityRow, EntityKind, EntityMap, WriteFailure } from "./architectureStore";
+import type { DocumentSnapshot } from "./versionDiff";
+
+/** Server copy a queued node edit started from; null for a node created locally. */
+export interface QueuedBase {
+  node: ComponentNode;
+  revision: number;
+}
+
+type RowKind = Exclude<EntityKind, "components">;
+
+export type QueuedMutation =
+  | { type: "save-nodes"; saves: { node: ComponentNode; base: QueuedBase | null }[] }
+  | { [K in RowKind]: { type: "upsert"; kind: K; items: EntityMap[K][] } }[RowKind]
+  | { type: "delete"; kind: RowKind; ids: string[] }
+  | { type: "delete-node"; nodeId: string }
+  // Undo of an add: the tab that created the node may delete it without admin rights
+  | { type: "delete-own-node"; nodeId: string; clientId: string }
+  | { type: "replace-document"; snapshot: DocumentSnapshot }
+  | { type: "activity"; rows: ActivityRow[] };
+
+export interface QueueEntry {
+  seq: number;
+  mutation: QueuedMutation;
+  queuedAt: string;
+  /** Replays that failed while online (offline attempts aren't counted). */
+  rejections?: number;
+}
+
+const DB_NAME = "architecture-offline";
+const STORE = "mutations";
+
+/** An entry that keeps failing online is dropped after this many replays. */
+export const MAX_REJECTIONS = 5;
+
+const KIND_NOUNS: Record<RowKind, string> = {
+  connections: "arrow",
+  tags: "tag",
+  milestones: "milestone",
+  groups: "group",
+  fieldDefs: "custom field",
+  workflows: "status workflow",
+};
+
+// ---------------------------------------------------------------------------
+// IndexedDB plumbing
+// ---------------------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Entry being replayed right now — new patches must not fold into it. */
+let replayingSeq: number | null = null;
+
+export function setReplaying(seq: number | null): void {
+  replayingSeq = seq;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "seq", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Queue operations
+// ---------------------------------------------------------------------------
+
+/** Every waiting entry, oldest first. */
+export async function readQueue(): Promise<QueueEntry[]> {
+  try {
+    return (await withStore<QueueEntry[]>("readonly", (store) => store.getAll() as IDBRequest<QueueEntry[]>)) ?? [];
+  } catch (e) {
+    console.error("[offlineQueue] read failed:", e);
+    return [];
+  }
+}
+
+export async function removeEntry(seq: number): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => { store.delete(seq); });
+  } catch (e) {
+    console.error("[offlineQueue] remove failed:", e);
+  }
+}
+
+/** Replace an entry in place (same seq, so it keeps its turn). */
+async function putEntry(entry: QueueEntry): Promise<void> {
+  await withStore("readwrite", (store) => { store.put(entry); });
+}
+
+async function appendEntry(mutation: QueuedMutation): Promise<void> {
+  await withStore("readwrite", (store) => { store.add({ mutation, queuedAt: new Date().toISOString() }); });
+}
+
+/**
+ * Queue a mutation behind everything already waiting. A node patch folds into
+ * a waiting patch for the same node only when nothing but other node patches
+ * was queued after it — folding past a tag, group or arrow write (or a delete)
+ * would move the edit ahead of something it may depend on. Resolves to false when the browser wouldn't store it (IndexedDB blocked,
+ * quota exceeded), so the caller can tell the user it isn't kept.
+ */
+export async function enqueueMutation(mutation: QueuedMutation): Promise<boolean> {
+  try {
+    if (mutation.type !== "save-nodes") {
+      await appendEntry(mutation);
+      return true;
+    }
+
+    const entries = await readQueue();
+    const touched = new Map<number, QueueEntry>();
+    const leftover = mutation.saves.filter(({ node }) => {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        const queued = entries[i].mutation;
+        if (queued.type !== "save-nodes" || entries[i].seq === replayingSeq) return true;
+        const at = queued.saves.findIndex((s) => s.node.id === node.id);
+        if (at === -1) continue;
+        queued.saves[at] = { ...queued.saves[at], node };
+        touched.set(entries[i].seq, entries[i]);
+        return false;
+      }
+      return true;
+    });
+
+    for (const entry of touched.values()) await putEntry(entry);
+    if (leftover.length > 0) await appendEntry({ type: "save-nodes", saves: leftover });
+    return true;
+  } catch (e) {
+    console.error("[offlineQueue] enqueue failed:", e);
+    return false;
+  }
+}
+
+/**
+ * Note a failed replay. A write the server rejected outright is dropped at
+ * once. Other failures don't count while offline — the entry just waits —
+ * and online the entry is dropped after MAX_REJECTIONS of them, so one bad
+ * write can't block the queue. Resolves to false when the entry was dropped.
+ */
+export async function recordFailedReplay(entry: QueueEntry, failure: WriteFailure): Promise<boolean> {
+  if (failure === "retry" && !navigator.onLine) return true;
+  const rejections = (entry.rejections ?? 0) + 1;
+  try {
+    if (failure === "rejected" || rejections >= MAX_REJECTIONS) {
+      console.error(`[offlineQueue] dropping ${entry.mutation.type} #${entry.seq} after ${rejections} failed replays (${failure})`, entry.mutation);
+      await removeEntry(entry.seq);
+      return false;
+    }
+    await putEntry({ ...entry, rejections });
+  } catch (e) {
+    console.error("[offlineQueue] update failed:", e);
+  }
+  return true;
+}
+
+/** Node ids with a patch or delete waiting — held against incoming remote rows. */
+export function queuedNodeIds(entries: QueueEntry[]): Set<string> {
+  const ids = new Set<string>();
+  for (const { mutation } of entries) {
+    if (mutation.type === "save-nodes") mutation.saves.forEach((s) => ids.add(s.node.id));
+    else if (mutation.type === "delete-node" || mutation.type === "delete-own-node") ids.add(mutation.nodeId);
+    else if (mutation.type === "replace-document") mutation.snapshot.data.components.forEach((n) => ids.add(n.id));
+  }
+  return ids;
+}
+
+/** Pending-change count for the header: one per queued row write. */
+export function countChanges(entries: QueueEntry[]): number {
+  return entries.reduce((sum, { mutation }) => {
+    switch (mutation.type) {
+      case "save-nodes": return sum + mutation.saves.length;
+      case "upsert": return sum + mutation.items.length;
+      case "delete": return sum + mutation.ids.length;
+      case "delete-node":
+      case "delete-own-node": return sum + 1;
+      case "replace-document": return sum + 1;
+      // Audit rows describe changes already counted above
+      case "activity": return sum;
+    }
+  }, 0);
+}
+
+/** What a mutation changes, in words — for telling the user it was discarded. */
+export function describeMutation(mutation: QueuedMutation): string {
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+  switch (mutation.type) {
+    case "save-nodes":
+      return mutation.saves.length === 1
+        ? `your edit to "${mutation.saves[0].node.name}"`
+        : `your edits to ${count(mutation.saves.length, "node")}`;
+    case "upsert": return `your changes to ${count(mutation.items.length, KIND_NOUNS[mutation.kind])}`;
+    case "delete": return `your deletion of ${count(mutation.ids.length, KIND_NOUNS[mutation.kind])}`;
+    case "delete-node":
+    case "delete-own-node": return `your deletion of node ${mutation.nodeId}`;
+    case "replace-document": return "the version restore";
+    case "activity": return `the activity log for ${count(mutation.rows.length, "field change")}`;
+  }
+}
@@ -0,0 +1,173 @@
+// =============================================================================
+// Global full-text search over node content and Executive Timeline items.
+//
+// Everything is searched client-side: the whole architecture document is
+// already in memory, and timeline_items is a small table fetched on demand.
+//
+// Matching is case-insensitive. The whole query is tried as a phrase first;
+// if that fails, a field still matches when it contains every word of the
+// query, and the snippet is centred on the first word.
+//
+// Each hit carries the field and (for list fields) the entry id so the
+// DetailPanel can open the right tab and scroll to it — see SearchFocus.
+// =============================================================================
+
+import type { ComponentNode } from "../types/architecture";
+
+export type SearchField =
+  | "name"
+  | "description"
+  | "inputs"
+  | "outputs"
+  | "weeklyUpdates"
+  | "remainingMvpScope"
+  | "blockers"
+  | "futureScope"
+  | "comments";
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: "Name",
+  description: "Purpose",
+  inputs: "Inputs",
+  outputs: "Outputs",
+  weeklyUpdates: "Weekly update",
+  remainingMvpScope: "Remaining MVP scope",
+  blockers: "Blockers",
+  futureScope: "Future scope",
+  comments: "Comment",
+};
+
+/** DetailPanel tab that shows each field. */
+export const SEARCH_FIELD_TAB: Record<SearchField, "mvp" | "future" | "discussion"> = {
+  name: "mvp",
+  description: "mvp",
+  inputs: "mvp",
+  outputs: "mvp",
+  weeklyUpdates: "mvp",
+  remainingMvpScope: "mvp",
+  blockers: "mvp",
+  futureScope: "future",
+  comments: "discussion",
+};
+
+export interface Snippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface NodeSearchHit {
+  field: SearchField;
+  /** Weekly update / comment id for list fields. */
+  anchorId?: string;
+  /** Extra context shown next to the field label (author, date). */
+  detail?: string;
+  snippet: Snippet;
+}
+
+export interface NodeSearchResult {
+  node: ComponentNode;
+  hits: NodeSearchHit[];
+}
+
+export interface TimelineSearchItem {
+  id: string;
+  title: string;
+  detail: string | null;
+  type: string;
+}
+
+export interface TimelineSearchResult {
+  item: TimelineSearchItem;
+  snippet: Snippet;
+  field: "title" | "detail";
+}
+
+/** What the DetailPanel should reveal after a search result is picked. */
+export interface SearchFocus {
+  nodeId: string;
+  field: SearchField;
+  anchorId?: string;
+  query: string;
+  /** Changes on every pick so picking the same hit twice still scrolls. */
+  nonce: number;
+}
+
+const SNIPPET_CONTEXT = 40;
+
+/** Value of the `data-search-anchor` attribute DetailPanel puts on each field / entry. */
+export function searchAnchor(field: SearchField, anchorId?: string): string {
+  return anchorId ? `${field}:${anchorId}` : field;
+}
+
+
+function findMatch(text: string, query: string): { index: number; length: number } | null {
+  const haystack = text.toLowerCase();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return null;
+
+  const phrase = haystack.indexOf(needle);
+  if (phrase !== -1) return { index: phrase, length: needle.length };
+
+  const words = needle.split(/\s+/).filter(Boolean);
+  if (words.length < 2 || !words.every((w) => haystack.includes(w))) return null;
+  return { index: haystack.indexOf(words[0]), length: words[0].length };
+}
+
+/** Highlightable excerpt around the first match, or null when there is none. */
+export function makeSnippet(text: string, query: string): Snippet | null {
+  const flat = text.replace(/\s+/g, " ");
+  const match = findMatch(flat, query);
+  if (!match) return null;
+
+  const start = Math.max(0, match.index - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, match.index + match.length + SNIPPET_CONTEXT);
+  return {
+    before: (start > 0 ? "…" : "") + flat.slice(start, match.index),
+    match: flat.slice(match.index, match.index + match.length),
+    after: flat.slice(match.index + match.length, end) + (end < flat.length ? "…" : ""),
+  };
+}
+
+function nodeHits(node: ComponentNode, query: string): NodeSearchHit[] {
+  const hits: NodeSearchHit[] = [];
+  const add = (field: SearchField, text: string | undefined, extra: Partial<NodeSearchHit> = {}) => {
+    if (!text) return;
+    const snippet = makeSnippet(text, query);
+    if (snippet) hits.push({ field, snippet, ...extra });
+  };
+
+  add("name", node.name);
+  add("description", node.description);
+  add("inputs", node.inputs.join("\n"));
+  add("outputs", node.outputs.join("\n"));
+  node.weeklyUpdates?.forEach((u) => add("weeklyUpdates", u.text, { anchorId: u.id, detail: u.date }));
+  add("remainingMvpScope", node.remainingMvpScope);
+  add("blockers", node.blockers);
+  add("futureScope", node.futureScope);
+  node.comments.forEach((c) => add("comments", c.text, { anchorId: c.id, detail: c.author }));
+  return hits;
+}
+
+/** Matching nodes, best first (name matches, then most hits). */
+export function searchNodes(nodes: ComponentNode[], query: string): NodeSearchResult[] {
+  if (!query.trim()) return [];
+  return nodes
+    .map((node) => ({ node, hits: nodeHits(node, query) }))
+    .filter((r) => r.hits.length > 0)
+    .sort((a, b) => {
+      const nameA = a.hits[0].field === "name" ? 1 : 0;
+      const nameB = b.hits[0].field === "name" ? 1 : 0;
+      return nameB - nameA || b.hits.length - a.hits.length || a.node.name.localeCompare(b.node.name);
+    });
+}
+
+export function searchTimelineItems(items: TimelineSearchItem[], query: string): TimelineSearchResult[] {
+  if (!query.trim()) return [];
+  return items.flatMap((item): TimelineSearchResult[] => {
+    const title = makeSnippet(item.title, query);
+    if (title) return [{ item, snippet: title, field: "title" }];
+    const detail = item.detail ? makeSnippet(item.detail, query) : null;
+    return detail ? [{ item, snippet: detail, field: "detail" }] : [];
+  });
+}
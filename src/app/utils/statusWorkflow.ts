@@ -0,0 +1,211 @@
+// =============================================================================
+// Status workflow — which status changes are allowed, the log each change
+// leaves on the node, and the time-in-status numbers derived from that log.
+//
+// Every change made through the DetailPanel status editor appends a
+// StatusTransition to `node.statusHistory` (who, when, from → to, optional
+// note). The history lives in the node body, so it syncs, merges (item by id,
+// see utils/nodeMerge.ts) and versions like any other field.
+//
+// The rules — the statuses each status may move to, and the statuses that
+// need a note on the way in — are set by admins (StatusWorkflowDialog) and
+// stored with the document in `data.workflows` (architecture_workflows, see
+// 20261027_status_workflow.sql). Until an admin saves them,
+// DEFAULT_STATUS_WORKFLOW applies.
+//
+// Usage:
+//   const workflow = statusWorkflowOf(data);
+//   const problem = checkTransition(node.status, "open-question", note, workflow);
+//   if (!problem) onUpdateNode(node.id, transitionUpdates(node, "open-question", actor, note));
+//   const segments = statusTimeline(node);        // DetailPanel timeline
+//   const summary = cycleTimeSummary(components); // header badge
+// =============================================================================
+
+import type { ArchitectureData, ComponentNode, ComponentStatus, StatusTransition, StatusWorkflow } from "../types/architecture";
+
+/** The one workflow row's id in `data.workflows`. */
+export const STATUS_WORKFLOW_ID = "status";
+
+export const DEFAULT_STATUS_WORKFLOW: StatusWorkflow = {
+  id: STATUS_WORKFLOW_ID,
+  transitions: {
+    "planned":       ["in-progress", "open-question"],
+    "in-progress":   ["built", "planned", "open-question"],
+    "built":         ["in-progress", "open-question"],
+    "open-question": ["planned", "in-progress"],
+  },
+  noteRequiredFor: ["open-question"],
+};
+
+export const STATUS_LABELS: Record<ComponentStatus, string> = {
+  "planned": "Planned",
+  "in-progress": "In Progress",
+  "built": "Built",
+  "open-question": "Open Question",
+};
+
+/** The document's workflow, or the default when no admin has set one. */
+export function statusWorkflowOf(data: Pick<ArchitectureData, "workflows">): StatusWorkflow {
+  return data.workflows.find((w) => w.id === STATUS_WORKFLOW_ID) ?? DEFAULT_STATUS_WORKFLOW;
+}
+
+// ---------------------------------------------------------------------------
+// Transitions
+// ---------------------------------------------------------------------------
+
+export function allowedTransitions(from: ComponentStatus, workflow: StatusWorkflow): ComponentStatus[] {
+  return workflow.transitions[from] ?? [];
+}
+
+export function requiresNote(to: ComponentStatus, workflow: StatusWorkflow): boolean {
+  return workflow.noteRequiredFor.includes(to);
+}
+
+/** Why `from → to` can't be saved as is, or null when it can. */
+export function checkTransition(
+  from: ComponentStatus,
+  to: ComponentStatus,
+  note: string,
+  workflow: StatusWorkflow,
+): string | null {
+  if (from === to) return "Pick a different status";
+  if (!allowedTransitions(from, workflow).includes(to)) {
+    return `${STATUS_LABELS[from]} can't move straight to ${STATUS_LABELS[to]}`;
+  }
+  if (requiresNote(to, workflow) && !note.trim()) return `Moving to ${STATUS_LABELS[to]} needs a note`;
+  return null;
+}
+
+function generateTransitionId(): string {
+  return `st-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Node updates for a status change: the new status plus its log entry. */
+export function transitionUpdates(
+  node: ComponentNode,
+  to: ComponentStatus,
+  by: string,
+  note = "",
+  at: Date = new Date(),
+): Partial<ComponentNode> {
+  const entry: StatusTransition = {
+    id: generateTransitionId(),
+    from: node.status,
+    to,
+    at: at.toISOString(),
+    by,
+    ...(note.trim() ? { note: note.trim() } : {}),
+  };
+  return { status: to, statusHistory: [...(node.statusHistory ?? []), entry] };
+}
+
+/** First entry for a node created with `status` (no "from"). */
+export function initialTransition(status: ComponentStatus, by: string, at: Date = new Date()): StatusTransition {
+  return { id: generateTransitionId(), from: null, to: status, at: at.toISOString(), by };
+}
+
+// ---------------------------------------------------------------------------
+// Time in status
+// ---------------------------------------------------------------------------
+
+export interface StatusSegment {
+  status: ComponentStatus;
+  /** Null when the node was already in this status before history began. */
+  start: Date | null;
+  /** Null for the current status. */
+  end: Date | null;
+  /** ms spent; for the current status, up to `now`. Null when start is unknown. */
+  duration: number | null;
+  /** The change that entered this status (null for the pre-history segment). */
+  entered: StatusTransition | null;
+}
+
+function sortedHistory(node: ComponentNode): StatusTransition[] {
+  return [...(node.statusHistory ?? [])].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Oldest first: each status the node has been in, and for how long. */
+export function statusTimeline(node: ComponentNode, now: Date = new Date()): StatusSegment[] {
+  const history = sortedHistory(node);
+  if (history.length === 0) return [{ status: node.status, start: null, end: null, duration: null, entered: null }];
+
+  const segments: StatusSegment[] = [];
+  if (history[0].from) {
+    segments.push({ status: history[0].from, start: null, end: new Date(history[0].at), duration: null, entered: null });
+  }
+  history.forEach((entry, i) => {
+    const start = new Date(entry.at);
+    const end = i + 1 < history.length ? new Date(history[i + 1].at) : null;
+    segments.push({
+      status: entry.to,
+      start,
+      end,
+      duration: (end ?? now).getTime() - start.getTime(),
+      entered: entry,
+    });
+  });
+  return segments;
+}
+
+/** Total ms per status across the timeline (segments with an unknown start are left out). */
+export function timeInStatus(segments: StatusSegment[]): Partial<Record<ComponentStatus, number>> {
+  const totals: Partial<Record<ComponentStatus, number>> = {};
+  for (const s of segments) {
+    if (s.duration !== null) totals[s.status] = (totals[s.status] ?? 0) + s.duration;
+  }
+  return totals;
+}
+
+/**
+ * In progress → built spans for one node, in ms. A cycle starts at the first
+ * move into in-progress after the last time the node was built, so a detour
+ * through open-question counts towards the cycle rather than restarting it.
+ */
+export function cycleTimes(node: ComponentNode): number[] {
+  const cycles: number[] = [];
+  let started: number | null = null;
+  for (const entry of sortedHistory(node)) {
+    const at = new Date(entry.at).getTime();
+    if (entry.to === "in-progress" && started === null) started = at;
+    if (entry.to === "built") {
+      if (started !== null) cycles.push(at - started);
+      started = null;
+    }
+  }
+  return cycles;
+}
+
+export interface CycleTimeSummary {
+  /** Mean ms from in-progress to built; null when nothing has completed a cycle. */
+  average: number | null;
+  /** Completed cycles counted. */
+  cycles: number;
+  /** Nodes that contributed at least one cycle. */
+  nodes: number;
+}
+
+export function cycleTimeSummary(components: ComponentNode[]): CycleTimeSummary {
+  let total = 0;
+  let cycles = 0;
+  let nodes = 0;
+  for (const node of components) {
+    const spans = cycleTimes(node);
+    if (spans.length === 0) continue;
+    nodes++;
+    cycles += spans.length;
+    total += spans.reduce((sum, ms) => sum + ms, 0);
+  }
+  return { average: cycles > 0 ? total / cycles : null, cycles, nodes };
+}
+
+/** "3d 4h", "5h 10m", "12m", "<1m". */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
@@ -0,0 +1,90 @@
+// =============================================================================
+// Tasks — the per-node checklist (title, assignee, due date, done) and what
+// is derived from it: progress, overdue items and the cross-node "My tasks"
+// list.
+//
+// Tasks live in the node body (`node.tasks`), so they sync, merge (item by
+// id, see utils/nodeMerge.ts) and version like any other field. Assignees
+// are stored by email, like custom "user" fields.
+//
+// Due dates are plain days ("2026-02-12"): a task is overdue from the day
+// after its due date, in the viewer's own timezone.
+//
+// Usage:
+//   const { done, total, percent } = taskProgress(node);
+//   const late = overdueTasks(node).length;
+//   const mine = tasksAssignedTo(components, googleUser.email);
+// =============================================================================
+
+import { format } from "date-fns";
+import type { ComponentNode, NodeTask } from "../types/architecture";
+
+export function generateTaskId(): string {
+  return `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Today as "2026-02-12" in local time — compared against `due` as a string. */
+export function todayISODate(now: Date = new Date()): string {
+  return format(now, "yyyy-MM-dd");
+}
+
+export function isOverdue(task: NodeTask, today: string = todayISODate()): boolean {
+  return !task.done && !!task.due && task.due < today;
+}
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+  /** 0–100, rounded; 0 when there are no tasks. */
+  percent: number;
+}
+
+export function taskProgress(node: ComponentNode): TaskProgress {
+  const tasks = node.tasks ?? [];
+  const done = tasks.filter((t) => t.done).length;
+  return { done, total: tasks.length, percent: tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0 };
+}
+
+export function overdueTasks(node: ComponentNode, today: string = todayISODate()): NodeTask[] {
+  return (node.tasks ?? []).filter((t) => isOverdue(t, today));
+}
+
+/** Node update toggling one task, stamping or clearing `doneAt`. */
+export function toggleTaskUpdates(node: ComponentNode, taskId: string, at: Date = new Date()): Partial<ComponentNode> {
+  return {
+    tasks: (node.tasks ?? []).map((t) => {
+      if (t.id !== taskId) return t;
+      if (t.done) {
+        const reopened: NodeTask = { ...t, done: false };
+        delete reopened.doneAt;
+        return reopened;
+      }
+      return { ...t, done: true, doneAt: at.toISOString() };
+    }),
+  };
+}
+
+/** Open tasks first — overdue, then by due date (undated last) — then done ones. */
+export function compareTasks(a: NodeTask, b: NodeTask): number {
+  if (a.done !== b.done) return a.done ? 1 : -1;
+  if (!a.due !== !b.due) return a.due ? -1 : 1;
+  return (a.due ?? "").localeCompare(b.due ?? "");
+}
+
+// ---------------------------------------------------------------------------
+// My tasks
+// ---------------------------------------------------------------------------
+
+export interface AssignedTask {
+  task: NodeTask;
+  node: ComponentNode;
+}
+
+/** Every task assigned to `email` across the map, sorted with compareTasks. */
+export function tasksAssignedTo(components: ComponentNode[], email: string | null | undefined): AssignedTask[] {
+  if (!email) return [];
+  const wanted = email.toLowerCase();
+  return components
+    .flatMap((node) => (node.tasks ?? []).filter((t) => t.assignee?.toLowerCase() === wanted).map((task) => ({ task, node })))
+    .sort((a, b) => compareTasks(a.task, b.task));
+}
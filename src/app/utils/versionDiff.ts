@@ -0,0 +1,115 @@
+// =============================================================================
+// Version diff — compares two snapshots of the architecture document
+// (architecture_versions rows or the live state) for the history browser.
+//
+// Nodes, arrows, groups and tags are matched by id. For nodes that exist on
+// both sides every top-level field is compared (lastUpdated excepted — it
+// changes on every save and would make every node look edited).
+// =============================================================================
+
+import type { ArchitectureData, ComponentNode, Connection, NodeGroup, Tag } from "../types/architecture";
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface NodeChange {
+  id: string;
+  name: string;
+  fields: FieldChange[];
+}
+
+export interface VersionDiff {
+  nodesAdded: ComponentNode[];
+  nodesRemoved: ComponentNode[];
+  nodesChanged: NodeChange[];
+  connectionsAdded: Connection[];
+  connectionsRemoved: Connection[];
+  connectionsChanged: Connection[];
+  groupsAdded: NodeGroup[];
+  groupsRemoved: NodeGroup[];
+  groupsChanged: NodeGroup[];
+  tagsAdded: Tag[];
+  tagsRemoved: Tag[];
+  tagsChanged: Tag[];
+}
+
+export interface DocumentSnapshot {
+  data: ArchitectureData;
+  connections: Connection[];
+}
+
+const IGNORED_NODE_FIELDS = new Set(["lastUpdated"]);
+const MAX_VALUE_LENGTH = 140;
+
+/** Short human-readable rendering of a field value. */
+export function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  let text: string;
+  if (typeof value === "string") text = value;
+  else if (value instanceof Date) text = value.toISOString();
+  else if (Array.isArray(value) && value.every((v) => typeof v === "string")) text = value.join(", ");
+  else if (Array.isArray(value)) text = `${value.length} item${value.length === 1 ? "" : "s"}`;
+  else if (typeof value === "object" && "x" in value && "y" in value) {
+    const p = value as { x: number; y: number };
+    text = `(${Math.round(p.x)}, ${Math.round(p.y)})`;
+  } else text = JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffById<T extends { id: string }>(before: T[], after: T[]) {
+  const beforeById = new Map(before.map((x) => [x.id, x]));
+  const afterById = new Map(after.map((x) => [x.id, x]));
+  return {
+    added: after.filter((x) => !beforeById.has(x.id)),
+    removed: before.filter((x) => !afterById.has(x.id)),
+    common: after.filter((x) => beforeById.has(x.id)).map((x) => [beforeById.get(x.id)!, x] as const),
+  };
+}
+
+function diffNode(before: ComponentNode, after: ComponentNode): FieldChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  for (const key of keys) {
+    if (IGNORED_NODE_FIELDS.has(key)) continue;
+    const a = before[key as keyof ComponentNode];
+    const b = after[key as keyof ComponentNode];
+    if (same(a, b)) continue;
+    changes.push({ field: key, before: formatFieldValue(a), after: formatFieldValue(b) });
+  }
+  return changes;
+}
+
+export function diffVersions(before: DocumentSnapshot, after: DocumentSnapshot): VersionDiff {
+  const nodes = diffById(before.data.components, after.data.components);
+  const conns = diffById(before.connections, after.connections);
+  const groups = diffById(before.data.groups, after.data.groups);
+  const tags = diffById(before.data.tags, after.data.tags);
+
+  return {
+    nodesAdded: nodes.added,
+    nodesRemoved: nodes.removed,
+    nodesChanged: nodes.common
+      .map(([a, b]) => ({ id: b.id, name: b.name, fields: diffNode(a, b) }))
+      .filter((c) => c.fields.length > 0),
+    connectionsAdded: conns.added,
+    connectionsRemoved: conns.removed,
+    connectionsChanged: conns.common.filter(([a, b]) => !same(a, b)).map(([, b]) => b),
+    groupsAdded: groups.added,
+    groupsRemoved: groups.removed,
+    groupsChanged: groups.common.filter(([a, b]) => !same(a, b)).map(([, b]) => b),
+    tagsAdded: tags.added,
+    tagsRemoved: tags.removed,
+    tagsChanged: tags.common.filter(([a, b]) => !same(a, b)).map(([, b]) => b),
+  };
+}
+
+export function isEmptyDiff(diff: VersionDiff): boolean {
+  return Object.values(diff).every((list) => list.length === 0);
+}
@@ -0,0 +1,108 @@
+// =============================================================================
+// Viewport math for the architecture canvas.
+//
+// Nodes live in "world" coordinates (ComponentNode.position). The canvas shows
+// them through a viewport transform:
+//
+//   screen = world * zoom + (x, y)
+//
+// where screen coordinates are relative to the canvas container's top-left.
+// Everything here is pure so the hook and the minimap can share it.
+// =============================================================================
+
+import type { ComponentNode } from "../types/architecture";
+
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 2.5;
+export const DEFAULT_VIEWPORT: Viewport = { x: 40, y: 40, zoom: 1 };
+
+/** Rough node footprint used until real DOM measurements are available. */
+export const ESTIMATED_NODE_SIZE: Size = { width: 220, height: 100 };
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+export function screenToWorld(vp: Viewport, p: Point): Point {
+  return { x: (p.x - vp.x) / vp.zoom, y: (p.y - vp.y) / vp.zoom };
+}
+
+export function worldToScreen(vp: Viewport, p: Point): Point {
+  return { x: p.x * vp.zoom + vp.x, y: p.y * vp.zoom + vp.y };
+}
+
+/** Zoom to `nextZoom` while keeping the world point under `anchor` fixed on screen. */
+export function zoomAround(vp: Viewport, anchor: Point, nextZoom: number): Viewport {
+  const zoom = clampZoom(nextZoom);
+  const world = screenToWorld(vp, anchor);
+  return {
+    zoom,
+    x: anchor.x - world.x * zoom,
+    y: anchor.y - world.y * zoom,
+  };
+}
+
+/** Pan so that `world` sits in the centre of a container of `size`. */
+export function centerOn(vp: Viewport, world: Point, size: Size): Viewport {
+  return {
+    ...vp,
+    x: size.width / 2 - world.x * vp.zoom,
+    y: size.height / 2 - world.y * vp.zoom,
+  };
+}
+
+/** Viewport that fits `rect` inside `size`, leaving `padding` screen px on every side. */
+export function fitRect(rect: Rect, size: Size, padding = 48, maxZoom = 1.5): Viewport {
+  const availW = Math.max(1, size.width - padding * 2);
+  const availH = Math.max(1, size.height - padding * 2);
+  const zoom = clampZoom(
+    Math.min(maxZoom, availW / Math.max(1, rect.width), availH / Math.max(1, rect.height))
+  );
+  return centerOn({ x: 0, y: 0, zoom }, { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 }, size);
+}
+
+export function unionRects(rects: Rect[]): Rect | null {
+  if (rects.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const r of rects) {
+    minX = Math.min(minX, r.x);
+    minY = Math.min(minY, r.y);
+    maxX = Math.max(maxX, r.x + r.width);
+    maxY = Math.max(maxY, r.y + r.height);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** World-space rect of a node, using a measured size when one is supplied. */
+export function nodeRect(node: ComponentNode, size: Size = ESTIMATED_NODE_SIZE): Rect {
+  return { x: node.position.x, y: node.position.y, width: size.width, height: size.height };
+}
+
+/** The visible world-space rect for a container of `size`. */
+export function visibleWorldRect(vp: Viewport, size: Size): Rect {
+  const topLeft = screenToWorld(vp, { x: 0, y: 0 });
+  return { x: topLeft.x, y: topLeft.y, width: size.width / vp.zoom, height: size.height / vp.zoom };
+}
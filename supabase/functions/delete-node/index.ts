@@ -1,7 +1,8 @@
 // =============================================================================
 // Supabase Edge Function: delete-node
 //
-// Admin-only endpoint that removes a node from architecture_data.
+// Admin-only endpoint that removes a node, its connections and its group
+// memberships (public.delete_architecture_node, one transaction).
 // The caller must supply their Supabase JWT (Authorization: Bearer <token>).
 // We verify they have an active admin row in public.user_roles before touching
 // any data.
@@ -18,7 +19,6 @@
 //   400  { error: "Missing nodeId" }
 //   401  { error: "Missing or invalid Authorization header" }
 //   403  { error: "Admin access required" }
-//   404  { error: "architecture_data row not found" }
 //   500  { error: string }
 // =============================================================================
 
@@ -124,53 +124,16 @@ Deno.serve(async (req: Request) => {
     return json({ error: "Admin access required" }, 403);
   }
 
-  // ── 6. Fetch current architecture_data ──────────────────────────────────
-  const { data: row, error: fetchErr } = await adminClient
-    .from("architecture_data")
-    .select("data, connections, updated_at")
-    .eq("id", "main")
-    .single();
-
-  if (fetchErr || !row) {
-    console.error("[delete-node] Fetch error:", fetchErr?.message);
-    return json({ error: "architecture_data row not found" }, 404);
-  }
-
-  // ── 7. Patch: remove the node and any connections referencing it ─────────
-  const currentData = row.data as {
-    components: Array<{ id: string; [key: string]: unknown }>;
-    [key: string]: unknown;
-  };
-
-  const updatedData = {
-    ...currentData,
-    components: (currentData.components ?? []).filter(
-      (c: { id: string }) => c.id !== nodeId
-    ),
-  };
-
-  // Also remove connections that reference the deleted node
-  let updatedConnections = row.connections;
-  if (Array.isArray(row.connections)) {
-    updatedConnections = row.connections.filter(
-      (conn: { source?: string; target?: string }) =>
-        conn.source !== nodeId && conn.target !== nodeId
-    );
-  }
+  // ── 6. Delete the node row, its arrows and its group memberships ────────
+  // Service-role calls carry no user email; p_actor attributes the version
+  const { error: deleteErr } = await adminClient.rpc("delete_architecture_node", {
+    p_node_id: nodeId,
+    p_actor:   user.email,
+  });
 
-  // ── 8. Write back ────────────────────────────────────────────────────────
-  const { error: writeErr } = await adminClient
-    .from("architecture_data")
-    .upsert({
-      id:          "main",
-      data:        updatedData,
-      connections: updatedConnections,
-      updated_at:  new Date().toISOString(),
-    });
-
-  if (writeErr) {
-    console.error("[delete-node] Write error:", writeErr.message);
-    return json({ error: `Write failed: ${writeErr.message}` }, 500);
+  if (deleteErr) {
+    console.error("[delete-node] Delete error:", deleteErr.message);
+    return json({ error: `Delete failed: ${deleteErr.message}` }, 500);
   }
 
   console.log(`[delete-node] ✓ Deleted node ${nodeId} by ${user.email}`);
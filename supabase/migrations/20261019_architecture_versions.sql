@@ -0,0 +1,125 @@
+-- =============================================================================
+-- Migration: public.architecture_versions
+--
+-- Version history for the single architecture_data document. Every write to
+-- architecture_data (patch saves, connection saves, the delete-node function,
+-- restores) records a full snapshot of `data` + `connections`, so a bad edit
+-- or a bad JSON import can always be rolled back from the history browser.
+--
+-- Snapshots are taken by a trigger, so no client code path can skip them.
+-- Autosave writes several times a minute while someone types; consecutive
+-- saves by the same author are folded into that author's latest version for
+-- up to 10 minutes (as long as each save lands within 2 minutes of the
+-- previous one). Saves that change nothing are not recorded.
+--
+-- architecture_data.updated_by records who wrote the row: the caller's JWT
+-- email for client writes, or whatever a service-role caller (delete-node)
+-- sets explicitly.
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Author column on the live document ──────────────────────────────────
+
+alter table public.architecture_data
+  add column if not exists updated_by text;
+
+create or replace function public.stamp_architecture_author()
+returns trigger language plpgsql as $$
+begin
+  new.updated_by = coalesce(nullif(auth.jwt() ->> 'email', ''), new.updated_by);
+  return new;
+end;
+$$;
+
+drop trigger if exists architecture_data_stamp_author on public.architecture_data;
+create trigger architecture_data_stamp_author
+  before insert or update on public.architecture_data
+  for each row execute function public.stamp_architecture_author();
+
+-- ─── 2. architecture_versions table ─────────────────────────────────────────
+
+create table if not exists public.architecture_versions (
+  id                bigint      generated always as identity primary key,
+  document_id       text        not null,             -- architecture_data.id ('main')
+  data              jsonb       not null,
+  connections       jsonb,
+  saved_by          text,                              -- author email (null = unknown)
+  started_at        timestamptz not null default now(), -- first save folded into this version
+  saved_at          timestamptz not null default now(), -- last save folded into this version
+  component_count   integer     not null default 0,
+  connection_count  integer     not null default 0
+);
+
+create index if not exists architecture_versions_doc_saved_idx
+  on public.architecture_versions (document_id, saved_at desc);
+
+-- ─── 3. Snapshot trigger ─────────────────────────────────────────────────────
+
+create or replace function public.record_architecture_version()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  latest public.architecture_versions%rowtype;
+begin
+  if tg_op = 'UPDATE'
+     and new.data is not distinct from old.data
+     and new.connections is not distinct from old.connections then
+    return new;
+  end if;
+
+  select * into latest
+    from public.architecture_versions
+   where document_id = new.id
+   order by saved_at desc
+   limit 1;
+
+  if found
+     and latest.saved_by is not distinct from new.updated_by
+     and latest.saved_at   > now() - interval '2 minutes'
+     and latest.started_at > now() - interval '10 minutes' then
+    update public.architecture_versions
+       set data             = new.data,
+           connections      = new.connections,
+           saved_at         = now(),
+           component_count  = coalesce(jsonb_array_length(new.data -> 'components'), 0),
+           connection_count = coalesce(jsonb_array_length(new.connections), 0)
+     where id = latest.id;
+  else
+    insert into public.architecture_versions
+      (document_id, data, connections, saved_by, component_count, connection_count)
+    values
+      (new.id, new.data, new.connections, new.updated_by,
+       coalesce(jsonb_array_length(new.data -> 'components'), 0),
+       coalesce(jsonb_array_length(new.connections), 0));
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists architecture_data_record_version on public.architecture_data;
+create trigger architecture_data_record_version
+  after insert or update on public.architecture_data
+  for each row execute function public.record_architecture_version();
+
+-- ─── 4. Row Level Security ────────────────────────────────────────────────────
+-- Read-only for clients: rows are only ever written by the trigger above.
+-- Restoring a version is a normal write to architecture_data (admin-gated in
+-- the UI), which in turn records a new version.
+
+alter table public.architecture_versions enable row level security;
+
+create policy "Authenticated users can read architecture versions"
+  on public.architecture_versions
+  for select
+  using (auth.role() = 'authenticated');
+
+-- ─── 5. Baseline version of the current document ────────────────────────────
+
+insert into public.architecture_versions
+  (document_id, data, connections, saved_by, started_at, saved_at, component_count, connection_count)
+select id, data, connections, updated_by, updated_at, updated_at,
+       coalesce(jsonb_array_length(data -> 'components'), 0),
+       coalesce(jsonb_array_length(connections), 0)
+  from public.architecture_data
+ where not exists (select 1 from public.architecture_versions v where v.document_id = architecture_data.id);
@@ -0,0 +1,66 @@
+-- =============================================================================
+-- Migration: public.node_activity
+--
+-- Field-level audit trail for architecture nodes: who changed which field of
+-- which node, from what to what. Rows are written by the client (see
+-- useNodeActivity.ts) after an edit settles, and shown in the DetailPanel's
+-- Activity tab.
+--
+-- Values are stored as jsonb so list fields (inputs, outputs, tags) keep
+-- their shape.
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. node_activity table ──────────────────────────────────────────────────
+
+create table if not exists public.node_activity (
+  id           uuid        primary key default gen_random_uuid(),
+  node_id      text        not null,
+  field        text        not null,           -- ComponentNode key, e.g. 'status'
+  old_value    jsonb,
+  new_value    jsonb,
+  actor_id     uuid        references auth.users(id) on delete set null,
+  actor_email  text,
+  actor_name   text,
+  created_at   timestamptz not null default now()
+);
+
+-- ─── 2. Indexes ──────────────────────────────────────────────────────────────
+
+create index if not exists node_activity_node_idx on public.node_activity (node_id, created_at desc);
+
+-- ─── 3. Row Level Security ────────────────────────────────────────────────────
+
+alter table public.node_activity enable row level security;
+
+-- Any authenticated user can read the audit trail
+drop policy if exists "Authenticated users can read node activity" on public.node_activity;
+create policy "Authenticated users can read node activity"
+  on public.node_activity
+  for select
+  using (auth.role() = 'authenticated');
+
+-- Users can only record activity as themselves; rows are never edited or deleted
+drop policy if exists "Users can insert their own node activity" on public.node_activity;
+create policy "Users can insert their own node activity"
+  on public.node_activity
+  for insert
+  with check (
+    auth.role() = 'authenticated'
+    and actor_id = auth.uid()
+  );
+
+-- ─── 4. Realtime ─────────────────────────────────────────────────────────────
+-- The Activity tab subscribes to inserts for the open node.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'node_activity'
+  ) then
+    alter publication supabase_realtime add table public.node_activity;
+  end if;
+end;
+$$;
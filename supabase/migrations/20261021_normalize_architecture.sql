@@ -0,0 +1,310 @@
+-- =============================================================================
+-- Migration: split architecture_data into per-entity tables
+--
+-- Until now the whole diagram lived in one architecture_data row ('main'):
+-- every save fetched the full JSON document, merged it and wrote it back, and
+-- every realtime event shipped the entire graph. Two people saving different
+-- nodes at the same moment raced on that one blob.
+--
+-- Each entity now gets its own table with one row per item:
+--
+--   architecture_components   ComponentNode
+--   architecture_connections  Connection
+--   architecture_tags         Tag
+--   architecture_milestones   MilestoneView
+--   architecture_groups       NodeGroup
+--
+-- All five share one shape: `id` + the entity as `body` jsonb (so adding a
+-- field to a TypeScript type needs no migration), plus bookkeeping columns.
+-- `client_id` is the writing browser tab — clients use it to ignore the
+-- realtime echo of their own saves.
+--
+-- Version history (architecture_versions) keeps working: a statement-level
+-- trigger on each table assembles the document from the tables and records
+-- it with the same folding rules as before. A row-level trigger notes when a
+-- row really changed, so statements that change nothing skip the snapshot
+-- without comparing whole documents.
+--
+-- The architecture_data row is copied once (section 6) and then left alone
+-- as a read-only backup; nothing writes to it any more.
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Entity tables ────────────────────────────────────────────────────────
+
+create table if not exists public.architecture_components (
+  id          text        primary key,
+  body        jsonb       not null,
+  client_id   text,
+  updated_by  text,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create table if not exists public.architecture_connections (like public.architecture_components including all);
+create table if not exists public.architecture_tags        (like public.architecture_components including all);
+create table if not exists public.architecture_milestones  (like public.architecture_components including all);
+create table if not exists public.architecture_groups      (like public.architecture_components including all);
+
+-- Documents are assembled in creation order (matches the old array order)
+create index if not exists architecture_components_created_idx  on public.architecture_components  (created_at, id);
+create index if not exists architecture_connections_created_idx on public.architecture_connections (created_at, id);
+
+-- ─── 2. Stamp author + updated_at on every write ─────────────────────────────
+
+create or replace function public.stamp_architecture_row()
+returns trigger language plpgsql as $$
+begin
+  new.updated_at = now();
+  new.updated_by = coalesce(
+    nullif(auth.jwt() ->> 'email', ''),
+    nullif(current_setting('app.actor', true), ''),
+    new.updated_by
+  );
+  if tg_op = 'UPDATE' then
+    new.created_at = old.created_at;
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+declare t text;
+begin
+  foreach t in array array['components', 'connections', 'tags', 'milestones', 'groups'] loop
+    execute format('drop trigger if exists architecture_%1$s_stamp on public.architecture_%1$s', t);
+    execute format(
+      'create trigger architecture_%1$s_stamp before insert or update on public.architecture_%1$s
+         for each row execute function public.stamp_architecture_row()', t);
+  end loop;
+end;
+$$;
+
+-- ─── 3. Version history from the tables ──────────────────────────────────────
+
+create or replace function public.architecture_document(out data jsonb, out connections jsonb)
+language sql stable as $$
+  select
+    jsonb_build_object(
+      'components', coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_components), '[]'::jsonb),
+      'tags',       coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_tags), '[]'::jsonb),
+      'milestones', coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_milestones), '[]'::jsonb),
+      'groups',     coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_groups), '[]'::jsonb)
+    ),
+    coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_connections), '[]'::jsonb);
+$$;
+
+-- Set by a row trigger when a row's body actually changes (or a row comes or
+-- goes); read and cleared by the statement trigger below. Transaction-local.
+create or replace function public.note_architecture_change()
+returns trigger language plpgsql as $$
+begin
+  if tg_op <> 'UPDATE' or new.body is distinct from old.body then
+    perform set_config('app.architecture_changed', 'on', true);
+  end if;
+  return null;
+end;
+$$;
+
+-- Replaces the row-level version from 20261019: now runs once per statement
+-- on any entity table and snapshots the assembled document. Each save still
+-- gets its own version (or is folded into its author's latest one).
+create or replace function public.record_architecture_version()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  doc     record;
+  author  text := coalesce(nullif(auth.jwt() ->> 'email', ''), nullif(current_setting('app.actor', true), ''));
+  latest  public.architecture_versions%rowtype;
+begin
+  if coalesce(current_setting('app.architecture_changed', true), '') <> 'on' then
+    return null;
+  end if;
+  perform set_config('app.architecture_changed', '', true);
+
+  select * into doc from public.architecture_document();
+
+  select * into latest
+    from public.architecture_versions
+   where document_id = 'main'
+   order by saved_at desc
+   limit 1;
+
+  if found
+     and latest.saved_by is not distinct from author
+     and latest.saved_at   > now() - interval '2 minutes'
+     and latest.started_at > now() - interval '10 minutes' then
+    update public.architecture_versions
+       set data             = doc.data,
+           connections      = doc.connections,
+           saved_at         = now(),
+           component_count  = jsonb_array_length(doc.data -> 'components'),
+           connection_count = jsonb_array_length(doc.connections)
+     where id = latest.id;
+  else
+    insert into public.architecture_versions
+      (document_id, data, connections, saved_by, component_count, connection_count)
+    values
+      ('main', doc.data, doc.connections, author,
+       jsonb_array_length(doc.data -> 'components'),
+       jsonb_array_length(doc.connections));
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists architecture_data_record_version on public.architecture_data;
+
+do $$
+declare t text;
+begin
+  foreach t in array array['components', 'connections', 'tags', 'milestones', 'groups'] loop
+    execute format('drop trigger if exists architecture_%1$s_changed on public.architecture_%1$s', t);
+    execute format(
+      'create trigger architecture_%1$s_changed after insert or update or delete on public.architecture_%1$s
+         for each row execute function public.note_architecture_change()', t);
+    execute format('drop trigger if exists architecture_%1$s_version on public.architecture_%1$s', t);
+    execute format(
+      'create trigger architecture_%1$s_version after insert or update or delete on public.architecture_%1$s
+         for each statement execute function public.record_architecture_version()', t);
+  end loop;
+end;
+$$;
+
+-- ─── 4. Node deletion (called by the delete-node edge function) ─────────────
+-- One transaction: the node, its arrows and its group memberships go together.
+-- Groups left empty are removed.
+
+create or replace function public.delete_architecture_node(p_node_id text, p_actor text)
+returns void language plpgsql security definer set search_path = public as $$
+begin
+  perform set_config('app.actor', coalesce(p_actor, ''), true);
+
+  delete from public.architecture_components where id = p_node_id;
+
+  delete from public.architecture_connections
+   where body ->> 'from' = p_node_id or body ->> 'to' = p_node_id;
+
+  update public.architecture_groups
+     set body = jsonb_set(body, '{memberIds}',
+                  coalesce((select jsonb_agg(m) from jsonb_array_elements(body -> 'memberIds') m
+                             where m #>> '{}' <> p_node_id), '[]'::jsonb)),
+         client_id = null
+   where body -> 'memberIds' ? p_node_id;
+
+  delete from public.architecture_groups
+   where jsonb_array_length(coalesce(body -> 'memberIds', '[]'::jsonb)) = 0;
+end;
+$$;
+
+revoke execute on function public.delete_architecture_node(text, text) from public, anon, authenticated;
+grant  execute on function public.delete_architecture_node(text, text) to service_role;
+
+-- ─── 5. Row Level Security ────────────────────────────────────────────────────
+-- Same access as the old single row: any authenticated user reads and writes.
+-- Deleting a node stays admin-only — normally via delete-node, directly only
+-- when an admin restores a version that doesn't have the node.
+
+do $$
+declare t text; op text;
+begin
+  foreach t in array array['components', 'connections', 'tags', 'milestones', 'groups'] loop
+    execute format('alter table public.architecture_%s enable row level security', t);
+    foreach op in array array['read', 'insert', 'update', 'delete'] loop
+      execute format('drop policy if exists "Authenticated users can %s %s" on public.architecture_%s', op, t, t);
+    end loop;
+    execute format($p$create policy "Authenticated users can read %1$s" on public.architecture_%1$s
+                      for select using (auth.role() = 'authenticated')$p$, t);
+    execute format($p$create policy "Authenticated users can insert %1$s" on public.architecture_%1$s
+                      for insert with check (auth.role() = 'authenticated')$p$, t);
+    execute format($p$create policy "Authenticated users can update %1$s" on public.architecture_%1$s
+                      for update using (auth.role() = 'authenticated')$p$, t);
+    if t <> 'components' then
+      execute format($p$create policy "Authenticated users can delete %1$s" on public.architecture_%1$s
+                        for delete using (auth.role() = 'authenticated')$p$, t);
+    end if;
+  end loop;
+end;
+$$;
+
+drop policy if exists "Admins can delete components" on public.architecture_components;
+create policy "Admins can delete components"
+  on public.architecture_components
+  for delete
+  using (
+    exists (
+      select 1 from public.user_roles r
+      where r.user_id = auth.uid() and r.role = 'admin' and r.active = true
+    )
+  );
+
+-- ─── 6. One-time copy from architecture_data ────────────────────────────────
+-- Array order is kept through created_at. Legacy arrows stored as bare
+-- { from, to } get the same deterministic id the client derives for them
+-- (normalizeConnections in utils/connections.ts).
+
+insert into public.architecture_components (id, body, created_at)
+select c.value ->> 'id', c.value, now() + (c.ordinality * interval '1 millisecond')
+  from public.architecture_data d,
+       jsonb_array_elements(coalesce(d.data -> 'components', '[]'::jsonb)) with ordinality c
+ where d.id = 'main' and c.value ? 'id'
+on conflict (id) do nothing;
+
+insert into public.architecture_connections (id, body, created_at)
+select conn.id,
+       conn.value || jsonb_build_object('id', conn.id, 'type', coalesce(conn.value ->> 'type', 'data')),
+       now() + (conn.ordinality * interval '1 millisecond')
+  from (
+    select c.value, c.ordinality,
+           coalesce(
+             c.value ->> 'id',
+             (c.value ->> 'from') || '->' || (c.value ->> 'to') ||
+               case when row_number() over (partition by c.value ->> 'from', c.value ->> 'to' order by c.ordinality) > 1
+                    then '#' || row_number() over (partition by c.value ->> 'from', c.value ->> 'to' order by c.ordinality)
+                    else '' end
+           ) as id
+      from public.architecture_data d,
+           jsonb_array_elements(coalesce(d.connections, '[]'::jsonb)) with ordinality c
+     where d.id = 'main'
+  ) conn
+on conflict (id) do nothing;
+
+insert into public.architecture_tags (id, body, created_at)
+select t.value ->> 'id', t.value, now() + (t.ordinality * interval '1 millisecond')
+  from public.architecture_data d,
+       jsonb_array_elements(coalesce(d.data -> 'tags', '[]'::jsonb)) with ordinality t
+ where d.id = 'main' and t.value ? 'id'
+on conflict (id) do nothing;
+
+insert into public.architecture_milestones (id, body, created_at)
+select m.value ->> 'id', m.value, now() + (m.ordinality * interval '1 millisecond')
+  from public.architecture_data d,
+       jsonb_array_elements(coalesce(d.data -> 'milestones', '[]'::jsonb)) with ordinality m
+ where d.id = 'main' and m.value ? 'id'
+on conflict (id) do nothing;
+
+insert into public.architecture_groups (id, body, created_at)
+select g.value ->> 'id', g.value, now() + (g.ordinality * interval '1 millisecond')
+  from public.architecture_data d,
+       jsonb_array_elements(coalesce(d.data -> 'groups', '[]'::jsonb)) with ordinality g
+ where d.id = 'main' and g.value ? 'id'
+on conflict (id) do nothing;
+
+-- ─── 7. Realtime ─────────────────────────────────────────────────────────────
+-- Row-level events; DELETE payloads only need the primary key. Tables already
+-- in the publication are skipped so the migration can be re-run.
+
+do $$
+declare t text;
+begin
+  foreach t in array array['components', 'connections', 'tags', 'milestones', 'groups'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'architecture_' || t
+    ) then
+      execute format('alter publication supabase_realtime add table public.architecture_%s', t);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,85 @@
+-- =============================================================================
+-- Migration: component revisions + compare-and-swap node saves
+--
+-- Every architecture_components row gets a `revision` that goes up by one on
+-- each write. Clients remember the revision each node was edited from and
+-- save through save_architecture_components(), which only writes a row whose
+-- revision still matches. Rows that moved on are handed back as "stale" with
+-- their current body so the client can three-way merge (base / mine / theirs)
+-- field by field and retry — see utils/nodeMerge.ts.
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Revision column ──────────────────────────────────────────────────────
+
+alter table public.architecture_components
+  add column if not exists revision bigint not null default 1;
+
+create or replace function public.bump_component_revision()
+returns trigger language plpgsql as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.revision = old.revision + 1;
+  else
+    new.revision = 1;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists architecture_components_revision on public.architecture_components;
+create trigger architecture_components_revision
+  before insert or update on public.architecture_components
+  for each row execute function public.bump_component_revision();
+
+-- ─── 2. Compare-and-swap save ────────────────────────────────────────────────
+-- p_rows: [{ id, body, baseRevision }] — baseRevision null for a node the
+-- client created. Runs as the caller, so the table's RLS still applies.
+--
+-- Returns:
+--   { saved: [{ id, revision }],
+--     stale: [{ id, body, revision, updatedBy }] }   body null = deleted
+
+create or replace function public.save_architecture_components(p_rows jsonb, p_client_id text)
+returns jsonb language plpgsql as $$
+declare
+  r        jsonb;
+  cur      public.architecture_components%rowtype;
+  base_rev bigint;
+  new_rev  bigint;
+  saved    jsonb := '[]'::jsonb;
+  stale    jsonb := '[]'::jsonb;
+begin
+  for r in select value from jsonb_array_elements(p_rows) loop
+    base_rev := (r ->> 'baseRevision')::bigint;
+
+    select * into cur from public.architecture_components where id = r ->> 'id' for update;
+
+    if not found then
+      if base_rev is null then
+        insert into public.architecture_components (id, body, client_id)
+        values (r ->> 'id', r -> 'body', p_client_id)
+        returning revision into new_rev;
+        saved := saved || jsonb_build_object('id', r ->> 'id', 'revision', new_rev);
+      else
+        -- Edited from a revision that has since been deleted
+        stale := stale || jsonb_build_object('id', r ->> 'id', 'body', null, 'revision', null, 'updatedBy', null);
+      end if;
+    elsif base_rev is not distinct from cur.revision then
+      update public.architecture_components
+         set body = r -> 'body', client_id = p_client_id
+       where id = cur.id
+      returning revision into new_rev;
+      saved := saved || jsonb_build_object('id', cur.id, 'revision', new_rev);
+    else
+      stale := stale || jsonb_build_object(
+        'id', cur.id, 'body', cur.body, 'revision', cur.revision, 'updatedBy', cur.updated_by);
+    end if;
+  end loop;
+
+  return jsonb_build_object('saved', saved, 'stale', stale);
+end;
+$$;
+
+grant execute on function public.save_architecture_components(jsonb, text) to authenticated;
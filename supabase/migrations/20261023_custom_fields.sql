@@ -0,0 +1,92 @@
+-- =============================================================================
+-- Migration: admin-defined custom fields
+--
+-- Admins define extra structured fields (repo URL, runtime, SLA, …) that every
+-- node can carry. The definitions get their own entity table with the same
+-- shape as the others (id + body jsonb, see 20261021_normalize_architecture):
+--
+--   architecture_field_defs   CustomFieldDef
+--
+-- Values live on the nodes themselves (ComponentNode.customFields, keyed by
+-- definition id), so they need no schema change.
+--
+-- Everyone reads the definitions; only admins may create, change or delete
+-- them. They are part of the versioned document (data.fieldDefs).
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Table ────────────────────────────────────────────────────────────────
+
+create table if not exists public.architecture_field_defs (like public.architecture_components including all);
+
+-- `like … including all` copied components' revision column; definitions don't use it
+alter table public.architecture_field_defs drop column if exists revision;
+
+create index if not exists architecture_field_defs_created_idx on public.architecture_field_defs (created_at, id);
+
+drop trigger if exists architecture_field_defs_stamp on public.architecture_field_defs;
+create trigger architecture_field_defs_stamp before insert or update on public.architecture_field_defs
+  for each row execute function public.stamp_architecture_row();
+
+-- ─── 2. Version history includes the definitions ─────────────────────────────
+
+create or replace function public.architecture_document(out data jsonb, out connections jsonb)
+language sql stable as $$
+  select
+    jsonb_build_object(
+      'components', coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_components), '[]'::jsonb),
+      'tags',       coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_tags), '[]'::jsonb),
+      'milestones', coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_milestones), '[]'::jsonb),
+      'groups',     coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_groups), '[]'::jsonb),
+      'fieldDefs',  coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_field_defs), '[]'::jsonb)
+    ),
+    coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_connections), '[]'::jsonb);
+$$;
+
+drop trigger if exists architecture_field_defs_changed on public.architecture_field_defs;
+create trigger architecture_field_defs_changed after insert or update or delete on public.architecture_field_defs
+  for each row execute function public.note_architecture_change();
+
+drop trigger if exists architecture_field_defs_version on public.architecture_field_defs;
+create trigger architecture_field_defs_version after insert or update or delete on public.architecture_field_defs
+  for each statement execute function public.record_architecture_version();
+
+-- ─── 3. Row Level Security ────────────────────────────────────────────────────
+
+alter table public.architecture_field_defs enable row level security;
+
+drop policy if exists "Authenticated users can read field_defs" on public.architecture_field_defs;
+create policy "Authenticated users can read field_defs"
+  on public.architecture_field_defs
+  for select using (auth.role() = 'authenticated');
+
+drop policy if exists "Admins can write field_defs" on public.architecture_field_defs;
+create policy "Admins can write field_defs"
+  on public.architecture_field_defs
+  for all
+  using (
+    exists (
+      select 1 from public.user_roles r
+      where r.user_id = auth.uid() and r.role = 'admin' and r.active = true
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.user_roles r
+      where r.user_id = auth.uid() and r.role = 'admin' and r.active = true
+    )
+  );
+
+-- ─── 4. Realtime ─────────────────────────────────────────────────────────────
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'architecture_field_defs'
+  ) then
+    alter publication supabase_realtime add table public.architecture_field_defs;
+  end if;
+end;
+$$;
@@ -0,0 +1,80 @@
+-- =============================================================================
+-- Migration: let members take back nodes they just added
+--
+-- Deleting a node is admin-only (the delete-node Edge Function). Undoing
+-- "add node", or undoing an import that added nodes, is a delete too — for a
+-- member it came back 403, so the node vanished locally and reappeared on
+-- the next fetch.
+--
+-- Each component row now remembers who created it and from which browser
+-- tab (the client_id of the insert). delete_own_architecture_node() deletes
+-- a node for its creator from that same tab, i.e. within the session that
+-- added it (undo history doesn't survive a reload either). Admins may use it
+-- for any node. The cleanup is the same as delete-node's: the node's arrows
+-- go and it is pruned from groups.
+--
+-- Nodes created before this migration have no creator and stay admin-only.
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Creator columns ──────────────────────────────────────────────────────
+
+alter table public.architecture_components
+  add column if not exists created_by        text,
+  add column if not exists created_client_id text;
+
+-- Set on insert, never changed afterwards
+create or replace function public.stamp_component_creator()
+returns trigger language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by = nullif(auth.jwt() ->> 'email', '');
+    new.created_client_id = new.client_id;
+  else
+    new.created_by = old.created_by;
+    new.created_client_id = old.created_client_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists architecture_components_creator on public.architecture_components;
+create trigger architecture_components_creator
+  before insert or update on public.architecture_components
+  for each row execute function public.stamp_component_creator();
+
+-- ─── 2. Delete a node you added ──────────────────────────────────────────────
+-- Refused with insufficient_privilege (HTTP 403) for anyone else's node, so
+-- the client drops the write instead of retrying it. A node that is already
+-- gone counts as deleted.
+
+create or replace function public.delete_own_architecture_node(p_node_id text, p_client_id text)
+returns void language plpgsql security definer set search_path = public as $$
+declare
+  me   text := nullif(auth.jwt() ->> 'email', '');
+  node public.architecture_components%rowtype;
+begin
+  select * into node from public.architecture_components where id = p_node_id;
+  if not found then
+    return;
+  end if;
+
+  -- coalesce: a node with no recorded creator must not slip through as null
+  if not (
+    coalesce(node.created_by = me and node.created_client_id = p_client_id, false)
+    or exists (
+      select 1 from public.user_roles r
+      where r.user_id = auth.uid() and r.role = 'admin' and r.active = true
+    )
+  ) then
+    raise exception 'Node % was not added by this session', p_node_id
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  perform public.delete_architecture_node(p_node_id, me);
+end;
+$$;
+
+revoke execute on function public.delete_own_architecture_node(text, text) from public, anon;
+grant  execute on function public.delete_own_architecture_node(text, text) to authenticated;
@@ -0,0 +1,30 @@
+-- =============================================================================
+-- Migration: node_activity actor stamped by the server
+--
+-- The audit trail's actor_email and actor_name were whatever the client sent;
+-- the insert policy only checked actor_id. A trigger now sets all three from
+-- the caller's JWT, so a row always names who really wrote it.
+--
+-- Rows may arrive late — the client queues them with its other writes while
+-- offline — so created_at comes from the client, but never later than now.
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Stamp the actor ──────────────────────────────────────────────────────
+
+create or replace function public.stamp_node_activity_actor()
+returns trigger language plpgsql as $$
+begin
+  new.actor_id    = auth.uid();
+  new.actor_email = nullif(auth.jwt() ->> 'email', '');
+  new.actor_name  = nullif(auth.jwt() -> 'user_metadata' ->> 'full_name', '');
+  new.created_at  = least(coalesce(new.created_at, now()), now());
+  return new;
+end;
+$$;
+
+drop trigger if exists node_activity_actor on public.node_activity;
+create trigger node_activity_actor
+  before insert on public.node_activity
+  for each row execute function public.stamp_node_activity_actor();
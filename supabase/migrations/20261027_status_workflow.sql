@@ -0,0 +1,94 @@
+-- =============================================================================
+-- Migration: admin-set status workflow
+--
+-- The allowed status changes (which status may move to which, and which need
+-- a note) were a constant in the client. Admins now set them, and they are
+-- stored with the document in their own entity table, same shape as the
+-- others (id + body jsonb, see 20261021_normalize_architecture):
+--
+--   architecture_workflows   StatusWorkflow (one row, id 'status')
+--
+-- With no row the client's default workflow applies.
+--
+-- Everyone reads the workflow; only admins may change it. It is part of the
+-- versioned document (data.workflows).
+--
+-- Run this in the Supabase SQL Editor (Dashboard → SQL Editor → New query).
+-- =============================================================================
+
+-- ─── 1. Table ────────────────────────────────────────────────────────────────
+
+create table if not exists public.architecture_workflows (like public.architecture_components including all);
+
+-- `like … including all` copied components' extra columns; workflows don't use them
+alter table public.architecture_workflows
+  drop column if exists revision,
+  drop column if exists created_by,
+  drop column if exists created_client_id;
+
+drop trigger if exists architecture_workflows_stamp on public.architecture_workflows;
+create trigger architecture_workflows_stamp before insert or update on public.architecture_workflows
+  for each row execute function public.stamp_architecture_row();
+
+-- ─── 2. Version history includes the workflow ────────────────────────────────
+
+create or replace function public.architecture_document(out data jsonb, out connections jsonb)
+language sql stable as $$
+  select
+    jsonb_build_object(
+      'components', coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_components), '[]'::jsonb),
+      'tags',       coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_tags), '[]'::jsonb),
+      'milestones', coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_milestones), '[]'::jsonb),
+      'groups',     coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_groups), '[]'::jsonb),
+      'fieldDefs',  coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_field_defs), '[]'::jsonb),
+      'workflows',  coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_workflows), '[]'::jsonb)
+    ),
+    coalesce((select jsonb_agg(body order by created_at, id) from public.architecture_connections), '[]'::jsonb);
+$$;
+
+drop trigger if exists architecture_workflows_changed on public.architecture_workflows;
+create trigger architecture_workflows_changed after insert or update or delete on public.architecture_workflows
+  for each row execute function public.note_architecture_change();
+
+drop trigger if exists architecture_workflows_version on public.architecture_workflows;
+create trigger architecture_workflows_version after insert or update or delete on public.architecture_workflows
+  for each statement execute function public.record_architecture_version();
+
+-- ─── 3. Row Level Security ────────────────────────────────────────────────────
+
+alter table public.architecture_workflows enable row level security;
+
+drop policy if exists "Authenticated users can read workflows" on public.architecture_workflows;
+create policy "Authenticated users can read workflows"
+  on public.architecture_workflows
+  for select using (auth.role() = 'authenticated');
+
+drop policy if exists "Admins can write workflows" on public.architecture_workflows;
+create policy "Admins can write workflows"
+  on public.architecture_workflows
+  for all
+  using (
+    exists (
+      select 1 from public.user_roles r
+      where r.user_id = auth.uid() and r.role = 'admin' and r.active = true
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.user_roles r
+      where r.user_id = auth.uid() and r.role = 'admin' and r.active = true
+    )
+  );
+
+-- ─── 4. Realtime ─────────────────────────────────────────────────────────────
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'architecture_workflows'
+  ) then
+    alter publication supabase_realtime add table public.architecture_workflows;
+  end if;
+end;
+$$;